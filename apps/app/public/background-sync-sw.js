@@ -0,0 +1,269 @@
+/**
+ * Background sync for the RxDB sync queues — loaded into the generated
+ * service worker through `workbox.importScripts` (see vite.config.ts).
+ *
+ * While a tab is open, SyncQueueService drains the queues itself. When the
+ * browser fires `sync` (connectivity returned) or `periodicsync` and no
+ * window is open, this script pushes due queue items with the access token
+ * BackgroundSyncService stored, and removes the pushed items from the queue
+ * collections' IndexedDB tables.
+ *
+ * Deliberately conservative — anything the tab handles with more context is
+ * left in the queue for it:
+ * - items with a failed/conflict/held status or a backoff not yet due
+ * - entity items whose server row changed after their base version (the tab
+ *   runs field-level conflict detection and parks them)
+ * - pet upserts (post-save hooks run in the tab)
+ * - child items referencing an entity (parent or other FK) that is still
+ *   queued, whatever the entity item's status
+ * - anything the server rejects — retries and parking stay with the tab
+ *
+ * Constants mirror packages/rxdb-store/src/utils/background-sync.helpers.ts.
+ */
+(() => {
+  const STATE_DB_NAME = 'breedhub-background-sync';
+  const STATE_STORE = 'state';
+  const SYNC_TAG = 'breedhub-sync-queue';
+  const SYNC_LOCK = 'breedhub-sync-queue';
+  const DOCS_TABLE = 'docs';
+  const BATCH_SIZE = 10;
+  const PARKED_STATUSES = ['failed', 'conflict', 'held'];
+  const SESSION_EXPIRY_MARGIN_MS = 60_000;
+  /** Entity types with post-save hooks that need the app (see entity-hooks.ts) */
+  const TAB_ONLY_UPSERT_TYPES = new Set(['pet']);
+
+  function requestToPromise(request) {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  function transactionDone(tx) {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /** Open an existing database; resolves null instead of creating it. */
+  function openExisting(name) {
+    return new Promise((resolve) => {
+      const request = indexedDB.open(name);
+      request.onupgradeneeded = () => request.transaction.abort();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  async function readState() {
+    const db = await openExisting(STATE_DB_NAME);
+    if (!db) return {};
+    try {
+      if (!db.objectStoreNames.contains(STATE_STORE)) return {};
+      const store = db.transaction(STATE_STORE, 'readonly').objectStore(STATE_STORE);
+      const [config, session] = await Promise.all([
+        requestToPromise(store.get('config')),
+        requestToPromise(store.get('session')),
+      ]);
+      return { config, session };
+    } finally {
+      db.close();
+    }
+  }
+
+  function isSessionUsable(session, now) {
+    return !!session && session.expiresAt - SESSION_EXPIRY_MARGIN_MS > now;
+  }
+
+  function isQueueItemDue(doc, now) {
+    if (doc._deleted === '1' || doc._deleted === true) return false;
+    if (PARKED_STATUSES.includes(doc.status ?? '')) return false;
+    return !doc.nextAttemptAt || doc.nextAttemptAt <= now;
+  }
+
+  function isChildItemHeld(row, queuedEntityIds, tableReferences) {
+    const columns = [
+      `${row.entityType}_id`,
+      ...Object.keys(tableReferences[row.tableType.replace(/_with_\w+$/, '')] ?? {}),
+    ];
+    return columns.some((column) => {
+      const entityId = row.payload[column];
+      return typeof entityId === 'string' && queuedEntityIds.has(entityId);
+    });
+  }
+
+  /** Live queue items of one RxDB collection, whatever their status. */
+  async function readLiveItems(db) {
+    const store = db.transaction(DOCS_TABLE, 'readonly').objectStore(DOCS_TABLE);
+    const docs = await requestToPromise(store.getAll());
+    return docs.filter((doc) => doc._deleted !== '1' && doc._deleted !== true);
+  }
+
+  /** Live, due queue items of one RxDB collection, oldest first. */
+  async function readDueItems(db, now) {
+    const store = db.transaction(DOCS_TABLE, 'readonly').objectStore(DOCS_TABLE);
+    const docs = await requestToPromise(store.getAll());
+    return docs
+      .filter((doc) => isQueueItemDue(doc, now))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async function removeItems(db, ids) {
+    if (ids.length === 0) return;
+    const tx = db.transaction(DOCS_TABLE, 'readwrite');
+    const store = tx.objectStore(DOCS_TABLE);
+    for (const id of ids) store.delete(id);
+    await transactionDone(tx);
+  }
+
+  function headers(config, session, extra) {
+    return {
+      apikey: config.supabaseAnonKey,
+      Authorization: `Bearer ${session.accessToken}`,
+      'Content-Type': 'application/json',
+      ...extra,
+    };
+  }
+
+  /** Same request supabase-js `upsert(rows, { onConflict })` sends. */
+  async function upsertRows(config, session, table, rows, onConflict) {
+    const url = new URL(`${config.supabaseUrl}/rest/v1/${table}`);
+    url.searchParams.set('on_conflict', onConflict);
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    url.searchParams.set('columns', columns.map((c) => `"${c}"`).join(','));
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: headers(config, session, { Prefer: 'resolution=merge-duplicates,return=minimal' }),
+      body: JSON.stringify(rows),
+    });
+    return response.ok;
+  }
+
+  async function softDeleteRow(config, session, table, payload) {
+    const url = new URL(`${config.supabaseUrl}/rest/v1/${table}`);
+    url.searchParams.set('id', `eq.${payload.id}`);
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers: headers(config, session, { Prefer: 'return=minimal' }),
+      body: JSON.stringify({
+        deleted: true,
+        updated_at: new Date().toISOString(),
+        ...(payload.updated_by && { updated_by: payload.updated_by }),
+      }),
+    });
+    return response.ok;
+  }
+
+  /** Ids of rows saved on the server after the item's base version. */
+  async function findDivergedIds(config, session, table, items) {
+    const checked = items.filter((item) => item.baseUpdatedAt);
+    if (checked.length === 0) return new Set();
+    const url = new URL(`${config.supabaseUrl}/rest/v1/${table}`);
+    url.searchParams.set('select', 'id,updated_at');
+    url.searchParams.set('id', `in.(${checked.map((item) => item.entityId).join(',')})`);
+    const response = await fetch(url, { headers: headers(config, session) });
+    // Can't tell — leave them all for the tab
+    if (!response.ok) return new Set(checked.map((item) => item.entityId));
+    const serverRows = new Map((await response.json()).map((row) => [String(row.id), row]));
+    const diverged = new Set();
+    for (const item of checked) {
+      const serverRow = serverRows.get(item.entityId);
+      if (!serverRow) continue;
+      const base = new Date(item.baseUpdatedAt).getTime();
+      const server = new Date(serverRow.updated_at).getTime();
+      if (!Number.isNaN(base) && !Number.isNaN(server) && server > base) {
+        diverged.add(item.entityId);
+      }
+    }
+    return diverged;
+  }
+
+  function groupBy(items, keyOf) {
+    const groups = new Map();
+    for (const item of items) {
+      const key = keyOf(item);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(item);
+    }
+    return groups;
+  }
+
+  async function drainEntityQueue(config, session, db) {
+    const items = (await readDueItems(db, Date.now())).filter(
+      (item) => item.operation === 'delete' || !TAB_ONLY_UPSERT_TYPES.has(item.entityType),
+    );
+    const groups = groupBy(items, (item) => `${item.entityType}|${item.operation}|${item.onConflict}`);
+    for (const group of groups.values()) {
+      const { entityType, operation, onConflict } = group[0];
+      for (let i = 0; i < group.length; i += BATCH_SIZE) {
+        const batch = group.slice(i, i + BATCH_SIZE);
+        const diverged = await findDivergedIds(config, session, entityType, batch);
+        const safe = batch.filter((item) => !diverged.has(item.entityId));
+        if (safe.length === 0) continue;
+        const rows = safe.map((item) =>
+          operation === 'delete' ? { ...item.payload, deleted: true } : item.payload,
+        );
+        if (!(await upsertRows(config, session, entityType, rows, onConflict))) break;
+        await removeItems(db, safe.map((item) => item.id));
+      }
+    }
+  }
+
+  async function drainChildQueue(config, session, db, entityDb) {
+    // A config stored before the FK map existed can't tell which rows are safe
+    const tableReferences = config.childTableReferences;
+    if (!tableReferences) return;
+    const queuedEntityIds = new Set(
+      entityDb ? (await readLiveItems(entityDb)).map((item) => item.entityId) : [],
+    );
+    const items = (await readDueItems(db, Date.now())).filter(
+      (item) => !isChildItemHeld(item, queuedEntityIds, tableReferences),
+    );
+    for (const [tableType, group] of groupBy(items, (item) => item.tableType)) {
+      const upserts = group.filter((item) => item.operation === 'upsert');
+      for (let i = 0; i < upserts.length; i += BATCH_SIZE) {
+        const batch = upserts.slice(i, i + BATCH_SIZE);
+        if (!(await upsertRows(config, session, tableType, batch.map((item) => item.payload), 'id'))) break;
+        await removeItems(db, batch.map((item) => item.id));
+      }
+      for (const item of group.filter((entry) => entry.operation === 'delete')) {
+        if (!(await softDeleteRow(config, session, tableType, item.payload))) break;
+        await removeItems(db, [item.id]);
+      }
+    }
+  }
+
+  async function drainQueues() {
+    // Without Web Locks there is no safe way to keep out of a tab's drain
+    if (!self.navigator.locks) return;
+    await self.navigator.locks.request(SYNC_LOCK, async () => {
+      // An open tab owns the queues — its RxDB instance caches them
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      if (windows.length > 0) return;
+
+      const { config, session } = await readState();
+      if (!config || !isSessionUsable(session, Date.now())) return;
+
+      const entityDb = await openExisting(config.entityQueue.dbName);
+      const childDb = await openExisting(config.childQueue.dbName);
+      try {
+        if (entityDb) await drainEntityQueue(config, session, entityDb);
+        if (childDb) await drainChildQueue(config, session, childDb, entityDb);
+      } finally {
+        entityDb?.close();
+        childDb?.close();
+      }
+    });
+  }
+
+  self.addEventListener('sync', (event) => {
+    // A rejected promise (network error) makes the browser retry later
+    if (event.tag === SYNC_TAG) event.waitUntil(drainQueues());
+  });
+
+  self.addEventListener('periodicsync', (event) => {
+    if (event.tag === SYNC_TAG) event.waitUntil(drainQueues().catch(() => undefined));
+  });
+})();
@@ -4,7 +4,7 @@ import { queryClient } from '@/core/queryClient';
 import { AuthProvider } from '@shared/core/auth';
 import { AppRouter } from '@/router/AppRouter';
 import { useLoadingBar } from '@/hooks/useLoadingBar';
-import { spaceStore, appStore, userStore, userSettingsStore, toastStore } from '@breedhub/rxdb-store';
+import { spaceStore, appStore, userStore, userSettingsStore, filterPresetStore, toastStore } from '@breedhub/rxdb-store';
 import { Toaster } from '@ui/components/toast/Toaster';
 import { NoteDialog } from '@/components/note/NoteDialog';
 import { NoteEditDialog } from '@/components/note/NoteEditDialog';
@@ -47,8 +47,15 @@ function AppContent() {
         }
         // userSettingsStore subscribes to userStore.currentUserId; safe to call after userStore.initialize.
         userSettingsStore.initialize();
+        filterPresetStore.initialize();
         console.log('[App] CONDITIONS MET! Calling spaceStore.initialize() at', new Date().toISOString());
         await spaceStore.initialize();
+        // Live child tabs (opt-in): realtime channels for the child tables cached on this device
+        if (import.meta.env.VITE_CHILD_REALTIME === 'true') {
+          void spaceStore.enableChildRealtime().catch((error) => {
+            console.error('[App] Failed to enable child realtime:', error);
+          });
+        }
         console.log('[App] spaceStore.initialize() completed in', performance.now() - startTime, 'ms at', new Date().toISOString());
       } else {
         console.log('[App] CONDITIONS NOT MET:', {
@@ -37,6 +37,7 @@ interface TabOutletRendererProps {
   tabMode?: "scroll" | "tabs"; // scroll = all tabs rendered (public), tabs = only active shown (edit)
   // Edit page save orchestration (merged into each tab's tabProps)
   onSaveReady?: (handler: () => Promise<void>) => void;
+  onDiscardReady?: (handler: () => void) => void;
   entityType?: string;
   onDirtyChange?: (dirty: boolean) => void;
   onBeforeTabChange?: (targetFragment: string) => Promise<boolean | void>;
@@ -141,6 +142,7 @@ export function TabOutletRenderer({
   entitySlug,
   tabMode = "scroll",
   onSaveReady,
+  onDiscardReady,
   entityType,
   onDirtyChange,
   onBeforeTabChange,
@@ -163,6 +165,7 @@ export function TabOutletRenderer({
     const baseTabs = convertTabConfigToTabs(tabsConfig);
     const extraProps: Record<string, any> = {};
     if (onSaveReady) extraProps.onSaveReady = onSaveReady;
+    if (onDiscardReady) extraProps.onDiscardReady = onDiscardReady;
     if (entityType) extraProps.entityType = entityType;
     if (onDirtyChange) extraProps.onDirtyChange = onDirtyChange;
     if (isCreateMode) extraProps.isCreateMode = isCreateMode;
@@ -185,7 +188,7 @@ export function TabOutletRenderer({
         : tab.tabProps;
       return merged ? { ...tab, tabProps: merged } : tab;
     });
-  }, [tabsConfig, isScrollMode, aboveFoldReadyCallbacks, onSaveReady, entityType, onDirtyChange, isCreateMode, onCreateNameChange]);
+  }, [tabsConfig, isScrollMode, aboveFoldReadyCallbacks, onSaveReady, onDiscardReady, entityType, onDirtyChange, isCreateMode, onCreateNameChange]);
 
   // Track PageMenu height for TabHeader positioning
   useEffect(() => {
@@ -17,6 +17,7 @@ interface EditFormTabProps {
   onLoadedCount?: (count: number) => void;
   entityType?: string;
   onSaveReady?: (handler: () => Promise<false | true | { created: any } | void>) => void;
+  onDiscardReady?: (handler: () => void) => void;
   onDirtyChange?: (dirty: boolean) => void;
   isCreateMode?: boolean;
   onCreateNameChange?: (name: string) => void;
@@ -29,7 +30,7 @@ interface EditFormTabProps {
  * Uses useEditForm hook for form state and save via spaceStore.update().
  * In create mode, creates a new entity on save and navigates to its edit page.
  */
-export function EditFormTab({ fields, onLoadedCount, entityType, onSaveReady, onDirtyChange, isCreateMode, onCreateNameChange }: EditFormTabProps) {
+export function EditFormTab({ fields, onLoadedCount, entityType, onSaveReady, onDiscardReady, onDirtyChange, isCreateMode, onCreateNameChange }: EditFormTabProps) {
   useSignals();
 
   const selectedEntity = useSelectedEntity();
@@ -111,7 +112,7 @@ export function EditFormTab({ fields, onLoadedCount, entityType, onSaveReady, on
     // (Save button → public page; Tab switch → edit page with target tab)
   }, [entityType]);
 
-  const { formChanges, hasChanges, handleFieldChange: rawHandleFieldChange, handleSave, markCurrentAsBaseline } = useEditForm({
+  const { formChanges, hasChanges, handleFieldChange: rawHandleFieldChange, handleSave, resetChanges, markCurrentAsBaseline } = useEditForm({
     entityType: entityType || '',
     entityId: selectedEntity?.id,
     isCreateMode,
@@ -238,6 +239,11 @@ export function EditFormTab({ fields, onLoadedCount, entityType, onSaveReady, on
     if (onSaveReady) onSaveReady(validatedSave);
   }, [onSaveReady, validatedSave]);
 
+  // Register discard handler with parent ("Reload" after a remote save)
+  useEffect(() => {
+    if (onDiscardReady) onDiscardReady(resetChanges);
+  }, [onDiscardReady, resetChanges]);
+
   // Notify parent about dirty state changes
   useEffect(() => {
     onDirtyChange?.(hasChanges);
@@ -0,0 +1,249 @@
+import { useGlobalSearch } from "@/hooks/useGlobalSearch";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  filterPaletteCommands,
+  filterRecentEntries,
+  getEntityTypeLabel,
+  getPaletteCommands,
+  getSearchResultPath,
+  type PaletteCommand,
+  type PaletteCommandId,
+} from "@/utils/command-palette";
+import {
+  getPartitionFieldForEntity,
+  navigationHistoryStore,
+  routeStore,
+  spaceStore,
+  type NavigationEntry,
+  type QuickSearchResult,
+} from "@breedhub/rxdb-store";
+import { useSignals } from "@preact/signals-react/runtime";
+import { AvatarWithFallback } from "@ui/components/avatar";
+import { Dialog, DialogContent, DialogTitle } from "@ui/components/dialog";
+import { cn } from "@ui/lib/utils";
+import { Clock, Loader2, Moon, PawPrint, Search, Sparkles, Sun } from "lucide-react";
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type PaletteItem =
+  | { kind: "recent"; key: string; entry: NavigationEntry }
+  | { kind: "result"; key: string; result: QuickSearchResult }
+  | { kind: "command"; key: string; command: PaletteCommand };
+
+const RECENT_LIMIT = 5;
+
+function getCommandIcon(id: PaletteCommandId, theme: "light" | "dark"): ReactNode {
+  switch (id) {
+    case "create-pet":
+      return <PawPrint className="h-4 w-4" />;
+    case "open-mating":
+      return <Sparkles className="h-4 w-4" />;
+    case "toggle-theme":
+      return theme === "dark" ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />;
+  }
+}
+
+function TypeBadge({ entityType }: { entityType: string }) {
+  return (
+    <span className="shrink-0 rounded-full bg-secondary-100 dark:bg-secondary-900 px-2 py-0.5 text-xs font-medium text-secondary-700 dark:text-secondary-200">
+      {getEntityTypeLabel(entityType)}
+    </span>
+  );
+}
+
+/**
+ * CommandPalette - global search (Ctrl/Cmd+K).
+ *
+ * One list for breeds, pets, kennels, contacts, litters and events: cached
+ * matches first, Supabase matches as they arrive. Recently visited pages
+ * lead (filtered by the query); app commands (create pet, mating, theme)
+ * come last. Arrow keys move, Enter opens.
+ */
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  useSignals();
+  const navigate = useNavigate();
+  const { theme, toggleTheme } = useTheme();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { results, loading } = useGlobalSearch(query, open);
+  const recentEntries = navigationHistoryStore.getRecentEntries(RECENT_LIMIT);
+
+  const items: PaletteItem[] = [
+    ...filterRecentEntries(recentEntries, query).map(
+      (entry): PaletteItem => ({ kind: "recent", key: `recent:${entry.path}`, entry }),
+    ),
+    ...results.map(
+      (result): PaletteItem => ({
+        kind: "result",
+        key: `${result.entityType}:${result.id}`,
+        result,
+      }),
+    ),
+    ...filterPaletteCommands(getPaletteCommands(theme), query).map(
+      (command): PaletteItem => ({ kind: "command", key: `command:${command.id}`, command }),
+    ),
+  ];
+
+  // Fresh palette every time it opens
+  useEffect(() => {
+    if (open) {
+      setQuery("");
+      setActiveIndex(0);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem) => {
+    onOpenChange(false);
+
+    if (item.kind === "recent") {
+      navigate(item.entry.path);
+      return;
+    }
+
+    if (item.kind === "result") {
+      const { result } = item;
+      const spaceConfig = spaceStore.getSpaceConfig(result.entityType);
+      if (result.slug) {
+        void routeStore.saveRoute({
+          slug: result.slug,
+          entity: result.entityType,
+          entity_id: result.id,
+          entity_partition_id: result.partitionId ?? undefined,
+          partition_field: getPartitionFieldForEntity(result.entityType) ?? undefined,
+          model: spaceConfig?.entitySchemaModel || result.entityType,
+        });
+      }
+      navigate(getSearchResultPath(result, spaceConfig?.slug ?? null));
+      return;
+    }
+
+    switch (item.command.id) {
+      case "create-pet":
+        navigate("/new?entity=pet");
+        break;
+      case "open-mating":
+        navigate("/mating");
+        break;
+      case "toggle-theme":
+        toggleTheme();
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (items.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % items.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + items.length) % items.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const item = items[activeIndex];
+      if (item) runItem(item);
+    }
+  };
+
+  const renderItem = (item: PaletteItem, index: number) => {
+    let icon: ReactNode;
+    let label: string;
+    let badge: ReactNode = null;
+
+    if (item.kind === "recent") {
+      icon = <Clock className="h-4 w-4" />;
+      label = item.entry.title;
+      badge = <TypeBadge entityType={item.entry.entityType} />;
+    } else if (item.kind === "result") {
+      icon = (
+        <AvatarWithFallback
+          size="xs"
+          src={item.result.avatarUrl ?? undefined}
+          name={item.result.name || undefined}
+        />
+      );
+      label = item.result.name || item.result.id;
+      badge = <TypeBadge entityType={item.result.entityType} />;
+    } else {
+      icon = getCommandIcon(item.command.id, theme);
+      label = item.command.label;
+    }
+
+    return (
+      <button
+        type="button"
+        data-index={index}
+        onMouseEnter={() => setActiveIndex(index)}
+        onClick={() => runItem(item)}
+        className={cn(
+          "flex w-full items-center gap-3 rounded-md px-3 py-2 text-left text-sm transition-colors",
+          index === activeIndex ? "bg-primary-50 dark:bg-primary-900/40" : "hover:bg-secondary-50",
+        )}
+      >
+        <span className="flex h-6 w-6 shrink-0 items-center justify-center text-sub-header-color">
+          {icon}
+        </span>
+        <span className="flex-1 truncate">{label}</span>
+        {badge}
+      </button>
+    );
+  };
+
+  const sectionTitle = (kind: PaletteItem["kind"]) =>
+    kind === "recent" ? "Recent" : kind === "result" ? "Results" : "Commands";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg" className="gap-0 p-0" onKeyDown={handleKeyDown}>
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <div className="flex items-center gap-2 border-b px-4 py-3 pr-12">
+          <Search className="h-4 w-4 shrink-0 text-sub-header-color" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search breeds, pets, kennels, contacts, litters, events..."
+            className="flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            aria-label="Search"
+          />
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-sub-header-color" />}
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto p-2">
+          {items.map((item, index) => (
+            <div key={item.key}>
+              {(index === 0 || items[index - 1].kind !== item.kind) && (
+                <div className="px-3 pb-1 pt-2 text-xs font-semibold uppercase text-muted-foreground">
+                  {sectionTitle(item.kind)}
+                </div>
+              )}
+              {renderItem(item, index)}
+            </div>
+          ))}
+          {query.trim() && !loading && results.length === 0 && (
+            <div className="px-3 py-6 text-center text-sm text-muted-foreground">
+              Nothing found for "{query.trim()}"
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
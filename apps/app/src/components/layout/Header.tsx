@@ -12,11 +12,13 @@ import {
   TooltipTrigger,
 } from "@ui/components/tooltip";
 import { cn } from "@ui/lib/utils";
-import { Menu } from "lucide-react";
-import { useState, forwardRef } from "react";
+import { Menu, Search } from "lucide-react";
+import { useEffect, useState, forwardRef } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { UserDrawer } from "./UserDrawer";
 import { SyncStatusIndicator } from "./SyncStatusIndicator";
+import { CommandPalette } from "./CommandPalette";
+import { isPaletteShortcut } from "@/utils/command-palette";
 import { Icon } from "@/components/shared/Icon";
 import type { IconConfig } from "@breedhub/rxdb-store";
 
@@ -31,10 +33,22 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
   const location = useLocation();
   const { theme, toggleTheme } = useTheme();
   const [isUserDrawerOpen, setIsUserDrawerOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   const isOnline = useOnlineStatus();
   const { authenticated, user } = useAuth();
   const isMD = useMediaQuery("(min-width: 768px)");
 
+  // Ctrl/Cmd+K opens the command palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isPaletteShortcut(e)) return;
+      e.preventDefault();
+      setIsPaletteOpen((open) => !open);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   // Icon size: 20px on < md, 24px on md+
   const navIconSize = isMD ? 24 : 20;
 
@@ -180,6 +194,23 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
               <span className="ml-2">Dark</span>
             </Button> */}
 
+            {/* Global search (command palette) */}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsPaletteOpen(true)}
+                  aria-label="Search"
+                >
+                  <Search className="h-5 w-5 text-sub-header-color" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent side="bottom">
+                <p>Search (Ctrl+K)</p>
+              </TooltipContent>
+            </Tooltip>
+
             {/* Sync status indicator */}
             <SyncStatusIndicator />
 
@@ -208,6 +239,8 @@ export const Header = forwardRef<HTMLElement, HeaderProps>(
         isOpen={isUserDrawerOpen}
         onClose={() => setIsUserDrawerOpen(false)}
       />
+
+      <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} />
     </TooltipProvider>
   );
 });
@@ -0,0 +1,179 @@
+import {
+  applyConflictResolution,
+  getConflictFields,
+  spaceStore,
+  syncQueueService,
+  type ConflictFieldChoice,
+  type EntitySyncQueueDocument,
+} from "@breedhub/rxdb-store";
+import { Button } from "@ui/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@ui/components/dialog";
+import { cn } from "@ui/lib/utils";
+import { useEffect, useState } from "react";
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ChoiceKind = ConflictFieldChoice["kind"];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * SyncConflictDialog - Resolve queued edits that collided with a newer
+ * server save. One card per conflicting record, listing only the fields
+ * both sides changed (the rest was merged automatically); per field the
+ * user keeps their value, takes the server value, or types a merged value.
+ */
+export function SyncConflictDialog({ open, onOpenChange }: SyncConflictDialogProps) {
+  const [conflicts, setConflicts] = useState<EntitySyncQueueDocument[]>([]);
+  const [choices, setChoices] = useState<
+    Record<string, Record<string, ConflictFieldChoice>>
+  >({});
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    void syncQueueService.getConflicts().then((items) => {
+      if (cancelled) return;
+      setConflicts(items);
+      setChoices({});
+      if (items.length === 0) onOpenChange(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, onOpenChange]);
+
+  const setChoice = (itemId: string, field: string, choice: ConflictFieldChoice) => {
+    setChoices((prev) => ({
+      ...prev,
+      [itemId]: { ...prev[itemId], [field]: choice },
+    }));
+  };
+
+  const handleResolve = async (item: EntitySyncQueueDocument) => {
+    const theirs = item.serverPayload ?? {};
+    const resolved = applyConflictResolution(
+      item.payload,
+      theirs,
+      choices[item.id] ?? {},
+    );
+    setSaving(item.id);
+    try {
+      await spaceStore.resolveSyncConflict(
+        item.id,
+        item.entityType,
+        item.entityId,
+        resolved,
+      );
+      const remaining = conflicts.filter((c) => c.id !== item.id);
+      setConflicts(remaining);
+      if (remaining.length === 0) onOpenChange(false);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] flex flex-col overflow-hidden"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <DialogHeader className="shrink-0">
+          <DialogTitle>Resolve sync conflicts</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 overflow-y-auto">
+          {conflicts.map((item) => {
+            const fields = getConflictFields(item);
+            const itemChoices = choices[item.id] ?? {};
+            return (
+              <div
+                key={item.id}
+                className="rounded-lg border border-surface-border p-4 flex flex-col gap-3"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm font-semibold truncate">
+                    {item.payload.name ?? item.entityId}
+                  </div>
+                  <span className="text-xs text-secondary uppercase">
+                    {item.entityType}
+                  </span>
+                </div>
+
+                {fields.map(({ field, mine, theirs: theirValue }) => {
+                  const choice = itemChoices[field] ?? { kind: "mine" as const };
+                  const options: Array<{ kind: ChoiceKind; label: string; value: unknown }> = [
+                    { kind: "mine", label: "Keep mine", value: mine },
+                    { kind: "theirs", label: "Take theirs", value: theirValue },
+                  ];
+                  return (
+                    <div key={field} className="flex flex-col gap-1.5">
+                      <div className="text-xs font-medium text-slate-500">{field}</div>
+                      <div className="grid grid-cols-2 gap-2">
+                        {options.map((option) => (
+                          <button
+                            key={option.kind}
+                            type="button"
+                            onClick={() => setChoice(item.id, field, { kind: option.kind } as ConflictFieldChoice)}
+                            className={cn(
+                              "rounded-md border px-3 py-2 text-left text-sm",
+                              choice.kind === option.kind
+                                ? "border-primary bg-primary-50 dark:bg-primary-950"
+                                : "border-surface-border hover:bg-hover-surface-header",
+                            )}
+                          >
+                            <div className="text-xs text-slate-500">{option.label}</div>
+                            <div className="break-words">{formatValue(option.value)}</div>
+                          </button>
+                        ))}
+                      </div>
+                      {typeof mine === "string" && typeof theirValue === "string" && (
+                        <input
+                          type="text"
+                          placeholder="Or type a merged value"
+                          value={choice.kind === "merge" ? String(choice.value ?? "") : ""}
+                          onChange={(e) =>
+                            setChoice(item.id, field, { kind: "merge", value: e.target.value })
+                          }
+                          className={cn(
+                            "rounded-md border px-3 py-1.5 text-sm bg-transparent",
+                            choice.kind === "merge" ? "border-primary" : "border-surface-border",
+                          )}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    disabled={saving === item.id}
+                    onClick={() => handleResolve(item)}
+                    className="small-button bg-primary-50 dark:bg-primary-300 hover:bg-primary-100 focus:bg-primary-200 text-primary dark:text-zinc-900"
+                  >
+                    Apply
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
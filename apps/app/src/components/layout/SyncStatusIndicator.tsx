@@ -1,37 +1,72 @@
 import { syncQueueService } from "@breedhub/rxdb-store";
 import { useSignals } from "@preact/signals-react/runtime";
 import { cn } from "@ui/lib/utils";
-import { CloudOff, Loader2, AlertTriangle } from "lucide-react";
+import { CloudOff, Loader2, AlertTriangle, GitMerge } from "lucide-react";
+import { useState } from "react";
+import { SyncConflictDialog } from "./SyncConflictDialog";
+import { SyncQueueDrawer } from "@/components/sync/SyncQueueDrawer";
 
 /**
  * SyncStatusIndicator - Shows sync queue status in header.
  * Hidden when everything is synced. Shows:
  * - Spinning icon + count when items are pending
  * - Warning icon + count when items have failed
+ * - Merge icon + count when items conflict with a newer server save
+ *   (click opens SyncConflictDialog)
+ * Clicking the pending/failed counts opens the sync inspector drawer.
  */
 export function SyncStatusIndicator() {
   useSignals();
+  const [conflictDialogOpen, setConflictDialogOpen] = useState(false);
+  const [drawerOpen, setDrawerOpen] = useState(false);
 
   const pending = syncQueueService.pendingCount.value;
   const failed = syncQueueService.failedCount.value;
+  const conflicts = syncQueueService.conflictCount.value;
 
   // Nothing to show — fully synced
-  if (pending === 0 && failed === 0) return null;
+  if (pending === 0 && failed === 0 && conflicts === 0 && !conflictDialogOpen && !drawerOpen) return null;
 
   return (
     <div className="flex items-center gap-1.5">
       {pending > 0 && (
-        <div className="flex items-center gap-1 text-xs text-slate-500" title={`${pending} changes syncing`}>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-slate-500 hover:underline"
+          title={`${pending} changes syncing`}
+          onClick={() => setDrawerOpen(true)}
+        >
           <Loader2 className="h-3.5 w-3.5 animate-spin" />
           <span>{pending}</span>
-        </div>
+        </button>
       )}
       {failed > 0 && (
-        <div className="flex items-center gap-1 text-xs text-amber-600" title={`${failed} changes failed to sync`}>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-amber-600 hover:underline"
+          title={`${failed} changes failed to sync`}
+          onClick={() => setDrawerOpen(true)}
+        >
           <AlertTriangle className="h-3.5 w-3.5" />
           <span>{failed}</span>
-        </div>
+        </button>
       )}
+      {conflicts > 0 && (
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-red-600 hover:underline"
+          title={`${conflicts} changes conflict with newer edits`}
+          onClick={() => setConflictDialogOpen(true)}
+        >
+          <GitMerge className="h-3.5 w-3.5" />
+          <span>{conflicts}</span>
+        </button>
+      )}
+      <SyncConflictDialog
+        open={conflictDialogOpen}
+        onOpenChange={setConflictDialogOpen}
+      />
+      <SyncQueueDrawer isOpen={drawerOpen} onClose={() => setDrawerOpen(false)} />
     </div>
   );
 }
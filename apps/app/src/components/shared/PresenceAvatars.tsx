@@ -0,0 +1,83 @@
+import type { PresenceMember } from "@breedhub/rxdb-store";
+import { AvatarWithFallback } from "@ui/components/avatar";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@ui/components/tooltip";
+import { cn } from "@ui/lib/utils";
+import { Pencil } from "lucide-react";
+
+interface PresenceAvatarsProps {
+  members: PresenceMember[];
+  currentUserId?: string | null;
+  /** Avatars shown before the rest collapse into "+N" */
+  max?: number;
+  className?: string;
+}
+
+function describeMember(member: PresenceMember, currentUserId?: string | null): string {
+  const who =
+    member.userId && member.userId === currentUserId
+      ? "You (another tab)"
+      : member.name || "Someone";
+  return `${who} is ${member.mode === "editing" ? "editing" : "viewing"}`;
+}
+
+/**
+ * PresenceAvatars - who else has this record open.
+ *
+ * One avatar per user (see presenceService); editors get a pencil badge.
+ * Renders nothing while nobody else is around.
+ */
+export function PresenceAvatars({
+  members,
+  currentUserId,
+  max = 4,
+  className,
+}: PresenceAvatarsProps) {
+  if (members.length === 0) return null;
+
+  const visible = members.slice(0, max);
+  const hidden = members.slice(max);
+
+  return (
+    <div className={cn("flex items-center -space-x-2", className)}>
+      {visible.map((member) => (
+        <Tooltip key={member.userId ?? member.sessionId}>
+          <TooltipTrigger asChild>
+            <div className="relative">
+              <AvatarWithFallback
+                size="xs"
+                name={member.name ?? undefined}
+                src={member.avatar ?? undefined}
+                className={cn(
+                  "border-2 border-background",
+                  member.mode === "editing" && "ring-2 ring-primary",
+                )}
+              />
+              {member.mode === "editing" && (
+                <span className="absolute -bottom-1 -right-1 flex size-3.5 items-center justify-center rounded-full bg-primary text-white">
+                  <Pencil className="size-2" />
+                </span>
+              )}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">{describeMember(member, currentUserId)}</TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="flex size-6 items-center justify-center rounded-full border-2 border-background bg-secondary-100 text-[10px] font-semibold text-slate-700">
+              +{hidden.length}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent side="bottom">
+            {hidden.map((member) => describeMember(member, currentUserId)).join(", ")}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import { FORM_COMPONENT_MAP } from "@/components/edit/componentMap";
+import { FormDialog } from "@/components/edit/FormDialog";
+import { extractDbFieldName } from "@/hooks/useDynamicFields";
+import { useIsRestorable } from "@/hooks/useRecentlyDeleted";
+import { entityLabel } from "@/utils/crudToast";
+import type { FilterFieldConfig } from "@/types/field-config";
+import {
+  getPartitionFieldForEntity,
+  spaceStore,
+  toast,
+  type BulkDependencyReport,
+  type BulkProgress,
+} from "@breedhub/rxdb-store";
+import { Button } from "@ui/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@ui/components/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@ui/components/dropdown-menu";
+import { Textarea } from "@ui/components/textarea";
+import { NotebookPen, PenLine, Trash2, X } from "lucide-react";
+import { useMemo, useState } from "react";
+
+/** Undo stays available a bit longer than a regular toast */
+const UNDO_TOAST_DURATION = 8000;
+
+/** Inputs that set one plain column value — cascades and ranges are left out */
+const BULK_EDIT_COMPONENTS = new Set([
+  "DropdownInput",
+  "LookupInput",
+  "TextInput",
+  "NumberInput",
+  "DateInput",
+  "RadioInput",
+  "SwitchInput",
+  "CheckboxInput",
+]);
+
+type BulkDialog = "field" | "note" | "delete" | null;
+
+interface BulkActionBarProps {
+  entityType: string;
+  selectedIds: ReadonlySet<string>;
+  /** Space filter fields — the ones that map to one column can be bulk-set */
+  fields: FilterFieldConfig[];
+  canEdit: boolean;
+  canDelete: boolean;
+  onClear: () => void;
+}
+
+/** Partition value of each record, for notes on partitioned entities (e.g. pet by breed). */
+async function getPartitionIds(entityType: string, ids: string[]): Promise<Array<string | null>> {
+  const partitionField = getPartitionFieldForEntity(entityType);
+  if (!partitionField) return ids.map(() => null);
+  return Promise.all(
+    ids.map(async (id) => {
+      const value = (await spaceStore.getRecordById(entityType, id))?.[partitionField];
+      return typeof value === "string" ? value : null;
+    }),
+  );
+}
+
+function pluralLabel(entityType: string, count: number): string {
+  const label = entityLabel(entityType).toLowerCase();
+  return `${count} ${label}${count === 1 ? "" : "s"}`;
+}
+
+function BulkProgressBar({ progress }: { progress: BulkProgress }) {
+  const percent =
+    progress.stage === "prepare" && progress.total > 0
+      ? Math.round((progress.done / progress.total) * 90)
+      : progress.stage === "done"
+        ? 100
+        : 95;
+  return (
+    <div className="h-1 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+      <div className="h-full bg-primary-500 transition-all" style={{ width: `${percent}%` }} />
+    </div>
+  );
+}
+
+/**
+ * BulkActionBar - actions for the records checked in a space view.
+ *
+ * Set field writes one value to every selected record, Add note creates a
+ * note on each of them, Delete checks dependencies for the whole selection
+ * first and offers to delete the records without any. Each action is one
+ * store call (one RxDB write, one sync queue batch) and its toast offers a
+ * single Undo for the whole batch.
+ */
+export function BulkActionBar({
+  entityType,
+  selectedIds,
+  fields,
+  canEdit,
+  canDelete,
+  onClear,
+}: BulkActionBarProps) {
+  const [dialog, setDialog] = useState<BulkDialog>(null);
+  const [field, setField] = useState<FilterFieldConfig | null>(null);
+  const [value, setValue] = useState<unknown>("");
+  const [noteText, setNoteText] = useState("");
+  const [report, setReport] = useState<BulkDependencyReport | null>(null);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+
+  const ids = useMemo(() => [...selectedIds], [selectedIds]);
+  const busy = progress !== null;
+  const restorable = useIsRestorable(entityType);
+  const editableFields = useMemo(
+    () =>
+      fields.filter(
+        (f) =>
+          f.component &&
+          BULK_EDIT_COMPONENTS.has(f.component) &&
+          !f.junctionTable &&
+          !f.dependsOn,
+      ),
+    [fields],
+  );
+
+  const closeDialog = () => {
+    if (busy) return;
+    setDialog(null);
+    setField(null);
+    setValue("");
+    setNoteText("");
+    setReport(null);
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      setDialog(null);
+      onClear();
+    } catch (err: unknown) {
+      console.error("[BulkActionBar] Bulk action failed:", err);
+      toast.error(err instanceof Error ? err.message : failure);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const applyField = () => {
+    if (!field) return;
+    const column = extractDbFieldName(field.id);
+    void run(async () => {
+      const result = await spaceStore.bulkUpdate(
+        entityType,
+        ids,
+        { [column]: value === "" ? null : value },
+        { onProgress: setProgress },
+      );
+      toast.success(`${field.displayName} set on ${pluralLabel(entityType, result.updated.length)}`, {
+        duration: UNDO_TOAST_DURATION,
+        action: {
+          label: "Undo",
+          onClick: () => {
+            void spaceStore
+              .revertBulkUpdate(entityType, result.previous)
+              .then(() => toast.success("Bulk edit undone"))
+              .catch(() => toast.error("Failed to undo bulk edit"));
+          },
+        },
+      });
+    }, "Failed to update records");
+  };
+
+  const addNote = () => {
+    const text = noteText.trim();
+    if (!text) return;
+    void run(async () => {
+      setProgress({ stage: "write", done: 0, total: ids.length });
+      const partitionIds = await getPartitionIds(entityType, ids);
+      const notes = await spaceStore.bulkCreate(
+        "note",
+        ids.map((id, i) => ({
+          entity: entityType,
+          entity_id: id,
+          text,
+          ...(partitionIds[i] && { entity_partition_id: partitionIds[i] }),
+        })),
+      );
+      toast.success(`Note added to ${pluralLabel(entityType, notes.length)}`, {
+        duration: UNDO_TOAST_DURATION,
+        action: {
+          label: "Undo",
+          onClick: () => {
+            void spaceStore
+              .bulkDelete("note", notes.map((note) => note.id))
+              .then(() => toast.success("Notes removed"))
+              .catch(() => toast.error("Failed to remove notes"));
+          },
+        },
+      });
+    }, "Failed to add notes");
+  };
+
+  const requestDelete = async () => {
+    setDialog("delete");
+    setReport(null);
+    try {
+      setReport(await spaceStore.checkDependenciesBulk(entityType, ids, { onProgress: setProgress }));
+    } catch (err) {
+      console.error("[BulkActionBar] Failed to check dependencies:", err);
+      // Fail open like the single delete — local-first UX
+      setReport({ canDelete: true, deletableIds: ids, blockedIds: [], dependencies: [] });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!report || report.deletableIds.length === 0) return;
+    const targets = report.deletableIds;
+    void run(async () => {
+      const result = await spaceStore.bulkDelete(entityType, targets, { onProgress: setProgress });
+      toast.success(`Deleted ${pluralLabel(entityType, result.deleted.length)}`, {
+        duration: UNDO_TOAST_DURATION,
+        action: {
+          label: "Undo",
+          onClick: () => {
+            void spaceStore
+              .restoreEntities(entityType, result.deleted)
+              .then((restored) => toast.success(`Restored ${pluralLabel(entityType, restored.length)}`))
+              .catch(() => toast.error("Failed to restore records"));
+          },
+        },
+      });
+    }, "Failed to delete records");
+  };
+
+  const FieldComponent = field?.component ? FORM_COMPONENT_MAP[field.component] : null;
+
+  return (
+    <div className="flex flex-col gap-1 border-b border-surface-border bg-primary-50 px-4 py-2 dark:bg-surface-800">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="mr-auto font-semibold">{ids.length} selected</span>
+        {canEdit && editableFields.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost-secondary" size="sm" disabled={busy}>
+                <PenLine className="h-3.5 w-3.5" />
+                Set field
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {editableFields.map((f) => (
+                <DropdownMenuItem
+                  key={f.id}
+                  onSelect={() => {
+                    setField(f);
+                    setValue("");
+                    setDialog("field");
+                  }}
+                >
+                  {f.displayName}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {canEdit && (
+          <Button variant="ghost-secondary" size="sm" disabled={busy} onClick={() => setDialog("note")}>
+            <NotebookPen className="h-3.5 w-3.5" />
+            Add note
+          </Button>
+        )}
+        {canDelete && (
+          <Button variant="ghost-secondary" size="sm" disabled={busy} onClick={requestDelete}>
+            <Trash2 className="h-3.5 w-3.5" />
+            Delete
+          </Button>
+        )}
+        <Button variant="ghost-secondary" size="sm" disabled={busy} onClick={onClear} title="Clear selection">
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {progress && <BulkProgressBar progress={progress} />}
+
+      <FormDialog
+        open={dialog === "field"}
+        onOpenChange={(open) => !open && closeDialog()}
+        title={`Set ${field?.displayName.toLowerCase() ?? "field"} on ${pluralLabel(entityType, ids.length)}`}
+        onSubmit={(e) => {
+          e.preventDefault();
+          applyField();
+        }}
+        submitLabel={busy ? "Saving..." : "Apply"}
+        submitDisabled={busy}
+      >
+        {field && FieldComponent && (
+          <FieldComponent
+            id={field.id}
+            label={field.displayName}
+            placeholder={field.placeholder}
+            options={field.options || []}
+            referencedTable={field.referencedTable}
+            referencedFieldID={field.referencedFieldID}
+            referencedFieldName={field.referencedFieldName}
+            {...(field.dataSource ? { dataSource: field.dataSource } : {})}
+            value={value ?? ""}
+            onValueChange={setValue}
+          />
+        )}
+      </FormDialog>
+
+      <FormDialog
+        open={dialog === "note"}
+        onOpenChange={(open) => !open && closeDialog()}
+        title={`Add a note to ${pluralLabel(entityType, ids.length)}`}
+        onSubmit={(e) => {
+          e.preventDefault();
+          addNote();
+        }}
+        submitLabel={busy ? "Saving..." : "Add note"}
+        submitDisabled={busy || !noteText.trim()}
+      >
+        <Textarea
+          value={noteText}
+          onChange={(e) => setNoteText(e.target.value)}
+          placeholder="Note text"
+          rows={4}
+        />
+      </FormDialog>
+
+      <Dialog open={dialog === "delete"} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-sm" onOpenAutoFocus={(e) => e.preventDefault()}>
+          <DialogHeader>
+            <DialogTitle>Delete {pluralLabel(entityType, ids.length)}?</DialogTitle>
+          </DialogHeader>
+          <div>
+            <div className="modal-card space-y-2">
+              {!report ? (
+                <p className="text-base">Checking related data...</p>
+              ) : report.canDelete ? (
+                <p className="text-base">
+                  {restorable
+                    ? "You can restore them from Recently deleted."
+                    : "This action cannot be undone."}
+                </p>
+              ) : (
+                <>
+                  <p className="text-base">
+                    {report.blockedIds.length} of {ids.length} have related data that must be
+                    removed first:
+                  </p>
+                  <ul className="list-disc list-inside text-sm text-slate-600 space-y-1">
+                    {report.dependencies.map((dep) => (
+                      <li key={dep.label}>
+                        {dep.label}: {dep.count} in {dep.records}{" "}
+                        {dep.records === 1 ? "record" : "records"}
+                      </li>
+                    ))}
+                  </ul>
+                  {report.deletableIds.length > 0 && (
+                    <p className="text-sm">
+                      The other {report.deletableIds.length} can be deleted now.
+                    </p>
+                  )}
+                </>
+              )}
+              {progress && <BulkProgressBar progress={progress} />}
+            </div>
+            <div className="modal-actions">
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={closeDialog}
+                disabled={busy}
+                className="small-button bg-secondary-100 hover:bg-secondary-200 focus-visible:bg-secondary-200 text-slate-800 dark:text-zinc-900 dark:bg-surface-400 dark:hover:bg-surface-300"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={confirmDelete}
+                disabled={busy || !report || report.deletableIds.length === 0}
+                className="small-button bg-red-100 hover:bg-red-200 focus-visible:bg-red-300 text-red-700 dark:bg-red-900 dark:hover:bg-red-800 dark:text-red-200"
+              >
+                {busy && report
+                  ? "Deleting..."
+                  : report && !report.canDelete
+                    ? `Delete ${report.deletableIds.length}`
+                    : "Delete"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -5,11 +5,13 @@ import { useCreateEntityNavigation } from "@/hooks/space/useCreateEntityNavigati
 import { useSpaceLayoutState } from "@/hooks/space/useSpaceLayoutState";
 import { useTotalCountCache } from "@/hooks/space/useTotalCountCache";
 import { useEntitySelection } from "@/hooks/space/useEntitySelection";
+import { useBulkSelection } from "@/hooks/space/useBulkSelection";
 import { useFilterManagement } from "@/hooks/space/useFilterManagement";
+import { useFilterPresets } from "@/hooks/space/useFilterPresets";
 import { isListEmpty } from "@/hooks/space/space-list-empty";
 import type { ResolvedReadFromConfig } from "@/hooks/space/use-entities.read-from";
 import { useQuickFilterReadFrom } from "@/hooks/space/use-quick-filter-read-from";
-import { resolveDrawerWidth, spaceStore } from "@breedhub/rxdb-store";
+import { resolveDrawerWidth, spaceStore, userStore } from "@breedhub/rxdb-store";
 import { Signal } from "@preact/signals-react";
 import { useSignals } from "@preact/signals-react/runtime";
 import { TooltipProvider } from "@ui/components/tooltip";
@@ -20,7 +22,9 @@ import {
   useNavigate,
   useSearchParams,
 } from "react-router-dom";
+import { BulkActionBar } from "./BulkActionBar";
 import { getComponent } from "./componentRegistry";
+import { FilterPresetChips } from "./filters";
 import { SpaceDrawer } from "./SpaceDrawer";
 import { SpaceListShell } from "./SpaceListShell";
 
@@ -139,6 +143,20 @@ export function SpaceComponent<T extends { id: string }>({
     createMode,
   });
 
+  // Saved views: named filter/sort/view/search presets, default per space
+  const filterPresets = useFilterPresets({
+    spaceId: config?.id,
+    searchParams,
+    setSearchParams,
+    filterFields,
+    currentFilterValues,
+    sortId: selectedSortOption?.id,
+    viewMode,
+    searchUrlSlug,
+    initialSelectedEntityId,
+    createMode,
+  });
+
   // Active quick-filter scope (e.g. "owned") from URL ?scope=. Resolver picks
   // the mode whose slug matches, or the mode with isDefault:true if no scope
   // is in the URL. The resolved readFrom is passed alongside filters/orderBy
@@ -194,6 +212,18 @@ export function SpaceComponent<T extends { id: string }>({
     createMode,
   });
 
+  // Multi-select for bulk edit / delete — only where records can be changed
+  const canBulkEdit = !!config?.canEdit;
+  const canBulkDelete = !!config?.canDelete;
+  const bulkSelection = useBulkSelection(config?.entitySchemaName ?? "", allEntities);
+  const { selectedIds, toggle, toggleAll, clear: clearBulkSelection } = bulkSelection;
+  const spaceViewSelection = useMemo(
+    () =>
+      canBulkEdit || canBulkDelete
+        ? { selectedIds, onToggle: toggle, onToggleAll: toggleAll }
+        : undefined,
+    [canBulkEdit, canBulkDelete, selectedIds, toggle, toggleAll],
+  );
 
   // Cache totalCount to localStorage with TTL
   const { totalCount, isInitialLoad } = useTotalCountCache({
@@ -256,6 +286,24 @@ export function SpaceComponent<T extends { id: string }>({
     return <QuickFilterComponent config={qf} />;
   }, [config?.quickFilters]);
 
+  const canSavePresets = !!userStore.currentUserId.value;
+  const presetsSlot =
+    filterPresets.presets.length > 0 || canSavePresets ? (
+      <FilterPresetChips
+        presets={filterPresets.presets}
+        activePresetId={filterPresets.activePresetId}
+        canSave={canSavePresets}
+        canShare={filterPresets.canShare}
+        isOwn={filterPresets.isOwnPreset}
+        onApply={filterPresets.applyPreset}
+        onSave={filterPresets.savePreset}
+        onUpdateQuery={filterPresets.updatePresetQuery}
+        onToggleDefault={filterPresets.toggleDefault}
+        onToggleShared={filterPresets.toggleShared}
+        onDelete={filterPresets.deletePreset}
+      />
+    ) : undefined;
+
   const viewChangerConfigs = useMemo(
     () =>
       finalConfig.viewConfigs?.map((viewConfig: {
@@ -441,10 +489,15 @@ export function SpaceComponent<T extends { id: string }>({
               onFilterRemove: handleFilterRemove,
               onFiltersApply: handleFiltersApply,
               currentFilterValues,
+              // Mapping-scoped spaces (readFrom) are not counted by the facet RPC
+              facetScope: readFrom
+                ? undefined
+                : { entityType: config.entitySchemaName, spaceId: config.id },
               showCounter: spaceStore.configReady.value,
               spaceSlug: config.slug,
               search: config.search !== false,
               quickFiltersSlot,
+              presetsSlot,
             }}
             viewConfig={spaceViewConfig}
             entities={allEntities}
@@ -459,6 +512,19 @@ export function SpaceComponent<T extends { id: string }>({
             onFilterRemove={handleFilterRemove}
             onClearAllFilters={handleClearAllFilters}
             entityLabelPlural={finalConfig.title}
+            selection={spaceViewSelection}
+            bulkActionBar={
+              spaceViewSelection && bulkSelection.isSelecting ? (
+                <BulkActionBar
+                  entityType={config.entitySchemaName}
+                  selectedIds={selectedIds}
+                  fields={filterFields}
+                  canEdit={canBulkEdit}
+                  canDelete={canBulkDelete}
+                  onClear={clearBulkSelection}
+                />
+              ) : undefined
+            }
             bottomSpacerClassName="hidden sm:block"
             showBackdrop={showDrawerBackdrop}
             isBackdropVisible={isDrawerOpen}
@@ -7,6 +7,7 @@ import {
 } from "@ui/components/tooltip";
 import { cn } from "@ui/lib/utils";
 import { Plus } from "lucide-react";
+import type { FacetScope } from "@/hooks/space/useFilterFacetCounts";
 import { EntitiesCounter } from "./EntitiesCounter";
 import { FiltersSection } from "./filters";
 import { ViewChanger } from "./ViewChanger";
@@ -43,6 +44,8 @@ interface SpaceHeaderProps {
   onFilterRemove?: (filter: any) => void;
   onFiltersApply?: (values: Record<string, any>) => void;
   currentFilterValues?: Record<string, any>;
+  /** Entity/space whose dictionary filter options get facet counts */
+  facetScope?: FacetScope;
   showCounter?: boolean;
   spaceSlug?: string;
   /** Show the search input. Defaults to true. */
@@ -54,6 +57,8 @@ interface SpaceHeaderProps {
    * stays agnostic to the chip implementation.
    */
   quickFiltersSlot?: React.ReactNode;
+  /** Saved views of the space (FilterPresetChips), rendered under the filter chips */
+  presetsSlot?: React.ReactNode;
 }
 
 export function SpaceHeader({
@@ -64,6 +69,7 @@ export function SpaceHeader({
   spaceSlug,
   search = true,
   quickFiltersSlot,
+  presetsSlot,
   entitySchemaName,
   entitiesCount,
   total,
@@ -86,6 +92,7 @@ export function SpaceHeader({
   onFilterRemove,
   onFiltersApply,
   currentFilterValues,
+  facetScope,
   showCounter = true,
 }: SpaceHeaderProps) {
   return (
@@ -186,7 +193,10 @@ export function SpaceHeader({
         onFilterRemove={onFilterRemove}
         onFiltersApply={onFiltersApply}
         currentFilterValues={currentFilterValues}
+        facetScope={facetScope}
       />
+
+      {presetsSlot && <div className="mt-3">{presetsSlot}</div>}
     </div>
   );
 }
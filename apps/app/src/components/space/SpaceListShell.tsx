@@ -1,7 +1,7 @@
 import type { ComponentProps } from "react";
 import { cn } from "@ui/lib/utils";
 import { SpaceHeader } from "./SpaceHeader";
-import { SpaceView, type ViewConfig } from "./SpaceView";
+import { SpaceView, type SpaceViewSelection, type ViewConfig } from "./SpaceView";
 import type { FilterField } from "./filters/FiltersSection";
 
 interface SpaceListShellProps<T extends { id: string }> {
@@ -26,6 +26,9 @@ interface SpaceListShellProps<T extends { id: string }> {
   onFilterRemove?: (filter: FilterField) => void;
   onClearAllFilters?: () => void;
   entityLabelPlural?: string;
+  selection?: SpaceViewSelection;
+  /** Rendered between the header and the list while records are selected */
+  bulkActionBar?: React.ReactNode;
   bottomSpacerClassName?: string;
   showBackdrop?: boolean;
   isBackdropVisible?: boolean;
@@ -50,6 +53,8 @@ export function SpaceListShell<T extends { id: string }>({
   onFilterRemove,
   onClearAllFilters,
   entityLabelPlural,
+  selection,
+  bulkActionBar,
   bottomSpacerClassName,
   showBackdrop = false,
   isBackdropVisible = false,
@@ -59,6 +64,7 @@ export function SpaceListShell<T extends { id: string }>({
   return (
     <div className={className} style={style}>
       <SpaceHeader {...headerProps} />
+      {bulkActionBar}
 
       <div className="relative flex-1 overflow-hidden">
         <SpaceView
@@ -75,6 +81,7 @@ export function SpaceListShell<T extends { id: string }>({
           onFilterRemove={onFilterRemove}
           onClearAllFilters={onClearAllFilters}
           entityLabelPlural={entityLabelPlural}
+          selection={selection}
         />
         <div
           className={cn(
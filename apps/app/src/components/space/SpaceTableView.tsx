@@ -5,12 +5,15 @@ import {
   getForeignKeyFields,
   type GenericTableFieldConfig,
 } from "@/components/shared/generic-table.helpers";
+import { getSelectAllState } from "@/hooks/space/bulk-selection.utils";
 import { extractFieldName, getChildField } from "@breedhub/rxdb-store";
 import { useVirtualizer } from "@tanstack/react-virtual";
+import { Checkbox } from "@ui/components/checkbox";
 import { cn } from "@ui/lib/utils";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { FilterField } from "./filters/FiltersSection";
 import { SpaceEmptyState } from "./SpaceEmptyState";
+import type { SpaceViewSelection } from "./SpaceView";
 
 interface SpaceTableViewProps<T> {
   fields: Record<string, GenericTableFieldConfig>;
@@ -29,6 +32,7 @@ interface SpaceTableViewProps<T> {
   onFilterRemove?: (filter: FilterField) => void;
   onClearAllFilters?: () => void;
   entityLabelPlural?: string;
+  selection?: SpaceViewSelection;
 }
 
 interface ColumnSpec {
@@ -40,6 +44,8 @@ interface ColumnSpec {
 }
 
 const DEFAULT_SKELETON_COUNT = 8;
+/** Leading checkbox column while multi-select is available */
+const SELECT_COLUMN_WIDTH = "3rem";
 
 function buildColumnSpecs(
   fields: Record<string, GenericTableFieldConfig>,
@@ -121,12 +127,30 @@ function SpaceTableViewInner<T extends { id: string }>({
   entityLabelPlural,
   columns,
   displayRecords,
+  selection,
 }: SpaceTableViewInnerProps<T>) {
   const parentRef = useRef<HTMLDivElement>(null);
 
   const gridTemplate = useMemo(
-    () => `repeat(${Math.max(columns.length, 1)}, minmax(120px, 1fr))`,
-    [columns.length],
+    () =>
+      [
+        selection && SELECT_COLUMN_WIDTH,
+        `repeat(${Math.max(columns.length, 1)}, minmax(120px, 1fr))`,
+      ]
+        .filter(Boolean)
+        .join(" "),
+    [columns.length, selection],
+  );
+  const isSelecting = !!selection && selection.selectedIds.size > 0;
+  const selectAllState = useMemo(
+    () =>
+      selection
+        ? getSelectAllState(
+            selection.selectedIds,
+            entities.map((entity) => entity.id),
+          )
+        : false,
+    [selection, entities],
   );
 
   const totalRows = displayRecords.length;
@@ -215,7 +239,7 @@ function SpaceTableViewInner<T extends { id: string }>({
         className="flex h-full flex-col overflow-auto"
         style={{ paddingBottom: "var(--content-padding)" }}
       >
-        <TableHeaderRow columns={columns} gridTemplate={gridTemplate} />
+        <TableHeaderRow columns={columns} gridTemplate={gridTemplate} selection={selection} />
         <div className="flex flex-1 items-center justify-center">
           {useStructuredEmpty ? (
             <SpaceEmptyState
@@ -242,7 +266,13 @@ function SpaceTableViewInner<T extends { id: string }>({
         className="h-full overflow-auto"
         style={{ paddingBottom: "var(--content-padding)" }}
       >
-        <TableHeaderRow columns={columns} gridTemplate={gridTemplate} sticky />
+        <TableHeaderRow
+          columns={columns}
+          gridTemplate={gridTemplate}
+          sticky
+          selection={selection}
+          selectAllState={selectAllState}
+        />
         <div
           style={{
             height: `${virtualizer.getTotalSize()}px`,
@@ -274,7 +304,13 @@ function SpaceTableViewInner<T extends { id: string }>({
 
             const entity = displayRecords[virtualRow.index];
             if (!entity) return null;
-            const isSelected = selectedId === entity.id;
+            const isChecked = !!selection?.selectedIds.has(entity.id);
+            const isSelected = selectedId === entity.id || isChecked;
+            const handleRowClick = isSelecting
+              ? () => selection?.onToggle(entity.id, false)
+              : onEntityClick
+                ? () => onEntityClick(entity)
+                : undefined;
 
             return (
               <div
@@ -289,7 +325,7 @@ function SpaceTableViewInner<T extends { id: string }>({
                 key={virtualRow.key}
                 className={cn(
                   "grid border-b border-slate-200 transition-colors",
-                  onEntityClick && "cursor-pointer",
+                  handleRowClick && "cursor-pointer",
                   isSelected ? "bg-primary-50" : "hover:bg-slate-50",
                 )}
                 style={{
@@ -301,10 +337,20 @@ function SpaceTableViewInner<T extends { id: string }>({
                   transform: `translateY(${virtualRow.start}px)`,
                   gridTemplateColumns: gridTemplate,
                 }}
-                onClick={
-                  onEntityClick ? () => onEntityClick(entity) : undefined
-                }
+                onClick={handleRowClick}
               >
+                {selection && (
+                  <div
+                    className="flex items-center justify-center"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Checkbox
+                      checked={isChecked}
+                      aria-label="Select record"
+                      onClick={(e) => selection.onToggle(entity.id, e.shiftKey)}
+                    />
+                  </div>
+                )}
                 {columns.map((col) => (
                   <div
                     key={col.id}
@@ -336,9 +382,17 @@ interface TableHeaderRowProps {
   columns: ColumnSpec[];
   gridTemplate: string;
   sticky?: boolean;
+  selection?: SpaceViewSelection;
+  selectAllState?: boolean | "indeterminate";
 }
 
-function TableHeaderRow({ columns, gridTemplate, sticky }: TableHeaderRowProps) {
+function TableHeaderRow({
+  columns,
+  gridTemplate,
+  sticky,
+  selection,
+  selectAllState = false,
+}: TableHeaderRowProps) {
   return (
     <div
       className={cn(
@@ -353,6 +407,15 @@ function TableHeaderRow({ columns, gridTemplate, sticky }: TableHeaderRowProps)
       )}
       style={{ gridTemplateColumns: gridTemplate }}
     >
+      {selection && (
+        <div className="flex items-center justify-center">
+          <Checkbox
+            checked={selectAllState}
+            aria-label="Select all loaded records"
+            onClick={() => selection.onToggleAll()}
+          />
+        </div>
+      )}
       {columns.map((col) => (
         <div key={col.id} className="flex items-center px-4 py-3">
           {col.displayName}
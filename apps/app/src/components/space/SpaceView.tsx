@@ -3,6 +3,7 @@ import type { GenericTableFieldConfig } from "@/components/shared/generic-table.
 import { mediaQueries } from "@/config/breakpoints";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import { useVirtualizer } from "@tanstack/react-virtual";
+import { Checkbox } from "@ui/components/checkbox";
 import { cn } from "@ui/lib/utils";
 import { useCallback, useEffect, useRef } from "react";
 import { FallbackComponent, getComponent } from "./componentRegistry";
@@ -43,6 +44,14 @@ export interface ViewConfig {
   fields?: Record<string, GenericTableFieldConfig>;
 }
 
+/** Multi-select for the bulk action bar — checkboxes render when set. */
+export interface SpaceViewSelection {
+  selectedIds: ReadonlySet<string>;
+  /** `range` is true for a Shift-click */
+  onToggle: (id: string, range: boolean) => void;
+  onToggleAll: () => void;
+}
+
 type LayoutKind = "list" | "grid" | "table";
 
 function getLayoutKind(viewType: string): LayoutKind {
@@ -66,6 +75,7 @@ interface SpaceViewProps<T> {
   onFilterRemove?: (filter: FilterField) => void;
   onClearAllFilters?: () => void;
   entityLabelPlural?: string;
+  selection?: SpaceViewSelection;
 }
 
 // Get CSS classes for different view types
@@ -115,6 +125,7 @@ export function SpaceView<T extends { id: string }>(props: SpaceViewProps<T>) {
         onFilterRemove={props.onFilterRemove}
         onClearAllFilters={props.onClearAllFilters}
         entityLabelPlural={props.entityLabelPlural}
+        selection={props.selection}
       />
     );
   }
@@ -126,6 +137,40 @@ interface SpaceListGridViewProps<T> extends SpaceViewProps<T> {
   layout: LayoutKind;
 }
 
+/**
+ * Checkbox over a list / grid card. Hidden until hover while nothing is
+ * selected; clicks never reach the card underneath.
+ */
+export function SelectionCheckbox({
+  checked,
+  visible,
+  onToggle,
+  className,
+}: {
+  checked: boolean;
+  visible: boolean;
+  onToggle: (range: boolean) => void;
+  className?: string;
+}) {
+  return (
+    <div
+      className={cn(
+        "absolute z-10 transition-opacity",
+        visible ? "opacity-100" : "opacity-0 group-hover:opacity-100",
+        className,
+      )}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Checkbox
+        checked={checked}
+        aria-label="Select record"
+        className="bg-card-ground"
+        onClick={(e) => onToggle(e.shiftKey)}
+      />
+    </div>
+  );
+}
+
 function SpaceListGridView<T extends { id: string }>({
   viewConfig,
   entities,
@@ -141,6 +186,7 @@ function SpaceListGridView<T extends { id: string }>({
   onClearAllFilters,
   entityLabelPlural,
   layout,
+  selection,
 }: SpaceListGridViewProps<T>) {
   const parentRef = useRef<HTMLDivElement>(null);
 
@@ -158,6 +204,16 @@ function SpaceListGridView<T extends { id: string }>({
 
   const classes = getViewClasses(layout, viewConfig.dividers, columns);
 
+  // While records are checked, a card click toggles it instead of opening it
+  const isSelecting = !!selection && selection.selectedIds.size > 0;
+  const handleCardClick = useCallback(
+    (entity: T) => {
+      if (isSelecting && selection) selection.onToggle(entity.id, false);
+      else onEntityClick?.(entity);
+    },
+    [isSelecting, selection, onEntityClick],
+  );
+
   // Calculate rows for virtualization
   const totalRows = isGrid
     ? Math.ceil(entities.length / columns)
@@ -244,12 +300,20 @@ function SpaceListGridView<T extends { id: string }>({
             className={classes.gridRow}
           >
             {rowEntities.map((entity) => (
-              <div key={entity.id}>
+              <div key={entity.id} className={cn(selection && "group relative")}>
+                {selection && (
+                  <SelectionCheckbox
+                    checked={selection.selectedIds.has(entity.id)}
+                    visible={isSelecting}
+                    onToggle={(range) => selection.onToggle(entity.id, range)}
+                    className="left-2 top-2"
+                  />
+                )}
                 <CardComponent
                   entity={entity}
-                  selected={selectedId === entity.id}
+                  selected={selectedId === entity.id || !!selection?.selectedIds.has(entity.id)}
                   index={entities.indexOf(entity)}
-                  onClick={() => onEntityClick?.(entity)}
+                  onClick={() => handleCardClick(entity)}
                 />
               </div>
             ))}
@@ -271,13 +335,21 @@ function SpaceListGridView<T extends { id: string }>({
               transform: `translateY(${virtualRow.start}px)`,
               height: `${virtualRow.size}px`,
             }}
-            className={classes.listItem}
+            className={cn(classes.listItem, selection && "group")}
           >
+            {selection && (
+              <SelectionCheckbox
+                checked={selection.selectedIds.has(entity.id)}
+                visible={isSelecting}
+                onToggle={(range) => selection.onToggle(entity.id, range)}
+                className="left-1 top-1/2 -translate-y-1/2"
+              />
+            )}
             <CardComponent
               entity={entity}
-              selected={selectedId === entity.id}
+              selected={selectedId === entity.id || !!selection?.selectedIds.has(entity.id)}
               index={virtualRow.index}
-              onClick={() => onEntityClick?.(entity)}
+              onClick={() => handleCardClick(entity)}
             />
           </div>
         );
@@ -288,11 +360,13 @@ function SpaceListGridView<T extends { id: string }>({
       columns,
       isGrid,
       selectedId,
-      onEntityClick,
+      handleCardClick,
       CardComponent,
       hasMore,
       totalRows,
       classes,
+      selection,
+      isSelecting,
     ]
   );
 
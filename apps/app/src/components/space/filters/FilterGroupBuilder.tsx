@@ -0,0 +1,286 @@
+import { FORM_COMPONENT_MAP } from "@/components/edit/componentMap";
+import {
+  createEmptyFilterCondition,
+  createEmptyFilterGroup,
+  getFilterGroupOperators,
+  getFilterOperator,
+  getFilterOperatorLabel,
+  isListFilterOperator,
+} from "@/components/space/utils/filter-url-helpers";
+import type { FilterFieldConfig } from "@/types/field-config";
+import type {
+  FilterGroup,
+  FilterGroupCondition,
+  FilterGroupNode,
+  FilterOperator,
+} from "@breedhub/rxdb-store";
+import { Button } from "@ui/components/button";
+import { ButtonGroup, ButtonGroupItem } from "@ui/components/button-group";
+import { DropdownInput, TextInput } from "@ui/components/form-inputs";
+import { cn } from "@ui/lib/utils";
+import { Plus, X } from "lucide-react";
+
+interface FilterGroupBuilderProps {
+  group: FilterGroup;
+  filterFields: FilterFieldConfig[];
+  onChange: (group: FilterGroup) => void;
+}
+
+/** Nesting the builder offers; parsing allows deeper groups from URLs. */
+const MAX_BUILDER_DEPTH = 3;
+
+const VALUE_PLACEHOLDERS: Partial<Record<FilterOperator, string>> = {
+  in: "Values, comma-separated",
+  not_in: "Values, comma-separated",
+  range: "e.g. 2_8 or [2,8)",
+  date_range: "e.g. last_90_days or 2024-01-01_2024-06-30",
+  gte: "e.g. 2024-01-01",
+  lt: "e.g. 2024-01-01",
+};
+
+function NotToggle({ active, onToggle }: { active: boolean; onToggle: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={active}
+      className={cn(
+        "shrink-0 rounded-md border px-2 py-1 text-xs font-semibold uppercase transition-colors",
+        active
+          ? "border-primary bg-primary text-primary-foreground"
+          : "border-input text-muted-foreground hover:bg-accent",
+      )}
+    >
+      Not
+    </button>
+  );
+}
+
+function ConditionRow({
+  condition,
+  filterFields,
+  onChange,
+  onRemove,
+}: {
+  condition: FilterGroupCondition;
+  filterFields: FilterFieldConfig[];
+  onChange: (condition: FilterGroupCondition) => void;
+  onRemove: () => void;
+}) {
+  const fieldConfig = filterFields.find((field) => field.id === condition.field);
+  const ownOperator = getFilterOperator(fieldConfig);
+  const operator = condition.operator ?? ownOperator;
+  const hasValue = operator !== "is_null" && operator !== "is_not_null";
+
+  // Dictionary / lookup fields keep their own picker for single values
+  const PickerComponent =
+    fieldConfig?.component && (fieldConfig.referencedTable || fieldConfig.options?.length)
+      ? FORM_COMPONENT_MAP[fieldConfig.component]
+      : undefined;
+  const usePicker = PickerComponent && !isListFilterOperator(operator);
+
+  const setOperator = (next: string) => {
+    const nextOperator = next as FilterOperator;
+    const keepValue =
+      isListFilterOperator(nextOperator) === isListFilterOperator(operator) &&
+      nextOperator !== "is_null" &&
+      nextOperator !== "is_not_null";
+    onChange({
+      type: "condition",
+      field: condition.field,
+      ...(nextOperator !== ownOperator ? { operator: nextOperator } : {}),
+      ...(keepValue && condition.value !== undefined ? { value: condition.value } : {}),
+      ...(condition.negate ? { negate: true } : {}),
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-start gap-2">
+      <NotToggle
+        active={Boolean(condition.negate)}
+        onToggle={() => onChange({ ...condition, negate: !condition.negate })}
+      />
+      <DropdownInput
+        className="min-w-[10rem] flex-1"
+        placeholder="Field"
+        options={filterFields.map((field) => ({ value: field.id, label: field.displayName }))}
+        value={condition.field}
+        onValueChange={(field) =>
+          onChange({ type: "condition", field, ...(condition.negate ? { negate: true } : {}) })
+        }
+      />
+      <DropdownInput
+        className="min-w-[8rem]"
+        placeholder="Operator"
+        disabled={!fieldConfig}
+        options={getFilterGroupOperators(fieldConfig).map((item) => ({
+          value: item,
+          label: getFilterOperatorLabel(item),
+        }))}
+        value={operator}
+        onValueChange={setOperator}
+      />
+      {hasValue && (
+        <div className="min-w-[10rem] flex-1">
+          {usePicker && fieldConfig ? (
+            <PickerComponent
+              placeholder={fieldConfig.placeholder}
+              options={fieldConfig.options || []}
+              referencedTable={fieldConfig.referencedTable}
+              referencedFieldID={fieldConfig.referencedFieldID}
+              referencedFieldName={fieldConfig.referencedFieldName}
+              {...(fieldConfig.dataSource ? { dataSource: fieldConfig.dataSource } : {})}
+              value={condition.value ?? ""}
+              onValueChange={(value: unknown) => onChange({ ...condition, value })}
+            />
+          ) : (
+            <TextInput
+              placeholder={VALUE_PLACEHOLDERS[operator] ?? fieldConfig?.placeholder ?? "Value"}
+              disabled={!fieldConfig}
+              value={typeof condition.value === "string" ? condition.value : ""}
+              onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            />
+          )}
+        </div>
+      )}
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        aria-label="Remove condition"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  depth,
+  filterFields,
+  onChange,
+  onRemove,
+}: {
+  group: FilterGroup;
+  depth: number;
+  filterFields: FilterFieldConfig[];
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateChild = (index: number, child: FilterGroupNode) =>
+    onChange({
+      ...group,
+      children: group.children.map((item, i) => (i === index ? child : item)),
+    });
+  const removeChild = (index: number) =>
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  const addChild = (child: FilterGroupNode) =>
+    onChange({ ...group, children: [...group.children, child] });
+
+  return (
+    <div
+      className={cn(
+        "space-y-3",
+        depth > 0 && "rounded-md border border-dashed border-secondary-200 p-3",
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <NotToggle
+          active={Boolean(group.negate)}
+          onToggle={() => onChange({ ...group, negate: !group.negate })}
+        />
+        <span className="text-sm text-muted-foreground">Match</span>
+        <ButtonGroup>
+          <ButtonGroupItem
+            type="button"
+            isFirst
+            isActive={group.combinator === "and"}
+            onClick={() => onChange({ ...group, combinator: "and" })}
+          >
+            All
+          </ButtonGroupItem>
+          <ButtonGroupItem
+            type="button"
+            isLast
+            isActive={group.combinator === "or"}
+            onClick={() => onChange({ ...group, combinator: "or" })}
+          >
+            Any
+          </ButtonGroupItem>
+        </ButtonGroup>
+        <span className="text-sm text-muted-foreground">of the following</span>
+        {onRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="ml-auto"
+            onClick={onRemove}
+            aria-label="Remove group"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.children.map((child, index) =>
+        child.type === "group" ? (
+          <GroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            filterFields={filterFields}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={child}
+            filterFields={filterFields}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ),
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="ghost-secondary"
+          size="sm"
+          onClick={() => addChild(createEmptyFilterCondition())}
+        >
+          <Plus className="h-4 w-4" />
+          Condition
+        </Button>
+        {depth < MAX_BUILDER_DEPTH - 1 && (
+          <Button
+            type="button"
+            variant="ghost-secondary"
+            size="sm"
+            onClick={() => addChild(createEmptyFilterGroup())}
+          >
+            <Plus className="h-4 w-4" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * FilterGroupBuilder - advanced mode of FiltersDialog.
+ *
+ * Edits a nested AND / OR / NOT filter group: each group matches all or
+ * any of its conditions and subgroups, and any of them can be negated.
+ * Incomplete conditions are kept while editing and ignored by the query.
+ */
+export function FilterGroupBuilder({ group, filterFields, onChange }: FilterGroupBuilderProps) {
+  return (
+    <GroupEditor group={group} depth={0} filterFields={filterFields} onChange={onChange} />
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import type { FilterPreset, SaveFilterPresetOptions } from "@breedhub/rxdb-store";
+import { toast } from "@breedhub/rxdb-store";
+import { FormDialog } from "@/components/edit/FormDialog";
+import { CheckboxInput, TextInput } from "@ui/components/form-inputs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@ui/components/dropdown-menu";
+import { cn } from "@ui/lib/utils";
+import { BookmarkPlus, MoreHorizontal, Star, Users } from "lucide-react";
+
+interface FilterPresetChipsProps {
+  presets: FilterPreset[];
+  activePresetId: string | null;
+  /** Signed in — saving needs an owner */
+  canSave: boolean;
+  /** The user belongs to a kennel presets can be shared with */
+  canShare: boolean;
+  isOwn: (preset: FilterPreset) => boolean;
+  onApply: (preset: FilterPreset) => Promise<void>;
+  onSave: (name: string, options: SaveFilterPresetOptions) => Promise<unknown>;
+  onUpdateQuery: (preset: FilterPreset) => Promise<void>;
+  onToggleDefault: (preset: FilterPreset) => Promise<void>;
+  onToggleShared: (preset: FilterPreset) => Promise<void>;
+  onDelete: (preset: FilterPreset) => Promise<void>;
+  className?: string;
+}
+
+async function run(
+  action: () => Promise<unknown>,
+  failure: string,
+  success?: string,
+): Promise<boolean> {
+  try {
+    await action();
+    if (success) toast.success(success);
+    return true;
+  } catch (err: unknown) {
+    console.error("[FilterPresetChips] Preset action failed:", err);
+    toast.error(err instanceof Error ? err.message : failure);
+    return false;
+  }
+}
+
+/**
+ * FilterPresetChips - saved views of the space as one-click chips.
+ *
+ * The chip matching the current query is highlighted; own presets carry a
+ * menu (update to current query, default, share, delete). Presets shared by
+ * kennel co-members are marked and read-only.
+ */
+export function FilterPresetChips({
+  presets,
+  activePresetId,
+  canSave,
+  canShare,
+  isOwn,
+  onApply,
+  onSave,
+  onUpdateQuery,
+  onToggleDefault,
+  onToggleShared,
+  onDelete,
+  className,
+}: FilterPresetChipsProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+  const [shareWithKennel, setShareWithKennel] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  if (presets.length === 0 && !canSave) return null;
+
+  const resetDialog = () => {
+    setDialogOpen(false);
+    setName("");
+    setIsDefault(false);
+    setShareWithKennel(false);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    const saved = await run(
+      () => onSave(name, { isDefault, shareWithKennel }),
+      "Failed to save view",
+      `View "${name.trim()}" saved`,
+    );
+    setSaving(false);
+    if (saved) resetDialog();
+  };
+
+  return (
+    <div className={cn("flex items-center gap-2 overflow-x-auto scrollbar-hide", className)}>
+      {presets.map((preset) => {
+        const active = preset.id === activePresetId;
+        const own = isOwn(preset);
+        return (
+          <div
+            key={preset.id}
+            className={cn(
+              "inline-flex shrink-0 items-center rounded-full text-sm font-medium transition-colors",
+              active
+                ? "bg-primary text-primary-foreground"
+                : "bg-secondary-100 dark:bg-secondary-900 text-secondary-900 dark:text-secondary-100 hover:bg-secondary-200",
+            )}
+          >
+            <button
+              type="button"
+              onClick={() => void run(() => onApply(preset), "Failed to apply view")}
+              className={cn("inline-flex items-center gap-1.5 py-1.5 pl-3", own ? "pr-1" : "pr-3")}
+              title={own ? undefined : "Shared by a kennel member"}
+            >
+              {preset.is_default && own && <Star className="h-3 w-3 fill-current" aria-label="Default" />}
+              {!own && <Users className="h-3 w-3" aria-label="Shared" />}
+              <span>{preset.name}</span>
+            </button>
+            {own && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    type="button"
+                    className="mr-1 inline-flex h-5 w-5 items-center justify-center rounded-full hover:bg-white/20 dark:hover:bg-black/10"
+                    aria-label={`${preset.name} options`}
+                  >
+                    <MoreHorizontal className="h-3.5 w-3.5" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem
+                    onClick={() =>
+                      void run(() => onUpdateQuery(preset), "Failed to update view", "View updated")
+                    }
+                  >
+                    Update to current filters
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => void run(() => onToggleDefault(preset), "Failed to change default")}
+                  >
+                    {preset.is_default ? "Remove as default" : "Use as default"}
+                  </DropdownMenuItem>
+                  {(canShare || preset.shared_account_id) && (
+                    <DropdownMenuItem
+                      onClick={() => void run(() => onToggleShared(preset), "Failed to change sharing")}
+                    >
+                      {preset.shared_account_id ? "Stop sharing with kennel" : "Share with kennel"}
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-red-600"
+                    onClick={() => void run(() => onDelete(preset), "Failed to delete view")}
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        );
+      })}
+
+      {canSave && (
+        <button
+          type="button"
+          onClick={() => setDialogOpen(true)}
+          className="inline-flex shrink-0 items-center gap-1.5 rounded-full px-3 py-1.5 text-sm font-medium text-sub-header-color hover:text-foreground/70 transition-colors"
+        >
+          <BookmarkPlus className="h-4 w-4" />
+          Save view
+        </button>
+      )}
+
+      <FormDialog
+        open={dialogOpen}
+        onOpenChange={(open) => !open && !saving && resetDialog()}
+        title="Save view"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handleSave();
+        }}
+        submitLabel={saving ? "Saving..." : "Save"}
+        submitDisabled={saving || !name.trim()}
+      >
+        <div className="space-y-3">
+          <TextInput
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Available females"
+          />
+          <CheckboxInput
+            checkboxLabel="Open this space with this view"
+            checked={isDefault}
+            onCheckedChange={setIsDefault}
+          />
+          {canShare && (
+            <CheckboxInput
+              checkboxLabel="Share with my kennel"
+              checked={shareWithKennel}
+              onCheckedChange={setShareWithKennel}
+            />
+          )}
+        </div>
+      </FormDialog>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 import { FORM_COMPONENT_MAP } from "@/components/edit/componentMap";
 import { JunctionFilterField } from "@/components/edit/JunctionFilterField";
 import { FormDialog } from "@/components/edit/FormDialog";
+import {
+  createEmptyFilterGroup,
+  toFilterGroup,
+} from "@/components/space/utils/filter-url-helpers";
 import { useFormFields } from "@/hooks/useFormFields";
+import { useFilterFacetCounts, type FacetScope } from "@/hooks/space/useFilterFacetCounts";
 import React, { useCallback, useMemo } from "react";
 import type { FilterFieldConfig } from "@/types/field-config";
+import { FILTER_GROUP_KEY, type FilterGroup } from "@breedhub/rxdb-store";
+import { ButtonGroup, ButtonGroupItem } from "@ui/components/button-group";
+import { FilterGroupBuilder } from "./FilterGroupBuilder";
 
 export type { FilterFieldConfig };
 
@@ -25,6 +33,8 @@ interface FiltersDialogProps {
   onApply?: (values: Record<string, any>) => void;
   onCancel?: () => void;
   initialValues?: Record<string, any>;
+  /** Entity/space to count dictionary options for; no counts without it */
+  facetScope?: FacetScope;
 }
 
 const componentMap = FORM_COMPONENT_MAP;
@@ -45,11 +55,14 @@ export function FiltersDialog({
   onApply,
   onCancel,
   initialValues = {},
+  facetScope,
 }: FiltersDialogProps) {
   // State for filter values
   const [filterValues, setFilterValues] = React.useState<Record<string, any>>(initialValues);
   const [errors, setErrors] = React.useState<Record<string, string>>({});
   const [touched, setTouched] = React.useState<Record<string, boolean>>({});
+  // Advanced mode edits a filter group, ANDed with the simple-mode fields
+  const [mode, setMode] = React.useState<"simple" | "advanced">("simple");
 
   // Reset on open
   React.useEffect(() => {
@@ -57,9 +70,20 @@ export function FiltersDialog({
       setFilterValues(initialValues);
       setErrors({});
       setTouched({});
+      setMode(toFilterGroup(initialValues[FILTER_GROUP_KEY]) ? "advanced" : "simple");
     }
   }, [open, initialValues]);
 
+  const facetCounts = useFilterFacetCounts({
+    scope: facetScope,
+    enabled: open && mode === "simple",
+    filterFields,
+    filterValues,
+  });
+
+  const filterGroup: FilterGroup =
+    filterValues[FILTER_GROUP_KEY] ?? createEmptyFilterGroup();
+
   // Build fields record for useFormFields (FilterFieldConfig uses id as key)
   const fieldsRecord = useMemo(() => {
     const result: Record<string, FilterFieldConfig> = {};
@@ -158,54 +182,84 @@ export function FiltersDialog({
       onCancel={onCancel}
       submitLabel="Apply filters"
     >
-      <div className="grid gap-x-3 gap-y-1 sm:grid-cols-2">
-        {filterFields.map((field) => {
-          const Component = componentMap[field.component!];
-          if (!Component) return null;
-
-          const disabled = isFieldDisabled(field);
-          const cascadeProps = getCascadeProps(field);
-          const parentFieldValue = getParentFieldValue(field);
-
-          const commonProps = {
-            label: toSentenceCase(field.displayName),
-            placeholder: field.placeholder,
-            required: field.required,
-            id: field.id,
-            options: field.options || [],
-            referencedTable: field.referencedTable,
-            referencedFieldID: field.referencedFieldID,
-            referencedFieldName: field.referencedFieldName,
-            ...(field.dataSource ? { dataSource: field.dataSource } : {}),
-            value: filterValues[field.id] || "",
-            onValueChange: (value: any) => handleValueChange(field.id, value),
-            disabled,
-            disabledOnGray: disabled,
-            error: errors[field.id],
-            touched: touched[field.id],
-            ...cascadeProps,
-          };
-
-          if (field.junctionTable && field.junctionField && field.junctionFilterField) {
+      <ButtonGroup className="mb-4">
+        <ButtonGroupItem
+          type="button"
+          isFirst
+          isActive={mode === "simple"}
+          onClick={() => setMode("simple")}
+        >
+          Simple
+        </ButtonGroupItem>
+        <ButtonGroupItem
+          type="button"
+          isLast
+          isActive={mode === "advanced"}
+          onClick={() => setMode("advanced")}
+        >
+          Advanced
+        </ButtonGroupItem>
+      </ButtonGroup>
+
+      {mode === "advanced" ? (
+        <FilterGroupBuilder
+          group={filterGroup}
+          filterFields={filterFields}
+          onChange={(group) =>
+            setFilterValues((prev) => ({ ...prev, [FILTER_GROUP_KEY]: group }))
+          }
+        />
+      ) : (
+        <div className="grid gap-x-3 gap-y-1 sm:grid-cols-2">
+          {filterFields.map((field) => {
+            const Component = componentMap[field.component!];
+            if (!Component) return null;
+
+            const disabled = isFieldDisabled(field);
+            const cascadeProps = getCascadeProps(field);
+            const parentFieldValue = getParentFieldValue(field);
+
+            const commonProps = {
+              label: toSentenceCase(field.displayName),
+              placeholder: field.placeholder,
+              required: field.required,
+              id: field.id,
+              options: field.options || [],
+              referencedTable: field.referencedTable,
+              referencedFieldID: field.referencedFieldID,
+              referencedFieldName: field.referencedFieldName,
+              ...(field.dataSource ? { dataSource: field.dataSource } : {}),
+              value: filterValues[field.id] || "",
+              onValueChange: (value: any) => handleValueChange(field.id, value),
+              disabled,
+              disabledOnGray: disabled,
+              error: errors[field.id],
+              touched: touched[field.id],
+              optionCounts: facetCounts[field.id],
+              ...cascadeProps,
+            };
+
+            if (field.junctionTable && field.junctionField && field.junctionFilterField) {
+              return (
+                <div key={field.id} className="space-y-2">
+                  <JunctionFilterField
+                    field={field}
+                    Component={Component}
+                    parentFieldValue={parentFieldValue}
+                    {...commonProps}
+                  />
+                </div>
+              );
+            }
+
             return (
               <div key={field.id} className="space-y-2">
-                <JunctionFilterField
-                  field={field}
-                  Component={Component}
-                  parentFieldValue={parentFieldValue}
-                  {...commonProps}
-                />
+                <Component {...commonProps} />
               </div>
             );
-          }
-
-          return (
-            <div key={field.id} className="space-y-2">
-              <Component {...commonProps} />
-            </div>
-          );
-        })}
-      </div>
+          })}
+        </div>
+      )}
     </FormDialog>
   );
 }
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import type { FilterFieldConfig } from "@/types/field-config";
+import type { FacetScope } from "@/hooks/space/useFilterFacetCounts";
 import { Chip } from '@ui/components/chip';
 import { SortFilterSelector, SortOption } from './SortFilterSelector';
 import { cn } from '@ui/lib/utils';
@@ -19,6 +20,8 @@ interface FiltersSectionProps {
   onSortChange?: (option: SortOption) => void;
   filterFields?: FilterFieldConfig[];
   currentFilterValues?: Record<string, any>;
+  /** Entity/space whose dictionary filter options get facet counts */
+  facetScope?: FacetScope;
   className?: string;
 }
 
@@ -35,6 +38,7 @@ export function FiltersSection({
   onSortChange,
   filterFields,
   currentFilterValues,
+  facetScope,
   className
 }: FiltersSectionProps) {
   const [selectedSort, setSelectedSort] = useState<SortOption | undefined>(defaultSortOption);
@@ -132,6 +136,7 @@ export function FiltersSection({
         onFiltersApply={onFiltersApply}
         filterFields={filterFields}
         currentFilterValues={currentFilterValues}
+        facetScope={facetScope}
       />
 
       {filters.length > 0 && (
@@ -8,6 +8,7 @@ import {
 import { cn } from "@ui/lib/utils";
 import { Filter } from "lucide-react";
 import { useState } from "react";
+import type { FacetScope } from "@/hooks/space/useFilterFacetCounts";
 import { FiltersDialog, FilterFieldConfig } from "./FiltersDialog";
 import { SortOption, SortSelector } from "./SortSelector";
 
@@ -23,6 +24,7 @@ interface SortFilterSelectorProps {
   onFiltersApply?: (values: Record<string, any>) => void;
   filterFields?: FilterFieldConfig[];
   currentFilterValues?: Record<string, any>;
+  facetScope?: FacetScope;
 }
 
 export function SortFilterSelector({
@@ -34,6 +36,7 @@ export function SortFilterSelector({
   onFiltersApply,
   filterFields,
   currentFilterValues,
+  facetScope,
 }: SortFilterSelectorProps) {
   const [isFiltersDialogOpen, setIsFiltersDialogOpen] = useState(false);
 
@@ -72,6 +75,7 @@ export function SortFilterSelector({
         filterFields={filterFields}
         onApply={onFiltersApply}
         initialValues={currentFilterValues}
+        facetScope={facetScope}
       />
     </TooltipProvider>
   );
@@ -5,3 +5,5 @@ export { FiltersDialog } from './FiltersDialog';
 export type { FilterField } from './FiltersSection';
 export type { SortOption } from './SortSelector';
 export type { FilterConfig } from './FiltersDialog';
+export { FilterPresetChips } from './FilterPresetChips';
+export { FilterGroupBuilder } from './FilterGroupBuilder';
@@ -0,0 +1,233 @@
+import { useSelectedEntity, useSpaceConfig } from "@/contexts/SpaceContext";
+import { entityLabel } from "@/utils/crudToast";
+import {
+  canRevertChange,
+  filterChangeHistory,
+  getChangedFieldNames,
+  spaceStore,
+  toast,
+  userStore,
+  type ChangeHistoryEntry,
+} from "@breedhub/rxdb-store";
+import { useSignals } from "@preact/signals-react/runtime";
+import { Button } from "@ui/components/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@ui/components/dropdown-menu";
+import { ChevronDown, CloudOff, Undo2 } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+interface ChangeHistoryTabProps {
+  entityType?: string;
+  onLoadedCount?: (count: number) => void;
+}
+
+const OPERATION_LABEL: Record<ChangeHistoryEntry["operation"], string> = {
+  create: "Created",
+  update: "Changed",
+  delete: "Deleted",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function formatChangedAt(changedAt: string): string {
+  const date = new Date(changedAt);
+  return Number.isNaN(date.getTime()) ? changedAt : date.toLocaleString();
+}
+
+function describeEntry(entry: ChangeHistoryEntry): string {
+  const target = entry.table_type ? entityLabel(entry.table_type) : "Record";
+  return `${OPERATION_LABEL[entry.operation]} · ${target}`;
+}
+
+function HistoryEntryRow({
+  entry,
+  field,
+  currentUserId,
+  busy,
+  onRevert,
+}: {
+  entry: ChangeHistoryEntry;
+  field: string | null;
+  currentUserId: string | null;
+  busy: boolean;
+  onRevert: (entry: ChangeHistoryEntry, field?: string) => void;
+}) {
+  const changes = field ? entry.changes.filter((change) => change.field === field) : entry.changes;
+  const revertable = canRevertChange(entry);
+  const perField = entry.operation === "update" && revertable;
+
+  return (
+    <li className="border-b border-surface-border py-3 last:border-b-0">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-semibold">{describeEntry(entry)}</span>
+        {entry.pending && (
+          <CloudOff className="h-3.5 w-3.5 text-slate-400" aria-label="Not synced yet" />
+        )}
+        <span className="ml-auto text-xs text-slate-500">
+          {formatChangedAt(entry.changed_at)}
+          {entry.changed_by && entry.changed_by === currentUserId ? " · you" : ""}
+        </span>
+        {revertable && !perField && (
+          <Button
+            variant="ghost-secondary"
+            size="sm"
+            disabled={busy}
+            onClick={() => onRevert(entry)}
+            title="Revert this change"
+          >
+            <Undo2 className="h-3.5 w-3.5" />
+            Revert
+          </Button>
+        )}
+      </div>
+      {changes.length > 0 && (
+        <table className="mt-2 w-full table-fixed text-xs">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="w-1/4 font-medium">Field</th>
+              <th className="font-medium">Before</th>
+              <th className="font-medium">After</th>
+              {perField && <th className="w-10" />}
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((change) => (
+              <tr key={change.field}>
+                <td className="truncate pr-2 font-mono">{change.field}</td>
+                <td className="break-words pr-2 text-slate-500">{formatValue(change.before)}</td>
+                <td className="break-words pr-2">{formatValue(change.after)}</td>
+                {perField && (
+                  <td>
+                    <Button
+                      variant="ghost-secondary"
+                      disabled={busy}
+                      onClick={() => onRevert(entry, change.field)}
+                      title={`Revert ${change.field}`}
+                      className="size-7 rounded-full p-0"
+                    >
+                      <Undo2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </li>
+  );
+}
+
+/**
+ * ChangeHistoryTab - who changed what on a record, and when.
+ *
+ * Lists the entity's change history (its own fields and its child records)
+ * newest first, with before/after values per field. Entries not yet pushed
+ * to Supabase are marked. The field filter narrows the list to one field;
+ * a change — or one field of it — can be reverted, which is saved as a new
+ * change.
+ */
+export function ChangeHistoryTab({ entityType: entityTypeProp, onLoadedCount }: ChangeHistoryTabProps) {
+  useSignals();
+
+  const spaceConfig = useSpaceConfig();
+  const entityType: string | undefined = entityTypeProp ?? spaceConfig?.entitySchemaName;
+  const currentUserId = userStore.currentUserId.value;
+  const selectedEntity = useSelectedEntity();
+  const entityId: string | undefined = selectedEntity?.id;
+  const updatedAt: string | undefined = selectedEntity?.updated_at;
+
+  const [entries, setEntries] = useState<ChangeHistoryEntry[] | null>(null);
+  const [field, setField] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!entityType || !entityId) return;
+    try {
+      const history = await spaceStore.getChangeHistory(entityType, entityId);
+      setEntries(history);
+      onLoadedCount?.(history.length);
+    } catch (error) {
+      console.error("[ChangeHistoryTab] Failed to load history:", error);
+      setEntries([]);
+    }
+  }, [entityType, entityId, onLoadedCount]);
+
+  // Reload after every save of the record (updated_at moves)
+  useEffect(() => {
+    void load();
+  }, [load, updatedAt]);
+
+  useEffect(() => {
+    setField(null);
+  }, [entityId]);
+
+  const fieldNames = useMemo(() => getChangedFieldNames(entries ?? []), [entries]);
+  const visible = useMemo(() => filterChangeHistory(entries ?? [], field), [entries, field]);
+
+  const handleRevert = async (entry: ChangeHistoryEntry, revertField?: string) => {
+    setBusy(true);
+    try {
+      await spaceStore.revertChange(entry, revertField);
+      toast.success(revertField ? `${revertField} reverted` : "Change reverted");
+      await load();
+    } catch (error: unknown) {
+      console.error("[ChangeHistoryTab] Revert failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revert change");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!entries) {
+    return <p className="py-4 text-sm text-slate-500">Loading history...</p>;
+  }
+
+  return (
+    <div className="cursor-default">
+      {fieldNames.length > 0 && (
+        <div className="mb-2 flex justify-end">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost-secondary" size="sm">
+                {field ?? "All fields"}
+                <ChevronDown className="h-3.5 w-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => setField(null)}>All fields</DropdownMenuItem>
+              {fieldNames.map((name) => (
+                <DropdownMenuItem key={name} onSelect={() => setField(name)}>
+                  {name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      )}
+      {visible.length === 0 ? (
+        <p className="py-4 text-sm text-slate-500">No changes recorded yet.</p>
+      ) : (
+        <ul>
+          {visible.map((entry) => (
+            <HistoryEntryRow
+              key={entry.id}
+              entry={entry}
+              field={field}
+              currentUserId={currentUserId}
+              busy={busy}
+              onRevert={handleRevert}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1 +1,2 @@
 export { OverviewTab } from './OverviewTab';
+export { ChangeHistoryTab } from './ChangeHistoryTab';
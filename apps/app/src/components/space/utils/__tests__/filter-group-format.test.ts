@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+
+// The package entry needs Supabase env; the pure helpers are enough here.
+vi.mock("@breedhub/rxdb-store", async () => ({
+  ...(await import("@breedhub/rxdb-store/utils/filter-builder")),
+  ...(await import("@breedhub/rxdb-store/stores/space-filter-group.helpers")),
+}));
+
+import type { FilterGroup } from "@breedhub/rxdb-store";
+import {
+  createEmptyFilterGroup,
+  describeFilterGroup,
+  getFilterGroupOperators,
+  serializeFilterGroup,
+  toFilterGroup,
+} from "../filter-group-format";
+
+const group: FilterGroup = {
+  type: "group",
+  combinator: "and",
+  children: [
+    {
+      type: "group",
+      combinator: "or",
+      children: [
+        { type: "condition", field: "owner_id", value: "me" },
+        { type: "condition", field: "breeder_id", value: "me" },
+      ],
+    },
+    { type: "condition", field: "status_id", value: "deceased", negate: true },
+  ],
+};
+
+describe("filter group format", () => {
+  it("round-trips a group through the URL and drops empty ones", () => {
+    const serialized = serializeFilterGroup(group);
+    expect(serialized).not.toBeNull();
+    expect(toFilterGroup(serialized)).toEqual(group);
+
+    expect(serializeFilterGroup(createEmptyFilterGroup())).toBeNull();
+    expect(toFilterGroup("{not json")).toBeNull();
+  });
+
+  it("describes a group as one line", () => {
+    const labels: Record<string, string> = {
+      owner_id: "Owner",
+      breeder_id: "Breeder",
+      status_id: "Status",
+    };
+    const text = describeFilterGroup(group, {
+      getFieldLabel: (field) => labels[field],
+      getValueLabel: (_field, value) => (value === "me" ? "Me" : "Deceased"),
+      getOperator: () => "eq",
+    });
+    expect(text).toBe("(Owner is Me or Breeder is Me) and not Status is Deceased");
+  });
+
+  it("offers the field's own operator first", () => {
+    expect(getFilterGroupOperators({ fieldType: "date" })[0]).toBe("date_range");
+    expect(getFilterGroupOperators({ fieldType: "uuid", referencedTable: "breed" })).toEqual([
+      "eq",
+      "ne",
+      "is_null",
+      "is_not_null",
+    ]);
+  });
+});
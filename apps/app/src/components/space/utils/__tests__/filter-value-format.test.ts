@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+
+// The package entry needs Supabase env; the pure filter builder is enough here.
+vi.mock("@breedhub/rxdb-store", () => import("@breedhub/rxdb-store/utils/filter-builder"));
+
+import {
+  formatFilterValueLabel,
+  getFilterOperator,
+  isListFilterOperator,
+  isVerbatimFilterOperator,
+  serializeFilterValue,
+  splitFilterList,
+} from "../filter-value-format";
+
+describe("filter value format", () => {
+  it("keeps ranges, relative dates and null checks verbatim", () => {
+    expect(getFilterOperator({ fieldType: "date" })).toBe("date_range");
+    expect(isVerbatimFilterOperator("date_range")).toBe(true);
+    expect(isVerbatimFilterOperator(getFilterOperator({ operator: "is_null" }))).toBe(true);
+    expect(isVerbatimFilterOperator("eq")).toBe(false);
+    expect(isListFilterOperator("not_in")).toBe(true);
+  });
+
+  it("serializes lists and ranges for the URL", () => {
+    expect(serializeFilterValue(["a", "b"])).toBe("a,b");
+    expect(serializeFilterValue({ from: 2, to: 8, toExclusive: true })).toBe("[2,8)");
+    expect(serializeFilterValue("last_90_days")).toBe("last_90_days");
+    expect(splitFilterList("red, black,")).toEqual(["red", "black"]);
+  });
+
+  it("labels filter values for the active filter chips", () => {
+    expect(formatFilterValueLabel("date_range", "older_than_8_years")).toBe(
+      "Older than 8 years",
+    );
+    expect(formatFilterValueLabel("range", "[2,8)")).toBe("2 – 8");
+    expect(formatFilterValueLabel("range", "(2,]")).toBe("> 2");
+    expect(formatFilterValueLabel("is_not_null", "true")).toBe("not empty");
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  hasActiveFilterGroupConditions,
+  isFilterGroupConditionActive,
+  parseFilterGroup,
+  type FilterGroup,
+  type FilterGroupCondition,
+  type FilterGroupNode,
+  type FilterOperator,
+} from "@breedhub/rxdb-store";
+import { formatFilterValueLabel, getFilterOperator } from "./filter-value-format";
+
+/**
+ * Filter group (advanced filters) in the URL: one `?where=` param holding
+ * the group as JSON, next to the simple-mode field params it is ANDed with.
+ */
+
+export const FILTER_GROUP_URL_PARAM = "where";
+
+/** Blank condition row for the query builder (ignored until a field is set). */
+export function createEmptyFilterCondition(): FilterGroupCondition {
+  return { type: "condition", field: "" };
+}
+
+export function createEmptyFilterGroup(): FilterGroup {
+  return { type: "group", combinator: "and", children: [createEmptyFilterCondition()] };
+}
+
+/** Group from a URL / saved-filter string or an in-memory value; null when unusable. */
+export function toFilterGroup(value: unknown): FilterGroup | null {
+  if (typeof value !== "string") return parseFilterGroup(value);
+  try {
+    return parseFilterGroup(JSON.parse(value));
+  } catch {
+    return null;
+  }
+}
+
+/** URL form of a group; null when it has no active condition. */
+export function serializeFilterGroup(value: unknown): string | null {
+  const group = toFilterGroup(value);
+  if (!group || !hasActiveFilterGroupConditions(group)) return null;
+  return JSON.stringify(group);
+}
+
+const OPERATOR_PHRASES: Record<string, string> = {
+  eq: "is",
+  ne: "is not",
+  ilike: "contains",
+  contains: "contains",
+  starts_with: "starts with",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  in: "is any of",
+  not_in: "is none of",
+  is_null: "is",
+  is_not_null: "is",
+  range: "in",
+  date_range: "in",
+};
+
+const NULL_CHECKS: FilterOperator[] = ["is_null", "is_not_null"];
+
+/**
+ * Operators the query builder offers for a field: the field's own operator
+ * first, then the ones that make sense for its type.
+ */
+export function getFilterGroupOperators(
+  fieldConfig: { fieldType?: string; operator?: string; referencedTable?: string } | undefined,
+): FilterOperator[] {
+  let operators: FilterOperator[];
+  if (fieldConfig?.referencedTable || fieldConfig?.fieldType === "uuid") {
+    // "Any of" is an OR group of pickers rather than a list of raw ids
+    operators = ["eq", "ne", ...NULL_CHECKS];
+  } else {
+    switch (fieldConfig?.fieldType) {
+      case "number":
+      case "integer":
+        operators = ["eq", "ne", "gt", "gte", "lt", "lte", "range", ...NULL_CHECKS];
+        break;
+      case "date":
+      case "timestamp":
+        operators = ["date_range", "gte", "lt", ...NULL_CHECKS];
+        break;
+      case "boolean":
+        operators = ["eq", ...NULL_CHECKS];
+        break;
+      default:
+        operators = ["ilike", "eq", "ne", "starts_with", "in", "not_in", ...NULL_CHECKS];
+    }
+  }
+  const own = getFilterOperator(fieldConfig);
+  return [own, ...operators.filter((operator) => operator !== own)];
+}
+
+/** Operator label in the query builder's operator select. */
+export function getFilterOperatorLabel(operator: FilterOperator): string {
+  if (operator === "is_null") return "is empty";
+  if (operator === "is_not_null") return "is not empty";
+  if (operator === "range" || operator === "date_range") return "in range";
+  return OPERATOR_PHRASES[operator] ?? operator;
+}
+
+/**
+ * One-line summary of a group for the active filter chip:
+ * "(Owner is Me or Breeder is Me) and not Status is Deceased".
+ */
+export function describeFilterGroup(
+  group: FilterGroup,
+  {
+    getFieldLabel,
+    getValueLabel,
+    getOperator,
+  }: {
+    getFieldLabel: (field: string) => string;
+    getValueLabel?: (field: string, value: unknown) => string;
+    getOperator: (field: string) => FilterOperator;
+  },
+): string {
+  const describeNode = (node: FilterGroupNode, nested: boolean): string => {
+    if (node.type === "condition") {
+      if (!isFilterGroupConditionActive(node)) return "";
+      const operator = node.operator ?? getOperator(node.field);
+      const value =
+        operator === "is_null" || operator === "is_not_null"
+          ? formatFilterValueLabel(operator, node.value)
+          : getValueLabel?.(node.field, node.value) ??
+            formatFilterValueLabel(operator, node.value);
+      const phrase = OPERATOR_PHRASES[operator] ?? operator;
+      const text = `${getFieldLabel(node.field)} ${phrase} ${value}`;
+      return node.negate ? `not ${text}` : text;
+    }
+
+    const parts = node.children
+      .map((child) => describeNode(child, true))
+      .filter(Boolean);
+    if (parts.length === 0) return "";
+    const text = parts.join(node.combinator === "or" ? " or " : " and ");
+    const wrapped = nested && parts.length > 1 ? `(${text})` : text;
+    if (!node.negate) return wrapped;
+    return parts.length > 1 ? `not (${text})` : `not ${text}`;
+  };
+
+  return describeNode(group, false);
+}
@@ -1,2 +1,20 @@
 export { getLabelForValue, getValueForLabel } from "./filter-field-lookup";
 export { generateSlug, normalizeForUrl } from "./url-formatting";
+export {
+  formatFilterValueLabel,
+  getFilterOperator,
+  isListFilterOperator,
+  isVerbatimFilterOperator,
+  serializeFilterValue,
+  splitFilterList,
+} from "./filter-value-format";
+export {
+  FILTER_GROUP_URL_PARAM,
+  createEmptyFilterCondition,
+  createEmptyFilterGroup,
+  describeFilterGroup,
+  getFilterGroupOperators,
+  getFilterOperatorLabel,
+  serializeFilterGroup,
+  toFilterGroup,
+} from "./filter-group-format";
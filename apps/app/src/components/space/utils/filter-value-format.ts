@@ -0,0 +1,85 @@
+import {
+  detectOperator,
+  formatFilterRange,
+  parseFilterRange,
+  type FilterOperator,
+  type FilterRange,
+} from "@breedhub/rxdb-store";
+
+/**
+ * URL form of filter values whose operator is not a plain lookup/text match.
+ *
+ * - verbatim operators (ranges, relative dates, null checks) keep their
+ *   value as-is in the URL: `?age=[2,8)`, `?born=last_90_days`;
+ * - list operators (`in` / `not_in`) are comma-separated, each item
+ *   resolved to its label like a single lookup value: `?color=red,black`.
+ */
+
+const VERBATIM_OPERATORS = new Set<FilterOperator>([
+  "between",
+  "range",
+  "date_range",
+  "is_null",
+  "is_not_null",
+]);
+
+const LIST_OPERATORS = new Set<FilterOperator>(["in", "not_in"]);
+
+export function getFilterOperator(
+  fieldConfig: { fieldType?: string; operator?: string } | undefined,
+): FilterOperator {
+  return detectOperator(fieldConfig?.fieldType ?? "string", fieldConfig?.operator);
+}
+
+export function isVerbatimFilterOperator(operator: FilterOperator): boolean {
+  return VERBATIM_OPERATORS.has(operator);
+}
+
+export function isListFilterOperator(operator: FilterOperator): boolean {
+  return LIST_OPERATORS.has(operator);
+}
+
+/** String form of a filter value for the URL and saved filters. */
+export function serializeFilterValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(String).join(",");
+  if (value && typeof value === "object") {
+    return formatFilterRange(value as FilterRange);
+  }
+  return String(value);
+}
+
+/** Items of a list filter value (array or comma-separated string). */
+export function splitFilterList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(String) : String(value).split(",");
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+function formatBound(range: FilterRange): string {
+  if (range.from !== undefined && range.to !== undefined) {
+    return `${range.from} – ${range.to}`;
+  }
+  if (range.from !== undefined) {
+    return `${range.fromExclusive ? ">" : "≥"} ${range.from}`;
+  }
+  return `${range.toExclusive ? "<" : "≤"} ${range.to}`;
+}
+
+/** Human-readable value for the active filter chips. */
+export function formatFilterValueLabel(
+  operator: FilterOperator,
+  value: unknown,
+): string {
+  if (operator === "is_null") return "empty";
+  if (operator === "is_not_null") return "not empty";
+
+  const text = serializeFilterValue(value);
+  if (operator === "date_range" && /^(last|older_than|this)_/.test(text)) {
+    const words = text.replace(/_/g, " ");
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+  if (operator === "range" || operator === "date_range" || operator === "between") {
+    const range = parseFilterRange(value);
+    return range ? formatBound(range) : text;
+  }
+  return text;
+}
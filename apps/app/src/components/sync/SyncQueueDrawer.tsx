@@ -0,0 +1,62 @@
+import { Button } from "@ui/components/button";
+import { isDiagnosticsEnabled } from "@/utils/diagnostics";
+import { Activity, Maximize2, X } from "lucide-react";
+import { Link } from "react-router-dom";
+import { SyncQueueInspector } from "./SyncQueueInspector";
+
+interface SyncQueueDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * SyncQueueDrawer - Right-side drawer with the sync inspector,
+ * opened from SyncStatusIndicator. Links to the full /sync page and, in
+ * dev / power-user mode, to the /diagnostics panel.
+ */
+export function SyncQueueDrawer({ isOpen, onClose }: SyncQueueDrawerProps) {
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Overlay */}
+      <div className="fixed inset-0 bg-black/50 z-60" onClick={onClose} />
+
+      {/* Drawer */}
+      <div className="fixed right-0 top-0 h-full w-96 max-w-full bg-white shadow-xl z-70 flex flex-col user-drawer-enter">
+        <div className="flex items-center gap-2 px-4 py-3 border-b">
+          <div className="flex-1 font-semibold">Sync queue</div>
+          {isDiagnosticsEnabled() && (
+            <Link to="/diagnostics" onClick={onClose} title="Sync & cache diagnostics">
+              <Button
+                variant="ghost-secondary"
+                className="size-7 shrink-0 rounded-full p-0 focus-visible:ring-0"
+              >
+                <Activity className="h-4 w-4" />
+              </Button>
+            </Link>
+          )}
+          <Link to="/sync" onClick={onClose} title="Open full page">
+            <Button
+              variant="ghost-secondary"
+              className="size-7 shrink-0 rounded-full p-0 focus-visible:ring-0"
+            >
+              <Maximize2 className="h-4 w-4" />
+            </Button>
+          </Link>
+          <Button
+            variant="ghost-secondary"
+            onClick={onClose}
+            className="size-7 shrink-0 rounded-full p-0 focus-visible:ring-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 p-4 overflow-y-auto">
+          <SyncQueueInspector />
+        </div>
+      </div>
+    </>
+  );
+}
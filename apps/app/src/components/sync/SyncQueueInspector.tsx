@@ -0,0 +1,274 @@
+import {
+  diffQueuedPayload,
+  spaceStore,
+  syncQueueService,
+  toast,
+  type SyncQueueItem,
+} from "@breedhub/rxdb-store";
+import { Button } from "@ui/components/button";
+import { Textarea } from "@ui/components/textarea";
+import { cn } from "@ui/lib/utils";
+import { ChevronDown, ChevronRight, RotateCw, Trash2, Pencil } from "lucide-react";
+import { useState } from "react";
+import {
+  useSyncQueueItems,
+  type SyncQueueItemWithLocal,
+} from "@/hooks/useSyncQueueItems";
+
+function formatAge(createdAt: number): string {
+  const diffMin = Math.floor((Date.now() - createdAt) / 60_000);
+  if (diffMin < 1) return "just now";
+  if (diffMin < 60) return `${diffMin} min ago`;
+  const diffH = Math.floor(diffMin / 60);
+  if (diffH < 24) return `${diffH} h ago`;
+  return `${Math.floor(diffH / 24)} d ago`;
+}
+
+function formatWait(nextAttemptAt: number): string {
+  const diffSec = Math.ceil((nextAttemptAt - Date.now()) / 1000);
+  if (diffSec < 60) return `${diffSec} s`;
+  return `${Math.ceil(diffSec / 60)} min`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+const STATUS_CLASS: Record<string, string> = {
+  failed: "text-amber-600",
+  conflict: "text-red-600",
+};
+
+function QueueItemRow({
+  entry,
+  onChanged,
+}: {
+  entry: SyncQueueItemWithLocal;
+  onChanged: () => Promise<void>;
+}) {
+  const { item, local } = entry;
+  const [expanded, setExpanded] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const status = item.status ?? "pending";
+  const diff = diffQueuedPayload(item.payload, local);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      await onChanged();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = (target: SyncQueueItem) =>
+    run(async () => {
+      await spaceStore.discardQueuedChange(target);
+      toast.info("Change discarded");
+    });
+
+  const handleSaveDraft = () => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(draft);
+    } catch {
+      setDraftError("Invalid JSON");
+      return;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      setDraftError("Payload must be a JSON object");
+      return;
+    }
+    void run(async () => {
+      await syncQueueService.updateItemPayload(
+        item.queue,
+        item.id,
+        parsed as Record<string, unknown>,
+      );
+      setEditing(false);
+    });
+  };
+
+  return (
+    <li className="rounded-lg border border-surface-border p-3">
+      <div className="flex items-start gap-2">
+        <button
+          type="button"
+          aria-label={expanded ? "Collapse" : "Expand"}
+          onClick={() => setExpanded((v) => !v)}
+          className="mt-0.5 text-slate-500"
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center gap-x-2 text-sm">
+            <span className="font-semibold">{item.tableType ?? item.entityType}</span>
+            <span className="text-xs uppercase text-slate-500">{item.operation}</span>
+            <span className={cn("text-xs", STATUS_CLASS[status] ?? "text-slate-500")}>
+              {status}
+            </span>
+          </div>
+          <div className="text-xs text-slate-500 truncate">
+            {item.recordId} · {item.retries} retries · {formatAge(item.createdAt)}
+            {status === "pending" && item.nextAttemptAt && item.nextAttemptAt > Date.now() && (
+              <> · next try in {formatWait(item.nextAttemptAt)}</>
+            )}
+          </div>
+          {item.waitingFor && (
+            <div className="mt-1 text-xs text-slate-500">
+              Waiting for {item.waitingFor.entityType} {item.waitingFor.entityId} to sync
+              {item.waitingFor.status !== "pending" && ` (${item.waitingFor.status})`}
+            </div>
+          )}
+          {!!item.dependentCount && (
+            <div className="mt-1 text-xs text-slate-500">
+              {item.dependentCount} related changes wait for this one
+            </div>
+          )}
+          {item.error && (
+            <div className="mt-1 text-xs text-amber-700 break-words">
+              {item.errorCode && <span className="font-mono">[{item.errorCode}] </span>}
+              {item.error}
+            </div>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <Button
+            variant="ghost-secondary"
+            size="icon"
+            title="Retry now"
+            disabled={busy}
+            onClick={() => run(() => syncQueueService.retryItem(item.queue, item.id))}
+            className="size-7 rounded-full p-0"
+          >
+            <RotateCw className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost-secondary"
+            size="icon"
+            title="Edit payload"
+            disabled={busy}
+            onClick={() => {
+              setDraft(JSON.stringify(item.payload, null, 2));
+              setDraftError(null);
+              setEditing(true);
+              setExpanded(true);
+            }}
+            className="size-7 rounded-full p-0"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost-secondary"
+            size="icon"
+            title="Discard change"
+            disabled={busy}
+            onClick={() => handleDiscard(item)}
+            className="size-7 rounded-full p-0 text-red-600"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {expanded && !editing && (
+        <table className="mt-2 w-full table-fixed text-xs">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="w-1/4 font-medium">Field</th>
+              <th className="font-medium">Queued</th>
+              <th className="font-medium">Local</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.map((row) => (
+              <tr key={row.field} className={cn(row.changed && "bg-amber-50 dark:bg-amber-950")}>
+                <td className="truncate pr-2 font-mono">{row.field}</td>
+                <td className="break-words pr-2">{formatValue(row.queued)}</td>
+                <td className="break-words">{formatValue(row.local)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing && (
+        <div className="mt-2 flex flex-col gap-2">
+          <Textarea
+            size="sm"
+            value={draft}
+            variant={draftError ? "destructive" : "default"}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setDraftError(null);
+            }}
+            className="min-h-[160px] font-mono"
+          />
+          {draftError && <div className="text-xs text-red-600">{draftError}</div>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost-secondary" size="sm" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" disabled={busy} onClick={handleSaveDraft}>
+              Save payload
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * SyncQueueInspector - Lists every queued push (entity + child queues)
+ * with retry / edit / discard actions. Rendered in SyncQueueDrawer and
+ * on the /sync page.
+ */
+export function SyncQueueInspector() {
+  const { items, loading, reload } = useSyncQueueItems();
+  const [retrying, setRetrying] = useState(false);
+  const hasFailed = items.some(({ item }) => item.status === "failed");
+
+  const handleRetryAll = async () => {
+    setRetrying(true);
+    try {
+      await syncQueueService.retryAll();
+      await reload();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="py-4 text-center text-sm text-slate-500">Loading queue...</div>;
+  }
+
+  if (items.length === 0) {
+    return <div className="py-4 text-center text-sm text-slate-500">All changes are synced</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-500">{items.length} queued changes</span>
+        {hasFailed && (
+          <Button size="sm" variant="outline" disabled={retrying} onClick={handleRetryAll}>
+            <RotateCw className="h-3.5 w-3.5" />
+            Retry all
+          </Button>
+        )}
+      </div>
+      <ul className="flex flex-col gap-2">
+        {items.map((entry) => (
+          <QueueItemRow key={entry.item.id} entry={entry} onChanged={reload} />
+        ))}
+      </ul>
+    </div>
+  );
+}
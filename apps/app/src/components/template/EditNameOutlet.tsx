@@ -10,6 +10,7 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@ui/components/tooltip";
+import type { ReactNode } from "react";
 import { useNavigate } from "react-router-dom";
 import { NavigationButtons } from "./cover/NavigationButtons";
 import { NavigationButtonsSkeleton } from "./cover/NavigationButtonsSkeleton";
@@ -27,6 +28,8 @@ interface EditNameOutletProps {
   showActionButtons?: boolean;
   isCreateMode?: boolean;
   createModeName?: string;
+  /** Who else has the record open (PresenceAvatars) */
+  presence?: ReactNode;
 }
 
 /**
@@ -48,6 +51,7 @@ export function EditNameOutlet({
   showActionButtons = true,
   isCreateMode,
   createModeName,
+  presence,
 }: EditNameOutletProps) {
   const navigate = useNavigate();
 
@@ -120,10 +124,11 @@ export function EditNameOutlet({
           consistent; absolute+invisible during loading so its height
           doesn't drive layout (the skeleton above does). */}
       <div className={isLoading ? "invisible absolute inset-0" : ""}>
-        <div className="text-md mb-2 min-h-[1.5rem]">
+        <div className="text-md mb-2 min-h-[1.5rem] flex items-center gap-3">
           {entityTypeLabel && (
             <span className="uppercase">{entityTypeLabel}</span>
           )}
+          {presence}
         </div>
         {/* When sticky we reserve room for the action button row
             (`bottom-2 right-0`) so the name's truncate engages before it
@@ -9,7 +9,9 @@ import {
   useAllAboveFoldReady,
   useSkeletonWithDelay,
 } from "@/contexts/AboveFoldLoadingContext";
+import { PresenceAvatars } from "@/components/shared/PresenceAvatars";
 import { SpaceProvider } from "@/contexts/SpaceContext";
+import { useEntityPresence } from "@/hooks/useEntityPresence";
 import { useEntityFullyLoaded } from "@/hooks/useEntityFullyLoaded";
 import { type SaveResult, useUnsavedChangesGuard } from "@/hooks/useUnsavedChangesGuard";
 import { useSpaceTemplateContext } from "@/hooks/useSpaceTemplateContext";
@@ -17,7 +19,7 @@ import {
   getTabsConfigFromPage,
   isPreferredDefaultTabFragment,
 } from "@/utils/tab-config";
-import { generateSlug } from "@breedhub/rxdb-store";
+import { generateSlug, spaceStore } from "@breedhub/rxdb-store";
 import { Signal } from "@preact/signals-react";
 import { useSignals } from "@preact/signals-react/runtime";
 import { Button } from "@ui/components/button";
@@ -138,6 +140,18 @@ function EditBlocks({
     saveHandlerRef.current = handler;
   }, []);
 
+  // Active tab registers how to drop its unsaved edits (remote-save "Reload")
+  const discardHandlerRef = useRef<(() => void) | null>(null);
+
+  const onDiscardReady = useCallback((handler: () => void) => {
+    discardHandlerRef.current = handler;
+  }, []);
+
+  const handleReload = useCallback(async () => {
+    if (!entityType || !entityId) return;
+    await spaceStore.reloadEntity(entityType, entityId);
+  }, [entityType, entityId]);
+
   // Save button click — navigates to public page after create
   const handleSave = useCallback(async () => {
     const result = await saveHandlerRef.current?.();
@@ -155,14 +169,29 @@ function EditBlocks({
     handleLeaveDiscard,
     handleLeaveSave,
     handleNavigateAway,
+    handleRemoteMerge,
+    handleRemoteReload,
     hasUnsavedChanges,
+    notifyRemoteSave,
     onDirtyChange,
+    remoteSave,
     setShowLeaveDialog,
     showLeaveDialog,
   } = useUnsavedChangesGuard({
     isCreateMode,
     navigate,
     saveHandlerRef,
+    discardHandlerRef,
+    onReload: handleReload,
+  });
+
+  // Who else has the record open; saves by others while dirty raise remoteSave
+  const { members: presenceMembers, currentUserId } = useEntityPresence({
+    entityType,
+    entity: selectedEntity,
+    mode: "editing",
+    enabled: !isCreateMode && spacePermissions.canEdit,
+    onRemoteSave: notifyRemoteSave,
   });
 
 
@@ -231,6 +260,12 @@ function EditBlocks({
                 showActionButtons={isDefaultTabActive}
                 isCreateMode={isCreateMode}
                 createModeName={createModeName}
+                presence={
+                  <PresenceAvatars
+                    members={presenceMembers}
+                    currentUserId={currentUserId}
+                  />
+                }
               />
             </div>
           );
@@ -245,6 +280,7 @@ function EditBlocks({
                 tabMode: "tabs",
                 pageMenuTop: PAGE_MENU_TOP,
                 onSaveReady,
+                onDiscardReady,
                 entityType,
                 onDirtyChange,
                 onBeforeTabChange: handleBeforeTabChange,
@@ -304,6 +340,55 @@ function EditBlocks({
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Someone else saved the record while this form had unsaved edits */}
+      <Dialog
+        open={remoteSave !== null}
+        onOpenChange={(open) => {
+          if (!open) handleRemoteMerge();
+        }}
+      >
+        <DialogContent size="sm">
+          <DialogHeader>
+            <DialogTitle>Record changed</DialogTitle>
+          </DialogHeader>
+
+          <div>
+            <div className="modal-card space-y-2">
+              <p className="text-base">
+                {remoteSave?.by ?? "Someone"} saved this record while you were
+                editing it.
+              </p>
+              {remoteSave && remoteSave.fields.length > 0 && (
+                <p className="text-sm text-slate-600 dark:text-zinc-400">
+                  Changed: {remoteSave.fields.join(", ")}
+                </p>
+              )}
+              <p className="text-sm text-slate-600 dark:text-zinc-400">
+                Reload to drop your edits and see their version, or keep
+                editing — your save then merges on top of theirs.
+              </p>
+            </div>
+
+            <div className="modal-actions grid-cols-2">
+            <Button
+              type="button"
+              onClick={() => void handleRemoteReload()}
+              className="small-button bg-red-100 hover:bg-red-200 focus-visible:bg-red-300 text-red-700 dark:bg-red-900 dark:hover:bg-red-800 dark:text-red-200"
+            >
+              Reload
+            </Button>
+            <Button
+              type="button"
+              onClick={handleRemoteMerge}
+              className="small-button bg-primary-50 dark:bg-primary-300 hover:bg-primary-100 focus-visible:bg-primary-200 dark:hover:bg-primary-300 dark:focus-visible:bg-primary-200 text-primary dark:text-zinc-900"
+            >
+              Keep editing
+            </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
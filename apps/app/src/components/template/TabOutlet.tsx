@@ -27,6 +27,7 @@ interface TabOutletProps {
 
   // Edit page save orchestration (passed through to tab components via tabProps)
   onSaveReady?: (handler: () => Promise<void>) => void;
+  onDiscardReady?: (handler: () => void) => void;
   entityType?: string;
   onDirtyChange?: (dirty: boolean) => void;
   onBeforeTabChange?: () => Promise<void>;
@@ -68,6 +69,7 @@ export function TabOutlet({
   tabHeaderTop = 0,
   tabMode = "scroll",
   onSaveReady,
+  onDiscardReady,
   entityType,
   onDirtyChange,
   onBeforeTabChange,
@@ -248,6 +250,7 @@ export function TabOutlet({
           entitySlug={entity?.slug}
           tabMode={tabMode}
           onSaveReady={onSaveReady}
+          onDiscardReady={onDiscardReady}
           entityType={entityType}
           onDirtyChange={onDirtyChange}
           onBeforeTabChange={onBeforeTabChange}
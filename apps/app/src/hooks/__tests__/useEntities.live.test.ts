@@ -49,6 +49,43 @@ describe('buildLiveMatcher', () => {
 
     expect(match({ name: 'Rex' })).toBe(false);
   });
+
+  it('resolves relative date filters on date fields', () => {
+    const match = buildLiveMatcher(
+      { date_of_birth: 'older_than_8_years' },
+      { date_of_birth: { fieldType: 'date' } },
+    );
+
+    expect(match({ date_of_birth: '2001-05-12' })).toBe(true);
+    expect(match({ date_of_birth: new Date().toISOString().slice(0, 10) })).toBe(false);
+    expect(match({ date_of_birth: null })).toBe(false);
+  });
+
+  it('applies the filter group next to the flat filters', () => {
+    const match = buildLiveMatcher(
+      {
+        breed_id: 'b1',
+        $where: {
+          type: 'group',
+          combinator: 'or',
+          children: [
+            { type: 'condition', field: 'owner_id', value: 'me' },
+            { type: 'condition', field: 'breeder_id', value: 'me' },
+          ],
+        },
+      },
+      {
+        breed_id: { fieldType: 'uuid' },
+        owner_id: { fieldType: 'uuid' },
+        breeder_id: { fieldType: 'uuid' },
+      },
+    );
+
+    expect(match({ breed_id: 'b1', owner_id: 'me' })).toBe(true);
+    expect(match({ breed_id: 'b1', breeder_id: 'me' })).toBe(true);
+    expect(match({ breed_id: 'b1', owner_id: 'other' })).toBe(false);
+    expect(match({ breed_id: 'b2', owner_id: 'me' })).toBe(false);
+  });
 });
 
 describe('buildLiveSorter', () => {
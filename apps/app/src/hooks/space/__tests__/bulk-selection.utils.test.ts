@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getSelectAllState,
+  selectRange,
+  toggleSelected,
+} from "../bulk-selection.utils";
+
+const IDS = ["a", "b", "c", "d", "e"];
+
+describe("bulk selection", () => {
+  it("toggles a single id", () => {
+    const selected = toggleSelected(new Set(["a"]), "b");
+    expect([...selected]).toEqual(["a", "b"]);
+    expect([...toggleSelected(selected, "a")]).toEqual(["b"]);
+  });
+
+  it("selects the range between the anchor and the clicked id in either direction", () => {
+    expect([...selectRange(new Set(["b"]), IDS, "b", "d")].sort()).toEqual(["b", "c", "d"]);
+    expect([...selectRange(new Set(), IDS, "e", "c")].sort()).toEqual(["c", "d", "e"]);
+  });
+
+  it("falls back to a toggle without a loaded anchor", () => {
+    expect([...selectRange(new Set(), IDS, null, "c")]).toEqual(["c"]);
+    expect([...selectRange(new Set(), IDS, "gone", "c")]).toEqual(["c"]);
+  });
+
+  it("reports the header checkbox state", () => {
+    expect(getSelectAllState(new Set(), IDS)).toBe(false);
+    expect(getSelectAllState(new Set(["a"]), IDS)).toBe("indeterminate");
+    expect(getSelectAllState(new Set(IDS), IDS)).toBe(true);
+  });
+});
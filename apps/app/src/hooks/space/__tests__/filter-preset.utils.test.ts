@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import type { FilterField } from "../filter-management.utils";
+import { buildPresetBaseParams } from "../filter-preset.utils";
+
+const filterFields = [
+  { id: "pet_field_sex_id", slug: "sex", displayName: "Sex" },
+  { id: "pet_field_country_id", displayName: "Country" },
+] as FilterField[];
+
+describe("buildPresetBaseParams", () => {
+  it("replaces current filters and search, keeps unrelated params", () => {
+    const params = buildPresetBaseParams({
+      filterFields,
+      preset: { filters: {}, sort: null, view: null, search: "rex" },
+      searchParams: new URLSearchParams(
+        "sex=male&pet_field_country_id=ua&name=max&scope=owned&view=list",
+      ),
+      searchUrlSlug: "name",
+    });
+
+    expect(params.toString()).toBe("scope=owned&view=list&name=rex");
+  });
+
+  it("sets sort and view only when the preset has them", () => {
+    const params = buildPresetBaseParams({
+      filterFields,
+      preset: { filters: {}, sort: "date_desc", view: null, search: null },
+      searchParams: new URLSearchParams("sort=name_asc&view=grid&name=max"),
+      searchUrlSlug: "name",
+    });
+
+    expect(params.get("sort")).toBe("date_desc");
+    expect(params.get("view")).toBe("grid");
+    expect(params.has("name")).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const getFacetCountsMock = vi.hoisted(() => vi.fn());
+
+vi.mock("@breedhub/rxdb-store", () => ({
+  spaceStore: { getFacetCounts: getFacetCountsMock },
+}));
+
+import { isFacetableFilterField, useFilterFacetCounts } from "../useFilterFacetCounts";
+
+const filterFields = [
+  { id: "country_id", component: "DropdownInput", referencedTable: "country" },
+  { id: "sex_id", component: "LookupInput", referencedTable: "sex" },
+  { id: "name", component: "TextInput" },
+];
+
+describe("useFilterFacetCounts", () => {
+  beforeEach(() => {
+    getFacetCountsMock.mockReset();
+  });
+
+  it("counts only dictionary / lookup option lists", () => {
+    expect(isFacetableFilterField(filterFields[0])).toBe(true);
+    expect(isFacetableFilterField(filterFields[2])).toBe(false);
+    expect(
+      isFacetableFilterField({ id: "x", component: "DropdownInput", options: [] }),
+    ).toBe(false);
+  });
+
+  it("loads counts per facetable field and skips fields that failed", async () => {
+    getFacetCountsMock.mockImplementation(async (_entityType: string, field: string) =>
+      field === "country_id"
+        ? { field, counts: { ua: 12, pl: 0 }, source: "local" }
+        : null,
+    );
+
+    const { result } = renderHook(() =>
+      useFilterFacetCounts({
+        scope: { entityType: "pet", spaceId: "pets" },
+        enabled: true,
+        filterFields,
+        filterValues: { sex_id: "m" },
+      }),
+    );
+
+    await waitFor(() => expect(result.current).toEqual({ country_id: { ua: 12, pl: 0 } }));
+    expect(getFacetCountsMock).toHaveBeenCalledTimes(2);
+    expect(getFacetCountsMock).toHaveBeenCalledWith(
+      "pet",
+      "country_id",
+      { sex_id: "m" },
+      { spaceId: "pets" },
+    );
+  });
+
+  it("does nothing without a scope", async () => {
+    const { result } = renderHook(() =>
+      useFilterFacetCounts({ enabled: true, filterFields, filterValues: {} }),
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 350));
+    expect(result.current).toEqual({});
+    expect(getFacetCountsMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Pure selection updates for multi-select in space views. The anchor is the
+ * last id clicked without Shift; a Shift-click selects everything between
+ * it and the clicked id in list order.
+ */
+
+export function toggleSelected(selected: ReadonlySet<string>, id: string): Set<string> {
+  const next = new Set(selected);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+}
+
+export function selectRange(
+  selected: ReadonlySet<string>,
+  orderedIds: ReadonlyArray<string>,
+  anchorId: string | null,
+  id: string,
+): Set<string> {
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1;
+  const to = orderedIds.indexOf(id);
+  if (from < 0 || to < 0) return toggleSelected(selected, id);
+
+  const next = new Set(selected);
+  const [start, end] = from <= to ? [from, to] : [to, from];
+  for (let i = start; i <= end; i++) next.add(orderedIds[i]);
+  return next;
+}
+
+/** Header checkbox state for the loaded ids. */
+export function getSelectAllState(
+  selected: ReadonlySet<string>,
+  ids: ReadonlyArray<string>,
+): boolean | "indeterminate" {
+  const count = ids.filter((id) => selected.has(id)).length;
+  if (count === 0) return false;
+  return count === ids.length ? true : "indeterminate";
+}
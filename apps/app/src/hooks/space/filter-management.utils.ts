@@ -1,9 +1,19 @@
-import { getDatabase } from "@breedhub/rxdb-store";
+import { FILTER_GROUP_KEY, getDatabase } from "@breedhub/rxdb-store";
 import type { FilterFieldConfig } from "@/types/field-config";
 import {
+  FILTER_GROUP_URL_PARAM,
+  describeFilterGroup,
+  formatFilterValueLabel,
+  getFilterOperator,
   getLabelForValue,
   getValueForLabel,
+  isListFilterOperator,
+  isVerbatimFilterOperator,
   normalizeForUrl,
+  serializeFilterGroup,
+  serializeFilterValue,
+  splitFilterList,
+  toFilterGroup,
 } from "@/components/space/utils/filter-url-helpers";
 import {
   FILTER_BUILD_RESERVED_QUERY_PARAMS,
@@ -71,6 +81,104 @@ async function getFilterLookupDatabase() {
   return rxdb;
 }
 
+type FilterLookupDatabase = Parameters<typeof getLabelForValue>[2];
+
+/**
+ * Filter value for a URL value: lookup labels become ids (per item for
+ * list operators); range / relative-date / null-check values stay as-is.
+ */
+async function resolveFilterUrlValue(
+  fieldConfig: FilterField,
+  urlValue: string,
+  rxdb: FilterLookupDatabase,
+): Promise<unknown> {
+  const operator = getFilterOperator(fieldConfig);
+  if (isVerbatimFilterOperator(operator)) {
+    return urlValue;
+  }
+
+  if (isListFilterOperator(operator)) {
+    return Promise.all(
+      splitFilterList(urlValue).map(
+        async (item) => (await getValueForLabel(fieldConfig, item, rxdb)) || item,
+      ),
+    );
+  }
+
+  const valueId = await getValueForLabel(fieldConfig, urlValue, rxdb);
+  return valueId || urlValue;
+}
+
+/** URL value for a filter value — the inverse of resolveFilterUrlValue. */
+async function formatFilterUrlValue(
+  fieldConfig: FilterField | undefined,
+  value: unknown,
+  rxdb: FilterLookupDatabase,
+): Promise<string> {
+  const operator = getFilterOperator(fieldConfig);
+  if (isVerbatimFilterOperator(operator)) {
+    return serializeFilterValue(value);
+  }
+
+  if (isListFilterOperator(operator)) {
+    const labels = await Promise.all(
+      splitFilterList(value).map(async (item) =>
+        normalizeForUrl(await getLabelForValue(fieldConfig, item, rxdb)),
+      ),
+    );
+    return labels.join(",");
+  }
+
+  const label = await getLabelForValue(fieldConfig, String(value), rxdb);
+  return normalizeForUrl(label);
+}
+
+function setFilterGroupParam(params: URLSearchParams, value: unknown) {
+  const group = serializeFilterGroup(value);
+  if (group) {
+    params.set(FILTER_GROUP_URL_PARAM, group);
+  } else {
+    params.delete(FILTER_GROUP_URL_PARAM);
+  }
+}
+
+/** Chip label of the advanced filter, with lookup values shown by name. */
+async function describeFilterGroupParam(
+  filterFields: FilterField[],
+  urlValue: string,
+  rxdb: FilterLookupDatabase,
+): Promise<string | null> {
+  const group = toFilterGroup(urlValue);
+  if (!group) return null;
+
+  const valueLabels = new Map<string, string>();
+  const collect = async (node: typeof group.children[number]): Promise<void> => {
+    if (node.type === "group") {
+      await Promise.all(node.children.map(collect));
+      return;
+    }
+    const fieldConfig = filterFields.find((field) => field.id === node.field);
+    if (!fieldConfig?.referencedTable || typeof node.value !== "string") return;
+    valueLabels.set(
+      `${node.field}:${node.value}`,
+      await getLabelForValue(fieldConfig, node.value, rxdb),
+    );
+  };
+  await Promise.all(group.children.map(collect));
+
+  const summary = describeFilterGroup(group, {
+    getFieldLabel: (field) => {
+      const fieldConfig = filterFields.find((item) => item.id === field);
+      return fieldConfig ? toSentenceCase(fieldConfig.displayName) : field;
+    },
+    getValueLabel: (field, value) =>
+      valueLabels.get(`${field}:${String(value)}`) ?? serializeFilterValue(value),
+    getOperator: (field) =>
+      getFilterOperator(filterFields.find((item) => item.id === field)),
+  });
+  return summary ? `Where: ${summary}` : null;
+}
+
 export function hasFilterSearchParams(searchParams: URLSearchParams): boolean {
   return hasUnreservedSearchParams(searchParams, FILTER_RESERVED_QUERY_PARAMS);
 }
@@ -101,6 +209,12 @@ export async function buildFiltersFromSearchParams({
       return;
     }
 
+    if (urlKey === FILTER_GROUP_URL_PARAM) {
+      const group = toFilterGroup(urlValue);
+      if (group) filterObj[FILTER_GROUP_KEY] = group;
+      return;
+    }
+
     promises.push(
       (async () => {
         const fieldConfig = findFilterField(filterFields, urlKey);
@@ -120,8 +234,11 @@ export async function buildFiltersFromSearchParams({
           return;
         }
 
-        const valueId = await getValueForLabel(fieldConfig, urlValue, rxdb as any);
-        filterObj[fieldConfig.id] = valueId || urlValue;
+        filterObj[fieldConfig.id] = await resolveFilterUrlValue(
+          fieldConfig,
+          urlValue,
+          rxdb as unknown as FilterLookupDatabase,
+        );
       })(),
     );
   });
@@ -144,12 +261,21 @@ export async function buildSearchParamsWithResolvedFilters({
   const rxdb = await getFilterLookupDatabase();
 
   for (const [fieldId, value] of Object.entries(filterValues)) {
+    if (fieldId === FILTER_GROUP_KEY) {
+      setFilterGroupParam(newParams, value);
+      continue;
+    }
+
     const fieldConfig = filterFields.find((field) => field.id === fieldId);
 
     if (value !== undefined && value !== null && value !== "") {
       const urlKey = fieldConfig?.slug || fieldId;
-      const label = await getLabelForValue(fieldConfig, String(value), rxdb as any);
-      newParams.set(urlKey, normalizeForUrl(label));
+      const urlValue = await formatFilterUrlValue(
+        fieldConfig,
+        value,
+        rxdb as unknown as FilterLookupDatabase,
+      );
+      newParams.set(urlKey, urlValue);
       continue;
     }
 
@@ -174,13 +300,18 @@ export function applyRawFilterValuesToSearchParams({
   const newParams = new URLSearchParams(searchParams);
 
   for (const [fieldId, value] of Object.entries(filterValues)) {
+    if (fieldId === FILTER_GROUP_KEY) {
+      setFilterGroupParam(newParams, value);
+      continue;
+    }
+
     if (value === undefined || value === null || value === "") {
       continue;
     }
 
     const fieldConfig = filterFields.find((field) => field.id === fieldId);
     const urlKey = fieldConfig?.slug || fieldId;
-    newParams.set(urlKey, String(value));
+    newParams.set(urlKey, serializeFilterValue(value));
   }
 
   return newParams;
@@ -193,8 +324,14 @@ export function persistFilterValues(
   const filtersToStore: Record<string, string> = {};
 
   for (const [fieldId, value] of Object.entries(filterValues)) {
+    if (fieldId === FILTER_GROUP_KEY) {
+      const group = serializeFilterGroup(value);
+      if (group) filtersToStore[fieldId] = group;
+      continue;
+    }
+
     if (value !== undefined && value !== null && value !== "") {
-      filtersToStore[fieldId] = String(value);
+      filtersToStore[fieldId] = serializeFilterValue(value);
     }
   }
 
@@ -221,7 +358,8 @@ export function removeFilterFromStorage({
 
   const parsedFilters = JSON.parse(savedFilters) as Record<string, string>;
   const fieldConfig = findFilterField(filterFields, filterId);
-  const fieldId = fieldConfig?.id || filterId;
+  const fieldId =
+    filterId === FILTER_GROUP_URL_PARAM ? FILTER_GROUP_KEY : fieldConfig?.id || filterId;
 
   delete parsedFilters[fieldId];
 
@@ -253,11 +391,33 @@ export async function buildActiveFilters({
       continue;
     }
 
+    if (key === FILTER_GROUP_URL_PARAM) {
+      const label = await describeFilterGroupParam(
+        filterFields,
+        urlValue,
+        rxdb as unknown as FilterLookupDatabase,
+      );
+      if (label) {
+        result.push({ id: key, label, isRequired: false, order: 1000 });
+      }
+      continue;
+    }
+
     const fieldConfig = findFilterField(filterFields, key);
     const displayName = fieldConfig ? toSentenceCase(fieldConfig.displayName) : key;
 
+    const operator = getFilterOperator(fieldConfig);
     let displayValue = urlValue;
-    if (fieldConfig?.referencedTable) {
+    if (fieldConfig && isVerbatimFilterOperator(operator)) {
+      displayValue = formatFilterValueLabel(operator, urlValue);
+    } else if (fieldConfig?.referencedTable && isListFilterOperator(operator)) {
+      const lookupDb = rxdb as unknown as FilterLookupDatabase;
+      const ids = (await resolveFilterUrlValue(fieldConfig, urlValue, lookupDb)) as string[];
+      const labels = await Promise.all(
+        ids.map((id) => getLabelForValue(fieldConfig, id, lookupDb)),
+      );
+      displayValue = labels.join(", ");
+    } else if (fieldConfig?.referencedTable) {
       if (UUID_PATTERN.test(urlValue)) {
         displayValue = await getLabelForValue(fieldConfig, urlValue, rxdb as any);
       } else {
@@ -301,6 +461,12 @@ export async function buildCurrentFilterValues({
       return;
     }
 
+    if (urlKey === FILTER_GROUP_URL_PARAM) {
+      const group = toFilterGroup(urlValue);
+      if (group) values[FILTER_GROUP_KEY] = group;
+      return;
+    }
+
     promises.push(
       (async () => {
         if (searchUrlSlug && urlKey === searchUrlSlug) {
@@ -312,8 +478,11 @@ export async function buildCurrentFilterValues({
           return;
         }
 
-        const valueId = await getValueForLabel(fieldConfig, urlValue, rxdb as any);
-        values[fieldConfig.id] = valueId || urlValue;
+        values[fieldConfig.id] = await resolveFilterUrlValue(
+          fieldConfig,
+          urlValue,
+          rxdb as unknown as FilterLookupDatabase,
+        );
       })(),
     );
   });
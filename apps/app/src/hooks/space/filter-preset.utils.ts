@@ -0,0 +1,34 @@
+import type { FilterPresetQuery } from "@breedhub/rxdb-store";
+import type { FilterField } from "./filter-management.utils";
+
+/**
+ * URL params for a preset, before its filter values are resolved to labels:
+ * every filter and the search param of the current URL are dropped, the
+ * preset's sort / view / search are set. Other params (e.g. `scope`) stay.
+ */
+export function buildPresetBaseParams({
+  filterFields,
+  preset,
+  searchParams,
+  searchUrlSlug,
+}: {
+  filterFields: FilterField[];
+  preset: FilterPresetQuery;
+  searchParams: URLSearchParams;
+  searchUrlSlug: string | null;
+}): URLSearchParams {
+  const params = new URLSearchParams(searchParams);
+
+  for (const field of filterFields) {
+    params.delete(field.id);
+    if (field.slug) params.delete(field.slug);
+  }
+  if (searchUrlSlug) {
+    params.delete(searchUrlSlug);
+    if (preset.search) params.set(searchUrlSlug, preset.search);
+  }
+  if (preset.sort) params.set("sort", preset.sort);
+  if (preset.view) params.set("view", preset.view);
+
+  return params;
+}
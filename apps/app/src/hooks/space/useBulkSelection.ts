@@ -0,0 +1,61 @@
+/**
+ * useBulkSelection - multi-select state for the list, grid and table bodies
+ * of a space (bulk action bar). Separate from the drawer selection in
+ * useEntitySelection: checking a record never opens it.
+ *
+ * Cleared when the space switches entity type.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { selectRange, toggleSelected } from "./bulk-selection.utils";
+
+export interface BulkSelection {
+  selectedIds: ReadonlySet<string>;
+  isSelecting: boolean;
+  /** Toggle one id; `range` (Shift-click) extends from the last toggled id */
+  toggle: (id: string, range?: boolean) => void;
+  /** Select all loaded ids, or clear them when all are selected */
+  toggleAll: () => void;
+  clear: () => void;
+}
+
+export function useBulkSelection(
+  entityType: string,
+  entities: ReadonlyArray<{ id: string }>,
+): BulkSelection {
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+  const orderedIds = useMemo(() => entities.map((entity) => entity.id), [entities]);
+
+  const clear = useCallback(() => {
+    anchorRef.current = null;
+    setSelectedIds(new Set());
+  }, []);
+
+  useEffect(() => {
+    clear();
+  }, [entityType, clear]);
+
+  const toggle = useCallback(
+    (id: string, range = false) => {
+      setSelectedIds((prev) =>
+        range ? selectRange(prev, orderedIds, anchorRef.current, id) : toggleSelected(prev, id),
+      );
+      if (!range) anchorRef.current = id;
+    },
+    [orderedIds],
+  );
+
+  const toggleAll = useCallback(() => {
+    setSelectedIds((prev) =>
+      orderedIds.every((id) => prev.has(id)) ? new Set() : new Set(orderedIds),
+    );
+  }, [orderedIds]);
+
+  return {
+    selectedIds,
+    isSelecting: selectedIds.size > 0,
+    toggle,
+    toggleAll,
+    clear,
+  };
+}
@@ -1,5 +1,5 @@
 import { useCallback } from "react";
-import { getDatabase } from "@breedhub/rxdb-store";
+import { FILTER_GROUP_KEY, getDatabase } from "@breedhub/rxdb-store";
 import {
   getLabelForValue,
   normalizeForUrl,
@@ -25,7 +25,8 @@ export function useCreateEntityNavigation({
       try {
         const rxdb = await getDatabase();
         for (const [fieldId, value] of Object.entries(filters)) {
-          if (!value) continue;
+          // Advanced (grouped) conditions have no single value to prefill
+          if (!value || fieldId === FILTER_GROUP_KEY) continue;
 
           const fieldConfig = filterFields.find((field) => field.id === fieldId);
           const urlKey =
@@ -40,7 +41,7 @@ export function useCreateEntityNavigation({
         }
       } catch {
         for (const [fieldId, value] of Object.entries(filters)) {
-          if (value) {
+          if (value && fieldId !== FILTER_GROUP_KEY) {
             const dbName = fieldId.replace(/^[^_]+_field_/, "");
             params.set(dbName, String(value));
           }
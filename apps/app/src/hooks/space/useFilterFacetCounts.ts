@@ -0,0 +1,85 @@
+/**
+ * useFilterFacetCounts - Option counts for the dictionary/lookup filter
+ * fields of an open FiltersDialog.
+ *
+ * - Each field is counted under the other values currently in the dialog
+ *   (spaceStore.getFacetCounts leaves the field's own value out)
+ * - Debounced; results of outdated values are dropped
+ * - A field whose counts could not be computed has no entry
+ */
+import { useEffect, useRef, useState } from "react";
+import { spaceStore, type FacetCounts } from "@breedhub/rxdb-store";
+
+const FACET_DEBOUNCE_MS = 300;
+
+/** Entity and space the facet counts are computed for. */
+export interface FacetScope {
+  entityType: string;
+  spaceId?: string;
+}
+
+interface FacetableField {
+  id: string;
+  component?: string;
+  referencedTable?: string;
+  options?: unknown[];
+}
+
+const FACET_COMPONENTS = new Set(["DropdownInput", "LookupInput"]);
+
+/** Fields whose options are a closed list worth counting. */
+export function isFacetableFilterField(field: FacetableField): boolean {
+  return (
+    FACET_COMPONENTS.has(field.component ?? "") &&
+    (Boolean(field.referencedTable) || (field.options?.length ?? 0) > 0)
+  );
+}
+
+export function useFilterFacetCounts({
+  scope,
+  enabled,
+  filterFields,
+  filterValues,
+}: {
+  scope?: FacetScope;
+  enabled: boolean;
+  filterFields: FacetableField[];
+  filterValues: Record<string, unknown>;
+}): Record<string, FacetCounts> {
+  const [counts, setCounts] = useState<Record<string, FacetCounts>>({});
+  const requestRef = useRef(0);
+
+  const entityType = scope?.entityType;
+  const spaceId = scope?.spaceId;
+  const fieldIds = filterFields.filter(isFacetableFilterField).map((field) => field.id);
+  const fieldKey = fieldIds.join(",");
+  const valuesKey = JSON.stringify(filterValues);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    if (!enabled || !entityType || !fieldKey) {
+      setCounts({});
+      return;
+    }
+
+    const values = JSON.parse(valuesKey) as Record<string, unknown>;
+    const timer = setTimeout(async () => {
+      const results = await Promise.all(
+        fieldKey
+          .split(",")
+          .map((field) => spaceStore.getFacetCounts(entityType, field, values, { spaceId })),
+      );
+      if (request !== requestRef.current) return;
+
+      const next: Record<string, FacetCounts> = {};
+      for (const result of results) {
+        if (result) next[result.field] = result.counts;
+      }
+      setCounts(next);
+    }, FACET_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [enabled, entityType, spaceId, fieldKey, valuesKey]);
+
+  return counts;
+}
@@ -0,0 +1,188 @@
+/**
+ * useFilterPresets - Saved views of a space: list, apply, save, default.
+ *
+ * - Lists the user's presets for the space plus those shared with their kennel
+ * - Applies a preset by rewriting the URL (filters, sort, view, search),
+ *   persisting its filters/sort/view like a manual change would
+ * - Applies the user's default preset once when the space opens without a query
+ * - Reports which preset the current query matches (active chip)
+ */
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  filterPresetStore,
+  normalizePresetQuery,
+  presetMatchesQuery,
+  type FilterPreset,
+  type FilterPresetQuery,
+  type SaveFilterPresetOptions,
+} from "@breedhub/rxdb-store";
+import {
+  applyRawFilterValuesToSearchParams,
+  buildSearchParamsWithResolvedFilters,
+  hasFilterSearchParams,
+  persistFilterValues,
+  type FilterField,
+} from "./filter-management.utils";
+import { buildPresetBaseParams } from "./filter-preset.utils";
+import { getSpaceStorageKeys, writeStorageValue } from "./space-query.utils";
+
+interface UseFilterPresetsOptions {
+  spaceId?: string;
+  searchParams: URLSearchParams;
+  setSearchParams: (params: URLSearchParams, options?: { replace?: boolean }) => void;
+  filterFields: FilterField[];
+  currentFilterValues: Record<string, unknown>;
+  sortId?: string;
+  viewMode: string;
+  searchUrlSlug: string | null;
+  initialSelectedEntityId?: string;
+  createMode?: boolean;
+}
+
+export function useFilterPresets({
+  spaceId,
+  searchParams,
+  setSearchParams,
+  filterFields,
+  currentFilterValues,
+  sortId,
+  viewMode,
+  searchUrlSlug,
+  initialSelectedEntityId,
+  createMode,
+}: UseFilterPresetsOptions) {
+  const allPresets = filterPresetStore.presets.value;
+  const loaded = filterPresetStore.loaded.value;
+  const canShare = !!filterPresetStore.accountId.value;
+
+  const presets = useMemo(
+    () => (spaceId ? filterPresetStore.getForSpace(spaceId) : []),
+    // allPresets: recompute when the store list changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [spaceId, allPresets],
+  );
+
+  const searchValue = searchUrlSlug ? searchParams.get(searchUrlSlug) : null;
+  const currentQuery = useMemo<FilterPresetQuery>(
+    () =>
+      normalizePresetQuery({
+        filters: currentFilterValues,
+        sort: searchParams.get("sort") ?? sortId ?? null,
+        view: viewMode,
+        search: searchValue,
+      }),
+    [currentFilterValues, searchParams, sortId, viewMode, searchValue],
+  );
+
+  const activePresetId = useMemo(
+    () => presets.find((preset) => presetMatchesQuery(preset, currentQuery))?.id ?? null,
+    [presets, currentQuery],
+  );
+
+  // ============= Apply =============
+
+  const applyPreset = useCallback(
+    async (preset: FilterPresetQuery) => {
+      if (!spaceId) return;
+      const { filtersStorageKey, sortStorageKey, viewStorageKey } =
+        getSpaceStorageKeys(spaceId);
+
+      // Start from the LIVE URL — the default preset is applied after an
+      // async load, when the closure's searchParams may already be stale.
+      const baseParams = buildPresetBaseParams({
+        filterFields,
+        preset,
+        searchParams: new URLSearchParams(window.location.search),
+        searchUrlSlug,
+      });
+
+      let nextParams: URLSearchParams;
+      try {
+        nextParams = await buildSearchParamsWithResolvedFilters({
+          filterFields,
+          filterValues: preset.filters,
+          searchParams: baseParams,
+        });
+      } catch (error) {
+        console.error("[useFilterPresets] Error resolving preset filters:", error);
+        nextParams = applyRawFilterValuesToSearchParams({
+          filterFields,
+          filterValues: preset.filters,
+          searchParams: baseParams,
+        });
+      }
+
+      persistFilterValues(filtersStorageKey, preset.filters);
+      if (preset.sort) writeStorageValue(sortStorageKey, preset.sort);
+      if (preset.view) writeStorageValue(viewStorageKey, preset.view);
+      setSearchParams(nextParams);
+    },
+    [spaceId, filterFields, searchUrlSlug, setSearchParams],
+  );
+
+  // ============= Default preset =============
+
+  // Only a space opened without a query of its own gets the default
+  const startedWithQuery = useRef(hasFilterSearchParams(searchParams));
+  const defaultCheckedRef = useRef(false);
+  useEffect(() => {
+    if (defaultCheckedRef.current || !spaceId || initialSelectedEntityId || createMode) return;
+    if (!loaded || filterFields.length === 0) return;
+
+    defaultCheckedRef.current = true;
+    if (startedWithQuery.current) return;
+
+    const preset = filterPresetStore.getDefault(spaceId);
+    if (preset) void applyPreset(preset);
+  }, [spaceId, loaded, filterFields, initialSelectedEntityId, createMode, applyPreset]);
+
+  // ============= Manage =============
+
+  const savePreset = useCallback(
+    (name: string, options?: SaveFilterPresetOptions): Promise<FilterPreset> => {
+      if (!spaceId) return Promise.reject(new Error("Space is not ready yet"));
+      return filterPresetStore.save(spaceId, name, currentQuery, options);
+    },
+    [spaceId, currentQuery],
+  );
+
+  const updatePresetQuery = useCallback(
+    (preset: FilterPreset) => filterPresetStore.update(preset.id, { query: currentQuery }),
+    [currentQuery],
+  );
+
+  const toggleDefault = useCallback(
+    (preset: FilterPreset) =>
+      filterPresetStore.setDefault(preset.space_id, preset.is_default ? null : preset.id),
+    [],
+  );
+
+  const toggleShared = useCallback(
+    (preset: FilterPreset) =>
+      filterPresetStore.update(preset.id, { shareWithKennel: !preset.shared_account_id }),
+    [],
+  );
+
+  const deletePreset = useCallback(
+    (preset: FilterPreset) => filterPresetStore.remove(preset.id),
+    [],
+  );
+
+  const isOwnPreset = useCallback(
+    (preset: FilterPreset) => filterPresetStore.isOwn(preset),
+    [],
+  );
+
+  return {
+    presets,
+    activePresetId,
+    canShare,
+    isOwnPreset,
+    applyPreset,
+    savePreset,
+    updatePresetQuery,
+    toggleDefault,
+    toggleShared,
+    deletePreset,
+  };
+}
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { spaceStore } from '@breedhub/rxdb-store';
 import { withCrudToast, entityRecordLabel } from '@/utils/crudToast';
 import { getSpaceListPath } from '@/utils/entity-navigation';
+import { useIsRestorable } from '@/hooks/useRecentlyDeleted';
 import {
   Dialog,
   DialogContent,
@@ -25,6 +26,9 @@ interface DeleteState {
   dependencies: Dependency[];
 }
 
+/** Undo stays available a bit longer than a regular toast */
+const UNDO_TOAST_DURATION = 8000;
+
 const INITIAL_STATE: DeleteState = {
   open: false,
   view: 'confirm',
@@ -40,12 +44,14 @@ const INITIAL_STATE: DeleteState = {
  * 2. Check dependencies in background (invisible to user)
  * 3. User clicks Delete → if blocked, switch to "Cannot delete" view
  * 4. If not blocked → proceed with deletion
+ * 5. Success toast offers Undo (restores the soft-deleted record)
  */
 export function useDeleteEntity(
   entityType: string | undefined,
   entity: any,
 ) {
   const navigate = useNavigate();
+  const restorable = useIsRestorable(entityType);
   const [state, setState] = useState<DeleteState>(INITIAL_STATE);
   const checkResultRef = useRef<{ canDelete: boolean; dependencies: Dependency[] } | null>(null);
 
@@ -99,9 +105,24 @@ export function useDeleteEntity(
     // Proceed with deletion
     setState(prev => ({ ...prev, loading: true }));
 
+    const label = entityRecordLabel(entityType, entity);
+    const entityId = entity.id;
     const deleteResult = await withCrudToast(
-      () => spaceStore.delete(entityType, entity.id),
-      { label: entityRecordLabel(entityType, entity), verb: 'delete' }
+      () => spaceStore.delete(entityType, entityId),
+      {
+        label,
+        verb: 'delete',
+        duration: UNDO_TOAST_DURATION,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            void withCrudToast(
+              () => spaceStore.restoreEntity(entityType, entityId),
+              { label, verb: 'restore' }
+            );
+          },
+        },
+      }
     );
 
     if (deleteResult.ok) {
@@ -149,7 +170,9 @@ export function useDeleteEntity(
               </div>
             ) : (
               <p className="text-base">
-                This action cannot be undone.
+                {restorable
+                  ? 'You can restore it from Recently deleted.'
+                  : 'This action cannot be undone.'}
               </p>
             )}
           </div>
@@ -1,6 +1,10 @@
 import {
+  FILTER_GROUP_KEY,
   detectOperator,
+  getFilterGroup,
+  matchFilterGroup,
   matchRecordValue,
+  type FilterGroupLeafResolver,
   type OrderBy,
 } from '@breedhub/rxdb-store';
 
@@ -48,7 +52,14 @@ export function buildLiveMatcher(
   fieldConfigs?: Record<string, EntityFieldConfig>,
 ): (record: any) => boolean {
   if (!filters) return () => true;
-  const entries = Object.entries(filters);
+  const entries = Object.entries(filters).filter(([key]) => key !== FILTER_GROUP_KEY);
+  const group = getFilterGroup(filters);
+  const resolveLeaf: FilterGroupLeafResolver = (condition) => {
+    const cfg = fieldConfigs?.[condition.field];
+    return {
+      operator: condition.operator ?? detectOperator(cfg?.fieldType ?? '', cfg?.operator),
+    };
+  };
   return (record) => {
     for (const [key, value] of entries) {
       if (value === undefined || value === null || value === '') continue;
@@ -56,7 +67,7 @@ export function buildLiveMatcher(
       const operator = detectOperator(cfg?.fieldType ?? '', cfg?.operator);
       if (!matchRecordValue(record?.[key], operator, value)) return false;
     }
-    return true;
+    return group ? matchFilterGroup(record ?? {}, group, resolveLeaf) : true;
   };
 }
 
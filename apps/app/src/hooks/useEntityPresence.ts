@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  diffConflictFields,
+  presenceService,
+  userStore,
+  type PresenceHandle,
+  type PresenceMember,
+  type PresenceMode,
+} from "@breedhub/rxdb-store";
+import { useSignals } from "@preact/signals-react/runtime";
+
+/** A save of the open record by another user or tab. */
+export interface RemoteEntitySave {
+  /** Display name of whoever saved, when known */
+  by: string | null;
+  updatedAt: string;
+  /** Fields the save changed — empty when only the announcement arrived so far */
+  fields: string[];
+}
+
+interface UseEntityPresenceOptions {
+  entityType?: string;
+  entity?: Record<string, unknown> | null;
+  mode: PresenceMode;
+  /** Off in create mode (no record to share yet) and for users who can't edit */
+  enabled?: boolean;
+  onRemoteSave?: (save: RemoteEntitySave) => void;
+}
+
+/**
+ * Join the presence topic of the open record and report saves by others.
+ *
+ * A remote save is noticed either from the saver's presence broadcast or
+ * from the record itself changing underneath the page (realtime / pull)
+ * with an `updated_by` that isn't the current user. Each `updated_at` is
+ * reported once. Only signed-in users join; signing out leaves the topic.
+ */
+export function useEntityPresence({
+  entityType,
+  entity,
+  mode,
+  enabled = true,
+  onRemoteSave,
+}: UseEntityPresenceOptions) {
+  useSignals();
+
+  const user = userStore.currentUser.value;
+  const currentUserId = userStore.currentUserId.value;
+  const entityId = entity?.id as string | undefined;
+  const [handle, setHandle] = useState<PresenceHandle | null>(null);
+  const onRemoteSaveRef = useRef(onRemoteSave);
+  onRemoteSaveRef.current = onRemoteSave;
+  const reportedRef = useRef<string | null>(null);
+  const previousRef = useRef<Record<string, unknown> | null>(null);
+  const membersRef = useRef<PresenceMember[]>([]);
+
+  useEffect(() => {
+    if (!enabled || !user || !entityType || !entityId) return;
+    const joined = presenceService.enter(
+      entityType,
+      entityId,
+      {
+        userId: user.id,
+        name: user.name ?? user.email,
+        avatar: user.avatar,
+      },
+      mode,
+    );
+    const unsubscribe = joined.onRemoteSave((event) => {
+      if (reportedRef.current === event.updatedAt) return;
+      reportedRef.current = event.updatedAt;
+      onRemoteSaveRef.current?.({ by: event.name, updatedAt: event.updatedAt, fields: [] });
+    });
+    setHandle(joined);
+    return () => {
+      unsubscribe();
+      joined.leave();
+      setHandle(null);
+    };
+    // Mode changes go through setMode below, not a rejoin
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, entityType, entityId, user?.id, user?.name, user?.avatar]);
+
+  useEffect(() => {
+    handle?.setMode(mode);
+  }, [handle, mode]);
+
+  const members = handle?.members.value ?? [];
+  membersRef.current = members;
+
+  // The record changed underneath the page: someone else's save arrived
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = entity ?? null;
+    if (!enabled || !entity || !previous || previous.id !== entity.id) return;
+    const updatedAt = entity.updated_at;
+    if (typeof updatedAt !== "string" || updatedAt === previous.updated_at) return;
+    if (!entity.updated_by || entity.updated_by === currentUserId) return;
+
+    const fields = diffConflictFields(previous, entity).map((change) => change.field);
+    if (fields.length === 0) return;
+    const by = membersRef.current.find((member) => member.userId === entity.updated_by)?.name ?? null;
+    reportedRef.current = updatedAt;
+    onRemoteSaveRef.current?.({ by, updatedAt, fields });
+  }, [enabled, entity, currentUserId]);
+
+  return { members, currentUserId };
+}
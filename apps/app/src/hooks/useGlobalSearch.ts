@@ -0,0 +1,59 @@
+/**
+ * useGlobalSearch - Searches every palette entity type at once.
+ *
+ * - Debounces the query, then shows cached matches (local search index)
+ *   right away and replaces them with local + Supabase matches when those
+ *   arrive
+ * - Results of an outdated query are dropped
+ */
+import { useEffect, useRef, useState } from "react";
+import { spaceStore, type QuickSearchResult } from "@breedhub/rxdb-store";
+import {
+  PALETTE_ENTITY_TYPES,
+  PALETTE_RESULTS_PER_TYPE,
+} from "@/utils/command-palette";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+function searchAllTypes(query: string, remote: boolean): Promise<QuickSearchResult[]> {
+  return Promise.all(
+    PALETTE_ENTITY_TYPES.map(({ entityType }) =>
+      spaceStore.quickSearch(entityType, query, {
+        limit: PALETTE_RESULTS_PER_TYPE,
+        remote,
+      }),
+    ),
+  ).then((groups) => groups.flat());
+}
+
+export function useGlobalSearch(query: string, enabled = true) {
+  const [results, setResults] = useState<QuickSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    const trimmed = query.trim();
+    if (!enabled || !trimmed) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const local = await searchAllTypes(trimmed, false);
+      if (request !== requestRef.current) return;
+      setResults(local);
+
+      const all = await searchAllTypes(trimmed, true);
+      if (request !== requestRef.current) return;
+      setResults(all);
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, enabled]);
+
+  return { results, loading };
+}
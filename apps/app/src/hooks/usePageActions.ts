@@ -1,7 +1,15 @@
 import { useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { dictionaryStore, toast, generateSlug, getPartitionFieldForEntity } from '@breedhub/rxdb-store';
+import {
+  dictionaryStore,
+  toast,
+  generateSlug,
+  getPartitionFieldForEntity,
+  spaceStore,
+  type OfflinePinTarget,
+} from '@breedhub/rxdb-store';
 import { noteDialogStore } from '@/stores/note-dialog.store';
+import { formatBytes } from '@/utils/format';
 
 interface NavigateToTabParams {
   tab: string;
@@ -83,6 +91,31 @@ export function usePageActions(
     });
   }, [entity, entityType]);
 
+  const handleMakeOffline = useCallback(async () => {
+    if (!entity?.id || !entityType) {
+      console.warn('[PageActions] make_offline: missing entity id or entityType');
+      return;
+    }
+    const label = entity?.name || 'Record';
+    let target: OfflinePinTarget;
+    if (entityType === 'account' || entityType === 'breed') {
+      target = { kind: entityType, id: entity.id, label };
+    } else if (entityType === 'pet') {
+      target = { kind: 'pets', ids: [entity.id], label };
+    } else {
+      toast.warning('This record cannot be made available offline');
+      return;
+    }
+
+    toast.info(`Downloading ${label} for offline use...`);
+    const pin = await spaceStore.pinForOffline(target);
+    if (pin.status === 'ready') {
+      toast.success(`${label} is available offline (${formatBytes(pin.bytes)})`);
+    } else {
+      toast.error(pin.error || `Failed to download ${label}`);
+    }
+  }, [entity, entityType]);
+
   const handleBugReport = useCallback(() => {
     console.log('[PageActions] Bug report');
     // TODO: Open bug report dialog
@@ -154,6 +187,7 @@ export function usePageActions(
     copy_link: handleCopyLink,
     copy_name: handleCopyName,
     make_note: handleMakeNote,
+    make_offline: handleMakeOffline,
     bug_report: handleBugReport,
     share: handleShare,
     delete: handleDelete,
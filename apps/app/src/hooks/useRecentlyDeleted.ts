@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { spaceStore, type TrashItem } from '@breedhub/rxdb-store';
+import { useAppWorkspaces } from '@/hooks/useAppStore';
+
+export interface RecentlyDeletedOptions {
+  entityTypes: string[];
+  childTables?: Record<string, string[]>;
+  retentionDays?: number;
+}
+
+/**
+ * Hook to list the current user's soft-deleted records for the trash page.
+ * Call `reload` after a restore or purge.
+ */
+export function useRecentlyDeleted({
+  entityTypes,
+  childTables,
+  retentionDays,
+}: RecentlyDeletedOptions) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Stable key so callers can pass fresh arrays from config each render
+  const sourceKey = JSON.stringify([entityTypes, childTables ?? {}, retentionDays ?? null]);
+
+  const reload = useCallback(async () => {
+    try {
+      setItems(
+        await spaceStore.getRecentlyDeleted({ entityTypes, childTables, retentionDays }),
+      );
+    } catch (error) {
+      console.error('[useRecentlyDeleted] Failed to load deleted records:', error);
+    } finally {
+      setLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sourceKey]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { items, loading, reload };
+}
+
+interface TrashWorkspaceConfig {
+  pages?: unknown;
+  spaces?: unknown;
+}
+
+interface TrashPageNode {
+  component?: string;
+  entityTypes?: string[];
+}
+
+function toArray<T>(value: unknown): T[] {
+  if (!value || typeof value !== 'object') return [];
+  return (Array.isArray(value) ? value : Object.values(value)) as T[];
+}
+
+/**
+ * Entity types listed on a "Recently deleted" page of any workspace.
+ * Mirrors TrashPage: `entityTypes` of the page config, else the workspace's spaces.
+ */
+export function getTrashEntityTypes(workspaces: TrashWorkspaceConfig[]): Set<string> {
+  const entityTypes = new Set<string>();
+  for (const workspace of workspaces) {
+    for (const page of toArray<TrashPageNode>(workspace.pages)) {
+      if (page?.component !== 'TrashPage') continue;
+      const pageTypes =
+        page.entityTypes ??
+        toArray<{ entitySchemaName?: string }>(workspace.spaces)
+          .map((space) => space?.entitySchemaName)
+          .filter((entityType): entityType is string => !!entityType);
+      pageTypes.forEach((entityType) => entityTypes.add(entityType));
+    }
+  }
+  return entityTypes;
+}
+
+/**
+ * Whether deleted records of `entityType` can be restored from a
+ * "Recently deleted" page — delete dialogs only point there when they can.
+ */
+export function useIsRestorable(entityType: string | undefined): boolean {
+  const { workspaces } = useAppWorkspaces();
+  const entityTypes = useMemo(() => getTrashEntityTypes(workspaces), [workspaces]);
+  return !!entityType && entityTypes.has(entityType);
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSignals } from '@preact/signals-react/runtime';
+import {
+  spaceStore,
+  syncQueueService,
+  type SyncQueueItem,
+} from '@breedhub/rxdb-store';
+
+export interface SyncQueueItemWithLocal {
+  item: SyncQueueItem;
+  /** Current local record in payload shape (null when no longer cached). */
+  local: Record<string, unknown> | null;
+}
+
+/**
+ * Hook to list sync queue items for the sync inspector.
+ * Reloads whenever the queue counters change (push landed, item failed,
+ * new edit enqueued) and after every inspector action via `reload`.
+ */
+export function useSyncQueueItems() {
+  useSignals();
+  const [items, setItems] = useState<SyncQueueItemWithLocal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const pending = syncQueueService.pendingCount.value;
+  const failed = syncQueueService.failedCount.value;
+  const conflicts = syncQueueService.conflictCount.value;
+
+  const reload = useCallback(async () => {
+    const queueItems = await syncQueueService.getQueueItems();
+    const withLocal = await Promise.all(
+      queueItems.map(async (item) => ({
+        item,
+        local: await spaceStore.getQueueItemLocalPayload(item).catch(() => null),
+      })),
+    );
+    setItems(withLocal);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload, pending, failed, conflicts]);
+
+  return { items, loading, reload };
+}
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { generateSlug } from "@breedhub/rxdb-store";
 import type { NavigateFunction } from "react-router-dom";
+import type { RemoteEntitySave } from "./useEntityPresence";
 
 export type SaveResult = false | true | { created: any };
 
@@ -8,15 +9,22 @@ interface UseUnsavedChangesGuardOptions {
   isCreateMode?: boolean;
   navigate: NavigateFunction;
   saveHandlerRef: React.MutableRefObject<(() => Promise<SaveResult | void>) | null>;
+  /** Drops the form's unsaved edits (registered by the active tab) */
+  discardHandlerRef?: React.MutableRefObject<(() => void) | null>;
+  /** Re-reads the record after the user chose to reload a remote save */
+  onReload?: () => Promise<void>;
 }
 
 export function useUnsavedChangesGuard({
   isCreateMode,
   navigate,
   saveHandlerRef,
+  discardHandlerRef,
+  onReload,
 }: UseUnsavedChangesGuardOptions) {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showLeaveDialog, setShowLeaveDialog] = useState(false);
+  const [remoteSave, setRemoteSave] = useState<RemoteEntitySave | null>(null);
   const hasUnsavedRef = useRef(false);
   const sentinelPushedRef = useRef(false);
   const pendingNavigationRef = useRef<string | null>(null);
@@ -129,6 +137,36 @@ export function useUnsavedChangesGuard({
     pendingNavigationRef.current = null;
   }, []);
 
+  // Someone else saved the record: only worth a warning while the form is
+  // dirty — a clean form already shows their version. A later report of the
+  // same save (broadcast first, then the record itself) fills in details.
+  const notifyRemoteSave = useCallback((save: RemoteEntitySave) => {
+    if (!hasUnsavedRef.current) return;
+    setRemoteSave((prev) =>
+      prev && prev.updatedAt === save.updatedAt
+        ? {
+            by: save.by ?? prev.by,
+            updatedAt: save.updatedAt,
+            fields: save.fields.length > 0 ? save.fields : prev.fields,
+          }
+        : save,
+    );
+  }, []);
+
+  const handleRemoteReload = useCallback(async () => {
+    setRemoteSave(null);
+    discardHandlerRef?.current?.();
+    hasUnsavedRef.current = false;
+    setHasUnsavedChanges(false);
+    await onReload?.();
+  }, [discardHandlerRef, onReload]);
+
+  // Keep the unsaved edits on top of the new version: fields the user didn't
+  // touch already show the other save, the next save writes only the edits.
+  const handleRemoteMerge = useCallback(() => {
+    setRemoteSave(null);
+  }, []);
+
   const handleNavigateAway = useCallback(
     (url: string) => {
       if (hasUnsavedRef.current) {
@@ -174,8 +212,12 @@ export function useUnsavedChangesGuard({
     handleLeaveDiscard,
     handleLeaveSave,
     handleNavigateAway,
+    handleRemoteMerge,
+    handleRemoteReload,
     hasUnsavedChanges,
+    notifyRemoteSave,
     onDirtyChange,
+    remoteSave,
     setShowLeaveDialog,
     showLeaveDialog,
   };
@@ -0,0 +1,362 @@
+import {
+  childRealtimeService,
+  entityReplicationService,
+  spaceStore,
+  syncQueueService,
+  toast,
+  type ChildRealtimeStatus,
+  type CircuitBreakerSnapshot,
+  type EntityDiagnostics,
+} from "@breedhub/rxdb-store";
+import { useSignals } from "@preact/signals-react/runtime";
+import { ContentPageLayout } from "@/layouts/ContentPageLayout";
+import { POWER_USER_KEY, isDiagnosticsEnabled } from "@/utils/diagnostics";
+import { Button } from "@ui/components/button";
+import { CloudDownload, Download, Eraser, RefreshCw } from "lucide-react";
+import { type ReactNode, useCallback, useEffect, useState } from "react";
+
+function formatTime(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  return new Date(value).toLocaleString();
+}
+
+function formatAgeMs(ageMs: number | undefined): string {
+  if (ageMs === undefined) return "";
+  const hours = Math.floor(ageMs / 3_600_000);
+  return hours < 1 ? " (under 1 h old)" : ` (${hours} h old)`;
+}
+
+const REALTIME_CLASS: Record<string, string> = {
+  SUBSCRIBED: "text-green-600",
+  CONNECTING: "text-slate-500",
+  TIMED_OUT: "text-amber-600",
+  CLOSED: "text-amber-600",
+  CHANNEL_ERROR: "text-red-600",
+};
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-xs text-slate-500">{label}</span>
+      <span className="truncate text-sm">{children}</span>
+    </div>
+  );
+}
+
+function CircuitBreakerList({ breakers }: { breakers: CircuitBreakerSnapshot[] }) {
+  if (breakers.length === 0) {
+    return <div className="text-sm text-slate-500">All closed</div>;
+  }
+  return (
+    <ul className="flex flex-col gap-1">
+      {breakers.map((breaker) => (
+        <li key={breaker.table} className="flex items-center gap-2 text-sm">
+          <span className="font-semibold">{breaker.table}</span>
+          <span className={breaker.open ? "text-red-600" : "text-amber-600"}>
+            {breaker.open
+              ? `open until ${new Date(breaker.openUntil).toLocaleTimeString()}`
+              : "closed"}
+          </span>
+          <span className="text-xs text-slate-500">
+            {breaker.consecutiveFailures} consecutive failures
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ChildRealtimeList({ tables }: { tables: ChildRealtimeStatus[] }) {
+  if (tables.length === 0) {
+    return <div className="text-sm text-slate-500">Not enabled</div>;
+  }
+  return (
+    <ul className="flex flex-col gap-1">
+      {tables.map((table) => (
+        <li key={`${table.entityType}:${table.tableType}`} className="flex items-center gap-2 text-sm">
+          <span className="font-semibold">{table.tableType}</span>
+          <span className="text-xs text-slate-500">
+            {table.parents} cached parents · {table.channels.length} channels
+          </span>
+          {table.channels.map((status, index) => (
+            <span key={index} className={`text-xs ${REALTIME_CLASS[status] ?? "text-slate-500"}`}>
+              {status}
+            </span>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function EntityDiagnosticsCard({
+  diagnostics,
+  onChanged,
+}: {
+  diagnostics: EntityDiagnostics;
+  onChanged: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const { entityType, replication, serverTotalCache, children } = diagnostics;
+  // Replication would push the cleared records as deletes — clearing waits until it stops
+  const replicating = replication.state !== "inactive";
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      toast.success(await action());
+      await onChanged();
+    } catch (err: unknown) {
+      console.error("[DiagnosticsPage] Action failed:", err);
+      toast.error(err instanceof Error ? err.message : "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="flex flex-col gap-3 rounded-lg border border-surface-border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex-1 text-sm font-semibold">{entityType}</div>
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy}
+          onClick={() =>
+            run(async () => {
+              const ok = await spaceStore.forceFullSync(entityType);
+              if (!ok) throw new Error(`Full sync of ${entityType} failed`);
+              return `Full sync of ${entityType} completed`;
+            })
+          }
+        >
+          <CloudDownload className="h-3.5 w-3.5" />
+          Full sync
+        </Button>
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy || replication.state === "inactive"}
+          onClick={() =>
+            run(async () => {
+              const pulled = await entityReplicationService.manualPull(entityType);
+              return `Pulled ${pulled} ${entityType} records`;
+            })
+          }
+        >
+          <Download className="h-3.5 w-3.5" />
+          Pull
+        </Button>
+        <span
+          title={
+            replicating
+              ? "Unavailable while replication runs: it would delete the cleared records on the server"
+              : undefined
+          }
+        >
+          <Button
+            variant="ghost-secondary"
+            size="sm"
+            disabled={busy || replicating}
+            onClick={() =>
+              run(async () => {
+                const removed = await spaceStore.clearCollection(entityType);
+                return `Removed ${removed} records from ${entityType}`;
+              })
+            }
+          >
+            <Eraser className="h-3.5 w-3.5" />
+            Clear
+          </Button>
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <Field label="Replication">{replication.state}</Field>
+        <Field label="Realtime">
+          <span className={REALTIME_CLASS[replication.realtimeStatus ?? ""] ?? "text-slate-500"}>
+            {replication.realtimeStatus ?? "off"}
+          </span>
+        </Field>
+        <Field label="Last pull">{formatTime(replication.lastPullAt)}</Field>
+        <Field label="Last checkpoint">
+          {formatTime(replication.lastCheckpoint?.updated_at as string | undefined)}
+        </Field>
+        <Field label="Cached / server total">
+          {diagnostics.cachedCount} / {replication.serverTotal}
+        </Field>
+        <Field label="Total cache">
+          {serverTotalCache.status}
+          {formatAgeMs(serverTotalCache.ageMs)}
+        </Field>
+        <Field label="Requests in flight">{replication.activeRequests}</Field>
+        <Field label="Children">
+          {children ? `${children.records} rows · ${children.groups.length} groups` : "—"}
+        </Field>
+      </div>
+
+      {diagnostics.circuitBreakers.length > 0 && (
+        <CircuitBreakerList breakers={diagnostics.circuitBreakers} />
+      )}
+
+      {children && children.groups.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500">
+              {children.name} LRU groups (coldest first)
+            </span>
+            <Button
+              variant="ghost-secondary"
+              size="sm"
+              disabled={busy}
+              onClick={() =>
+                run(async () => {
+                  const removed = await spaceStore.clearCollection(children.name);
+                  return `Removed ${removed} records from ${children.name}`;
+                })
+              }
+            >
+              <Eraser className="h-3.5 w-3.5" />
+              Clear children
+            </Button>
+          </div>
+          <ul className="flex max-h-64 flex-col overflow-y-auto text-xs">
+            {children.groups.map((group) => (
+              <li
+                key={`${group.parentId}:${group.tableType}`}
+                className="flex items-center gap-2 border-b border-surface-border py-1"
+              >
+                <span className="w-40 truncate">{group.tableType}</span>
+                <span className="min-w-0 flex-1 truncate text-slate-500">{group.parentId}</span>
+                <span className="w-16 text-right">{group.records} rows</span>
+                <span className="w-40 truncate text-slate-500">
+                  {group.active
+                    ? "reading"
+                    : group.lastAccess
+                      ? formatTime(group.lastAccess)
+                      : "not read"}
+                  {group.pinned && " · pinned"}
+                </span>
+                <Button
+                  variant="ghost-secondary"
+                  size="sm"
+                  disabled={busy}
+                  title="Refresh from server"
+                  onClick={() =>
+                    run(async () => {
+                      await spaceStore.forceRefreshChildRecords(
+                        entityType,
+                        group.tableType,
+                        group.parentId,
+                      );
+                      return `Refreshed ${group.tableType} of ${group.parentId}`;
+                    })
+                  }
+                >
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * DiagnosticsPage - sync & cache devtools panel (/diagnostics).
+ *
+ * Per entity type: replication state, last checkpoint and pull, cached vs
+ * server total, realtime channel status, push circuit breakers and the
+ * child collection's LRU groups, with full sync / pull / child refresh /
+ * clear actions. Also lists the child realtime channels of this tab.
+ * Available in dev builds and in power-user mode.
+ */
+export function DiagnosticsPage() {
+  useSignals();
+  const entityTypes = spaceStore.availableEntityTypes.value;
+  const [entries, setEntries] = useState<EntityDiagnostics[]>([]);
+  const [breakers, setBreakers] = useState<CircuitBreakerSnapshot[]>([]);
+  const [realtime, setRealtime] = useState<ChildRealtimeStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const enabled = isDiagnosticsEnabled();
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      const results: EntityDiagnostics[] = [];
+      for (const entityType of entityTypes) {
+        results.push(await spaceStore.getEntityDiagnostics(entityType));
+      }
+      setEntries(results);
+      setBreakers(syncQueueService.getCircuitBreakers());
+      setRealtime(childRealtimeService.getStatus());
+    } catch (error) {
+      console.error("[DiagnosticsPage] Failed to collect diagnostics:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [entityTypes]);
+
+  useEffect(() => {
+    if (enabled) void reload();
+  }, [enabled, reload]);
+
+  if (!enabled) {
+    return (
+      <ContentPageLayout>
+        <div className="py-6 text-sm text-slate-500">
+          Diagnostics are available in development builds or in power-user mode
+          (<code>localStorage.{POWER_USER_KEY} = "1"</code>).
+        </div>
+      </ContentPageLayout>
+    );
+  }
+
+  return (
+    <ContentPageLayout>
+      <div className="flex flex-col gap-6 py-6">
+        <div className="flex items-start gap-4">
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold">Diagnostics</h1>
+            <p className="text-sm text-slate-500">
+              Replication, cache and sync queue state of this device, per entity type.
+            </p>
+          </div>
+          <Button variant="ghost-secondary" size="sm" disabled={loading} onClick={reload}>
+            <RefreshCw className="h-3.5 w-3.5" />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Circuit breakers</h2>
+          <CircuitBreakerList breakers={breakers} />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Child realtime</h2>
+          <ChildRealtimeList tables={realtime} />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Entities</h2>
+          {loading && entries.length === 0 ? (
+            <div className="py-4 text-center text-sm text-slate-500">Collecting...</div>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {entries.map((diagnostics) => (
+                <EntityDiagnosticsCard
+                  key={diagnostics.entityType}
+                  diagnostics={diagnostics}
+                  onChanged={reload}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </ContentPageLayout>
+  );
+}
@@ -0,0 +1,126 @@
+import { spaceStore, toast, type OfflinePin } from "@breedhub/rxdb-store";
+import { useSignals } from "@preact/signals-react/runtime";
+import { ToolPageLayout } from "@/layouts/ToolPageLayout";
+import { formatBytes } from "@/utils/format";
+import { Button } from "@ui/components/button";
+import { RefreshCw, X } from "lucide-react";
+import { useState } from "react";
+
+const KIND_LABELS: Record<OfflinePin["kind"], string> = {
+  account: "Kennel",
+  breed: "Breed",
+  pets: "Pets",
+};
+
+function getStatusText(pin: OfflinePin): string {
+  if (pin.status === "downloading") {
+    const { done, total, step } = pin.progress;
+    return `Downloading ${step} (${done}/${total})`;
+  }
+  if (pin.status === "error") {
+    return `Download failed: ${pin.error ?? "unknown error"}`;
+  }
+  const downloadedAt = pin.downloadedAt ? new Date(pin.downloadedAt).toLocaleString() : "";
+  return `Updated ${downloadedAt}`;
+}
+
+function OfflinePinRow({ pin }: { pin: OfflinePin }) {
+  const [busy, setBusy] = useState(false);
+  const downloading = pin.status === "downloading";
+  const percent = pin.progress.total > 0
+    ? Math.round((pin.progress.done / pin.progress.total) * 100)
+    : 0;
+
+  const refresh = async () => {
+    setBusy(true);
+    try {
+      const result = await spaceStore.refreshOfflinePin(pin.id);
+      if (result?.status === "error") {
+        toast.error(result.error || `Failed to download ${pin.label}`);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="flex flex-col gap-2 rounded-lg border border-surface-border p-3">
+      <div className="flex items-center gap-3">
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-sm font-semibold">
+            {KIND_LABELS[pin.kind]}: {pin.label}
+          </div>
+          <div className="truncate text-xs text-slate-500">
+            {pin.recordCount} records · {formatBytes(pin.bytes)} · {pin.generations} generations
+            {pin.truncated && " · pet list truncated"}
+          </div>
+          <div
+            className={`truncate text-xs ${pin.status === "error" ? "text-red-600" : "text-slate-500"}`}
+          >
+            {getStatusText(pin)}
+          </div>
+        </div>
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy || downloading}
+          onClick={refresh}
+        >
+          <RefreshCw className="h-3.5 w-3.5" />
+          Refresh
+        </Button>
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy}
+          onClick={() => spaceStore.unpinOffline(pin.id)}
+        >
+          <X className="h-3.5 w-3.5" />
+          Remove
+        </Button>
+      </div>
+      {downloading && (
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+          <div className="h-full bg-primary-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * OfflinePage - "Available offline" tool page of a workspace.
+ *
+ * Lists kennels, breeds and pets pinned with "Make available offline"
+ * together with download progress and size. Pinned records are exempt
+ * from cache eviction and refreshed on reconnect.
+ */
+export function OfflinePage() {
+  useSignals();
+  const pins = spaceStore.offlinePins.value;
+  const totalBytes = pins.reduce((sum, pin) => sum + pin.bytes, 0);
+
+  return (
+    <ToolPageLayout>
+      <div className="flex flex-col gap-6 py-6">
+        <div>
+          <h1 className="text-2xl font-bold">Available offline</h1>
+          <p className="text-sm text-slate-500">
+            Kennels, breeds and pets kept on this device with their titles, health records and
+            pedigrees. Use "Make available offline" in a record's menu to add more.
+            {pins.length > 0 && ` Using about ${formatBytes(totalBytes)}.`}
+          </p>
+        </div>
+        {pins.length === 0 ? (
+          <div className="py-4 text-center text-sm text-slate-500">Nothing pinned yet</div>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {pins.map((pin) => (
+              <OfflinePinRow key={pin.id} pin={pin} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </ToolPageLayout>
+  );
+}
@@ -0,0 +1,349 @@
+import {
+  spaceStore,
+  storageManagerService,
+  toast,
+  type CollectionUsage,
+  type SnapshotImportMode,
+  type SnapshotImportReport,
+} from "@breedhub/rxdb-store";
+import { useSignals } from "@preact/signals-react/runtime";
+import { ToolPageLayout } from "@/layouts/ToolPageLayout";
+import { formatBytes } from "@/utils/format";
+import { Button } from "@ui/components/button";
+import { Checkbox } from "@ui/components/checkbox";
+import { RadioGroup, RadioGroupItem } from "@ui/components/radio-group";
+import { Download, Eraser, RefreshCw, Scissors, ShieldCheck, Upload } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const LEVEL_BAR_CLASSES = {
+  unknown: "bg-slate-400",
+  ok: "bg-primary-500",
+  warning: "bg-amber-500",
+  critical: "bg-red-600",
+} as const;
+
+function describeImport(report: SnapshotImportReport): string {
+  const imported = report.collections.reduce((sum, entry) => sum + entry.imported, 0);
+  const rejected = report.collections.reduce((sum, entry) => sum + entry.rejected, 0);
+  const failed = report.collections.filter((entry) => entry.error).map((entry) => entry.name);
+  return [
+    `Imported ${imported} records`,
+    rejected > 0 && `${rejected} did not match the current schema`,
+    failed.length > 0 && `skipped ${failed.join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function SnapshotPanel({
+  selected,
+  onImported,
+}: {
+  selected: string[];
+  onImported: () => Promise<void>;
+}) {
+  const [gzip, setGzip] = useState(true);
+  const [mode, setMode] = useState<SnapshotImportMode>("merge");
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const exportSnapshot = async () => {
+    setBusy(true);
+    try {
+      const { blob, fileName, counts } = await spaceStore.exportSnapshot({
+        collections: selected,
+        gzip,
+      });
+      downloadBlob(blob, fileName);
+      const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+      toast.success(`Exported ${total} records (${formatBytes(blob.size)})`);
+    } catch (err: unknown) {
+      console.error("[StoragePage] Export failed:", err);
+      toast.error(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importSnapshot = async (file: File) => {
+    setBusy(true);
+    try {
+      const report = await spaceStore.importSnapshot(file, { mode });
+      toast.success(describeImport(report));
+      await onImported();
+    } catch (err: unknown) {
+      console.error("[StoragePage] Import failed:", err);
+      toast.error(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-surface-border p-3">
+      <div>
+        <div className="text-sm font-semibold">Snapshot</div>
+        <div className="text-xs text-slate-500">
+          Save the selected collections, including unsynced edits, to a file — or load one back.
+          Queued edits in an imported file are sent to the server again.
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <Checkbox checked={gzip} onCheckedChange={(checked) => setGzip(checked === true)} />
+          Compress
+        </label>
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy || selected.length === 0}
+          onClick={exportSnapshot}
+        >
+          <Download className="h-3.5 w-3.5" />
+          Export {selected.length} collections
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <RadioGroup
+          className="flex flex-wrap gap-4"
+          value={mode}
+          onValueChange={(value) => setMode(value as SnapshotImportMode)}
+        >
+          <label className="flex items-center gap-2">
+            <RadioGroupItem value="merge" />
+            Merge (newer records win)
+          </label>
+          <label className="flex items-center gap-2">
+            <RadioGroupItem value="replace" />
+            Replace collections
+          </label>
+        </RadioGroup>
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy}
+          onClick={() => fileInput.current?.click()}
+        >
+          <Upload className="h-3.5 w-3.5" />
+          Import
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.gz,application/json,application/gzip"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) void importSnapshot(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function CollectionRow({
+  usage,
+  selected,
+  onSelect,
+  onChanged,
+}: {
+  usage: CollectionUsage;
+  selected: boolean;
+  onSelect: (selected: boolean) => void;
+  onChanged: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<number>, verb: string) => {
+    setBusy(true);
+    try {
+      const removed = await action();
+      toast.success(`${verb} ${removed} records from ${usage.name}`);
+      await onChanged();
+    } catch (err: unknown) {
+      console.error("[StoragePage] Action failed:", err);
+      toast.error(err instanceof Error ? err.message : "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-3 rounded-lg border border-surface-border p-3">
+      <Checkbox
+        checked={selected}
+        onCheckedChange={(checked) => onSelect(checked === true)}
+        title="Include in snapshot"
+      />
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm font-semibold">{usage.name}</div>
+        <div className="truncate text-xs text-slate-500">
+          {usage.kind} · {usage.docCount} records · ~{formatBytes(usage.approxBytes)}
+        </div>
+      </div>
+      {usage.canEvict && (
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy}
+          onClick={() =>
+            run(async () => {
+              const stats = await spaceStore.runChildLruEviction(
+                usage.name.replace(/_children$/, ""),
+              );
+              return stats?.evictedRecords ?? 0;
+            }, "Evicted")
+          }
+        >
+          <Scissors className="h-3.5 w-3.5" />
+          Evict cold
+        </Button>
+      )}
+      {usage.canCleanup && (
+        <Button
+          variant="ghost-secondary"
+          size="sm"
+          disabled={busy}
+          onClick={() => run(() => storageManagerService.cleanupCollection(usage.name), "Removed")}
+        >
+          <Eraser className="h-3.5 w-3.5" />
+          Remove expired
+        </Button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * StoragePage - device storage tool page of a workspace.
+ *
+ * Shows origin quota usage, persistent-storage status and per-collection
+ * record counts with approximate size, runs LRU eviction / TTL cleanup
+ * for a single collection, and exports / imports a database snapshot of
+ * the selected collections.
+ */
+export function StoragePage() {
+  useSignals();
+  const estimate = storageManagerService.estimate.value;
+  const level = storageManagerService.level.value;
+  const persisted = storageManagerService.persisted.value;
+  const collections = storageManagerService.collections.value;
+  const [loading, setLoading] = useState(true);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const selected = collections
+    .map((usage) => usage.name)
+    .filter((name) => !excluded.has(name));
+
+  const reload = useCallback(async () => {
+    try {
+      await storageManagerService.refreshEstimate();
+      await storageManagerService.measureCollections();
+    } catch (error) {
+      console.error("[StoragePage] Failed to measure storage:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const percent = estimate && estimate.quota > 0 ? Math.round(estimate.ratio * 100) : null;
+
+  return (
+    <ToolPageLayout>
+      <div className="flex flex-col gap-6 py-6">
+        <div>
+          <h1 className="text-2xl font-bold">Storage</h1>
+          <p className="text-sm text-slate-500">
+            Data kept on this device for offline use. Free space by evicting cold child records or
+            removing expired cache entries; pinned offline data is kept.
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-2 rounded-lg border border-surface-border p-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-semibold">Device storage</span>
+            <span className="text-slate-500">
+              {estimate && percent !== null
+                ? `${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)} (${percent}%)`
+                : "Not available in this browser"}
+            </span>
+          </div>
+          {percent !== null && (
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+              <div
+                className={`h-full transition-all ${LEVEL_BAR_CLASSES[level]}`}
+                style={{ width: `${Math.min(percent, 100)}%` }}
+              />
+            </div>
+          )}
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>
+              {persisted
+                ? "Persistent storage granted — the browser will not clear this data on its own."
+                : "Storage is not persistent — the browser may clear it when space runs low."}
+            </span>
+            {persisted === false && (
+              <Button
+                variant="ghost-secondary"
+                size="sm"
+                onClick={async () => {
+                  const granted = await storageManagerService.requestPersistence();
+                  if (!granted) toast.warning("The browser declined persistent storage");
+                }}
+              >
+                <ShieldCheck className="h-3.5 w-3.5" />
+                Request
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <SnapshotPanel selected={selected} onImported={reload} />
+
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Collections</h2>
+          <Button variant="ghost-secondary" size="sm" disabled={loading} onClick={reload}>
+            <RefreshCw className="h-3.5 w-3.5" />
+            Measure
+          </Button>
+        </div>
+        {loading && collections.length === 0 ? (
+          <div className="py-4 text-center text-sm text-slate-500">Measuring...</div>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {collections.map((usage) => (
+              <CollectionRow
+                key={usage.name}
+                usage={usage}
+                selected={!excluded.has(usage.name)}
+                onSelect={(include) =>
+                  setExcluded((prev) => {
+                    const next = new Set(prev);
+                    if (include) next.delete(usage.name);
+                    else next.add(usage.name);
+                    return next;
+                  })
+                }
+                onChanged={reload}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </ToolPageLayout>
+  );
+}
@@ -0,0 +1,22 @@
+import { ContentPageLayout } from "@/layouts/ContentPageLayout";
+import { SyncQueueInspector } from "@/components/sync/SyncQueueInspector";
+
+/**
+ * SyncInspectorPage - Full-page view of the sync queue (/sync).
+ * Same inspector as the header drawer, with room for payload diffs.
+ */
+export function SyncInspectorPage() {
+  return (
+    <ContentPageLayout>
+      <div className="flex flex-col gap-6 py-6">
+        <div>
+          <h1 className="text-2xl font-bold">Sync queue</h1>
+          <p className="text-sm text-slate-500">
+            Changes waiting to reach the server. Retry, fix or discard items that failed.
+          </p>
+        </div>
+        <SyncQueueInspector />
+      </div>
+    </ContentPageLayout>
+  );
+}
@@ -0,0 +1,148 @@
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  spaceStore,
+  toast,
+  type TrashItem,
+} from "@breedhub/rxdb-store";
+import { ToolPageLayout } from "@/layouts/ToolPageLayout";
+import { useRecentlyDeleted } from "@/hooks/useRecentlyDeleted";
+import { entityLabel, entityRecordLabel } from "@/utils/crudToast";
+import { Button } from "@ui/components/button";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+interface TrashPageConfig {
+  /** Entity types to list — defaults to the workspace's spaces */
+  entityTypes?: string[];
+  /** Child tables per entity type, e.g. { pet: ["title_in_pet"] } */
+  childTables?: Record<string, string[]>;
+  retentionDays?: number;
+}
+
+interface TrashPageProps {
+  pageConfig?: TrashPageConfig;
+  workspaceConfig?: { spaces?: Record<string, { entitySchemaName?: string }> };
+}
+
+function formatDeletedAt(deletedAt: string): string {
+  if (!deletedAt) return "";
+  return new Date(deletedAt).toLocaleString();
+}
+
+function TrashItemRow({
+  item,
+  onChanged,
+}: {
+  item: TrashItem;
+  onChanged: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [confirmingPurge, setConfirmingPurge] = useState(false);
+  const label = entityRecordLabel(item.tableType ?? item.entityType, item.row);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await onChanged();
+    } catch (err: unknown) {
+      console.error("[TrashPage] Action failed:", err);
+      toast.error(err instanceof Error ? err.message : "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-3 rounded-lg border border-surface-border p-3">
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm font-semibold">{label}</div>
+        <div className="truncate text-xs text-slate-500">
+          {item.kind === "child" && `${entityLabel(item.entityType)} ${item.parentId ?? ""} · `}
+          Deleted {formatDeletedAt(item.deletedAt)}
+          {item.pending && " · not synced yet"}
+        </div>
+      </div>
+      <Button
+        variant="ghost-secondary"
+        size="sm"
+        disabled={busy}
+        onClick={() => run(() => spaceStore.restoreDeleted(item), `${label} restored`)}
+      >
+        <RotateCcw className="h-3.5 w-3.5" />
+        Restore
+      </Button>
+      <Button
+        variant="ghost-secondary"
+        size="sm"
+        disabled={busy}
+        onClick={() => {
+          // Second click confirms — purge cannot be undone
+          if (!confirmingPurge) {
+            setConfirmingPurge(true);
+            return;
+          }
+          setConfirmingPurge(false);
+          void run(() => spaceStore.purgeDeleted(item), `${label} permanently deleted`);
+        }}
+        onBlur={() => setConfirmingPurge(false)}
+        className="text-red-600"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+        {confirmingPurge ? "Confirm delete" : "Delete forever"}
+      </Button>
+    </li>
+  );
+}
+
+/**
+ * TrashPage - "Recently deleted" tool page of a workspace.
+ *
+ * Lists records the current user soft-deleted within the retention window
+ * (entities of the workspace spaces plus configured child tables), with
+ * restore and permanent purge.
+ */
+export function TrashPage({ pageConfig, workspaceConfig }: TrashPageProps) {
+  const entityTypes =
+    pageConfig?.entityTypes ??
+    Object.values(workspaceConfig?.spaces ?? {})
+      .map((space) => space.entitySchemaName)
+      .filter((entityType): entityType is string => !!entityType);
+  const retentionDays = pageConfig?.retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+
+  const { items, loading, reload } = useRecentlyDeleted({
+    entityTypes,
+    childTables: pageConfig?.childTables,
+    retentionDays,
+  });
+
+  return (
+    <ToolPageLayout>
+      <div className="flex flex-col gap-6 py-6">
+        <div>
+          <h1 className="text-2xl font-bold">Recently deleted</h1>
+          <p className="text-sm text-slate-500">
+            Records you deleted in the last {retentionDays} days. Restore them or delete them
+            permanently.
+          </p>
+        </div>
+        {loading ? (
+          <div className="py-4 text-center text-sm text-slate-500">Loading...</div>
+        ) : items.length === 0 ? (
+          <div className="py-4 text-center text-sm text-slate-500">Nothing deleted recently</div>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {items.map((item) => (
+              <TrashItemRow
+                key={`${item.kind}:${item.tableType ?? item.entityType}:${item.recordId}`}
+                item={item}
+                onChanged={reload}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </ToolPageLayout>
+  );
+}
@@ -55,6 +55,15 @@ registerPage('WelcomePage', lazyRegisteredPage(() =>
 registerPage('DashboardPage', lazyRegisteredPage(() =>
   import('@/components/dashboard').then((module) => ({ default: module.DashboardSpace }))
 ));
+registerPage('TrashPage', lazyRegisteredPage(() =>
+  import('./TrashPage').then((module) => ({ default: module.TrashPage }))
+));
+registerPage('OfflinePage', lazyRegisteredPage(() =>
+  import('./OfflinePage').then((module) => ({ default: module.OfflinePage }))
+));
+registerPage('StoragePage', lazyRegisteredPage(() =>
+  import('./StoragePage').then((module) => ({ default: module.StoragePage }))
+));
 
 // Fallback component for unknown pages
 export const PageNotFound: React.FC<{ componentName?: string }> = ({ componentName }) => (
@@ -69,6 +69,12 @@ const TestDictionaryPage = lazyRoute(() =>
 const TestPage = lazyRoute(() =>
   import('@/pages/TestPage').then((module) => ({ default: module.TestPage }))
 );
+const SyncInspectorPage = lazyRoute(() =>
+  import('@/pages/SyncInspectorPage').then((module) => ({ default: module.SyncInspectorPage }))
+);
+const DiagnosticsPage = lazyRoute(() =>
+  import('@/pages/DiagnosticsPage').then((module) => ({ default: module.DiagnosticsPage }))
+);
 
 // Temporary placeholder component
 function PlaceholderPage({ title }: { title: string }) {
@@ -372,6 +378,12 @@ export function AppRouter() {
             {/* Gift page */}
             <Route path="gift" element={<GiftPage />} />
 
+            {/* Sync queue inspector */}
+            <Route path="sync" element={<SyncInspectorPage />} />
+
+            {/* Sync & cache diagnostics (dev / power-user mode) */}
+            <Route path="diagnostics" element={<DiagnosticsPage />} />
+
             {/* Create page - fullscreen create form */}
             {/* Resolves /new?entity=pet → fullscreen create form */}
             <Route path="new" element={<CreatePageResolver />} />
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  filterPaletteCommands,
+  filterRecentEntries,
+  getEntityTypeLabel,
+  getPaletteCommands,
+  getSearchResultPath,
+  isPaletteShortcut,
+} from "../command-palette";
+
+function key(overrides: Partial<KeyboardEvent>) {
+  return {
+    key: "k",
+    metaKey: false,
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...overrides,
+  };
+}
+
+describe("command palette", () => {
+  it("opens on Ctrl+K and Cmd+K only", () => {
+    expect(isPaletteShortcut(key({ ctrlKey: true }))).toBe(true);
+    expect(isPaletteShortcut(key({ metaKey: true, key: "K" }))).toBe(true);
+    expect(isPaletteShortcut(key({}))).toBe(false);
+    expect(isPaletteShortcut(key({ ctrlKey: true, shiftKey: true }))).toBe(false);
+  });
+
+  it("labels accounts as kennels and programs as events", () => {
+    expect(getEntityTypeLabel("account")).toBe("Kennel");
+    expect(getEntityTypeLabel("program")).toBe("Event");
+    expect(getEntityTypeLabel("note")).toBe("Note");
+  });
+
+  it("filters commands by label and keywords", () => {
+    const commands = getPaletteCommands("light");
+    expect(filterPaletteCommands(commands, "").map((c) => c.id)).toEqual([
+      "create-pet",
+      "open-mating",
+      "toggle-theme",
+    ]);
+    expect(filterPaletteCommands(commands, "dark").map((c) => c.id)).toEqual(["toggle-theme"]);
+    expect(filterPaletteCommands(commands, "new pet").map((c) => c.id)).toEqual(["create-pet"]);
+  });
+
+  it("filters recent pages by title", () => {
+    const entries = [
+      { path: "/rex", title: "REX", entityType: "pet", timestamp: 2 },
+      { path: "/boxer", title: "BOXER", entityType: "breed", timestamp: 1 },
+    ];
+    expect(filterRecentEntries(entries, "box").map((entry) => entry.path)).toEqual(["/boxer"]);
+  });
+
+  it("opens results by slug, falling back to the space", () => {
+    expect(getSearchResultPath({ id: "pet-1", slug: "rex-1234" }, "pets")).toBe("/rex-1234");
+    expect(getSearchResultPath({ id: "pet-1", slug: null }, "pets")).toBe("/pets/pet-1");
+    expect(getSearchResultPath({ id: "pet-1", slug: null }, null)).toBe("/");
+  });
+});
@@ -0,0 +1,103 @@
+import type { NavigationEntry, QuickSearchResult } from "@breedhub/rxdb-store";
+
+/**
+ * Command palette (Ctrl/Cmd+K): entity types it searches, app commands it
+ * offers and how picked items turn into paths.
+ */
+
+export interface PaletteEntityType {
+  entityType: string;
+  /** Badge label — accounts are shown as kennels, programs as events */
+  label: string;
+}
+
+export const PALETTE_ENTITY_TYPES: PaletteEntityType[] = [
+  { entityType: "breed", label: "Breed" },
+  { entityType: "pet", label: "Pet" },
+  { entityType: "account", label: "Kennel" },
+  { entityType: "contact", label: "Contact" },
+  { entityType: "litter", label: "Litter" },
+  { entityType: "program", label: "Event" },
+];
+
+/** Matches shown per entity type. */
+export const PALETTE_RESULTS_PER_TYPE = 5;
+
+export type PaletteCommandId = "create-pet" | "open-mating" | "toggle-theme";
+
+export interface PaletteCommand {
+  id: PaletteCommandId;
+  label: string;
+  keywords: string[];
+}
+
+export function getEntityTypeLabel(entityType: string): string {
+  return (
+    PALETTE_ENTITY_TYPES.find((item) => item.entityType === entityType)?.label ??
+    entityType.charAt(0).toUpperCase() + entityType.slice(1)
+  );
+}
+
+export function getPaletteCommands(theme: "light" | "dark"): PaletteCommand[] {
+  return [
+    { id: "create-pet", label: "Create pet", keywords: ["new", "add", "pet"] },
+    { id: "open-mating", label: "Open mating page", keywords: ["plan", "breeding", "mating"] },
+    {
+      id: "toggle-theme",
+      label: theme === "dark" ? "Switch to light theme" : "Switch to dark theme",
+      keywords: ["theme", "dark", "light", "mode"],
+    },
+  ];
+}
+
+function matchesWords(haystack: string, query: string): boolean {
+  const text = haystack.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => text.includes(word));
+}
+
+/** Commands whose label or keywords contain every query word; all of them for an empty query. */
+export function filterPaletteCommands(
+  commands: PaletteCommand[],
+  query: string,
+): PaletteCommand[] {
+  if (!query.trim()) return commands;
+  return commands.filter((command) =>
+    matchesWords(`${command.label} ${command.keywords.join(" ")}`, query),
+  );
+}
+
+/** Recent pages whose title contains every query word; all of them for an empty query. */
+export function filterRecentEntries(
+  entries: NavigationEntry[],
+  query: string,
+): NavigationEntry[] {
+  if (!query.trim()) return entries;
+  return entries.filter((entry) => matchesWords(entry.title, query));
+}
+
+export function isPaletteShortcut(
+  event: Pick<KeyboardEvent, "key" | "metaKey" | "ctrlKey" | "altKey" | "shiftKey">,
+): boolean {
+  return (
+    (event.metaKey || event.ctrlKey) &&
+    !event.altKey &&
+    !event.shiftKey &&
+    event.key.toLowerCase() === "k"
+  );
+}
+
+/**
+ * Where a search result opens: its pretty URL (resolved by SlugResolver
+ * through routeStore), or the entity in its space when it has no slug.
+ */
+export function getSearchResultPath(
+  result: Pick<QuickSearchResult, "id" | "slug">,
+  spaceSlug: string | null,
+): string {
+  if (result.slug) return `/${result.slug}`;
+  return spaceSlug ? `/${spaceSlug}/${result.id}` : "/";
+}
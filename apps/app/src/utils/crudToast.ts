@@ -1,11 +1,12 @@
 import { toast } from '@breedhub/rxdb-store';
 
-export type CrudVerb = 'create' | 'update' | 'delete';
+export type CrudVerb = 'create' | 'update' | 'delete' | 'restore';
 
 const PAST_TENSE: Record<CrudVerb, string> = {
   create: 'created',
   update: 'updated',
   delete: 'deleted',
+  restore: 'restored',
 };
 
 export type CrudResult<T> = { ok: true; data: T } | { ok: false };
@@ -13,7 +14,7 @@ export type CrudResult<T> = { ok: true; data: T } | { ok: false };
 /**
  * Wrap a CRUD operation with consistent toast notifications.
  *
- * - Success: `${Label} created/updated/deleted`
+ * - Success: `${Label} created/updated/deleted/restored`
  * - Failure: logs error and shows `err.message || Failed to ${verb} ${label}`
  *
  * Returns discriminated result so callers can branch on success/failure
@@ -30,12 +31,18 @@ export type CrudResult<T> = { ok: true; data: T } | { ok: false };
  */
 export async function withCrudToast<T>(
   operation: () => Promise<T>,
-  options: { label: string; verb: CrudVerb }
+  options: {
+    label: string;
+    verb: CrudVerb;
+    /** Button on the success toast, e.g. Undo after a delete */
+    action?: { label: string; onClick: () => void };
+    duration?: number;
+  }
 ): Promise<CrudResult<T>> {
-  const { label, verb } = options;
+  const { label, verb, action, duration } = options;
   try {
     const data = await operation();
-    toast.success(`${label} ${PAST_TENSE[verb]}`);
+    toast.success(`${label} ${PAST_TENSE[verb]}`, { action, duration });
     return { ok: true, data };
   } catch (err: any) {
     console.error(`[crudToast] ${verb} failed for ${label}:`, err);
@@ -0,0 +1,16 @@
+/**
+ * Sync & cache diagnostics panel (/diagnostics) gating.
+ * Always on in dev builds; elsewhere only in power-user mode, enabled with
+ * `localStorage.setItem("breedhub_power_user", "1")`.
+ */
+
+export const POWER_USER_KEY = "breedhub_power_user";
+
+export function isDiagnosticsEnabled(): boolean {
+  if (import.meta.env.DEV) return true;
+  try {
+    return localStorage.getItem(POWER_USER_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
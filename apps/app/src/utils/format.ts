@@ -44,3 +44,18 @@ export function extractSocialHandle(url: string, platform: "facebook" | "instagr
     return url;
   }
 }
+
+/**
+ * Format a byte count for display: "820 B", "1.4 KB", "12.3 MB".
+ */
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes < 1024) return `${Math.max(0, Math.round(bytes || 0))} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
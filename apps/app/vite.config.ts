@@ -150,6 +150,8 @@ export default defineConfig({
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2}'],
         maximumFileSizeToCacheInBytes: 4 * 1024 * 1024,
+        // Drains the sync queues while no tab is open (public/background-sync-sw.js)
+        importScripts: ['/background-sync-sw.js'],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/dev\.dogarray\.com\/.*/i,
@@ -75,6 +75,29 @@ export const CHILD_COLLECTION_EVICT_TARGET_RATIO = 0.8;
  */
 export const CHILD_COLLECTION_EVICT_PROTECT_MS = 30 * 1000;
 
+/**
+ * Rows per page of a checkpointed child delta pull (rows changed since the
+ * group's last `updated_at`). A stale group normally changes by a handful
+ * of rows; paging only matters after a long offline stretch or an import.
+ */
+export const CHILD_DELTA_PAGE_SIZE = 500;
+
+/**
+ * Origin storage usage (`navigator.storage.estimate()`) above
+ * `quota * WARN_RATIO` shows a warning with cleanup options; above
+ * `CRITICAL_RATIO` the browser may start rejecting writes, so the warning
+ * escalates. Estimates are coarse (Chrome pads usage), keep the margins.
+ */
+export const STORAGE_QUOTA_WARN_RATIO = 0.8;
+export const STORAGE_QUOTA_CRITICAL_RATIO = 0.95;
+
+/**
+ * How often the storage manager re-reads the origin estimate. The call is
+ * cheap, but usage only moves with large downloads, so a few minutes is
+ * enough to warn before the quota is hit.
+ */
+export const STORAGE_ESTIMATE_INTERVAL_MS = 5 * 60 * 1000;
+
 export const CACHE_POLICY_VALUES = {
   CHILD_RECORDS_STALE_MS,
   MAPPING_CACHE_STALE_MS,
@@ -83,6 +106,10 @@ export const CACHE_POLICY_VALUES = {
   CHILD_COLLECTION_RECORD_LIMIT,
   CHILD_COLLECTION_EVICT_TARGET_RATIO,
   CHILD_COLLECTION_EVICT_PROTECT_MS,
+  CHILD_DELTA_PAGE_SIZE,
+  STORAGE_QUOTA_WARN_RATIO,
+  STORAGE_QUOTA_CRITICAL_RATIO,
+  STORAGE_ESTIMATE_INTERVAL_MS,
 } as const;
 
 export type CachePolicyKey = keyof typeof CACHE_POLICY_VALUES;
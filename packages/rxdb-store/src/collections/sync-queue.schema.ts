@@ -1,4 +1,12 @@
-import type { RxJsonSchema } from 'rxdb';
+import type { MigrationStrategies, RxJsonSchema } from 'rxdb';
+
+/**
+ * Queue item lifecycle: absent/'pending' → removed on success,
+ * 'failed' after MAX_RETRIES, 'conflict' when the server row diverged
+ * from the version the local edit started from, 'held' for a child upsert
+ * whose parent entity was deleted (back to 'pending' when it is restored).
+ */
+export type SyncQueueStatus = 'pending' | 'failed' | 'conflict' | 'held';
 
 // --- Entity Sync Queue ---
 
@@ -13,10 +21,23 @@ export interface EntitySyncQueueDocument {
   createdAt: number;
   status?: string;
   error?: string;
+  /** Postgres/PostgREST code of the last failed push for this item. */
+  errorCode?: string;
+  /** Epoch ms before which the processor skips this item (retry backoff). */
+  nextAttemptAt?: number;
+  /** Server `updated_at` the local edit was based on (conflict detection). */
+  baseUpdatedAt?: string;
+  /**
+   * Field values the local edit started from, in payload shape — the common
+   * ancestor for the three-way merge with a newer server row.
+   */
+  baseSnapshot?: Record<string, unknown>;
+  /** Server row captured when the item was parked as a conflict. */
+  serverPayload?: Record<string, unknown>;
 }
 
 export const entitySyncQueueSchema: RxJsonSchema<EntitySyncQueueDocument> = {
-  version: 0,
+  version: 4,
   primaryKey: 'id',
   type: 'object',
   properties: {
@@ -30,11 +51,28 @@ export const entitySyncQueueSchema: RxJsonSchema<EntitySyncQueueDocument> = {
     createdAt: { type: 'number', minimum: 0, maximum: 9999999999999, multipleOf: 1 },
     status: { type: 'string', maxLength: 10 },
     error: { type: 'string', maxLength: 500 },
+    errorCode: { type: 'string', maxLength: 20 },
+    nextAttemptAt: { type: 'number', minimum: 0, maximum: 9999999999999, multipleOf: 1 },
+    baseUpdatedAt: { type: 'string', maxLength: 40 },
+    baseSnapshot: { type: 'object' },
+    serverPayload: { type: 'object' },
   },
   required: ['id', 'entityType', 'entityId', 'operation', 'payload', 'onConflict', 'retries', 'createdAt'],
   indexes: ['entityId', 'createdAt'],
 };
 
+/**
+ * Every version so far only added optional fields (v1: conflict fields,
+ * v2: errorCode, v3: nextAttemptAt, v4: baseSnapshot) — existing items
+ * carry over as-is.
+ */
+export const entitySyncQueueMigrationStrategies: MigrationStrategies = {
+  1: (oldDoc) => oldDoc,
+  2: (oldDoc) => oldDoc,
+  3: (oldDoc) => oldDoc,
+  4: (oldDoc) => oldDoc,
+};
+
 // --- Child Sync Queue ---
 
 export interface ChildSyncQueueDocument {
@@ -49,10 +87,14 @@ export interface ChildSyncQueueDocument {
   createdAt: number;
   status?: string;
   error?: string;
+  /** Postgres/PostgREST code of the last failed push for this item. */
+  errorCode?: string;
+  /** Epoch ms before which the processor skips this item (retry backoff). */
+  nextAttemptAt?: number;
 }
 
 export const childSyncQueueSchema: RxJsonSchema<ChildSyncQueueDocument> = {
-  version: 0,
+  version: 2,
   primaryKey: 'id',
   type: 'object',
   properties: {
@@ -67,11 +109,19 @@ export const childSyncQueueSchema: RxJsonSchema<ChildSyncQueueDocument> = {
     createdAt: { type: 'number', minimum: 0, maximum: 9999999999999, multipleOf: 1 },
     status: { type: 'string', maxLength: 10 },
     error: { type: 'string', maxLength: 500 },
+    errorCode: { type: 'string', maxLength: 20 },
+    nextAttemptAt: { type: 'number', minimum: 0, maximum: 9999999999999, multipleOf: 1 },
   },
   required: ['id', 'entityType', 'tableType', 'recordId', 'operation', 'payload', 'onConflict', 'retries', 'createdAt'],
   indexes: ['recordId', 'createdAt'],
 };
 
+/** Only optional fields were added (v1: errorCode, v2: nextAttemptAt). */
+export const childSyncQueueMigrationStrategies: MigrationStrategies = {
+  1: (oldDoc) => oldDoc,
+  2: (oldDoc) => oldDoc,
+};
+
 // --- Dictionary Sync Queue (future use) ---
 
 export interface DictionarySyncQueueDocument {
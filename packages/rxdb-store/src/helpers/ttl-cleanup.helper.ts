@@ -21,12 +21,14 @@ export interface CacheableDocument {
  * @param collection - RxDB collection to cleanup
  * @param ttl - Time to live in milliseconds (default: 14 days)
  * @param logPrefix - Prefix for console logs (e.g., '[DictionaryStore]')
+ * @param isExempt - Keeps matching documents regardless of age (e.g. offline pins)
  * @returns Number of documents removed
  */
 export async function cleanupExpiredDocuments<T extends CacheableDocument>(
   collection: RxCollection<T>,
   ttl: number = DEFAULT_TTL,
-  logPrefix: string = '[Cleanup]'
+  logPrefix: string = '[Cleanup]',
+  isExempt?: (doc: T) => boolean
 ): Promise<number> {
   const expiryTime = Date.now() - ttl;
 
@@ -40,37 +42,43 @@ export async function cleanupExpiredDocuments<T extends CacheableDocument>(
     })
     .exec();
 
-  if (expiredDocs.length > 0) {
-    for (const doc of expiredDocs) {
-      await doc.remove();
-    }
+  let removed = 0;
+  for (const doc of expiredDocs) {
+    if (isExempt?.(doc.toJSON() as T)) continue;
+    await doc.remove();
+    removed += 1;
   }
 
-  return expiredDocs.length;
+  return removed;
 }
 
 /**
  * Cleanup expired documents from multiple collections
  *
- * @param collections - Array of collections with names
+ * @param collections - Array of collections with names (and optional exemptions)
  * @param ttl - Time to live in milliseconds (default: 14 days)
  * @param logPrefix - Prefix for console logs
  * @returns Total number of documents removed
  */
 export async function cleanupMultipleCollections(
-  collections: Array<{ collection: RxCollection<any>; name: string }>,
+  collections: Array<{
+    collection: RxCollection<any>;
+    name: string;
+    isExempt?: (doc: Record<string, unknown>) => boolean;
+  }>,
   ttl: number = DEFAULT_TTL,
   logPrefix: string = '[Cleanup]'
 ): Promise<number> {
   let totalCleaned = 0;
 
-  for (const { collection, name } of collections) {
+  for (const { collection, name, isExempt } of collections) {
     if (!collection) continue;
 
     const cleaned = await cleanupExpiredDocuments(
       collection,
       ttl,
-      `${logPrefix} ${name}`
+      `${logPrefix} ${name}`,
+      isExempt
     );
     totalCleaned += cleaned;
   }
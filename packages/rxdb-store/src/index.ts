@@ -5,6 +5,66 @@ export type { EntityStoreInstance } from './stores/base';
 // Services
 export { databaseService, getDatabase } from './services/database.service';
 export { entityReplicationService, EntityReplicationService } from './services/entity-replication.service';
+export type {
+  RealtimeChannelStatus,
+  ReplicationDiagnostics,
+  ReplicationRunState,
+} from './services/entity-replication.service';
+export { leaderElectionService, LeaderElectionService } from './services/leader-election.service';
+export { storageManagerService, StorageManagerService } from './services/storage-manager.service';
+export type {
+  CollectionUsage,
+  StorageCollectionKind,
+  StorageEstimateSnapshot,
+  StorageQuotaLevel,
+} from './services/storage-manager.service';
+export {
+  databaseSnapshotService,
+  DatabaseSnapshotService,
+  SNAPSHOT_FORMAT_VERSION,
+} from './services/database-snapshot.service';
+export type {
+  DatabaseSnapshot,
+  SnapshotCollectionReport,
+  SnapshotExport,
+  SnapshotExportOptions,
+  SnapshotImportMode,
+  SnapshotImportReport,
+} from './services/database-snapshot.service';
+export {
+  childRealtimeService,
+  ChildRealtimeService,
+  DEFAULT_CHILD_REALTIME_TABLES,
+} from './services/child-realtime.service';
+export type {
+  ChildRealtimeChange,
+  ChildRealtimeStatus,
+  ChildRealtimeTable,
+} from './services/child-realtime.service';
+export type { LeaderElectionChannel, LeaderElectionOptions } from './services/leader-election.service';
+export {
+  createSupabasePresenceTransport,
+  InMemoryPresenceTransport,
+  presenceService,
+  PresenceService,
+} from './services/presence.service';
+export type {
+  PresenceHandle,
+  PresenceIdentity,
+  PresenceTransport,
+} from './services/presence.service';
+export type {
+  PresenceMember,
+  PresenceMode,
+  PresenceSaveEvent,
+  PresenceState,
+} from './utils/presence.helpers';
+export {
+  searchIndexService,
+  SearchIndexService,
+  SEARCH_INDEX_SOURCES,
+} from './services/search-index.service';
+export type { SearchIndexSource } from './services/search-index.service';
 
 // Hooks
 export { useReplicationState, SyncStatusIndicator } from './hooks/useReplicationState';
@@ -49,9 +109,67 @@ export {
   DEFAULT_DRAWER_WIDTH,
   resolveDrawerWidth,
 } from './stores/space-config.helpers';
+export { DEFAULT_TRASH_RETENTION_DAYS } from './stores/space-trash.helpers';
+export type { TrashItem, TrashItemKind } from './stores/space-trash.helpers';
+export type {
+  BulkDeleteResult,
+  BulkDependencyReport,
+  BulkProgress,
+  BulkStage,
+  BulkUpdateResult,
+} from './stores/space-bulk.helpers';
+export {
+  canRevertChange,
+  filterChangeHistory,
+  getChangedFieldNames,
+} from './stores/space-history.helpers';
+export type {
+  ChangeHistoryEntry,
+  ChangeHistoryField,
+  ChangeOperation,
+} from './stores/space-history.helpers';
+export {
+  DEFAULT_OFFLINE_CHILD_TABLES,
+  DEFAULT_OFFLINE_PEDIGREE_GENERATIONS,
+  getOfflinePinId,
+} from './stores/space-offline-pin.helpers';
+export type {
+  OfflinePin,
+  OfflinePinKind,
+  OfflinePinOptions,
+  OfflinePinStatus,
+  OfflinePinTarget,
+} from './stores/space-offline-pin.helpers';
+export type {
+  ChildCollectionDiagnostics,
+  ChildLruGroupDiagnostics,
+  EntityDiagnostics,
+} from './stores/space-diagnostics.helpers';
 
 // Sync Queue Service - Queue-based push (V3)
 export { syncQueueService } from './services/sync-queue.service';
+export type {
+  CircuitBreakerSnapshot,
+  SyncQueueDependency,
+  SyncQueueItem,
+  SyncQueueKind,
+} from './services/sync-queue.service';
+export { diffQueuedPayload } from './utils/sync-queue.helpers';
+export type { QueuedPayloadDiffRow } from './utils/sync-queue.helpers';
+export type { EntitySyncQueueDocument, SyncQueueStatus } from './collections/sync-queue.schema';
+export {
+  detectConflict,
+  diffConflictFields,
+  applyConflictResolution,
+  getConflictFields,
+  mergeWithServer,
+  threeWayMerge,
+} from './utils/sync-conflict.helpers';
+export type {
+  ConflictField,
+  ConflictFieldChoice,
+  ThreeWayMergeResult,
+} from './utils/sync-conflict.helpers';
 
 // Dictionary Store - Universal cache for dictionary tables
 export { dictionaryStore } from './stores/dictionary-store.signal-store';
@@ -81,8 +199,19 @@ export type { Toast, ToastType, ToastOptions } from './stores/toast.store';
 // Utils
 export { buildInitialTimeline, rebuildTimelineOnDateChange } from './utils/timeline-builder';
 export { buildInitialPedigree } from './utils/pedigree-builder';
-export { generateSlug } from './utils/slug-generator';
-export { detectOperator, matchRecordValue, type FilterOperator } from './utils/filter-builder';
+export { generateSlug, transliterate } from './utils/slug-generator';
+export { SearchIndex, normalizeSearchText, tokenizeSearchText } from './utils/search-index';
+export type { SearchHit, SearchIndexField } from './utils/search-index';
+export {
+  detectOperator,
+  matchRecordValue,
+  parseFilterRange,
+  formatFilterRange,
+  resolveFilterRange,
+  resolveRelativeDateRange,
+  type FilterOperator,
+  type FilterRange,
+} from './utils/filter-builder';
 
 // Supabase utilities
 export { supabase, checkSupabaseConnection } from './supabase/client';
@@ -113,6 +242,32 @@ export type {
 // Export OrderBy type from SpaceStore
 export type { OrderBy, PedigreePet, PedigreeResult } from './stores/space-store.signal-store';
 
+// Quick search result shape (spaceStore.quickSearch — global search)
+export { QUICK_SEARCH_DEFAULT_LIMIT } from './stores/space-quick-search.helpers';
+export type { QuickSearchResult } from './stores/space-quick-search.helpers';
+// Filter groups — nested AND / OR / NOT conditions (advanced filters)
+export {
+  FILTER_GROUP_KEY,
+  parseFilterGroup,
+  getFilterGroup,
+  isFilterGroupConditionActive,
+  hasActiveFilterGroupConditions,
+  collectFilterGroupFields,
+  buildFilterGroupRxdbSelector,
+  buildFilterGroupPostgrestExpr,
+  matchFilterGroup,
+} from './stores/space-filter-group.helpers';
+export type {
+  FilterGroup,
+  FilterGroupCondition,
+  FilterGroupNode,
+  FilterGroupCombinator,
+  FilterGroupLeafFilter,
+  FilterGroupLeafResolver,
+} from './stores/space-filter-group.helpers';
+// Facet counts on filter options (spaceStore.getFacetCounts)
+export type { FacetCounts, FacetCountResult } from './stores/space-facet.helpers';
+
 // Mapping-row shape used by SpaceStore.addToMappingCache (optimistic inserts).
 export type { MappingRow } from './stores/space-mapping.helpers';
 
@@ -145,6 +300,21 @@ export { getChildField } from './stores/space-child.helpers';
 export { userSettingsStore } from './stores/user-settings.signal-store';
 export type { UserSettings } from './stores/user-settings.signal-store';
 
+// Saved filter presets (named space queries, shareable with the kennel)
+export { filterPresetStore } from './stores/filter-preset.signal-store';
+export type { SaveFilterPresetOptions } from './stores/filter-preset.signal-store';
+export {
+  getDefaultPreset,
+  getSpacePresets,
+  normalizePresetQuery,
+  presetMatchesQuery,
+} from './stores/filter-preset.helpers';
+export type {
+  FilterPreset,
+  FilterPresetQuery,
+  FilterPresetQueryInput,
+} from './stores/filter-preset.helpers';
+
 // Partition filter type — pass to APIs querying partitioned tables (e.g. pet)
 export type { PartitionFilter } from './types/partition';
 
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../supabase/client", () => ({ supabase: {} }));
+
+import {
+  buildParentFilters,
+  ChildRealtimeService,
+  type ChildRealtimeChange,
+  type RealtimeChannelLike,
+  type RealtimeClientLike,
+} from "../child-realtime.service";
+
+type Listener = Parameters<RealtimeChannelLike["on"]>[2];
+
+function createClient() {
+  const channels: Array<{ name: string; filter?: string; listener?: Listener }> = [];
+  const removed: string[] = [];
+  const client: RealtimeClientLike = {
+    channel: (name) => {
+      const entry: (typeof channels)[number] = { name };
+      channels.push(entry);
+      const channel: RealtimeChannelLike & { name: string } = {
+        name,
+        on: (_type, filter, listener) => {
+          entry.filter = filter.filter;
+          entry.listener = listener;
+          return channel;
+        },
+        subscribe: (callback) => {
+          callback?.("SUBSCRIBED");
+          return channel;
+        },
+      };
+      return channel;
+    },
+    removeChannel: async (channel) => {
+      removed.push((channel as RealtimeChannelLike & { name: string }).name);
+    },
+  };
+  return { client, channels, removed };
+}
+
+describe("child-realtime.service", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("chunks parent ids into in() filters", () => {
+    expect(buildParentFilters("pet_id", ["c", "a", "b"], 2)).toEqual([
+      "pet_id=in.(a,b)",
+      "pet_id=in.(c)",
+    ]);
+    expect(buildParentFilters("pet_id", [])).toEqual([]);
+  });
+
+  it("subscribes only while active and follows the cached parents", async () => {
+    const { client, channels, removed } = createClient();
+    const service = new ChildRealtimeService({ client, debounceMs: 0, chunkSize: 2 });
+    service.enable([{ entityType: "pet", tableType: "title_in_pet" }], () => {});
+
+    service.watch("pet", "title_in_pet", "pet-1");
+    service.watch("pet", "pet_measurement", "pet-1");
+    await service.flush();
+    expect(channels).toHaveLength(0);
+
+    service.setActive(true);
+    service.watch("pet", "title_in_pet", "pet-2");
+    service.watch("pet", "title_in_pet", "pet-3");
+    await service.flush();
+    expect(channels.map((channel) => channel.filter)).toEqual([
+      "pet_id=in.(pet-1,pet-2)",
+      "pet_id=in.(pet-3)",
+    ]);
+    expect(service.getStatus()).toEqual([
+      {
+        entityType: "pet",
+        tableType: "title_in_pet",
+        parents: 3,
+        channels: ["SUBSCRIBED", "SUBSCRIBED"],
+      },
+    ]);
+
+    // Evicting the last parents tears the channels down
+    service.unwatch("pet", "title_in_pet", "pet-1");
+    service.unwatch("pet", "title_in_pet", "pet-2");
+    service.unwatch("pet", "title_in_pet", "pet-3");
+    await service.flush();
+    expect(removed).toHaveLength(2);
+    expect(service.getStatus()[0].channels).toEqual([]);
+
+    await service.destroy();
+  });
+
+  it("hands row changes to the handler", async () => {
+    const { client, channels } = createClient();
+    const changes: ChildRealtimeChange[] = [];
+    const service = new ChildRealtimeService({ client, debounceMs: 0 });
+    service.enable(
+      [{ entityType: "litter", tableType: "pet_in_litter" }],
+      (change) => {
+        changes.push(change);
+      },
+    );
+    service.setActive(true);
+    service.watch("litter", "pet_in_litter", "litter-1");
+    await service.flush();
+
+    channels[0].listener?.({
+      eventType: "INSERT",
+      new: { id: "row-1", litter_id: "litter-1" },
+      old: {},
+    });
+    channels[0].listener?.({ eventType: "DELETE", new: {}, old: { id: "row-2" } });
+
+    expect(channels[0].filter).toBe("litter_id=in.(litter-1)");
+    expect(changes).toEqual([
+      expect.objectContaining({
+        parentField: "litter_id",
+        eventType: "INSERT",
+        row: { id: "row-1", litter_id: "litter-1" },
+      }),
+      expect.objectContaining({ eventType: "DELETE", row: null, oldRow: { id: "row-2" } }),
+    ]);
+
+    await service.destroy();
+  });
+});
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const requeue = vi.fn(async (_kind: string, items: unknown[]) => items.length);
+vi.mock("../sync-queue.service", () => ({
+  syncQueueService: { requeue: (...args: [string, unknown[]]) => requeue(...args) },
+}));
+vi.mock("../../stores/toast.store", () => ({ toast: { warning: vi.fn() } }));
+
+import {
+  DatabaseSnapshotService,
+  decodeSnapshot,
+  encodeSnapshot,
+  prepareSnapshotDocs,
+  type DatabaseSnapshot,
+} from "../database-snapshot.service";
+import { getSchemaFieldSignature } from "../../utils/schema-migration";
+
+const petSchema = {
+  version: 0,
+  primaryKey: "id",
+  properties: {
+    id: { type: "string" },
+    name: { type: ["string", "null"] },
+    rating: { type: "number" },
+    updated_at: { type: "string" },
+  },
+  required: ["id", "updated_at"],
+};
+
+function createCollection(schema: typeof petSchema, docs: Array<Record<string, unknown>>) {
+  const store = new Map(docs.map((doc) => [doc.id as string, doc]));
+  const wrap = (doc: Record<string, unknown>) => ({ primary: doc.id as string, toJSON: () => doc });
+  return {
+    store,
+    schema: { jsonSchema: schema },
+    find: (query: { selector?: { id?: { $in: string[] } } } = {}) => ({
+      exec: async () => {
+        const ids = query.selector?.id?.$in;
+        return [...store.values()].filter((doc) => !ids || ids.includes(doc.id as string)).map(wrap);
+      },
+    }),
+    bulkUpsert: vi.fn(async (incoming: Array<Record<string, unknown>>) => {
+      for (const doc of incoming) store.set(doc.id as string, doc);
+    }),
+    bulkRemove: vi.fn(async (ids: string[]) => {
+      for (const id of ids) store.delete(id);
+    }),
+  };
+}
+
+function snapshotOf(collections: DatabaseSnapshot["collections"]): DatabaseSnapshot {
+  return {
+    format: "breedhub-rxdb-snapshot",
+    formatVersion: 1,
+    createdAt: "2026-10-19T10:00:00.000Z",
+    collections,
+  };
+}
+
+describe("database-snapshot.service", () => {
+  beforeEach(() => {
+    requeue.mockClear();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("migrates changed fields, drops unknown ones and rejects invalid docs", () => {
+    const exportedFields = {
+      ...getSchemaFieldSignature(petSchema),
+      rating: JSON.stringify({ required: false, type: "string" }),
+    };
+
+    const { docs, rejected } = prepareSnapshotDocs(
+      {
+        schemaVersion: 0,
+        fields: exportedFields,
+        docs: [
+          { id: "pet-1", name: "Alpha", rating: "4", updated_at: "t1", legacy: true },
+          { name: "No id", updated_at: "t1" },
+          { id: "pet-2", name: "No timestamp" },
+        ],
+      },
+      petSchema,
+    );
+
+    expect(docs).toEqual([{ id: "pet-1", name: "Alpha", rating: 4, updated_at: "t1" }]);
+    expect(rejected).toBe(2);
+  });
+
+  it("round-trips plain and gzipped files and rejects foreign JSON", async () => {
+    const snapshot = snapshotOf({
+      pet: { schemaVersion: 0, fields: {}, docs: [{ id: "pet-1" }] },
+    });
+
+    expect(await decodeSnapshot(await encodeSnapshot(snapshot))).toEqual(snapshot);
+    const gzipped = await encodeSnapshot(snapshot, true);
+    expect(new Uint8Array(await gzipped.arrayBuffer())[0]).toBe(0x1f);
+    expect(await decodeSnapshot(gzipped)).toEqual(snapshot);
+
+    await expect(decodeSnapshot(new Blob(['{"hello":1}']))).rejects.toThrow(
+      "Not a BreedHub database snapshot",
+    );
+  });
+
+  it("exports chosen collections and merges them back keeping newer local docs", async () => {
+    const service = new DatabaseSnapshotService();
+    const source = createCollection(petSchema, [
+      { id: "pet-1", name: "Exported", updated_at: "2026-01-01" },
+      { id: "pet-2", name: "Exported", updated_at: "2026-01-01" },
+    ]);
+    const exported = await service.exportSnapshot(
+      { collections: { pet: source, breed: createCollection(petSchema, []) } },
+      { collections: ["pet"], gzip: true },
+    );
+    expect(exported.counts).toEqual({ pet: 2 });
+    expect(exported.fileName).toMatch(/^breedhub-snapshot-.*\.json\.gz$/);
+
+    const target = createCollection(petSchema, [
+      { id: "pet-1", name: "Edited later", updated_at: "2026-02-01" },
+      { id: "pet-3", name: "Local only", updated_at: "2026-01-01" },
+    ]);
+    const report = await service.importSnapshot({ collections: { pet: target } }, exported.blob);
+
+    expect(report.collections).toEqual([
+      { name: "pet", imported: 1, skipped: 1, rejected: 0, removed: 0 },
+    ]);
+    expect(target.store.get("pet-1")?.name).toBe("Edited later");
+    expect(target.store.get("pet-2")?.name).toBe("Exported");
+    expect(target.store.has("pet-3")).toBe(true);
+  });
+
+  it("replaces collections, re-enqueues queue items and reports missing collections", async () => {
+    const service = new DatabaseSnapshotService();
+    const queueSchema = {
+      version: 0,
+      primaryKey: "id",
+      properties: { id: { type: "string" }, entityId: { type: "string" }, createdAt: { type: "number" } },
+      required: ["id"],
+    } as unknown as typeof petSchema;
+    const pets = createCollection(petSchema, [{ id: "pet-local", updated_at: "2026-01-01" }]);
+    const file = await encodeSnapshot(
+      snapshotOf({
+        pet: {
+          schemaVersion: 0,
+          fields: getSchemaFieldSignature(petSchema),
+          docs: [{ id: "pet-1", updated_at: "2026-01-01" }],
+        },
+        entity_sync_queue: {
+          schemaVersion: 0,
+          fields: getSchemaFieldSignature(queueSchema),
+          docs: [{ id: "q-1", entityId: "pet-1", createdAt: 1 }],
+        },
+        litter_children: { schemaVersion: 0, fields: {}, docs: [] },
+      }),
+    );
+
+    const report = await service.importSnapshot(
+      {
+        collections: {
+          pet: pets,
+          entity_sync_queue: createCollection(queueSchema, []),
+        },
+      },
+      file,
+      { mode: "replace", resolveCollection: async () => undefined },
+    );
+
+    expect([...pets.store.keys()]).toEqual(["pet-1"]);
+    expect(report.collections[0]).toMatchObject({ name: "pet", imported: 1, removed: 1 });
+    expect(requeue).toHaveBeenCalledWith("entity", [
+      { id: "q-1", entityId: "pet-1", createdAt: 1 },
+    ]);
+    expect(report.collections[1]).toMatchObject({ name: "entity_sync_queue", imported: 1 });
+    expect(report.collections[2].error).toMatch(/not available/);
+  });
+});
@@ -239,6 +239,8 @@ describe("entity-replication.service", () => {
       const state = {
         collection: config.collection,
         cancel: vi.fn(async () => {}),
+        isStopped: vi.fn(() => false),
+        isPaused: vi.fn(() => false),
         error$: {
           subscribe: vi.fn(() => ({
             unsubscribe: vi.fn(),
@@ -289,6 +291,42 @@ describe("entity-replication.service", () => {
     expect(mockState.channelObjects.get("pet-changes")).toBeTruthy();
   });
 
+  it("reports replication diagnostics with realtime status and the stored checkpoint", async () => {
+    const service = new EntityReplicationService();
+    const { localStorageMock } = createLocalStorageMock({
+      checkpoint_pet: JSON.stringify({ updated_at: "2026-04-21T10:00:00.000Z", pulled: true }),
+      totalCount_pet: JSON.stringify({ value: 7, timestamp: Date.now() }),
+    });
+    Object.defineProperty(globalThis, "localStorage", {
+      configurable: true,
+      value: localStorageMock,
+    });
+
+    expect(service.getDiagnostics("pet")).toMatchObject({
+      state: "inactive",
+      realtimeStatus: null,
+      lastPullAt: null,
+    });
+
+    await service.setupReplication(createDb("pet", createCollection()), "pet");
+    expect(service.getDiagnostics("pet").realtimeStatus).toBe("CONNECTING");
+
+    const channel = mockState.channelObjects.get("pet-changes");
+    channel.subscribe.mock.calls[0][0]("SUBSCRIBED");
+
+    expect(service.getReplicatedEntityTypes()).toEqual(["pet"]);
+    expect(service.getDiagnostics("pet")).toEqual({
+      entityType: "pet",
+      state: "running",
+      lastPullAt: null,
+      lastSync: null,
+      lastCheckpoint: { updated_at: "2026-04-21T10:00:00.000Z", pulled: true },
+      serverTotal: 7,
+      activeRequests: 0,
+      realtimeStatus: "SUBSCRIBED",
+    });
+  });
+
   it("pulls fresh documents on first sync, fetches totalCount, caches it, and notifies subscribers", async () => {
     const service = new EntityReplicationService();
     const collection = createCollection();
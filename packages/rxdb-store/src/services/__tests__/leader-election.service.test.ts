@@ -0,0 +1,303 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  LeaderElectionService,
+  type LeaderElectionChannel,
+  type LeaderElectionLocks,
+} from "../leader-election.service";
+
+/** In-memory BroadcastChannel: delivers async to every other open channel. */
+function createChannelHub() {
+  const channels = new Set<LeaderElectionChannel>();
+
+  function createChannel(): LeaderElectionChannel {
+    const channel: LeaderElectionChannel = {
+      onmessage: null,
+      postMessage(message: unknown) {
+        if (!channels.has(channel)) return;
+        for (const other of channels) {
+          if (other === channel) continue;
+          queueMicrotask(() => other.onmessage?.({ data: message }));
+        }
+      },
+      close() {
+        channels.delete(channel);
+      },
+    };
+    channels.add(channel);
+    return channel;
+  }
+
+  return { createChannel, channels };
+}
+
+/** In-memory navigator.locks: one exclusive holder per name, FIFO queue. */
+function createLockManager() {
+  const queues = new Map<string, Array<() => void>>();
+  const held = new Set<string>();
+
+  function grantNext(name: string) {
+    const next = queues.get(name)?.shift();
+    if (next) next();
+    else held.delete(name);
+  }
+
+  const locks: LeaderElectionLocks = {
+    request(name, options, callback) {
+      return new Promise((resolve, reject) => {
+        const run = () => {
+          held.add(name);
+          callback().then(resolve, reject).finally(() => grantNext(name));
+        };
+        if (!held.has(name)) return run();
+        const queue = queues.get(name) ?? [];
+        queue.push(run);
+        queues.set(name, queue);
+        options.signal?.addEventListener("abort", () => {
+          const idx = queue.indexOf(run);
+          if (idx > -1) queue.splice(idx, 1);
+          reject(new Error("AbortError"));
+        });
+      });
+    },
+  };
+
+  return locks;
+}
+
+describe("leader-election.service", () => {
+  let hub: ReturnType<typeof createChannelHub>;
+  const tabs: LeaderElectionService[] = [];
+
+  function createTab(tabId: string) {
+    const tab = new LeaderElectionService({
+      tabId,
+      createChannel: hub.createChannel,
+      locks: null,
+    });
+    tabs.push(tab);
+    return tab;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    hub = createChannelHub();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    for (const tab of tabs.splice(0)) tab.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("makes the first tab leader once nobody answers its claim", async () => {
+    const tab = createTab("tab-a");
+    const onChange = vi.fn();
+    tab.onLeadershipChange(onChange);
+
+    tab.start();
+    expect(tab.isLeader.value).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(tab.isLeader.value).toBe(true);
+    expect(tab.leaderId.value).toBe("tab-a");
+    expect(onChange).toHaveBeenCalledWith(true);
+  });
+
+  it("makes a tab joining later a follower of the existing leader", async () => {
+    const first = createTab("tab-b");
+    first.start();
+    await vi.advanceTimersByTimeAsync(300);
+
+    const second = createTab("tab-a");
+    second.start();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(first.isLeader.value).toBe(true);
+    expect(second.isLeader.value).toBe(false);
+    expect(second.leaderId.value).toBe("tab-b");
+  });
+
+  it("breaks a simultaneous start by tabId", async () => {
+    const high = createTab("tab-b");
+    const low = createTab("tab-a");
+    high.start();
+    low.start();
+
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(low.isLeader.value).toBe(true);
+    expect(high.isLeader.value).toBe(false);
+    expect(high.leaderId.value).toBe("tab-a");
+  });
+
+  it("hands leadership over immediately when the leader tab closes", async () => {
+    const leader = createTab("tab-a");
+    leader.start();
+    await vi.advanceTimersByTimeAsync(300);
+    const follower = createTab("tab-b");
+    follower.start();
+    await vi.advanceTimersByTimeAsync(300);
+    expect(follower.isLeader.value).toBe(false);
+
+    leader.stop();
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(follower.isLeader.value).toBe(true);
+  });
+
+  it("takes over after missed heartbeats when the leader dies without resigning", async () => {
+    const leader = createTab("tab-a");
+    leader.start();
+    await vi.advanceTimersByTimeAsync(300);
+    const follower = createTab("tab-b");
+    follower.start();
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(follower.isLeader.value).toBe(false);
+
+    // Crash: the channel goes silent, no resign message
+    const [leaderChannel] = [...hub.channels];
+    hub.channels.delete(leaderChannel);
+    await vi.advanceTimersByTimeAsync(75_000 + 300);
+
+    expect(follower.isLeader.value).toBe(true);
+  });
+
+  it("keeps a leader whose heartbeats are throttled to one per minute", async () => {
+    const leader = createTab("tab-a");
+    leader.start();
+    await vi.advanceTimersByTimeAsync(300);
+    const follower = createTab("tab-b");
+    follower.start();
+    await vi.advanceTimersByTimeAsync(300);
+
+    // Hidden tab: only one heartbeat gets through per minute
+    const [leaderChannel] = [...hub.channels];
+    hub.channels.delete(leaderChannel);
+    await vi.advanceTimersByTimeAsync(60_000);
+    hub.channels.add(leaderChannel);
+    await vi.advanceTimersByTimeAsync(5_000);
+
+    expect(follower.isLeader.value).toBe(false);
+    expect(leader.isLeader.value).toBe(true);
+  });
+
+  it("rejects pending whenElected calls when stopped", async () => {
+    const tab = createTab("tab-a");
+    tab.start();
+    const elected = tab.whenElected();
+
+    tab.stop();
+
+    await expect(elected).rejects.toThrow("Leader election stopped");
+    await expect(tab.whenElected()).rejects.toThrow();
+  });
+
+  it("rejoins the election when the page comes back from the back/forward cache", async () => {
+    vi.stubGlobal("window", new EventTarget());
+    const tab = createTab("tab-a");
+    tab.start();
+    await vi.advanceTimersByTimeAsync(300);
+    expect(tab.isLeader.value).toBe(true);
+
+    window.dispatchEvent(Object.assign(new Event("pagehide"), { persisted: true }));
+    expect(tab.isLeader.value).toBe(false);
+
+    window.dispatchEvent(Object.assign(new Event("pageshow"), { persisted: true }));
+    await vi.advanceTimersByTimeAsync(300);
+    expect(tab.isLeader.value).toBe(true);
+    vi.unstubAllGlobals();
+  });
+
+  it("delivers app messages to other tabs only", async () => {
+    const a = createTab("tab-a");
+    const b = createTab("tab-b");
+    const onA = vi.fn();
+    const onB = vi.fn();
+    a.onMessage("counts", onA);
+    const unsubscribe = b.onMessage("counts", onB);
+    a.start();
+    b.start();
+
+    a.broadcast("counts", { pending: 3 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onA).not.toHaveBeenCalled();
+    expect(onB).toHaveBeenCalledWith({ pending: 3 });
+
+    unsubscribe();
+    a.broadcast("counts", { pending: 4 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onB).toHaveBeenCalledTimes(1);
+  });
+
+  describe("with Web Locks", () => {
+    let locks: LeaderElectionLocks;
+
+    function createLockTab(tabId: string) {
+      const tab = new LeaderElectionService({ tabId, createChannel: hub.createChannel, locks });
+      tabs.push(tab);
+      return tab;
+    }
+
+    beforeEach(() => {
+      locks = createLockManager();
+    });
+
+    it("makes the lock holder leader and tells joining tabs who leads", async () => {
+      const first = createLockTab("tab-b");
+      first.start();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(first.isLeader.value).toBe(true);
+
+      const second = createLockTab("tab-a");
+      second.start();
+      await expect(second.whenElected()).resolves.toBeUndefined();
+
+      expect(second.isLeader.value).toBe(false);
+      expect(second.leaderId.value).toBe("tab-b");
+    });
+
+    it("keeps the leader however long its heartbeats are delayed", async () => {
+      const leader = createLockTab("tab-a");
+      leader.start();
+      await vi.advanceTimersByTimeAsync(0);
+      const follower = createLockTab("tab-b");
+      follower.start();
+
+      await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+      expect(leader.isLeader.value).toBe(true);
+      expect(follower.isLeader.value).toBe(false);
+    });
+
+    it("passes the lock to the next tab when the leader stops", async () => {
+      const leader = createLockTab("tab-a");
+      leader.start();
+      await vi.advanceTimersByTimeAsync(0);
+      const follower = createLockTab("tab-b");
+      follower.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      leader.stop();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(follower.isLeader.value).toBe(true);
+      expect(follower.leaderId.value).toBe("tab-b");
+    });
+  });
+
+  it("leads right away when cross-tab messaging is unavailable", async () => {
+    const tab = new LeaderElectionService({
+      tabId: "solo",
+      createChannel: () => null,
+      locks: null,
+    });
+    tabs.push(tab);
+
+    tab.start();
+
+    expect(tab.isLeader.value).toBe(true);
+    await expect(tab.whenElected()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../../supabase/client", () => ({ supabase: {} }));
+
+import { InMemoryPresenceTransport, PresenceService } from "../presence.service";
+
+const anna = { userId: "user-a", name: "Anna", avatar: null };
+const bob = { userId: "user-b", name: "Bob", avatar: "bob.png" };
+
+function connect() {
+  const transport = new InMemoryPresenceTransport();
+  return {
+    first: new PresenceService({ transport }),
+    second: new PresenceService({ transport }),
+  };
+}
+
+describe("PresenceService", () => {
+  it("shows other sessions on the same entity with their mode", () => {
+    const { first, second } = connect();
+    const viewer = first.enter("pet", "pet-1", anna);
+    const editor = second.enter("pet", "pet-1", bob, "editing");
+    second.enter("pet", "pet-2", bob);
+
+    expect(viewer.members.value).toEqual([
+      expect.objectContaining({ userId: "user-b", name: "Bob", mode: "editing", sessions: 1 }),
+    ]);
+    expect(editor.members.value).toEqual([
+      expect.objectContaining({ userId: "user-a", mode: "viewing" }),
+    ]);
+
+    editor.setMode("viewing");
+    expect(viewer.members.value[0].mode).toBe("viewing");
+
+    editor.leave();
+    expect(viewer.members.value).toEqual([]);
+  });
+
+  it("keeps one tracked state per tab while any page holds the topic", () => {
+    const { first, second } = connect();
+    const watcher = first.enter("pet", "pet-1", anna);
+    const drawer = second.enter("pet", "pet-1", bob);
+    const fullscreen = second.enter("pet", "pet-1", bob, "editing");
+
+    expect(watcher.members.value).toEqual([
+      expect.objectContaining({ userId: "user-b", mode: "editing", sessions: 1 }),
+    ]);
+
+    fullscreen.leave();
+    expect(watcher.members.value).toEqual([
+      expect.objectContaining({ userId: "user-b", mode: "viewing" }),
+    ]);
+
+    drawer.leave();
+    drawer.leave();
+    expect(watcher.members.value).toEqual([]);
+  });
+
+  it("delivers save announcements to the other sessions only", () => {
+    const { first, second } = connect();
+    const editor = first.enter("pet", "pet-1", anna, "editing");
+    const saver = second.enter("pet", "pet-1", bob);
+    const received = vi.fn();
+    const own = vi.fn();
+    const unsubscribe = editor.onRemoteSave(received);
+    saver.onRemoteSave(own);
+
+    second.announceSave("pet", "pet-1", "2026-05-01T10:00:00.000Z");
+    second.announceSave("pet", "pet-9", "2026-05-01T10:00:00.000Z");
+
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received).toHaveBeenCalledWith({
+      sessionId: second.sessionId,
+      userId: "user-b",
+      name: "Bob",
+      updatedAt: "2026-05-01T10:00:00.000Z",
+    });
+    expect(own).not.toHaveBeenCalled();
+
+    unsubscribe();
+    second.announceSave("pet", "pet-1", "2026-05-01T11:00:00.000Z");
+    expect(received).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves every topic on destroy without closing rooms opened afterwards", () => {
+    const { first, second } = connect();
+    const watcher = first.enter("pet", "pet-1", anna);
+    const stale = second.enter("pet", "pet-1", bob, "editing");
+
+    second.destroy();
+    expect(watcher.members.value).toEqual([]);
+
+    const fresh = second.enter("pet", "pet-1", bob);
+    stale.setMode("viewing");
+    stale.leave();
+    expect(watcher.members.value).toEqual([
+      expect.objectContaining({ userId: "user-b", mode: "viewing" }),
+    ]);
+
+    fresh.leave();
+    expect(watcher.members.value).toEqual([]);
+  });
+});
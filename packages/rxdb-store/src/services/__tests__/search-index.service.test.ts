@@ -0,0 +1,111 @@
+import { Subject } from "rxjs";
+import { describe, expect, it } from "vitest";
+import {
+  SearchIndexService,
+  type SearchIndexChangeEvent,
+  type SearchIndexCollections,
+  type SearchableCollection,
+} from "../search-index.service";
+
+type Row = Record<string, unknown>;
+
+function createCollection(rows: Row[]) {
+  const changes = new Subject<SearchIndexChangeEvent>();
+  const collection: SearchableCollection = {
+    find: (query) => ({
+      exec: async () =>
+        rows
+          .filter((row) =>
+            Object.entries(query?.selector ?? {}).every(([field, condition]) => {
+              if (condition && typeof condition === "object" && "$in" in condition) {
+                return (condition as { $in: unknown[] }).$in.includes(row[field]);
+              }
+              return row[field] === condition;
+            }),
+          )
+          .map((row) => ({ toJSON: () => row })),
+    }),
+    $: changes,
+  };
+  return { collection, changes };
+}
+
+async function searchIds(
+  service: SearchIndexService,
+  collections: SearchIndexCollections,
+  query: string,
+): Promise<string[] | null> {
+  const hits = await service.search(collections, "pet", query);
+  return hits ? hits.map((hit) => hit.id) : null;
+}
+
+function setup() {
+  const pets = createCollection([
+    { id: "pet-1", name: "Bella", kennel_id: "kennel-1" },
+    { id: "pet-2", name: "Max", kennel_id: null },
+  ]);
+  const accounts = createCollection([{ id: "kennel-1", name: "Golden Valley" }]);
+  const children = createCollection([
+    {
+      id: "chip-1",
+      tableType: "pet_identifier",
+      parentId: "pet-2",
+      additional: { value: "985112000" },
+    },
+    {
+      id: "title-1",
+      tableType: "title_in_pet",
+      parentId: "pet-1",
+      additional: { value: "985112999" },
+    },
+  ]);
+  const collections: SearchIndexCollections = {
+    pet: pets.collection,
+    account: accounts.collection,
+    pet_children: children.collection,
+  };
+  return { service: new SearchIndexService(), collections, pets, children };
+}
+
+describe("SearchIndexService", () => {
+  it("indexes names, kennel names and identifiers", async () => {
+    const { service, collections } = setup();
+
+    expect(await searchIds(service, collections, "bella")).toEqual(["pet-1"]);
+    expect(await searchIds(service, collections, "golden valley")).toEqual(["pet-1"]);
+    expect(await searchIds(service, collections, "985112")).toEqual(["pet-2"]);
+  });
+
+  it("returns null for entity types without an index", async () => {
+    const { service, collections } = setup();
+
+    expect(service.isIndexed("event")).toBe(false);
+    expect(await service.search(collections, "event", "bella")).toBeNull();
+  });
+
+  it("follows collection changes", async () => {
+    const { service, collections, pets, children } = setup();
+    await searchIds(service, collections, "bella");
+
+    pets.changes.next({
+      operation: "UPDATE",
+      documentId: "pet-1",
+      documentData: { id: "pet-1", name: "Luna", kennel_id: null },
+    });
+    pets.changes.next({
+      operation: "INSERT",
+      documentId: "pet-3",
+      documentData: { id: "pet-3", name: "Bella Rose" },
+    });
+    children.changes.next({
+      operation: "DELETE",
+      documentId: "chip-1",
+      documentData: null,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(await searchIds(service, collections, "bella")).toEqual(["pet-3"]);
+    expect(await searchIds(service, collections, "luna")).toEqual(["pet-1"]);
+    expect(await searchIds(service, collections, "985112")).toEqual([]);
+  });
+});
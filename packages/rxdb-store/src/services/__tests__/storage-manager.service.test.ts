@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const toastWarning = vi.fn();
+vi.mock("../../stores/toast.store", () => ({
+  toast: { warning: (...args: unknown[]) => toastWarning(...args) },
+}));
+
+import {
+  StorageManagerService,
+  getStorageCollectionKind,
+  getStorageQuotaLevel,
+  type StorageManagerLike,
+} from "../storage-manager.service";
+
+function createStorage(usage: number, quota: number) {
+  const state = { usage, quota };
+  const storage: StorageManagerLike & { state: typeof state } = {
+    state,
+    estimate: vi.fn(async () => ({ usage: state.usage, quota: state.quota })),
+    persisted: vi.fn(async () => false),
+    persist: vi.fn(async () => true),
+  };
+  return storage;
+}
+
+function createCollection(docs: Array<Record<string, unknown>>) {
+  return {
+    docs,
+    count: () => ({ exec: async () => docs.length }),
+    find: (options: { limit?: number; selector?: { cachedAt?: { $lt: number } } } = {}) => ({
+      exec: async () => {
+        const expiry = options.selector?.cachedAt?.$lt;
+        return docs
+          .filter((doc) => expiry === undefined || (doc.cachedAt as number) < expiry)
+          .slice(0, options.limit ?? docs.length)
+          .map((doc) => ({
+            toJSON: () => doc,
+            remove: async () => {
+              docs.splice(docs.indexOf(doc), 1);
+            },
+          }));
+      },
+    }),
+  };
+}
+
+describe("storage-manager.service", () => {
+  beforeEach(() => {
+    toastWarning.mockClear();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("classifies quota usage and collections", () => {
+    expect(getStorageQuotaLevel(0.5)).toBe("ok");
+    expect(getStorageQuotaLevel(0.85)).toBe("warning");
+    expect(getStorageQuotaLevel(0.97)).toBe("critical");
+    expect(getStorageQuotaLevel(null)).toBe("unknown");
+
+    expect(getStorageCollectionKind("pet_children")).toBe("child");
+    expect(getStorageCollectionKind("entity_sync_queue")).toBe("queue");
+    expect(getStorageCollectionKind("dictionaries")).toBe("dictionary");
+    expect(getStorageCollectionKind("pet")).toBe("entity");
+  });
+
+  it("requests persistence on start and warns once per level", async () => {
+    const storage = createStorage(50, 100);
+    const service = new StorageManagerService({ storage });
+
+    await service.start({ collections: {} });
+    expect(storage.persist).toHaveBeenCalledTimes(1);
+    expect(service.persisted.value).toBe(true);
+    expect(service.level.value).toBe("ok");
+
+    storage.state.usage = 85;
+    await service.refreshEstimate();
+    await service.refreshEstimate();
+    expect(service.level.value).toBe("warning");
+    expect(toastWarning).toHaveBeenCalledTimes(1);
+
+    storage.state.usage = 96;
+    await service.refreshEstimate();
+    expect(toastWarning).toHaveBeenCalledTimes(2);
+    expect(toastWarning.mock.calls[1][0]).toMatch(/almost full \(96%\)/);
+
+    service.stop();
+  });
+
+  it("measures collections biggest first", async () => {
+    const service = new StorageManagerService({ storage: null, sampleSize: 2 });
+    await service.start({
+      collections: {
+        pet: createCollection([{ id: "a" }]),
+        pet_children: createCollection([
+          { id: "c-1", payload: "x".repeat(100) },
+          { id: "c-2", payload: "x".repeat(100) },
+          { id: "c-3", payload: "x".repeat(100) },
+        ]),
+        entity_sync_queue: createCollection([]),
+      },
+    });
+
+    const usage = await service.measureCollections();
+
+    expect(usage.map((entry) => [entry.name, entry.docCount])).toEqual([
+      ["pet_children", 3],
+      ["pet", 1],
+      ["entity_sync_queue", 0],
+    ]);
+    expect(usage[0]).toMatchObject({ kind: "child", canEvict: true, canCleanup: true });
+    expect(usage[2]).toMatchObject({ kind: "queue", canCleanup: false, approxBytes: 0 });
+  });
+
+  it("cleans one collection with exemptions and never touches queues", async () => {
+    const old = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    const pets = createCollection([
+      { id: "stale", cachedAt: old },
+      { id: "pinned", cachedAt: old },
+      { id: "fresh", cachedAt: Date.now() },
+    ]);
+    const queue = createCollection([{ id: "q", cachedAt: old }]);
+    const service = new StorageManagerService({ storage: null });
+    await service.start(
+      { collections: { pet: pets, entity_sync_queue: queue } },
+      { getCleanupExemption: () => (doc) => doc.id === "pinned" },
+    );
+
+    expect(await service.cleanupCollection("pet")).toBe(1);
+    expect(pets.docs.map((doc) => doc.id)).toEqual(["pinned", "fresh"]);
+    expect(await service.cleanupCollection("entity_sync_queue")).toBe(0);
+    expect(queue.docs).toHaveLength(1);
+  });
+});
@@ -4,7 +4,15 @@ const mockState = vi.hoisted(() => ({
   upsertQueues: new Map<string, any[]>(),
   updateQueues: new Map<string, any[]>(),
   deleteQueues: new Map<string, any[]>(),
+  selectQueues: new Map<string, any[]>(),
   opLog: [] as Array<Record<string, any>>,
+  retryAfterListeners: new Set<(table: string, delayMs: number) => void>(),
+  leader: {
+    isLeader: { value: true },
+    leadershipCallbacks: [] as Array<(isLeader: boolean) => void>,
+    messageHandlers: new Map<string, Array<(payload: any) => void>>(),
+    broadcasts: [] as Array<{ topic: string; payload: any }>,
+  },
   runPostSaveHooksMock: vi.fn(),
   runChildPostPushHooksMock: vi.fn(),
 }));
@@ -46,6 +54,22 @@ vi.mock("../../supabase/client", () => {
             );
           }),
         })),
+        select: vi.fn((columns: string) => ({
+          in: vi.fn(async (field: string, values: any[]) => {
+            mockState.opLog.push({
+              op: "select",
+              table,
+              columns,
+              field,
+              values,
+            });
+            return nextQueuedResult(
+              mockState.selectQueues,
+              table,
+              { data: [], error: null },
+            );
+          }),
+        })),
         delete: vi.fn(() => ({
           eq: vi.fn(async (field: string, value: any) => {
             mockState.opLog.push({
@@ -65,9 +89,52 @@ vi.mock("../../supabase/client", () => {
     },
   };
 
-  return { supabase };
+  const onRetryAfter = (listener: (table: string, delayMs: number) => void) => {
+    mockState.retryAfterListeners.add(listener);
+    return () => mockState.retryAfterListeners.delete(listener);
+  };
+
+  return { supabase, onRetryAfter };
+});
+
+vi.mock("../leader-election.service", () => {
+  const { leader } = mockState;
+  return {
+    leaderElectionService: {
+      isLeader: leader.isLeader,
+      start: vi.fn(),
+      stop: vi.fn(),
+      whenElected: vi.fn(async () => {}),
+      onLeadershipChange: vi.fn((callback: (isLeader: boolean) => void) => {
+        leader.leadershipCallbacks.push(callback);
+        return () => {
+          const idx = leader.leadershipCallbacks.indexOf(callback);
+          if (idx > -1) leader.leadershipCallbacks.splice(idx, 1);
+        };
+      }),
+      onMessage: vi.fn((topic: string, handler: (payload: any) => void) => {
+        const handlers = leader.messageHandlers.get(topic) ?? [];
+        handlers.push(handler);
+        leader.messageHandlers.set(topic, handlers);
+        return () => {
+          const idx = handlers.indexOf(handler);
+          if (idx > -1) handlers.splice(idx, 1);
+        };
+      }),
+      broadcast: vi.fn((topic: string, payload?: any) => {
+        leader.broadcasts.push({ topic, payload });
+      }),
+    },
+  };
 });
 
+/** Simulate a broadcast from another tab. */
+function deliverBroadcast(topic: string, payload?: any) {
+  for (const handler of mockState.leader.messageHandlers.get(topic) ?? []) {
+    handler(payload);
+  }
+}
+
 vi.mock("../../utils/entity-hooks", () => ({
   runPostSaveHooks: mockState.runPostSaveHooksMock,
   runChildPostPushHooks: mockState.runChildPostPushHooksMock,
@@ -97,6 +164,11 @@ function queueOperationResult(
   queueMap.set(table, queue);
 }
 
+/** What the Supabase client reports when a 429 on `table` carries Retry-After. */
+function rateLimit(table: string, delayMs: number) {
+  for (const listener of mockState.retryAfterListeners) listener(table, delayMs);
+}
+
 function matchesSelector(
   doc: Record<string, any>,
   selector: Record<string, any> | undefined,
@@ -106,9 +178,24 @@ function matchesSelector(
   }
 
   return Object.entries(selector).every(([key, value]) => {
+    if (key === "$or") {
+      return value.some((sub: Record<string, any>) => matchesSelector(doc, sub));
+    }
+    if (value && typeof value === "object" && "$exists" in value) {
+      return (doc[key] !== undefined) === value.$exists;
+    }
+    if (value && typeof value === "object" && "$lte" in value) {
+      return doc[key] <= value.$lte;
+    }
     if (value && typeof value === "object" && "$ne" in value) {
       return doc[key] !== value.$ne;
     }
+    if (value && typeof value === "object" && "$nin" in value) {
+      return !value.$nin.includes(doc[key]);
+    }
+    if (value && typeof value === "object" && "$in" in value) {
+      return value.$in.includes(doc[key]);
+    }
 
     return doc[key] === value;
   });
@@ -128,6 +215,7 @@ function createQueueCollection(initialDocs: Array<Record<string, any>> = []) {
       }),
       patch: vi.fn(async (patch: Record<string, any>) => {
         Object.assign(doc, patch);
+        return doc;
       }),
     };
 
@@ -148,6 +236,9 @@ function createQueueCollection(initialDocs: Array<Record<string, any>> = []) {
       docs.push(doc);
       return doc;
     }),
+    bulkInsert: vi.fn(async (items: Array<Record<string, any>>) => {
+      for (const item of items) docs.push(createDoc(item));
+    }),
     find: vi.fn((options: {
       selector?: Record<string, any>;
       sort?: Array<Record<string, "asc" | "desc">>;
@@ -173,6 +264,13 @@ function createQueueCollection(initialDocs: Array<Record<string, any>> = []) {
         return result;
       }),
     })),
+    bulkUpsert: vi.fn(async (items: Array<Record<string, any>>) => {
+      for (const item of items) {
+        const index = docs.findIndex((doc) => doc.id === item.id);
+        if (index >= 0) docs.splice(index, 1);
+        docs.push(createDoc(item));
+      }
+    }),
     bulkRemove: vi.fn(async (ids: string[]) => {
       for (const id of ids) {
         const index = docs.findIndex((doc) => doc.id === id);
@@ -249,7 +347,13 @@ describe("sync-queue.service", () => {
     mockState.upsertQueues.clear();
     mockState.updateQueues.clear();
     mockState.deleteQueues.clear();
+    mockState.selectQueues.clear();
     mockState.opLog.length = 0;
+    mockState.retryAfterListeners.clear();
+    mockState.leader.isLeader.value = true;
+    mockState.leader.leadershipCallbacks.length = 0;
+    mockState.leader.messageHandlers.clear();
+    mockState.leader.broadcasts.length = 0;
     vi.spyOn(console, "log").mockImplementation(() => {});
     vi.spyOn(console, "warn").mockImplementation(() => {});
     vi.spyOn(console, "error").mockImplementation(() => {});
@@ -376,6 +480,76 @@ describe("sync-queue.service", () => {
     harness.syncQueueService.destroy();
   });
 
+  it("enqueues a batch with one bulk insert, keeping the base of replaced items", async () => {
+    const harness = await loadSyncQueueHarness({
+      entityDocs: [
+        {
+          id: "old-item",
+          entityType: "pet",
+          entityId: "pet-1",
+          operation: "upsert",
+          payload: { id: "pet-1", name: "Old" },
+          onConflict: "id",
+          retries: 0,
+          createdAt: 1,
+          baseUpdatedAt: "2026-04-20T10:00:00.000Z",
+        },
+      ],
+      childDocs: [
+        {
+          id: "child-upsert",
+          entityType: "pet",
+          tableType: "title_in_pet",
+          recordId: "title-1",
+          operation: "upsert",
+          payload: { id: "title-1", pet_id: "pet-2" },
+          onConflict: "id",
+          retries: 0,
+          createdAt: 1,
+        },
+      ],
+    });
+
+    await harness.syncQueueService.initialize(harness.db);
+
+    await harness.syncQueueService.enqueueEntityBatch(
+      "pet",
+      [
+        { entityId: "pet-1", operation: "upsert", payload: { id: "pet-1", name: "New" } },
+        {
+          entityId: "pet-2",
+          operation: "delete",
+          payload: { id: "pet-2", deleted: true },
+          baseUpdatedAt: "2026-04-21T09:00:00.000Z",
+        },
+      ],
+      "id",
+    );
+    await vi.waitFor(() => {
+      expect(harness.syncQueueService.pendingCount.value).toBe(2);
+    });
+
+    expect(harness.entityQueue!.bulkInsert).toHaveBeenCalledTimes(1);
+    expect(harness.entityQueue!.insert).not.toHaveBeenCalled();
+    expect(harness.entityQueue!.docs).toEqual([
+      expect.objectContaining({
+        entityId: "pet-1",
+        payload: { id: "pet-1", name: "New" },
+        baseUpdatedAt: "2026-04-20T10:00:00.000Z",
+      }),
+      expect.objectContaining({
+        entityId: "pet-2",
+        operation: "delete",
+        baseUpdatedAt: "2026-04-21T09:00:00.000Z",
+      }),
+    ]);
+    // Child upserts under the deleted pet are held, as with a single delete
+    expect(harness.childQueue!.docs).toEqual([
+      expect.objectContaining({ id: "child-upsert", status: "held" }),
+    ]);
+    harness.syncQueueService.destroy();
+  });
+
   it("deduplicates child queue items by recordId before inserting a fresh payload", async () => {
     const harness = await loadSyncQueueHarness({
       entityDocs: [],
@@ -547,6 +721,126 @@ describe("sync-queue.service", () => {
     harness.syncQueueService.destroy();
   });
 
+  describe("poison-record isolation", () => {
+    function petUpsert(n: number) {
+      return {
+        id: `upsert-${n}`,
+        entityType: "pet",
+        entityId: `pet-${n}`,
+        operation: "upsert",
+        payload: { id: `pet-${n}` },
+        onConflict: "id",
+        retries: 0,
+        createdAt: n,
+      };
+    }
+
+    it("bisects a batch rejected for row data so only the offending item is parked", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [1, 2, 3, 4].map(petUpsert),
+        childDocs: [],
+      });
+      const fkError = {
+        error: {
+          message: 'violates foreign key constraint "pet_breed_id_fkey"',
+          code: "23503",
+        },
+      };
+      // [1,2,3,4] fails → [1,2] ok → [3,4] fails → [3] fails → [4] ok
+      queueOperationResult(mockState.upsertQueues, "pet", fkError);
+      queueOperationResult(mockState.upsertQueues, "pet", { error: null });
+      queueOperationResult(mockState.upsertQueues, "pet", fkError);
+      queueOperationResult(mockState.upsertQueues, "pet", fkError);
+      queueOperationResult(mockState.upsertQueues, "pet", { error: null });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(
+        mockState.opLog.map((entry) => entry.payload.map((row: any) => row.id)),
+      ).toEqual([
+        ["pet-1", "pet-2", "pet-3", "pet-4"],
+        ["pet-1", "pet-2"],
+        ["pet-3", "pet-4"],
+        ["pet-3"],
+        ["pet-4"],
+      ]);
+      expect(harness.entityQueue!.docs).toHaveLength(1);
+      const poisoned = harness.entityQueue!.docs[0];
+      expect(poisoned.id).toBe("upsert-3");
+      // Constraint violations are permanent — parked on the first failure
+      expect(poisoned.retries).toBe(1);
+      expect(poisoned.status).toBe("failed");
+      expect(poisoned.errorCode).toBe("23503");
+      expect(poisoned.error).toBe(
+        'violates foreign key constraint "pet_breed_id_fkey"',
+      );
+      expect(mockState.runPostSaveHooksMock).toHaveBeenCalledTimes(3);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("does not bisect errors that fail every row the same way", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [1, 2, 3].map(petUpsert),
+        childDocs: [],
+      });
+      queueOperationResult(mockState.upsertQueues, "pet", {
+        error: { message: "JWT expired", code: "PGRST301" },
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(mockState.opLog).toHaveLength(1);
+      expect(harness.entityQueue!.docs.map((doc) => doc.errorCode)).toEqual([
+        "PGRST301",
+        "PGRST301",
+        "PGRST301",
+      ]);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("isolates a bad child row and still commits the rest of the batch", async () => {
+      const childItem = (n: number) => ({
+        id: `child-upsert-${n}`,
+        entityType: "pet",
+        tableType: "title_in_pet",
+        recordId: `child-${n}`,
+        operation: "upsert",
+        payload: { id: `child-${n}` },
+        onConflict: "id",
+        retries: 0,
+        createdAt: n,
+      });
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [],
+        childDocs: [1, 2].map(childItem),
+      });
+      const checkError = {
+        error: { message: "violates check constraint", code: "23514" },
+      };
+      queueOperationResult(mockState.upsertQueues, "title_in_pet", checkError);
+      queueOperationResult(mockState.upsertQueues, "title_in_pet", { error: null });
+      queueOperationResult(mockState.upsertQueues, "title_in_pet", checkError);
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(harness.childQueue!.docs.map((doc) => doc.id)).toEqual([
+        "child-upsert-2",
+      ]);
+      expect(harness.childQueue!.docs[0].errorCode).toBe("23514");
+      expect(mockState.runChildPostPushHooksMock).toHaveBeenCalledWith(
+        "title_in_pet",
+        { id: "child-1" },
+      );
+
+      harness.syncQueueService.destroy();
+    });
+  });
+
   it("processes child upserts, removes synced rows, and fires child post-push hooks", async () => {
     const harness = await loadSyncQueueHarness({
       entityDocs: [],
@@ -612,6 +906,93 @@ describe("sync-queue.service", () => {
     harness.syncQueueService.destroy();
   });
 
+  describe("change history", () => {
+    const historyDoc = (id: string, createdAt: number) => ({
+      id: `history-${id}`,
+      entityType: "pet",
+      tableType: "change_history",
+      recordId: id,
+      operation: "upsert",
+      payload: { id, entity_type: "pet", entity_id: "pet-1", operation: "update" },
+      onConflict: "id",
+      retries: 0,
+      createdAt,
+    });
+
+    it("keeps history entries out of the pending count and the inspector", async () => {
+      const harness = await loadSyncQueueHarness({
+        childDocs: [historyDoc("entry-1", 1)],
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.enqueueHistory("pet", {
+        id: "entry-2",
+        entity_type: "pet",
+        entity_id: "pet-1",
+      });
+      await flushMicrotasks();
+
+      expect(harness.syncQueueService.pendingCount.value).toBe(0);
+      expect(await harness.syncQueueService.getQueueItems()).toEqual([]);
+      expect(
+        (await harness.syncQueueService.getPendingHistory("pet-1")).map((entry) => entry.id),
+      ).toEqual(["entry-1", "entry-2"]);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("pushes history entries without holding them behind a queued parent", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [
+          {
+            id: "entity-1",
+            entityType: "pet",
+            entityId: "pet-1",
+            operation: "upsert",
+            payload: { id: "pet-1" },
+            onConflict: "id",
+            retries: 0,
+            createdAt: 0,
+          },
+        ],
+        childDocs: [historyDoc("entry-1", 1)],
+      });
+      queueOperationResult(mockState.upsertQueues, "pet", {
+        error: { message: "Service unavailable" },
+        status: 503,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(mockState.opLog).toContainEqual(
+        expect.objectContaining({ op: "upsert", table: "change_history" }),
+      );
+      expect(harness.childQueue!.docs).toHaveLength(0);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("drops a rejected history entry without tripping the circuit breaker", async () => {
+      const harness = await loadSyncQueueHarness({
+        childDocs: [historyDoc("entry-1", 1)],
+      });
+      queueOperationResult(mockState.upsertQueues, "change_history", {
+        error: { message: "violates check constraint", code: "23514" },
+        status: 400,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(harness.childQueue!.docs).toHaveLength(0);
+      expect(harness.syncQueueService.failedCount.value).toBe(0);
+      expect(harness.syncQueueService.getCircuitBreakers()).toEqual([]);
+
+      harness.syncQueueService.destroy();
+    });
+  });
+
   describe("onMutationSuccess", () => {
     it("fires on entity upsert success", async () => {
       const harness = await loadSyncQueueHarness({
@@ -815,57 +1196,460 @@ describe("sync-queue.service", () => {
     });
   });
 
-  it("waitForCommit resolves only after the child queue item is acknowledged by Supabase", async () => {
-    const harness = await loadSyncQueueHarness({
-      entityDocs: [],
-      childDocs: [
+  describe("conflicts", () => {
+    const baseItem = {
+      id: "entity-edit",
+      entityType: "pet",
+      entityId: "pet-1",
+      operation: "upsert",
+      payload: {
+        id: "pet-1",
+        name: "Mine",
+        updated_by: "user-a",
+        updated_at: "2026-04-21T11:30:00.000Z",
+      },
+      onConflict: "id",
+      retries: 0,
+      createdAt: 1,
+      baseUpdatedAt: "2026-04-21T10:00:00.000Z",
+    };
+
+    it("parks an item as conflict instead of upserting when the server row changed after the base version", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [baseItem],
+        childDocs: [],
+      });
+      const serverRow = {
+        id: "pet-1",
+        name: "Theirs",
+        updated_by: "user-b",
+        updated_at: "2026-04-21T11:00:00.000Z",
+      };
+      queueOperationResult(mockState.selectQueues, "pet", {
+        data: [serverRow],
+        error: null,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      const item = harness.entityQueue!.docs[0];
+      await harness.syncQueueService.processNow();
+      await vi.waitFor(() => {
+        expect(harness.syncQueueService.conflictCount.value).toBe(1);
+        expect(harness.syncQueueService.pendingCount.value).toBe(0);
+      });
+
+      expect(mockState.opLog).toEqual([
         {
-          id: "child-upsert-1",
-          entityType: "pet",
-          tableType: "title_in_pet",
-          recordId: "child-1",
-          operation: "upsert",
-          payload: { id: "child-1", title_id: "title-1" },
-          onConflict: "id",
-          retries: 0,
-          createdAt: 1,
+          op: "select",
+          table: "pet",
+          columns: "*",
+          field: "id",
+          values: ["pet-1"],
         },
-      ],
-    });
-    const supabaseAck = createDeferred<{ error: null }>();
-    queueOperationResult(mockState.upsertQueues, "title_in_pet", supabaseAck.promise);
+      ]);
+      expect(item.patch).toHaveBeenCalledWith({
+        status: "conflict",
+        serverPayload: serverRow,
+        error: "Changed on server: name",
+      });
+      expect(await harness.syncQueueService.getConflicts()).toEqual([
+        expect.objectContaining({ id: "entity-edit", status: "conflict" }),
+      ]);
 
-    await harness.syncQueueService.initialize(harness.db);
-    const wait = harness.syncQueueService.waitForCommit("child-1");
-    let settled = false;
-    wait.then(() => {
-      settled = true;
+      harness.syncQueueService.destroy();
     });
 
-    const processing = harness.syncQueueService.processNow();
-    await flushMicrotasks();
+    it("pushes normally when the server row has not diverged", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [baseItem],
+        childDocs: [],
+      });
+      queueOperationResult(mockState.selectQueues, "pet", {
+        data: [
+          {
+            id: "pet-1",
+            name: "Old",
+            updated_at: "2026-04-21T10:00:00.000Z",
+          },
+        ],
+        error: null,
+      });
 
-    expect(settled).toBe(false);
-    expect(harness.childQueue!.docs).toHaveLength(1);
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
 
-    supabaseAck.resolve({ error: null });
-    await processing;
-    await expect(wait).resolves.toBe(true);
-    expect(harness.childQueue!.docs).toHaveLength(0);
+      expect(mockState.opLog.map((entry) => entry.op)).toEqual([
+        "select",
+        "upsert",
+      ]);
+      expect(harness.entityQueue!.docs).toHaveLength(0);
+      expect(harness.syncQueueService.conflictCount.value).toBe(0);
 
-    harness.syncQueueService.destroy();
-  });
+      harness.syncQueueService.destroy();
+    });
 
-  it("waitForCommit returns false on timeout and cleans up the waiter", async () => {
-    const harness = await loadSyncQueueHarness({
-      entityDocs: [],
-      childDocs: [
-        {
-          id: "child-upsert-1",
-          entityType: "pet",
-          tableType: "title_in_pet",
-          recordId: "child-1",
-          operation: "upsert",
+    it("pushes the three-way merged payload when the server changed other fields", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [
+          {
+            ...baseItem,
+            payload: { ...baseItem.payload, status: "planned" },
+            baseSnapshot: { id: "pet-1", name: "Old", status: "planned" },
+          },
+        ],
+        childDocs: [],
+      });
+      queueOperationResult(mockState.selectQueues, "pet", {
+        data: [
+          {
+            id: "pet-1",
+            name: "Old",
+            status: "born",
+            updated_by: "user-b",
+            updated_at: "2026-04-21T11:00:00.000Z",
+          },
+        ],
+        error: null,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(mockState.opLog[1]).toEqual({
+        op: "upsert",
+        table: "pet",
+        payload: [{ ...baseItem.payload, status: "born" }],
+        options: { onConflict: "id" },
+      });
+      expect(harness.entityQueue!.docs).toHaveLength(0);
+      expect(harness.syncQueueService.conflictCount.value).toBe(0);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("rebases a queued edit onto a newer pulled row and parks same-field conflicts", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [
+          {
+            ...baseItem,
+            payload: { ...baseItem.payload, status: "planned" },
+            baseSnapshot: { id: "pet-1", name: "Old", status: "planned" },
+          },
+          {
+            ...baseItem,
+            id: "entity-edit-2",
+            entityId: "pet-2",
+            payload: { ...baseItem.payload, id: "pet-2" },
+            baseSnapshot: { id: "pet-2", name: "Old" },
+          },
+        ],
+        childDocs: [],
+      });
+      const pulled = [
+        { id: "pet-1", name: "Old", status: "born", updated_at: "2026-04-21T11:00:00.000Z" },
+        { id: "pet-2", name: "Theirs", updated_at: "2026-04-21T11:00:00.000Z" },
+      ];
+
+      await harness.syncQueueService.initialize(harness.db);
+      const merged = await harness.syncQueueService.rebaseOnServerRows("pet", pulled);
+
+      expect(merged.get("pet-1")).toEqual({ ...baseItem.payload, status: "born" });
+      expect(merged.get("pet-2")).toEqual({ ...baseItem.payload, id: "pet-2" });
+      const [rebased, conflicted] = harness.entityQueue!.docs;
+      expect(rebased).toMatchObject({
+        baseUpdatedAt: "2026-04-21T11:00:00.000Z",
+        baseSnapshot: pulled[0],
+        payload: { name: "Mine", status: "born" },
+      });
+      expect(rebased.status).toBeUndefined();
+      expect(conflicted).toMatchObject({
+        status: "conflict",
+        serverPayload: pulled[1],
+        error: "Changed on server: name",
+      });
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("keeps the original base version when a later edit replaces the queued item", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [baseItem],
+        childDocs: [],
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.enqueueEntity(
+        "pet",
+        "pet-1",
+        "upsert",
+        { id: "pet-1", name: "Mine again" },
+        "id",
+        "2026-04-21T11:30:00.000Z",
+      );
+
+      expect(harness.entityQueue!.docs).toHaveLength(1);
+      expect(harness.entityQueue!.docs[0].baseUpdatedAt).toBe(
+        "2026-04-21T10:00:00.000Z",
+      );
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("resolveConflict re-queues the resolved payload based on the server version", async () => {
+      const serverRow = {
+        id: "pet-1",
+        name: "Theirs",
+        updated_at: "2026-04-21T11:00:00.000Z",
+      };
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [
+          {
+            ...baseItem,
+            status: "conflict",
+            serverPayload: serverRow,
+          },
+        ],
+        childDocs: [],
+      });
+      queueOperationResult(mockState.selectQueues, "pet", {
+        data: [serverRow],
+        error: null,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.resolveConflict("entity-edit", {
+        id: "pet-1",
+        name: "Merged",
+      });
+      await vi.waitFor(() => {
+        expect(harness.entityQueue!.docs).toHaveLength(0);
+      });
+
+      expect(mockState.opLog[1]).toEqual({
+        op: "upsert",
+        table: "pet",
+        payload: [
+          {
+            id: "pet-1",
+            name: "Merged",
+            updated_at: "2026-04-21T12:00:00.000Z",
+          },
+        ],
+        options: { onConflict: "id" },
+      });
+      expect(harness.syncQueueService.conflictCount.value).toBe(0);
+
+      harness.syncQueueService.destroy();
+    });
+  });
+
+  describe("inspector actions", () => {
+    const failedEntity = {
+      id: "entity-failed",
+      entityType: "pet",
+      entityId: "pet-1",
+      operation: "upsert",
+      payload: { id: "pet-1", breed_id: "missing" },
+      onConflict: "id",
+      retries: 11,
+      createdAt: 2,
+      status: "failed",
+      error: "violates foreign key constraint",
+      errorCode: "23503",
+    };
+    const pendingChild = {
+      id: "child-pending",
+      entityType: "pet",
+      tableType: "title_in_pet",
+      recordId: "child-1",
+      operation: "upsert",
+      payload: { id: "child-1" },
+      onConflict: "id",
+      retries: 0,
+      createdAt: 1,
+    };
+
+    it("lists items from both queues oldest first with a flat shape", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [failedEntity],
+        childDocs: [pendingChild],
+        online: false,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+
+      expect(await harness.syncQueueService.getQueueItems()).toEqual([
+        {
+          queue: "child",
+          id: "child-pending",
+          entityType: "pet",
+          tableType: "title_in_pet",
+          recordId: "child-1",
+          operation: "upsert",
+          payload: { id: "child-1" },
+          retries: 0,
+          createdAt: 1,
+        },
+        {
+          queue: "entity",
+          id: "entity-failed",
+          entityType: "pet",
+          recordId: "pet-1",
+          operation: "upsert",
+          payload: { id: "pet-1", breed_id: "missing" },
+          retries: 11,
+          createdAt: 2,
+          status: "failed",
+          error: "violates foreign key constraint",
+          errorCode: "23503",
+        },
+      ]);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("retryItem resets a failed item and pushes it immediately", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [failedEntity],
+        childDocs: [],
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.retryItem("entity", "entity-failed");
+
+      expect(mockState.opLog).toEqual([
+        expect.objectContaining({ op: "upsert", table: "pet" }),
+      ]);
+      expect(harness.entityQueue!.docs).toHaveLength(0);
+      expect(harness.syncQueueService.failedCount.value).toBe(0);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("retryAll resets every failed item across both queues", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [failedEntity],
+        childDocs: [{ ...pendingChild, status: "failed", retries: 11 }],
+        online: false,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.retryAll();
+
+      expect(harness.entityQueue!.docs[0]).toEqual(
+        expect.objectContaining({ status: "pending", retries: 0 }),
+      );
+      expect(harness.childQueue!.docs[0]).toEqual(
+        expect.objectContaining({ status: "pending", retries: 0 }),
+      );
+      expect(harness.syncQueueService.failedCount.value).toBe(0);
+      expect(harness.syncQueueService.pendingCount.value).toBe(2);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("updateItemPayload replaces the payload and re-arms the item", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [failedEntity],
+        childDocs: [],
+        online: false,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.updateItemPayload("entity", "entity-failed", {
+        id: "pet-1",
+        breed_id: "breed-1",
+      });
+
+      expect(harness.entityQueue!.docs[0]).toEqual(
+        expect.objectContaining({
+          payload: { id: "pet-1", breed_id: "breed-1" },
+          status: "pending",
+          retries: 0,
+        }),
+      );
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("discardItem removes the item, returns it and releases commit waiters", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [],
+        childDocs: [pendingChild],
+        online: false,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      const wait = harness.syncQueueService.waitForCommit("child-1");
+      await flushMicrotasks();
+
+      const removed = await harness.syncQueueService.discardItem(
+        "child",
+        "child-pending",
+      );
+
+      expect(removed).toEqual(
+        expect.objectContaining({ queue: "child", recordId: "child-1" }),
+      );
+      expect(harness.childQueue!.docs).toHaveLength(0);
+      await expect(wait).resolves.toBe(false);
+      expect(harness.syncQueueService.pendingCount.value).toBe(0);
+
+      harness.syncQueueService.destroy();
+    });
+  });
+
+  it("waitForCommit resolves only after the child queue item is acknowledged by Supabase", async () => {
+    const harness = await loadSyncQueueHarness({
+      entityDocs: [],
+      childDocs: [
+        {
+          id: "child-upsert-1",
+          entityType: "pet",
+          tableType: "title_in_pet",
+          recordId: "child-1",
+          operation: "upsert",
+          payload: { id: "child-1", title_id: "title-1" },
+          onConflict: "id",
+          retries: 0,
+          createdAt: 1,
+        },
+      ],
+    });
+    const supabaseAck = createDeferred<{ error: null }>();
+    queueOperationResult(mockState.upsertQueues, "title_in_pet", supabaseAck.promise);
+
+    await harness.syncQueueService.initialize(harness.db);
+    const wait = harness.syncQueueService.waitForCommit("child-1");
+    let settled = false;
+    wait.then(() => {
+      settled = true;
+    });
+
+    const processing = harness.syncQueueService.processNow();
+    await flushMicrotasks();
+
+    expect(settled).toBe(false);
+    expect(harness.childQueue!.docs).toHaveLength(1);
+
+    supabaseAck.resolve({ error: null });
+    await processing;
+    await expect(wait).resolves.toBe(true);
+    expect(harness.childQueue!.docs).toHaveLength(0);
+
+    harness.syncQueueService.destroy();
+  });
+
+  it("waitForCommit returns false on timeout and cleans up the waiter", async () => {
+    const harness = await loadSyncQueueHarness({
+      entityDocs: [],
+      childDocs: [
+        {
+          id: "child-upsert-1",
+          entityType: "pet",
+          tableType: "title_in_pet",
+          recordId: "child-1",
+          operation: "upsert",
           payload: { id: "child-1" },
           onConflict: "id",
           retries: 0,
@@ -1031,48 +1815,579 @@ describe("sync-queue.service", () => {
     harness.syncQueueService.destroy();
   });
 
-  it("opens the circuit breaker after five consecutive failures, pauses processing, then resets after the cooldown", async () => {
-    const harness = await loadSyncQueueHarness({
-      entityDocs: [
+  describe("backoff and circuit breaker", () => {
+    function entityItem(id: string, entityType: string, createdAt: number) {
+      return {
+        id,
+        entityType,
+        entityId: `${entityType}-1`,
+        operation: "upsert",
+        payload: { id: `${entityType}-1`, name: "Alpha" },
+        onConflict: "id",
+        retries: 0,
+        createdAt,
+      };
+    }
+
+    it("schedules the next attempt with backoff and skips the item until it is due", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [entityItem("entity-upsert", "pet", 1)],
+        childDocs: [],
+      });
+      queueOperationResult(mockState.upsertQueues, "pet", {
+        error: { message: "Bad Gateway" },
+        status: 502,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+      await harness.syncQueueService.processNow();
+
+      const item = harness.entityQueue!.docs[0];
+      expect(item.retries).toBe(1);
+      expect(item.status).toBeUndefined();
+      expect(item.nextAttemptAt).toBe(Date.now() + 5_000);
+
+      await harness.syncQueueService.processNow();
+      expect(mockState.opLog).toHaveLength(1);
+
+      vi.setSystemTime(Date.now() + 5_000);
+      await harness.syncQueueService.processNow();
+      expect(mockState.opLog).toHaveLength(2);
+      expect(harness.entityQueue!.docs).toHaveLength(0);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("waits for Retry-After when Supabase rate-limits the push", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [entityItem("entity-upsert", "pet", 1)],
+        childDocs: [],
+      });
+      queueOperationResult(mockState.upsertQueues, "pet", {
+        error: { message: "Too Many Requests" },
+        status: 429,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+      rateLimit("pet", 120_000);
+      await harness.syncQueueService.processNow();
+
+      expect(harness.entityQueue!.docs[0].nextAttemptAt).toBe(Date.now() + 120_000);
+
+      harness.syncQueueService.destroy();
+      expect(mockState.retryAfterListeners.size).toBe(0);
+    });
+
+    it("keeps Retry-After to the table that was rate-limited", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(1);
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [entityItem("entity-upsert", "pet", 1)],
+        childDocs: [],
+      });
+      queueOperationResult(mockState.upsertQueues, "pet", {
+        error: { message: "Too Many Requests" },
+        status: 429,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+      rateLimit("breed", 120_000);
+      await harness.syncQueueService.processNow();
+
+      expect(harness.entityQueue!.docs[0].nextAttemptAt).toBe(Date.now() + 5_000);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("parks permanent errors as failed without scheduling a retry", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [entityItem("entity-upsert", "pet", 1)],
+        childDocs: [],
+      });
+      queueOperationResult(mockState.upsertQueues, "pet", {
+        error: { message: "null value in column \"name\"", code: "23502" },
+        status: 400,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+      await harness.syncQueueService.processNow();
+
+      const item = harness.entityQueue!.docs[0];
+      expect(item.patch).toHaveBeenCalledWith({
+        retries: 1,
+        status: "failed",
+        error: 'null value in column "name"',
+        errorCode: "23502",
+      });
+      expect(harness.syncQueueService.failedCount.value).toBe(1);
+      expect((harness.syncQueueService as any).circuitBreakers.size).toBe(0);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("opens the breaker for one table after five consecutive failures without stalling other tables", async () => {
+      // Minimum jitter: the 5th backoff (40 s) ends before the 60 s cooldown
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [entityItem("entity-upsert", "pet", 1)],
+        childDocs: [],
+      });
+      for (let i = 0; i < 6; i += 1) {
+        queueOperationResult(mockState.upsertQueues, "pet", {
+          error: { message: `boom-${i}` },
+          status: 503,
+        });
+      }
+
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+
+      for (let i = 0; i < 5; i += 1) {
+        // Jump past the longest backoff so only the breaker can hold the item
+        if (i > 0) vi.setSystemTime(Date.now() + 15 * 60_000);
+        await harness.syncQueueService.processNow();
+      }
+      expect(mockState.opLog).toHaveLength(5);
+      expect(harness.syncQueueService.getCircuitBreakers()).toEqual([
         {
-          id: "entity-upsert",
+          table: "pet",
+          consecutiveFailures: 5,
+          openUntil: Date.now() + 60_000,
+          open: true,
+        },
+      ]);
+
+      await harness.syncQueueService.enqueueEntity(
+        "litter",
+        "litter-1",
+        "upsert",
+        { id: "litter-1" },
+        "id",
+      );
+      await harness.syncQueueService.processNow();
+
+      expect(mockState.opLog.map((entry) => entry.table)).toEqual([
+        "pet", "pet", "pet", "pet", "pet", "litter",
+      ]);
+
+      vi.setSystemTime(Date.now() + 60_000);
+      await harness.syncQueueService.processNow();
+      expect(mockState.opLog).toHaveLength(7);
+      expect(mockState.opLog[6].table).toBe("pet");
+
+      harness.syncQueueService.destroy();
+    });
+  });
+
+  describe("parent/child dependencies", () => {
+    const newPet = {
+      id: "entity-upsert",
+      entityType: "pet",
+      entityId: "pet-1",
+      operation: "upsert",
+      payload: { id: "pet-1", name: "Alpha" },
+      onConflict: "id",
+      retries: 0,
+      createdAt: 1,
+    };
+    function titleInPet(n: number, parentId: string) {
+      return {
+        id: `child-upsert-${n}`,
+        entityType: "pet",
+        tableType: "title_in_pet",
+        recordId: `child-${n}`,
+        operation: "upsert",
+        payload: { id: `child-${n}`, pet_id: parentId },
+        onConflict: "id",
+        retries: 0,
+        createdAt: 1 + n,
+      };
+    }
+
+    it("holds child items until the parent entity item has committed", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [newPet],
+        childDocs: [titleInPet(1, "pet-1"), titleInPet(2, "pet-other")],
+      });
+      queueOperationResult(mockState.upsertQueues, "pet", {
+        error: { message: "Bad Gateway" },
+        status: 502,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      // Parent failed → only the unrelated child was pushed
+      expect(mockState.opLog.map((entry) => [entry.table, entry.payload.map((r: any) => r.id)])).toEqual([
+        ["pet", ["pet-1"]],
+        ["title_in_pet", ["child-2"]],
+      ]);
+      expect(harness.childQueue!.docs.map((doc) => doc.id)).toEqual(["child-upsert-1"]);
+
+      vi.setSystemTime(Date.now() + 15 * 60_000);
+      await harness.syncQueueService.processNow();
+
+      expect(mockState.opLog.slice(2).map((entry) => entry.table)).toEqual([
+        "pet",
+        "title_in_pet",
+      ]);
+      expect(harness.childQueue!.docs).toHaveLength(0);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("holds pending child upserts while the parent entity is deleted", async () => {
+      const childDelete = {
+        ...titleInPet(3, "pet-1"),
+        id: "child-delete-3",
+        operation: "delete",
+      };
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [],
+        childDocs: [titleInPet(1, "pet-1"), titleInPet(2, "pet-other"), childDelete],
+      });
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+
+      const wait = harness.syncQueueService.waitForCommit("child-1");
+      await flushMicrotasks();
+      await harness.syncQueueService.enqueueEntity(
+        "pet",
+        "pet-1",
+        "delete",
+        { id: "pet-1" },
+        "id",
+      );
+
+      await expect(wait).resolves.toBe(false);
+      expect(harness.childQueue!.docs.map((doc) => [doc.id, doc.status])).toEqual([
+        ["child-upsert-1", "held"],
+        ["child-upsert-2", undefined],
+        ["child-delete-3", undefined],
+      ]);
+      await vi.waitFor(() => {
+        expect(harness.syncQueueService.pendingCount.value).toBe(3);
+      });
+
+      // The delete reaches Supabase; the held edit stays parked
+      await harness.syncQueueService.processNow();
+      expect(harness.childQueue!.docs.map((doc) => doc.id)).toEqual(["child-upsert-1"]);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("releases held child upserts when the parent entity is restored", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [],
+        childDocs: [{ ...titleInPet(1, "pet-1"), status: "held" }],
+      });
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+
+      await harness.syncQueueService.enqueueEntityBatch(
+        "pet",
+        [{ entityId: "pet-1", operation: "upsert", payload: { id: "pet-1", deleted: false } }],
+        "id",
+      );
+      expect(harness.childQueue!.docs[0].status).toBe("pending");
+
+      await harness.syncQueueService.processNow();
+      expect(mockState.opLog.map((entry) => entry.table)).toEqual(["pet", "title_in_pet"]);
+      expect(harness.childQueue!.docs).toHaveLength(0);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("drops held child upserts when the deleted parent is purged", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [],
+        childDocs: [{ ...titleInPet(1, "pet-1"), status: "held" }, titleInPet(2, "pet-other")],
+      });
+      await harness.syncQueueService.initialize(harness.db);
+      harness.syncQueueService.stopProcessing();
+
+      await harness.syncQueueService.dropHeldChildUpserts("pet", "pet-1");
+
+      expect(harness.childQueue!.docs.map((doc) => doc.id)).toEqual(["child-upsert-2"]);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("holds a child row behind every entity it references, not only its parent", async () => {
+      const contactLink = {
+        ...titleInPet(1, "pet-other"),
+        tableType: "contact_in_pet",
+        payload: { id: "child-1", pet_id: "pet-other", contact_id: "contact-1" },
+      };
+      const newContact = {
+        ...newPet,
+        entityType: "contact",
+        entityId: "contact-1",
+        payload: { id: "contact-1", name: "Breeder" },
+      };
+      const harness = await loadSyncQueueHarness({ entityDocs: [newContact], childDocs: [contactLink] });
+      queueOperationResult(mockState.upsertQueues, "contact", {
+        error: { message: "Bad Gateway" },
+        status: 502,
+      });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(mockState.opLog.map((entry) => entry.table)).toEqual(["contact"]);
+      const items = await harness.syncQueueService.getQueueItems();
+      expect(items.find((item) => item.id === "child-upsert-1")).toMatchObject({
+        parentId: "pet-other",
+        waitingFor: { entityType: "contact", entityId: "contact-1" },
+      });
+
+      // Deleting the contact holds the link like a deleted parent would
+      await harness.syncQueueService.enqueueEntity(
+        "contact",
+        "contact-1",
+        "delete",
+        { id: "contact-1", deleted: true },
+        "id",
+      );
+      expect(harness.childQueue!.docs[0].status).toBe("held");
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("exposes the dependency chain in getQueueItems", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [{ ...newPet, status: "failed" }],
+        childDocs: [titleInPet(1, "pet-1"), titleInPet(2, "pet-1")],
+      });
+      await harness.syncQueueService.initialize(harness.db);
+
+      const items = await harness.syncQueueService.getQueueItems();
+
+      expect(items[0]).toMatchObject({ id: "entity-upsert", dependentCount: 2 });
+      expect(items[1]).toMatchObject({
+        id: "child-upsert-1",
+        parentId: "pet-1",
+        waitingFor: {
+          itemId: "entity-upsert",
           entityType: "pet",
           entityId: "pet-1",
-          operation: "upsert",
-          payload: { id: "pet-1", name: "Alpha" },
-          onConflict: "id",
-          retries: 0,
-          createdAt: 1,
+          status: "failed",
         },
-      ],
-      childDocs: [],
+      });
+
+      harness.syncQueueService.destroy();
     });
+  });
 
-    for (let i = 0; i < 6; i += 1) {
-      queueOperationResult(mockState.upsertQueues, "pet", {
-        error: { message: `boom-${i}` },
+  describe("cross-tab leadership", () => {
+    const petItem = {
+      id: "entity-upsert",
+      entityType: "pet",
+      entityId: "pet-1",
+      operation: "upsert",
+      payload: { id: "pet-1", name: "Alpha" },
+      onConflict: "id",
+      retries: 0,
+      createdAt: 1,
+    };
+
+    it("does not drain the queue in a follower tab", async () => {
+      mockState.leader.isLeader.value = false;
+      const harness = await loadSyncQueueHarness({ entityDocs: [petItem], childDocs: [] });
+
+      await harness.syncQueueService.initialize(harness.db);
+      await vi.advanceTimersByTimeAsync(5_000);
+      harness.eventHandlers.get("online")?.();
+      await flushMicrotasks();
+
+      expect(mockState.opLog).toHaveLength(0);
+      expect((harness.syncQueueService as any).processingInterval).toBeNull();
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("forwards processNow to the leader and resolves when it reports back", async () => {
+      mockState.leader.isLeader.value = false;
+      const harness = await loadSyncQueueHarness({ entityDocs: [petItem], childDocs: [] });
+      await harness.syncQueueService.initialize(harness.db);
+
+      let settled = false;
+      const processing = harness.syncQueueService.processNow().then(() => {
+        settled = true;
       });
-    }
+      await flushMicrotasks();
 
-    await harness.syncQueueService.initialize(harness.db);
+      const request = mockState.leader.broadcasts.find(
+        (message) => message.topic === "sync-queue:process",
+      );
+      expect(request?.payload.requestId).toEqual(expect.any(String));
+      expect(settled).toBe(false);
 
-    await harness.syncQueueService.processNow();
-    await harness.syncQueueService.processNow();
-    await harness.syncQueueService.processNow();
-    await harness.syncQueueService.processNow();
-    await harness.syncQueueService.processNow();
+      deliverBroadcast("sync-queue:processed", { requestId: "someone-else" });
+      await flushMicrotasks();
+      expect(settled).toBe(false);
 
-    expect((harness.syncQueueService as any).circuitBreakerOpen).toBe(true);
-    expect(mockState.opLog).toHaveLength(5);
+      deliverBroadcast("sync-queue:processed", request!.payload);
+      await processing;
+      expect(mockState.opLog).toHaveLength(0);
 
-    await harness.syncQueueService.processNow();
-    expect(mockState.opLog).toHaveLength(5);
+      harness.syncQueueService.destroy();
+    });
 
-    await vi.advanceTimersByTimeAsync(60_000);
-    expect((harness.syncQueueService as any).circuitBreakerOpen).toBe(false);
+    it("mirrors counts and settles commit waiters from the leader's broadcasts", async () => {
+      mockState.leader.isLeader.value = false;
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [],
+        childDocs: [
+          {
+            id: "child-upsert-1",
+            entityType: "pet",
+            tableType: "title_in_pet",
+            recordId: "child-1",
+            operation: "upsert",
+            payload: { id: "child-1" },
+            onConflict: "id",
+            retries: 0,
+            createdAt: 1,
+          },
+        ],
+      });
+      await harness.syncQueueService.initialize(harness.db);
 
-    await harness.syncQueueService.processNow();
-    expect(mockState.opLog).toHaveLength(6);
+      const wait = harness.syncQueueService.waitForCommit("child-1");
+      await flushMicrotasks();
+      deliverBroadcast("sync-queue:commit", { recordIds: ["child-1"], committed: true });
+      await expect(wait).resolves.toBe(true);
+
+      deliverBroadcast("sync-queue:counts", { pending: 4, failed: 1, conflicts: 2 });
+      expect(harness.syncQueueService.pendingCount.value).toBe(4);
+      expect(harness.syncQueueService.failedCount.value).toBe(1);
+      expect(harness.syncQueueService.conflictCount.value).toBe(2);
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("broadcasts commits, mutations and counts after the leader pushes", async () => {
+      const harness = await loadSyncQueueHarness({
+        entityDocs: [petItem],
+        childDocs: [
+          {
+            id: "child-upsert-1",
+            entityType: "pet",
+            tableType: "title_in_pet",
+            recordId: "child-1",
+            operation: "upsert",
+            payload: { id: "child-1" },
+            onConflict: "id",
+            retries: 0,
+            createdAt: 2,
+          },
+        ],
+      });
+      await harness.syncQueueService.initialize(harness.db);
+      await harness.syncQueueService.processNow();
+
+      expect(mockState.leader.broadcasts).toEqual(
+        expect.arrayContaining([
+          { topic: "sync-queue:mutation", payload: { entityType: "pet", operation: "upsert" } },
+          { topic: "sync-queue:commit", payload: { recordIds: ["child-1"], committed: true } },
+          { topic: "sync-queue:counts", payload: { pending: 0, failed: 0, conflicts: 0 } },
+        ]),
+      );
+
+      harness.syncQueueService.destroy();
+    });
+
+    it("starts draining when the tab is promoted to leader", async () => {
+      mockState.leader.isLeader.value = false;
+      const harness = await loadSyncQueueHarness({ entityDocs: [petItem], childDocs: [] });
+      await harness.syncQueueService.initialize(harness.db);
+
+      mockState.leader.isLeader.value = true;
+      for (const callback of mockState.leader.leadershipCallbacks) callback(true);
+      await vi.advanceTimersByTimeAsync(5_000);
+
+      expect(mockState.opLog).toHaveLength(1);
+      expect(harness.entityQueue!.docs).toHaveLength(0);
+
+      harness.syncQueueService.destroy();
+    });
+  });
+
+  it("keeps unsynced items across a database reset", async () => {
+    const storage = new Map<string, string>();
+    Object.defineProperty(globalThis, "localStorage", {
+      configurable: true,
+      value: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+      },
+    });
+    const petItem = {
+      id: "entity-upsert",
+      entityType: "pet",
+      entityId: "pet-1",
+      operation: "upsert",
+      payload: { id: "pet-1", name: "Alpha" },
+      onConflict: "id",
+      retries: 0,
+      createdAt: 1,
+    };
+
+    try {
+      const before = await loadSyncQueueHarness({ entityDocs: [petItem], childDocs: [], online: false });
+      await before.syncQueueService.initialize(before.db);
+      await expect(before.syncQueueService.backupForReset()).resolves.toBe(1);
+      before.syncQueueService.destroy();
+
+      const after = await loadSyncQueueHarness({ entityDocs: [], childDocs: [] });
+      await after.syncQueueService.initialize(after.db);
+
+      expect(after.entityQueue!.docs).toEqual([expect.objectContaining({ id: "entity-upsert" })]);
+      expect(storage.size).toBe(0);
+      after.syncQueueService.destroy();
+    } finally {
+      Reflect.deleteProperty(globalThis, "localStorage");
+    }
+  });
+
+  it("requeues snapshot items as fresh pending items unless a newer local edit is queued", async () => {
+    const childItem = (recordId: string, createdAt: number, extra: Record<string, unknown> = {}) => ({
+      id: `child-${recordId}-${createdAt}`,
+      entityType: "pet",
+      tableType: "title_in_pet",
+      recordId,
+      operation: "upsert",
+      payload: { id: recordId },
+      onConflict: "id",
+      retries: 0,
+      createdAt,
+      ...extra,
+    });
+    const harness = await loadSyncQueueHarness({
+      entityDocs: [],
+      childDocs: [childItem("child-1", 5)],
+      online: false,
+    });
+    await harness.syncQueueService.initialize(harness.db);
+
+    const enqueued = await harness.syncQueueService.requeue("child", [
+      childItem("child-1", 1),
+      childItem("child-2", 2, { retries: 10, status: "failed", error: "boom" }),
+    ] as any);
+
+    expect(enqueued).toBe(1);
+    expect(harness.childQueue!.docs).toEqual([
+      expect.objectContaining({ recordId: "child-1", createdAt: 5 }),
+      expect.objectContaining({ recordId: "child-2", retries: 0 }),
+    ]);
+    expect(harness.childQueue!.docs[1].status).toBeUndefined();
 
     harness.syncQueueService.destroy();
   });
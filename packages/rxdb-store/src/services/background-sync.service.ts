@@ -0,0 +1,172 @@
+import type { RxCollection, RxDatabase } from 'rxdb';
+import type { AppDatabase } from './database.service';
+import {
+  BACKGROUND_SYNC_DB_NAME,
+  BACKGROUND_SYNC_STORE,
+  BACKGROUND_SYNC_TAG,
+  SYNC_QUEUE_LOCK,
+  getDexieDbName,
+  toBackgroundSyncSession,
+  type BackgroundSyncConfig,
+  type BackgroundSyncQueueLocation,
+} from '../utils/background-sync.helpers';
+import { getChildTableReferenceMap } from '../utils/child-collection-registry';
+
+/**
+ * BackgroundSyncService - lets the service worker drain the sync queues
+ * while no tab is open.
+ *
+ * The worker script (apps/app/public/background-sync-sw.js, pulled into the
+ * generated service worker via `workbox.importScripts`) reads the RxDB queue
+ * collections straight from IndexedDB and pushes them to PostgREST. This
+ * service feeds it:
+ *
+ * - `configure` stores the Supabase endpoint, the IndexedDB names of the
+ *   queue collections and the child tables' FK columns; `saveSession`
+ *   stores the current access token.
+ * - `requestSync` registers a Background Sync tag while offline, so the
+ *   browser wakes the worker when connectivity returns. Periodic Background
+ *   Sync (installed PWA only) is registered once as a fallback.
+ * - `runExclusive` wraps every in-page queue drain in the same Web Lock the
+ *   worker takes. The worker additionally bails out when any window client
+ *   exists, so an item is never pushed by both.
+ */
+
+/** Periodic sync interval hint — browsers treat it as a minimum. */
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+/** Sync managers are missing from the DOM typings (Chromium only). */
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: {
+    register(tag: string, options?: { minInterval: number }): Promise<void>;
+  };
+}
+
+type AuthSession = Parameters<typeof toBackgroundSyncSession>[0];
+
+function openStateDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(BACKGROUND_SYNC_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(BACKGROUND_SYNC_STORE)) {
+        request.result.createObjectStore(BACKGROUND_SYNC_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function writeState(key: string, value: unknown): Promise<void> {
+  const db = await openStateDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(BACKGROUND_SYNC_STORE, 'readwrite');
+      const store = tx.objectStore(BACKGROUND_SYNC_STORE);
+      if (value === null) store.delete(key);
+      else store.put(value, key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function hasIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+async function getRegistration(): Promise<SyncCapableRegistration | null> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (registration as SyncCapableRegistration | undefined) ?? null;
+}
+
+export class BackgroundSyncService {
+  private periodicRegistered = false;
+
+  /** Store where the worker finds the queues. Called on every sync queue start. */
+  async configure(db: RxDatabase | AppDatabase): Promise<void> {
+    const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL;
+    const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY;
+    const collections = db.collections as Record<string, RxCollection | undefined>;
+    const entityQueue = collections['entity_sync_queue'];
+    const childQueue = collections['child_sync_queue'];
+    if (!hasIndexedDb() || !supabaseUrl || !supabaseAnonKey || !entityQueue || !childQueue) return;
+
+    const locate = (collection: RxCollection): BackgroundSyncQueueLocation => ({
+      dbName: getDexieDbName(db.name, collection.name, collection.schema.version),
+      collectionName: collection.name,
+    });
+    const config: BackgroundSyncConfig = {
+      supabaseUrl,
+      supabaseAnonKey,
+      entityQueue: locate(entityQueue),
+      childQueue: locate(childQueue),
+      childTableReferences: getChildTableReferenceMap(),
+    };
+    try {
+      await writeState('config', config);
+      await this.registerPeriodicSync();
+    } catch (error) {
+      console.warn('[BackgroundSync] Failed to store worker config:', error);
+    }
+  }
+
+  /** Store the access token the worker pushes with; null clears it on sign-out. */
+  async saveSession(session: AuthSession): Promise<void> {
+    if (!hasIndexedDb()) return;
+    try {
+      await writeState('session', toBackgroundSyncSession(session));
+    } catch (error) {
+      console.warn('[BackgroundSync] Failed to store session:', error);
+    }
+  }
+
+  /** Ask the browser to wake the worker once connectivity returns. */
+  async requestSync(): Promise<void> {
+    try {
+      const registration = await getRegistration();
+      await registration?.sync?.register(BACKGROUND_SYNC_TAG);
+    } catch (error) {
+      // Background Sync unsupported or denied — the tab drains on `online`
+      console.warn('[BackgroundSync] Sync registration failed:', error);
+    }
+  }
+
+  /**
+   * Run a queue drain under the lock shared with the worker. Without the
+   * Web Locks API the worker never drains, so running unlocked is safe.
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return task();
+    return navigator.locks.request(SYNC_QUEUE_LOCK, task);
+  }
+
+  /**
+   * Resolve once the worker is done with a drain it started before this tab
+   * opened. Queue queries made earlier could serve rows the worker removed.
+   */
+  async waitForIdle(): Promise<void> {
+    await this.runExclusive(async () => undefined);
+  }
+
+  private async registerPeriodicSync(): Promise<void> {
+    if (this.periodicRegistered) return;
+    const registration = await getRegistration();
+    if (!registration?.periodicSync || !navigator.permissions) return;
+    const permission = await navigator.permissions.query({
+      name: 'periodic-background-sync' as PermissionName,
+    });
+    if (permission.state !== 'granted') return;
+    await registration.periodicSync.register(BACKGROUND_SYNC_TAG, {
+      minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS,
+    });
+    this.periodicRegistered = true;
+  }
+}
+
+// Singleton export
+export const backgroundSyncService = new BackgroundSyncService();
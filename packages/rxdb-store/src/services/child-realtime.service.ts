@@ -0,0 +1,305 @@
+import { supabase } from '../supabase/client';
+import type { RealtimeChannelStatus } from './entity-replication.service';
+
+/**
+ * ChildRealtimeService - opt-in realtime channels for child tables.
+ *
+ * Child collections (`pet_children`, `litter_children`, …) are otherwise
+ * refreshed only when a tab reads them, so an edit made on another device
+ * shows up after the next background refresh. For the tables enabled here
+ * the service keeps Postgres Changes channels open, scoped to the parents
+ * currently cached on this device:
+ *
+ * - scope is fed by SpaceStore from the child LRU policy — a read adds the
+ *   parent, LRU eviction removes it, so channels never outgrow the cache;
+ * - one channel per table and chunk of CHILD_REALTIME_FILTER_CHUNK parents
+ *   (`parent_field=in.(…)` filter); scope changes are debounced and the
+ *   affected table's channels are rebuilt;
+ * - channels run in the leader tab only — followers get the refresh through
+ *   the leader-election channel (see SpaceStore).
+ *
+ * Rows are handed to the change handler as-is; upserting into RxDB and
+ * rebuilding mirrored parent fields stays in SpaceStore. Child rows are
+ * soft-deleted, so deletes arrive as UPDATEs with `deleted = true`;
+ * Supabase cannot filter hard DELETEs, and one that does arrive carries
+ * only the primary key.
+ */
+
+export const CHILD_REALTIME_FILTER_CHUNK = 100;
+const RESUBSCRIBE_DEBOUNCE_MS = 500;
+
+export type ChildRealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface ChildRealtimeTable {
+  /** Parent entity the rows are cached under (`pet` → pet_children) */
+  entityType: string;
+  /** Base table name, as stored in the child cache `tableType` */
+  tableType: string;
+  /** Column pointing at the parent; defaults to `${entityType}_id` */
+  parentField?: string;
+}
+
+export interface ChildRealtimeChange {
+  entityType: string;
+  tableType: string;
+  parentField: string;
+  eventType: ChildRealtimeEventType;
+  /** New row for INSERT / UPDATE, null for DELETE */
+  row: Record<string, unknown> | null;
+  /** Old row (primary key only unless the table has REPLICA IDENTITY FULL) */
+  oldRow: Record<string, unknown>;
+}
+
+export interface ChildRealtimeStatus {
+  entityType: string;
+  tableType: string;
+  parents: number;
+  channels: RealtimeChannelStatus[];
+}
+
+/** Child tables SpaceStore subscribes to when realtime is enabled without a list. */
+export const DEFAULT_CHILD_REALTIME_TABLES: ChildRealtimeTable[] = [
+  { entityType: 'pet', tableType: 'title_in_pet' },
+  { entityType: 'pet', tableType: 'pet_child', parentField: 'parent_id' },
+  { entityType: 'pet', tableType: 'contact_in_pet' },
+  { entityType: 'litter', tableType: 'pet_in_litter' },
+];
+
+interface RealtimePayloadLike {
+  eventType: ChildRealtimeEventType;
+  new: Record<string, unknown>;
+  old: Record<string, unknown>;
+}
+
+/** Subset of a Supabase realtime channel the service needs — lets tests pass a fake. */
+export interface RealtimeChannelLike {
+  on(
+    type: 'postgres_changes',
+    filter: { event: '*'; schema: string; table: string; filter?: string },
+    callback: (payload: RealtimePayloadLike) => void,
+  ): RealtimeChannelLike;
+  subscribe(callback?: (status: RealtimeChannelStatus) => void): RealtimeChannelLike;
+}
+
+export interface RealtimeClientLike {
+  channel(name: string): RealtimeChannelLike;
+  removeChannel(channel: RealtimeChannelLike): Promise<unknown>;
+}
+
+export interface ChildRealtimeServiceOptions {
+  client?: RealtimeClientLike;
+  debounceMs?: number;
+  chunkSize?: number;
+}
+
+type ResolvedTable = Required<ChildRealtimeTable>;
+
+interface OpenChannel {
+  channel: RealtimeChannelLike;
+  status: RealtimeChannelStatus;
+}
+
+export function getChildRealtimeParentField(table: ChildRealtimeTable): string {
+  return table.parentField ?? `${table.entityType}_id`;
+}
+
+/** Split parent ids into `in.(…)` filters of at most `chunkSize` ids each. */
+export function buildParentFilters(
+  parentField: string,
+  parentIds: Iterable<string>,
+  chunkSize = CHILD_REALTIME_FILTER_CHUNK,
+): string[] {
+  const ids = [...parentIds].sort();
+  const filters: string[] = [];
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    filters.push(`${parentField}=in.(${ids.slice(i, i + chunkSize).join(',')})`);
+  }
+  return filters;
+}
+
+function scopeKey(entityType: string, tableType: string): string {
+  return `${entityType}:${tableType}`;
+}
+
+export class ChildRealtimeService {
+  private readonly client: RealtimeClientLike;
+  private readonly debounceMs: number;
+  private readonly chunkSize: number;
+  /** Enabled tables by `${entityType}:${tableType}` */
+  private tables = new Map<string, ResolvedTable>();
+  /** Cached parents by `${entityType}:${tableType}`, tracked for every table */
+  private scopes = new Map<string, Set<string>>();
+  private channels = new Map<string, OpenChannel[]>();
+  private pending = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private active = false;
+  private handler: ((change: ChildRealtimeChange) => void | Promise<void>) | null = null;
+  private channelSeq = 0;
+  /** Serializes flushes so two rebuilds of one table never interleave */
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(options: ChildRealtimeServiceOptions = {}) {
+    this.client = options.client ?? (supabase as unknown as RealtimeClientLike);
+    this.debounceMs = options.debounceMs ?? RESUBSCRIBE_DEBOUNCE_MS;
+    this.chunkSize = options.chunkSize ?? CHILD_REALTIME_FILTER_CHUNK;
+  }
+
+  /** Enable realtime for the given tables. Idempotent; adds to earlier calls. */
+  enable(
+    tables: ChildRealtimeTable[],
+    handler: (change: ChildRealtimeChange) => void | Promise<void>,
+  ): void {
+    this.handler = handler;
+    for (const table of tables) {
+      const key = scopeKey(table.entityType, table.tableType);
+      if (this.tables.has(key)) continue;
+      this.tables.set(key, { ...table, parentField: getChildRealtimeParentField(table) });
+      this.schedule(key);
+    }
+  }
+
+  isEnabled(entityType: string, tableType: string): boolean {
+    return this.tables.has(scopeKey(entityType, tableType));
+  }
+
+  /** Open channels (leader tab) or close them all (follower). */
+  setActive(active: boolean): void {
+    if (this.active === active) return;
+    this.active = active;
+    if (active) {
+      for (const key of this.tables.keys()) this.schedule(key);
+    } else {
+      this.clearTimer();
+      this.pending.clear();
+      for (const key of [...this.channels.keys()]) void this.closeChannels(key);
+    }
+  }
+
+  /** Add a cached parent to the scope of a table. */
+  watch(entityType: string, tableType: string, parentId: string): void {
+    const key = scopeKey(entityType, tableType);
+    let scope = this.scopes.get(key);
+    if (!scope) {
+      scope = new Set();
+      this.scopes.set(key, scope);
+    }
+    if (scope.has(parentId)) return;
+    scope.add(parentId);
+    this.schedule(key);
+  }
+
+  /** Remove a parent whose cached children were evicted. */
+  unwatch(entityType: string, tableType: string, parentId: string): void {
+    const key = scopeKey(entityType, tableType);
+    const scope = this.scopes.get(key);
+    if (!scope?.delete(parentId)) return;
+    if (scope.size === 0) this.scopes.delete(key);
+    this.schedule(key);
+  }
+
+  getStatus(): ChildRealtimeStatus[] {
+    return [...this.tables.entries()].map(([key, table]) => ({
+      entityType: table.entityType,
+      tableType: table.tableType,
+      parents: this.scopes.get(key)?.size ?? 0,
+      channels: (this.channels.get(key) ?? []).map((open) => open.status),
+    }));
+  }
+
+  /** Apply pending scope changes now instead of after the debounce. */
+  flush(): Promise<void> {
+    this.clearTimer();
+    const keys = [...this.pending];
+    this.pending.clear();
+    this.flushing = this.flushing.then(async () => {
+      for (const key of keys) await this.resubscribe(key);
+    });
+    return this.flushing;
+  }
+
+  /** Close every channel and forget tables and scope. */
+  async destroy(): Promise<void> {
+    this.clearTimer();
+    this.pending.clear();
+    this.active = false;
+    await this.flushing;
+    for (const key of [...this.channels.keys()]) await this.closeChannels(key);
+    this.tables.clear();
+    this.scopes.clear();
+    this.handler = null;
+  }
+
+  private schedule(key: string): void {
+    if (!this.active || !this.tables.has(key)) return;
+    this.pending.add(key);
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.debounceMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async resubscribe(key: string): Promise<void> {
+    await this.closeChannels(key);
+    const table = this.tables.get(key);
+    const scope = this.scopes.get(key);
+    if (!this.active || !table || !scope || scope.size === 0) return;
+
+    const opened: OpenChannel[] = [];
+    for (const filter of buildParentFilters(table.parentField, scope, this.chunkSize)) {
+      const open: OpenChannel = {
+        status: 'CONNECTING',
+        channel: this.client.channel(`child-${table.tableType}-${++this.channelSeq}`),
+      };
+      open.channel
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: table.tableType, filter },
+          (payload) => this.dispatch(table, payload),
+        )
+        .subscribe((status) => {
+          open.status = status;
+        });
+      opened.push(open);
+    }
+    this.channels.set(key, opened);
+  }
+
+  private async closeChannels(key: string): Promise<void> {
+    const open = this.channels.get(key);
+    if (!open) return;
+    this.channels.delete(key);
+    await Promise.all(
+      open.map(({ channel }) =>
+        this.client.removeChannel(channel).catch((error: unknown) => {
+          console.warn(`[ChildRealtime] Failed to remove channel for ${key}:`, error);
+        }),
+      ),
+    );
+  }
+
+  private dispatch(table: ResolvedTable, payload: RealtimePayloadLike): void {
+    if (!this.handler) return;
+    const change: ChildRealtimeChange = {
+      entityType: table.entityType,
+      tableType: table.tableType,
+      parentField: table.parentField,
+      eventType: payload.eventType,
+      row: payload.eventType === 'DELETE' ? null : payload.new,
+      oldRow: payload.old ?? {},
+    };
+    void Promise.resolve(this.handler(change)).catch((error: unknown) => {
+      console.error(`[ChildRealtime] Failed to apply ${table.tableType} change:`, error);
+    });
+  }
+}
+
+// Singleton export
+export const childRealtimeService = new ChildRealtimeService();
@@ -0,0 +1,345 @@
+import {
+  buildFieldMigration,
+  diffSchemaFields,
+  getSchemaFieldSignature,
+  type SchemaFieldSignature,
+  type VersionedSchemaLike,
+} from '../utils/schema-migration';
+import type {
+  ChildSyncQueueDocument,
+  EntitySyncQueueDocument,
+} from '../collections/sync-queue.schema';
+import { getStorageCollectionKind } from './storage-manager.service';
+import { syncQueueService } from './sync-queue.service';
+
+/**
+ * DatabaseSnapshotService - export / import of the local RxDB.
+ *
+ * A snapshot is a versioned JSON file (optionally gzipped) with the
+ * documents of the chosen collections — entities, child collections,
+ * dictionaries, routes and both sync queues — plus each collection's
+ * schema version and field signature. Used to back up unsynced work and
+ * to hand a reproducible dataset to a developer.
+ *
+ * Import validates every collection against the current schema: a field
+ * set that changed since export is migrated with the same generated
+ * strategy as a schema bump (see utils/schema-migration), unknown fields
+ * are dropped and documents missing their primary key or a required field
+ * are rejected. Collections are merged (newer `updated_at` wins) or
+ * replaced. Sync queue items are never written directly — they are
+ * re-enqueued as fresh pending mutations.
+ */
+
+export const SNAPSHOT_FORMAT = 'breedhub-rxdb-snapshot';
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export type SnapshotImportMode = 'merge' | 'replace';
+
+type SnapshotDoc = Record<string, unknown>;
+
+export interface SnapshotCollection {
+  schemaVersion: number;
+  fields: SchemaFieldSignature;
+  docs: SnapshotDoc[];
+}
+
+export interface DatabaseSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  formatVersion: number;
+  /** ISO timestamp of the export */
+  createdAt: string;
+  collections: Record<string, SnapshotCollection>;
+}
+
+export interface SnapshotExport {
+  blob: Blob;
+  fileName: string;
+  /** Documents per exported collection */
+  counts: Record<string, number>;
+}
+
+export interface SnapshotCollectionReport {
+  name: string;
+  /** Documents written (or re-enqueued for sync queues) */
+  imported: number;
+  /** Merge: local copy was newer. Queues: a newer local edit is queued. */
+  skipped: number;
+  /** Failed validation against the current schema */
+  rejected: number;
+  /** Replace: local documents removed */
+  removed: number;
+  /** Set when the collection could not be imported at all */
+  error?: string;
+}
+
+export interface SnapshotImportReport {
+  createdAt: string;
+  collections: SnapshotCollectionReport[];
+}
+
+interface SnapshotSchemaLike extends VersionedSchemaLike {
+  primaryKey: string | { key: string };
+}
+
+interface SnapshotCollectionLike {
+  schema: { jsonSchema: SnapshotSchemaLike };
+  find(query?: { selector?: Record<string, unknown> }): {
+    exec(): Promise<Array<{ toJSON(): unknown; primary: string }>>;
+  };
+  bulkUpsert(docs: SnapshotDoc[]): Promise<unknown>;
+  bulkRemove(ids: string[]): Promise<unknown>;
+}
+
+interface DatabaseLike {
+  collections: Record<string, unknown>;
+}
+
+export interface SnapshotExportOptions {
+  /** Collections to export; all open collections when omitted */
+  collections?: string[];
+  gzip?: boolean;
+}
+
+export interface SnapshotImportOptions {
+  mode?: SnapshotImportMode;
+  /** Collections to import; everything in the file when omitted */
+  collections?: string[];
+  /** Open a collection that is not in the database yet (lazy child collections) */
+  resolveCollection?: (name: string) => Promise<unknown>;
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+function getPrimaryPath(schema: SnapshotSchemaLike): string {
+  return typeof schema.primaryKey === 'string' ? schema.primaryKey : schema.primaryKey.key;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function getSnapshotFileName(createdAt: string, gzip: boolean): string {
+  const stamp = createdAt.replace(/[:.]/g, '-');
+  return `breedhub-snapshot-${stamp}.json${gzip ? '.gz' : ''}`;
+}
+
+/** Check the envelope of a parsed file; throws on anything that is not a snapshot. */
+export function parseSnapshot(raw: unknown): DatabaseSnapshot {
+  if (!isRecord(raw) || raw.format !== SNAPSHOT_FORMAT) {
+    throw new Error('Not a BreedHub database snapshot');
+  }
+  if (typeof raw.formatVersion !== 'number' || raw.formatVersion > SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${String(raw.formatVersion)}`);
+  }
+  if (!isRecord(raw.collections)) {
+    throw new Error('Snapshot has no collections');
+  }
+  for (const [name, entry] of Object.entries(raw.collections)) {
+    if (!isRecord(entry) || !Array.isArray(entry.docs) || !isRecord(entry.fields)) {
+      throw new Error(`Snapshot collection ${name} is malformed`);
+    }
+  }
+  return raw as unknown as DatabaseSnapshot;
+}
+
+/**
+ * Bring exported documents to the current schema: migrate a changed field
+ * set, drop unknown fields, reject documents without a primary key or a
+ * required field.
+ */
+export function prepareSnapshotDocs(
+  entry: SnapshotCollection,
+  schema: SnapshotSchemaLike,
+): { docs: SnapshotDoc[]; rejected: number } {
+  const primaryPath = getPrimaryPath(schema);
+  const required = schema.required ?? [];
+  const migrate = buildFieldMigration(
+    diffSchemaFields(entry.fields, getSchemaFieldSignature(schema)),
+    schema.properties,
+  );
+
+  const docs: SnapshotDoc[] = [];
+  let rejected = 0;
+  for (const raw of entry.docs) {
+    try {
+      if (!isRecord(raw)) throw new Error('not an object');
+      const migrated = migrate(raw);
+      const doc: SnapshotDoc = {};
+      for (const field of Object.keys(schema.properties)) {
+        if (migrated[field] !== undefined) doc[field] = migrated[field];
+      }
+      if (typeof doc[primaryPath] !== 'string' || !doc[primaryPath]) {
+        throw new Error('missing primary key');
+      }
+      if (required.some((field) => doc[field] === undefined)) {
+        throw new Error('missing required field');
+      }
+      docs.push(doc);
+    } catch {
+      rejected += 1;
+    }
+  }
+  return { docs, rejected };
+}
+
+/** Serialize a snapshot to a JSON blob, gzipped when asked. */
+export async function encodeSnapshot(snapshot: DatabaseSnapshot, gzip = false): Promise<Blob> {
+  const json = new Blob([JSON.stringify(snapshot)], { type: 'application/json' });
+  if (!gzip) return json;
+  const stream = json.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Blob([await new Response(stream).arrayBuffer()], { type: 'application/gzip' });
+}
+
+/** Read a snapshot file; gzip is detected from the content, not the name. */
+export async function decodeSnapshot(data: Blob): Promise<DatabaseSnapshot> {
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  const gzipped = bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+  let text: string;
+  if (gzipped) {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    text = await new Response(stream).text();
+  } else {
+    text = new TextDecoder().decode(bytes);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Snapshot file is not valid JSON');
+  }
+  return parseSnapshot(raw);
+}
+
+export class DatabaseSnapshotService {
+  async exportSnapshot(
+    db: DatabaseLike,
+    options: SnapshotExportOptions = {},
+  ): Promise<SnapshotExport> {
+    const names = options.collections ?? Object.keys(db.collections);
+    const snapshot: DatabaseSnapshot = {
+      format: SNAPSHOT_FORMAT,
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      collections: {},
+    };
+    const counts: Record<string, number> = {};
+
+    for (const name of names) {
+      const collection = db.collections[name] as SnapshotCollectionLike | undefined;
+      if (!collection) continue;
+      const schema = collection.schema.jsonSchema;
+      const docs = (await collection.find().exec()).map((doc) => doc.toJSON() as SnapshotDoc);
+      snapshot.collections[name] = {
+        schemaVersion: schema.version,
+        fields: getSchemaFieldSignature(schema),
+        docs,
+      };
+      counts[name] = docs.length;
+    }
+
+    const gzip = options.gzip ?? false;
+    return {
+      blob: await encodeSnapshot(snapshot, gzip),
+      fileName: getSnapshotFileName(snapshot.createdAt, gzip),
+      counts,
+    };
+  }
+
+  async importSnapshot(
+    db: DatabaseLike,
+    data: Blob,
+    options: SnapshotImportOptions = {},
+  ): Promise<SnapshotImportReport> {
+    const snapshot = await decodeSnapshot(data);
+    const mode = options.mode ?? 'merge';
+    const names = options.collections
+      ?? Object.keys(snapshot.collections);
+    const reports: SnapshotCollectionReport[] = [];
+
+    for (const name of names) {
+      const entry = snapshot.collections[name];
+      if (!entry) continue;
+      const report: SnapshotCollectionReport = {
+        name,
+        imported: 0,
+        skipped: 0,
+        rejected: 0,
+        removed: 0,
+      };
+      reports.push(report);
+
+      try {
+        const collection = (db.collections[name]
+          ?? (await options.resolveCollection?.(name))) as SnapshotCollectionLike | undefined;
+        if (!collection) {
+          report.error = 'Collection is not available in this app version';
+          continue;
+        }
+
+        const { docs, rejected } = prepareSnapshotDocs(entry, collection.schema.jsonSchema);
+        report.rejected = rejected;
+
+        if (getStorageCollectionKind(name) === 'queue') {
+          const kind = name === 'child_sync_queue' ? 'child' : 'entity';
+          report.imported = await syncQueueService.requeue(
+            kind,
+            docs as unknown as Array<EntitySyncQueueDocument & ChildSyncQueueDocument>,
+          );
+          report.skipped = docs.length - report.imported;
+          continue;
+        }
+
+        await this.writeDocs(collection, docs, mode, report);
+      } catch (error) {
+        console.error(`[DatabaseSnapshot] Failed to import ${name}:`, error);
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return { createdAt: snapshot.createdAt, collections: reports };
+  }
+
+  private async writeDocs(
+    collection: SnapshotCollectionLike,
+    docs: SnapshotDoc[],
+    mode: SnapshotImportMode,
+    report: SnapshotCollectionReport,
+  ): Promise<void> {
+    const primaryPath = getPrimaryPath(collection.schema.jsonSchema);
+    const incomingIds = new Set(docs.map((doc) => doc[primaryPath] as string));
+
+    if (mode === 'replace') {
+      const stale = (await collection.find().exec())
+        .map((doc) => doc.primary)
+        .filter((id) => !incomingIds.has(id));
+      if (stale.length > 0) await collection.bulkRemove(stale);
+      report.removed = stale.length;
+      if (docs.length > 0) await collection.bulkUpsert(docs);
+      report.imported = docs.length;
+      return;
+    }
+
+    // Merge: keep the local copy when it was updated after the exported one
+    const local = new Map<string, SnapshotDoc>();
+    if (docs.length > 0) {
+      const existing = await collection
+        .find({ selector: { [primaryPath]: { $in: [...incomingIds] } } })
+        .exec();
+      for (const doc of existing) local.set(doc.primary, doc.toJSON() as SnapshotDoc);
+    }
+    const newer = docs.filter((doc) => {
+      const current = local.get(doc[primaryPath] as string);
+      if (!current) return true;
+      const currentAt = typeof current.updated_at === 'string' ? current.updated_at : '';
+      const incomingAt = typeof doc.updated_at === 'string' ? doc.updated_at : '';
+      return incomingAt >= currentAt;
+    });
+    if (newer.length > 0) await collection.bulkUpsert(newer);
+    report.imported = newer.length;
+    report.skipped = docs.length - newer.length;
+  }
+}
+
+// Singleton export
+export const databaseSnapshotService = new DatabaseSnapshotService();
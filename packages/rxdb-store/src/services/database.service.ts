@@ -18,7 +18,9 @@ import { dictionariesSchema } from '../collections/dictionaries.schema';
 import type { DictionaryCollection } from '../stores/dictionary-store.signal-store';
 import {
   entitySyncQueueSchema,
+  entitySyncQueueMigrationStrategies,
   childSyncQueueSchema,
+  childSyncQueueMigrationStrategies,
   dictionarySyncQueueSchema,
   type EntitySyncQueueDocument,
   type ChildSyncQueueDocument,
@@ -147,9 +149,11 @@ class DatabaseService {
       const collectionsToAdd = {
         entity_sync_queue: {
           schema: entitySyncQueueSchema,
+          migrationStrategies: entitySyncQueueMigrationStrategies,
         },
         child_sync_queue: {
           schema: childSyncQueueSchema,
+          migrationStrategies: childSyncQueueMigrationStrategies,
         },
         dictionary_sync_queue: {
           schema: dictionarySyncQueueSchema,
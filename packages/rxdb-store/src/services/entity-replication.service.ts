@@ -2,6 +2,8 @@ import { replicateRxCollection, RxReplicationState } from 'rxdb/plugins/replicat
 import { RxCollection, RxDatabase } from 'rxdb';
 import { BusinessEntity } from '../types/business-entity.types';
 import { supabase } from '../supabase/client';
+import { leaderElectionService } from './leader-election.service';
+import { syncQueueService } from './sync-queue.service';
 import {
   buildSupabaseSelectFromRxDBSchema,
   findDocumentByPrimaryKey,
@@ -22,6 +24,32 @@ export interface ReplicationOptions {
   customConflictHandler?: (conflict: Record<string, any>) => Promise<Record<string, any>>;
 }
 
+/** Supabase realtime channel status as reported to `subscribe()`. */
+export type RealtimeChannelStatus =
+  | 'CONNECTING'
+  | 'SUBSCRIBED'
+  | 'TIMED_OUT'
+  | 'CLOSED'
+  | 'CHANNEL_ERROR';
+
+export type ReplicationRunState = 'inactive' | 'running' | 'paused' | 'stopped';
+
+/** Snapshot of one entity's replication for the diagnostics panel. */
+export interface ReplicationDiagnostics {
+  entityType: string;
+  state: ReplicationRunState;
+  /** Last pull handler or manualPull round-trip that reached Supabase */
+  lastPullAt: string | null;
+  /** When the server total was last fetched */
+  lastSync: string | null;
+  lastCheckpoint: Record<string, unknown> | null;
+  /** Server total from memory or the cached totalCount entry */
+  serverTotal: number;
+  activeRequests: number;
+  /** null when realtime is disabled or the channel was never created */
+  realtimeStatus: RealtimeChannelStatus | null;
+}
+
 export interface EntityMapping {
   rxdbToSupabase?: (doc: Record<string, any>) => Record<string, any>;
   supabaseToRxdb?: (doc: Record<string, any>) => Record<string, any>;
@@ -33,7 +61,10 @@ export interface EntityMapping {
  */
 export class EntityReplicationService {
   private replicationStates: Map<string, RxReplicationState<any, any>> = new Map();
+  private leadershipUnsubscribers: Map<string, () => void> = new Map();
   private realtimeChannels: Map<string, any> = new Map();
+  private realtimeStatuses: Map<string, RealtimeChannelStatus> = new Map();
+  private lastPullAt: Map<string, string> = new Map();
   private supabase = supabase; // Shared singleton — has auth session + auto-refresh
   private activeRequests: Map<string, number> = new Map();
   private maxConcurrentRequests = 3;
@@ -52,6 +83,30 @@ export class EntityReplicationService {
     return mapSupabaseToRxDBDoc(supabaseDoc, schema);
   }
 
+  /**
+   * Map pulled Supabase rows to RxDB documents, folding in local edits still
+   * waiting in the sync queue: a row that is newer than the edit's base gets
+   * merged three-way (see SyncQueueService.rebaseOnServerRows), so the local
+   * document keeps the user's fields and takes the server's other changes
+   * instead of being overwritten wholesale. The server `updated_at` is kept
+   * for checkpoints and staleness checks.
+   */
+  private async mapPulledRows(
+    entityType: string,
+    rows: Record<string, unknown>[],
+    schema?: { properties?: Record<string, unknown> }
+  ): Promise<ReturnType<typeof mapSupabaseToRxDBDoc>[]> {
+    const merged = await syncQueueService.rebaseOnServerRows(entityType, rows);
+    return rows.map((row) => {
+      const local = merged.get(String(row.id));
+      return this.mapSupabaseToRxDB(
+        entityType,
+        local ? { ...local, updated_at: row.updated_at } : row,
+        schema
+      );
+    });
+  }
+
   /**
    * Map RxDB document to Supabase format
    */
@@ -116,8 +171,11 @@ export class EntityReplicationService {
         deletedField: '_deleted',
         live: true,  // Потрібно для throttling логіки
         retryTime: options.pullInterval || 5 * 1000, // 5 секунд між спробами
+        // replicateRxCollection adds RxDB's leader-election plugin, but tabs
+        // follow LeaderElectionService instead so replication and the sync
+        // queue share one leader — only that tab pulls.
         waitForLeadership: false,
-        autoStart: true,
+        autoStart: leaderElectionService.isLeader.value,
 
         pull: {
           handler: async (checkpointOrNull, batchSize) => {
@@ -178,6 +236,8 @@ export class EntityReplicationService {
                 };
               }
 
+              this.lastPullAt.set(entityType, new Date().toISOString());
+
               // Get total count (завжди при першому pull або якщо немає в metadata)
               let totalCount: number | undefined;
               const hasMetadata = this.entityMetadata.has(entityType);
@@ -236,8 +296,10 @@ export class EntityReplicationService {
                 totalCount = this.entityMetadata.get(entityType)?.total;
               }
 
-              const documents = (data || []).map(doc =>
-                this.mapSupabaseToRxDB(entityType, doc, schema)
+              const documents = await this.mapPulledRows(
+                entityType,
+                (data || []) as unknown as Record<string, unknown>[],
+                schema
               );
 
               // Check if we got full batch (meaning there might be more)
@@ -348,6 +410,16 @@ export class EntityReplicationService {
 
       // Store replication state
       this.replicationStates.set(entityType, replicationState);
+      this.leadershipUnsubscribers.set(
+        entityType,
+        leaderElectionService.onLeadershipChange((isLeader) => {
+          if (isLeader) {
+            void replicationState.start();
+          } else {
+            void replicationState.pause();
+          }
+        }),
+      );
 
       // Setup error handling
       replicationState.error$.subscribe((error: any) => {
@@ -401,10 +473,8 @@ export class EntityReplicationService {
             if (!collection) return;
 
             if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
-              const supabaseDoc = payload.new;
-              const rxdbDoc = this.mapSupabaseToRxDB(entityType, supabaseDoc, schema);
-
               try {
+                const [rxdbDoc] = await this.mapPulledRows(entityType, [payload.new], schema);
                 const existing = await findDocumentByPrimaryKey(collection, rxdbDoc.id);
 
                 if (existing) {
@@ -435,7 +505,9 @@ export class EntityReplicationService {
             }
           }
         )
-        .subscribe();
+        .subscribe((status: RealtimeChannelStatus) => {
+          this.realtimeStatuses.set(entityType, status);
+        });
 
       this.realtimeChannels.set(entityType, channel);
     } catch (error) {
@@ -458,6 +530,8 @@ export class EntityReplicationService {
       await replicationState.cancel();
       this.replicationStates.delete(entityType);
     }
+    this.leadershipUnsubscribers.get(entityType)?.();
+    this.leadershipUnsubscribers.delete(entityType);
 
     // Remove realtime channel
     const channel = this.realtimeChannels.get(entityType);
@@ -465,6 +539,7 @@ export class EntityReplicationService {
       await this.supabase.removeChannel(channel);
       this.realtimeChannels.delete(entityType);
     }
+    this.realtimeStatuses.delete(entityType);
 
     // Reset counters
     this.activeRequests.delete(entityType);
@@ -526,7 +601,7 @@ export class EntityReplicationService {
         const rows = (data || []) as Array<Record<string, any>>;
         if (rows.length === 0) break;
 
-        const mapped = rows.map(doc => this.mapSupabaseToRxDB(entityType, doc, schema));
+        const mapped = await this.mapPulledRows(entityType, rows, schema);
         await collection.bulkUpsert(mapped);
 
         totalSynced += rows.length;
@@ -559,6 +634,50 @@ export class EntityReplicationService {
     return this.replicationStates.get(entityType);
   }
 
+  /**
+   * Entity types with an active replication
+   */
+  getReplicatedEntityTypes(): string[] {
+    return [...this.replicationStates.keys()];
+  }
+
+  /**
+   * Snapshot of replication state for the diagnostics panel
+   */
+  getDiagnostics(entityType: string): ReplicationDiagnostics {
+    const replicationState = this.replicationStates.get(entityType);
+    const metadata = this.entityMetadata.get(entityType);
+
+    let state: ReplicationRunState = 'inactive';
+    if (replicationState) {
+      state = replicationState.isStopped()
+        ? 'stopped'
+        : replicationState.isPaused() ? 'paused' : 'running';
+    }
+
+    let lastCheckpoint = metadata?.lastCheckpoint ?? null;
+    if (!lastCheckpoint) {
+      try {
+        const cached = localStorage.getItem(`checkpoint_${entityType}`);
+        lastCheckpoint = cached ? JSON.parse(cached) : null;
+      } catch {
+        lastCheckpoint = null;
+      }
+    }
+
+    return {
+      entityType,
+      state,
+      lastPullAt: this.lastPullAt.get(entityType) ?? null,
+      lastSync: metadata?.lastSync ?? null,
+      lastCheckpoint,
+      serverTotal: this.getTotalCount(entityType),
+      activeRequests: this.activeRequests.get(entityType) ?? 0,
+      realtimeStatus: this.realtimeStatuses.get(entityType)
+        ?? (this.realtimeChannels.has(entityType) ? 'CONNECTING' : null),
+    };
+  }
+
   /**
    * Subscribe to totalCount updates
    * @param entityType - тип сутності
@@ -715,12 +834,18 @@ export class EntityReplicationService {
         return 0;
       }
 
+      this.lastPullAt.set(entityType, new Date().toISOString());
+
       if (!data || data.length === 0) {
         return 0;
       }
 
       // Map Supabase documents to RxDB format
-      const documents = data.map(doc => this.mapSupabaseToRxDB(entityType, doc, schema));
+      const documents = await this.mapPulledRows(
+        entityType,
+        data as unknown as Record<string, unknown>[],
+        schema
+      );
 
       // Use bulkUpsert for batch insert to avoid multiple UI updates
       try {
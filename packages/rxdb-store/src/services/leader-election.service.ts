@@ -0,0 +1,371 @@
+import { signal } from '@preact/signals-react';
+
+/**
+ * LeaderElectionService - picks exactly one browser tab to run background sync.
+ *
+ * The RxDB database is shared between tabs (`multiInstance: true`), so queue
+ * draining and background pulls must run in one tab only — otherwise two tabs
+ * read the same queue items and push them twice.
+ *
+ * Where the Web Locks API exists, leadership is an exclusive lock held until
+ * the tab stops: the browser hands it to the next waiting tab when the leader
+ * closes or crashes, and throttled background timers can't cause a false
+ * failover. The BroadcastChannel only tells tabs who leads — the new leader
+ * announces itself, and a joining tab's `claim` is answered by the leader.
+ *
+ * Without Web Locks, tabs elect over the BroadcastChannel:
+ *
+ * - A starting tab posts `claim` and listens for CLAIM_WINDOW_MS. A live
+ *   leader answers with a heartbeat; a competing claim with a lower tabId
+ *   wins the tie. Otherwise the tab becomes leader.
+ * - The leader posts a heartbeat every HEARTBEAT_MS. Followers re-elect when
+ *   heartbeats stop for LEADER_TIMEOUT_MS (crashed tab) or immediately on
+ *   `resign` (tab closed via pagehide). The timeout outlasts the one-per-
+ *   minute timer budget browsers give hidden tabs, so a throttled leader
+ *   isn't voted out.
+ * - Two leaders (e.g. after a network partition between windows) resolve by
+ *   tabId: the higher one steps down on the other's heartbeat.
+ *
+ * Besides election, the channel carries app messages (`broadcast` /
+ * `onMessage`) so followers can mirror the leader's sync state.
+ *
+ * A page put into the back/forward cache leaves the election on `pagehide`
+ * and rejoins on `pageshow`.
+ */
+
+const CHANNEL_NAME = 'breedhub-leader-election';
+const HEARTBEAT_MS = 5_000;
+const LEADER_TIMEOUT_MS = 75_000;
+const CLAIM_WINDOW_MS = 300;
+
+/** Subset of BroadcastChannel the election needs — lets tests pass a fake. */
+export interface LeaderElectionChannel {
+  postMessage(message: unknown): void;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  close(): void;
+}
+
+/** Subset of navigator.locks the election needs — lets tests pass a fake. */
+export interface LeaderElectionLocks {
+  request(
+    name: string,
+    options: { signal?: AbortSignal },
+    callback: () => Promise<void>,
+  ): Promise<unknown>;
+}
+
+export interface LeaderElectionOptions {
+  /** Name of the BroadcastChannel and of the leader lock. */
+  channelName?: string;
+  /** Returns null when cross-tab messaging is unavailable (single-tab mode). */
+  createChannel?: (name: string) => LeaderElectionChannel | null;
+  /** Web Locks; null elects by heartbeats over the channel instead. */
+  locks?: LeaderElectionLocks | null;
+  tabId?: string;
+}
+
+type ElectionMessage =
+  | { kind: 'claim'; tabId: string }
+  | { kind: 'heartbeat'; tabId: string }
+  | { kind: 'resign'; tabId: string }
+  | { kind: 'app'; tabId: string; topic: string; payload: unknown };
+
+function defaultCreateChannel(name: string): LeaderElectionChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  return new BroadcastChannel(name) as unknown as LeaderElectionChannel;
+}
+
+function defaultLocks(): LeaderElectionLocks | null {
+  if (typeof navigator === 'undefined' || !navigator.locks) return null;
+  return navigator.locks as unknown as LeaderElectionLocks;
+}
+
+function isElectionMessage(data: unknown): data is ElectionMessage {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as { kind?: unknown }).kind === 'string' &&
+    typeof (data as { tabId?: unknown }).tabId === 'string'
+  );
+}
+
+export class LeaderElectionService {
+  readonly tabId: string;
+  /** True while this tab runs background sync. */
+  readonly isLeader = signal<boolean>(false);
+  /** tabId of the current leader (this tab or another), null while electing. */
+  readonly leaderId = signal<string | null>(null);
+
+  private readonly channelName: string;
+  private readonly createChannel: (name: string) => LeaderElectionChannel | null;
+  private readonly locks: LeaderElectionLocks | null;
+  private channel: LeaderElectionChannel | null = null;
+  private started = false;
+  private lockAbort: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private electionTimer: ReturnType<typeof setTimeout> | null = null;
+  private leadershipCallbacks: Array<(isLeader: boolean) => void> = [];
+  private messageHandlers = new Map<string, Array<(payload: unknown) => void>>();
+  private readyWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+
+  private readonly handlePageHide = (event: PageTransitionEvent) => {
+    this.stop();
+    // Kept in the back/forward cache — rejoin when the page is shown again
+    if (event.persisted) window.addEventListener('pageshow', this.handlePageShow);
+  };
+
+  private readonly handlePageShow = (event: PageTransitionEvent) => {
+    if (event.persisted) this.start();
+  };
+
+  constructor(options: LeaderElectionOptions = {}) {
+    this.channelName = options.channelName ?? CHANNEL_NAME;
+    this.createChannel = options.createChannel ?? defaultCreateChannel;
+    this.locks = options.locks === undefined ? defaultLocks() : options.locks;
+    this.tabId = options.tabId ?? crypto.randomUUID();
+  }
+
+  /** Join the election. Idempotent. */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.channel = this.createChannel(this.channelName);
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pageshow', this.handlePageShow);
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+
+    if (this.locks) {
+      if (this.channel) {
+        this.channel.onmessage = (event) => this.handleMessage(event.data);
+        // Ask the current leader to announce itself
+        this.post({ kind: 'claim', tabId: this.tabId });
+      }
+      this.requestLock(this.locks);
+      return;
+    }
+
+    if (!this.channel) {
+      // No BroadcastChannel (old browser, SSR) — this is the only tab we know of
+      this.becomeLeader();
+      return;
+    }
+
+    this.channel.onmessage = (event) => this.handleMessage(event.data);
+    this.elect();
+  }
+
+  /** Leave the election; a leader hands off to the remaining tabs. */
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    if (this.isLeader.value) {
+      this.post({ kind: 'resign', tabId: this.tabId });
+    }
+    this.clearTimers();
+    this.lockAbort?.abort();
+    this.lockAbort = null;
+    this.releaseLock?.();
+    this.releaseLock = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+      window.removeEventListener('pageshow', this.handlePageShow);
+    }
+    this.channel?.close();
+    this.channel = null;
+    this.setLeader(false);
+    this.leaderId.value = null;
+    this.rejectReady(new Error('Leader election stopped'));
+  }
+
+  /**
+   * Resolves once a leader is known — this tab or another one. Rejects when
+   * the service is stopped (or not started), since no leader will follow.
+   */
+  whenElected(): Promise<void> {
+    if (this.leaderId.value) return Promise.resolve();
+    if (!this.started) return Promise.reject(new Error('Leader election is not running'));
+    return new Promise((resolve, reject) => this.readyWaiters.push({ resolve, reject }));
+  }
+
+  /** Fires on every leadership transition of this tab. Returns an unsubscribe function. */
+  onLeadershipChange(callback: (isLeader: boolean) => void): () => void {
+    this.leadershipCallbacks.push(callback);
+    return () => {
+      const idx = this.leadershipCallbacks.indexOf(callback);
+      if (idx > -1) this.leadershipCallbacks.splice(idx, 1);
+    };
+  }
+
+  /** Send an app message to every other tab (not echoed back to this one). */
+  broadcast(topic: string, payload?: unknown): void {
+    this.post({ kind: 'app', tabId: this.tabId, topic, payload });
+  }
+
+  /** Subscribe to app messages from other tabs. Returns an unsubscribe function. */
+  onMessage(topic: string, handler: (payload: unknown) => void): () => void {
+    const handlers = this.messageHandlers.get(topic) ?? [];
+    handlers.push(handler);
+    this.messageHandlers.set(topic, handlers);
+    return () => {
+      const current = this.messageHandlers.get(topic);
+      if (!current) return;
+      const idx = current.indexOf(handler);
+      if (idx > -1) current.splice(idx, 1);
+    };
+  }
+
+  // --- Election ---
+
+  /** Queue for the leader lock; the callback holds it until stop() releases it. */
+  private requestLock(locks: LeaderElectionLocks): void {
+    const abort = new AbortController();
+    this.lockAbort = abort;
+    locks
+      .request(this.channelName, { signal: abort.signal }, () => {
+        if (abort.signal.aborted) return Promise.resolve();
+        this.lockAbort = null;
+        return new Promise<void>((release) => {
+          this.releaseLock = release;
+          this.becomeLeader();
+        });
+      })
+      .catch((e: unknown) => {
+        if (!abort.signal.aborted) console.error('[LeaderElection] Lock request failed:', e);
+      });
+  }
+
+  private elect(): void {
+    this.leaderId.value = null;
+    this.post({ kind: 'claim', tabId: this.tabId });
+    this.scheduleElection(CLAIM_WINDOW_MS, () => this.becomeLeader());
+  }
+
+  private handleMessage(data: unknown): void {
+    if (!isElectionMessage(data) || data.tabId === this.tabId) return;
+
+    switch (data.kind) {
+      case 'claim':
+        if (this.isLeader.value) {
+          // Tell the newcomer who leads
+          this.post({ kind: 'heartbeat', tabId: this.tabId });
+        } else if (!this.leaderId.value && data.tabId < this.tabId) {
+          // Competing claim wins the tie — wait for its heartbeat, re-elect if it never comes
+          this.scheduleElection(LEADER_TIMEOUT_MS, () => this.elect());
+        }
+        break;
+      case 'heartbeat':
+        if (this.isLeader.value && this.locks) {
+          // The lock guarantees a single leader — answer instead of stepping down
+          this.post({ kind: 'heartbeat', tabId: this.tabId });
+        } else if (this.isLeader.value) {
+          if (data.tabId < this.tabId) {
+            console.warn('[LeaderElection] Another leader outranks this tab — stepping down');
+            this.becomeFollower(data.tabId);
+          } else {
+            this.post({ kind: 'heartbeat', tabId: this.tabId });
+          }
+        } else {
+          this.becomeFollower(data.tabId);
+        }
+        break;
+      case 'resign':
+        if (!this.isLeader.value && this.leaderId.value === data.tabId) {
+          // With locks the next tab in the lock queue announces itself
+          if (this.locks) this.leaderId.value = null;
+          else this.elect();
+        }
+        break;
+      case 'app':
+        for (const handler of this.messageHandlers.get(data.topic) ?? []) {
+          try {
+            handler(data.payload);
+          } catch (e) {
+            console.error(`[LeaderElection] '${data.topic}' handler threw:`, e);
+          }
+        }
+        break;
+    }
+  }
+
+  private becomeLeader(): void {
+    this.clearTimers();
+    this.leaderId.value = this.tabId;
+    this.post({ kind: 'heartbeat', tabId: this.tabId });
+    if (this.channel && !this.locks) {
+      this.heartbeatInterval = setInterval(
+        () => this.post({ kind: 'heartbeat', tabId: this.tabId }),
+        HEARTBEAT_MS,
+      );
+    }
+    this.setLeader(true);
+    this.resolveReady();
+  }
+
+  private becomeFollower(leaderId: string): void {
+    this.clearTimers();
+    this.leaderId.value = leaderId;
+    // Watchdog — re-armed on every heartbeat (the lock needs none)
+    if (!this.locks) this.scheduleElection(LEADER_TIMEOUT_MS, () => this.elect());
+    this.setLeader(false);
+    this.resolveReady();
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (this.isLeader.value === isLeader) return;
+    this.isLeader.value = isLeader;
+    console.log(`[LeaderElection] Tab ${this.tabId.slice(0, 8)} is now ${isLeader ? 'leader' : 'follower'}`);
+    for (const cb of this.leadershipCallbacks) {
+      try {
+        cb(isLeader);
+      } catch (e) {
+        console.error('[LeaderElection] leadership callback threw:', e);
+      }
+    }
+  }
+
+  private resolveReady(): void {
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    for (const { resolve } of waiters) resolve();
+  }
+
+  private rejectReady(error: Error): void {
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    for (const { reject } of waiters) reject(error);
+  }
+
+  private scheduleElection(delayMs: number, action: () => void): void {
+    if (this.electionTimer) clearTimeout(this.electionTimer);
+    this.electionTimer = setTimeout(() => {
+      this.electionTimer = null;
+      action();
+    }, delayMs);
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    if (this.electionTimer) {
+      clearTimeout(this.electionTimer);
+      this.electionTimer = null;
+    }
+  }
+
+  private post(message: ElectionMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (e) {
+      console.error('[LeaderElection] postMessage failed:', e);
+    }
+  }
+}
+
+// Singleton export
+export const leaderElectionService = new LeaderElectionService();
@@ -0,0 +1,274 @@
+import { signal, type ReadonlySignal, type Signal } from '@preact/signals-react';
+import { supabase } from '../supabase/client';
+import {
+  collectPresenceMembers,
+  getPresenceTopic,
+  resolvePresenceMode,
+  type PresenceMember,
+  type PresenceMode,
+  type PresenceSaveEvent,
+  type PresenceState,
+} from '../utils/presence.helpers';
+
+/**
+ * PresenceService - who else has an entity page open.
+ *
+ * Entity pages `enter` the entity's topic while mounted and say whether
+ * they only view it or have an edit form open. Everyone on the topic sees
+ * the other sessions as `members`; a session that saves the entity
+ * broadcasts it (`announceSave`) so open edit forms can warn their user
+ * before they overwrite the new version.
+ *
+ * The wire is a PresenceTransport: Supabase Realtime presence + broadcast
+ * in the app, InMemoryPresenceTransport in tests. Several pages of one tab
+ * on the same entity (e.g. drawer + fullscreen) share one tracked state;
+ * the session is editing while any of them is.
+ */
+
+const SAVE_EVENT = 'saved';
+
+export interface PresenceIdentity {
+  userId: string | null;
+  name: string | null;
+  avatar: string | null;
+}
+
+export interface PresenceTransportHandlers {
+  /** Full state of the topic, own session included */
+  onSync(states: PresenceState[]): void;
+  onSave(event: PresenceSaveEvent): void;
+}
+
+export interface PresenceConnection {
+  track(state: PresenceState): Promise<void>;
+  sendSave(event: PresenceSaveEvent): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface PresenceTransport {
+  open(topic: string, handlers: PresenceTransportHandlers): PresenceConnection;
+}
+
+export interface PresenceHandle {
+  /** Other sessions on the entity, collapsed per user */
+  members: ReadonlySignal<PresenceMember[]>;
+  setMode(mode: PresenceMode): void;
+  /** Listen for saves of the entity by other sessions; returns the unsubscribe. */
+  onRemoteSave(listener: (event: PresenceSaveEvent) => void): () => void;
+  leave(): void;
+}
+
+interface PresenceRoom {
+  topic: string;
+  connection: PresenceConnection;
+  members: Signal<PresenceMember[]>;
+  holders: Map<number, PresenceMode>;
+  identity: PresenceIdentity;
+  since: string;
+  saveListeners: Set<(event: PresenceSaveEvent) => void>;
+}
+
+/** Supabase Realtime channel per topic: presence for members, broadcast for saves. */
+export function createSupabasePresenceTransport(client = supabase): PresenceTransport {
+  return {
+    open(topic, handlers) {
+      let latest: PresenceState | null = null;
+      let subscribed = false;
+      const channel = client.channel(topic);
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<PresenceState>();
+          handlers.onSync(Object.values(state).flat());
+        })
+        .on('broadcast', { event: SAVE_EVENT }, (message) => {
+          handlers.onSave(message.payload as PresenceSaveEvent);
+        })
+        .subscribe((status) => {
+          subscribed = status === 'SUBSCRIBED';
+          if (subscribed && latest) void channel.track(latest);
+        });
+
+      return {
+        async track(state) {
+          latest = state;
+          if (subscribed) await channel.track(state);
+        },
+        async sendSave(event) {
+          if (!subscribed) return;
+          await channel.send({ type: 'broadcast', event: SAVE_EVENT, payload: event });
+        },
+        async close() {
+          await client.removeChannel(channel);
+        },
+      };
+    },
+  };
+}
+
+/**
+ * In-process stand-in for Supabase presence: every PresenceService built on
+ * the same instance sees the others, with synchronous delivery.
+ */
+export class InMemoryPresenceTransport implements PresenceTransport {
+  private topics = new Map<string, Map<PresenceTransportHandlers, PresenceState | null>>();
+
+  open(topic: string, handlers: PresenceTransportHandlers): PresenceConnection {
+    let peers = this.topics.get(topic);
+    if (!peers) {
+      peers = new Map();
+      this.topics.set(topic, peers);
+    }
+    peers.set(handlers, null);
+    const room = peers;
+
+    return {
+      track: async (state) => {
+        room.set(handlers, state);
+        this.sync(room);
+      },
+      sendSave: async (event) => {
+        for (const peer of room.keys()) {
+          if (peer !== handlers) peer.onSave(event);
+        }
+      },
+      close: async () => {
+        room.delete(handlers);
+        if (room.size === 0) this.topics.delete(topic);
+        this.sync(room);
+      },
+    };
+  }
+
+  private sync(room: Map<PresenceTransportHandlers, PresenceState | null>): void {
+    const states = [...room.values()].filter((state): state is PresenceState => state !== null);
+    for (const peer of room.keys()) peer.onSync(states);
+  }
+}
+
+export class PresenceService {
+  /** Identifies this tab on every topic */
+  readonly sessionId: string = crypto.randomUUID();
+  private readonly transport: PresenceTransport;
+  private rooms = new Map<string, PresenceRoom>();
+  private holderSeq = 0;
+
+  constructor(options: { transport?: PresenceTransport } = {}) {
+    this.transport = options.transport ?? createSupabasePresenceTransport();
+  }
+
+  /** Join an entity's topic for as long as the page is mounted. */
+  enter(
+    entityType: string,
+    entityId: string,
+    identity: PresenceIdentity,
+    mode: PresenceMode = 'viewing',
+  ): PresenceHandle {
+    const topic = getPresenceTopic(entityType, entityId);
+    const room = this.rooms.get(topic) ?? this.openRoom(topic, identity);
+    room.identity = identity;
+    const holderId = ++this.holderSeq;
+    room.holders.set(holderId, mode);
+    this.publish(room);
+
+    let left = false;
+    return {
+      members: room.members,
+      setMode: (next) => {
+        if (left || room.holders.get(holderId) === next) return;
+        room.holders.set(holderId, next);
+        this.publish(room);
+      },
+      onRemoteSave: (listener) => {
+        room.saveListeners.add(listener);
+        return () => {
+          room.saveListeners.delete(listener);
+        };
+      },
+      leave: () => {
+        if (left) return;
+        left = true;
+        room.holders.delete(holderId);
+        if (room.holders.size === 0) {
+          this.closeRoom(room);
+        } else {
+          this.publish(room);
+        }
+      },
+    };
+  }
+
+  /**
+   * Tell the other sessions on the entity that this tab just saved it.
+   * No-op unless a page of this tab has the entity open.
+   */
+  announceSave(entityType: string, entityId: string, updatedAt: string): void {
+    const room = this.rooms.get(getPresenceTopic(entityType, entityId));
+    if (!room) return;
+    const event: PresenceSaveEvent = {
+      sessionId: this.sessionId,
+      userId: room.identity.userId,
+      name: room.identity.name,
+      updatedAt,
+    };
+    room.connection.sendSave(event).catch((error: unknown) => {
+      console.warn(`[Presence] Failed to announce save on ${room.topic}:`, error);
+    });
+  }
+
+  /** Leave every topic (sign-out, tests). */
+  destroy(): void {
+    for (const room of [...this.rooms.values()]) this.closeRoom(room);
+  }
+
+  private openRoom(topic: string, identity: PresenceIdentity): PresenceRoom {
+    const members = signal<PresenceMember[]>([]);
+    const saveListeners = new Set<(event: PresenceSaveEvent) => void>();
+    const connection = this.transport.open(topic, {
+      onSync: (states) => {
+        members.value = collectPresenceMembers(states, this.sessionId);
+      },
+      onSave: (event) => {
+        if (event.sessionId === this.sessionId) return;
+        for (const listener of saveListeners) listener(event);
+      },
+    });
+    const room: PresenceRoom = {
+      topic,
+      connection,
+      members,
+      holders: new Map(),
+      identity,
+      since: new Date().toISOString(),
+      saveListeners,
+    };
+    this.rooms.set(topic, room);
+    return room;
+  }
+
+  private closeRoom(room: PresenceRoom): void {
+    // Already closed by destroy() — a newer room may hold the topic by now
+    if (this.rooms.get(room.topic) !== room) return;
+    this.rooms.delete(room.topic);
+    room.saveListeners.clear();
+    room.members.value = [];
+    room.connection.close().catch((error: unknown) => {
+      console.warn(`[Presence] Failed to leave ${room.topic}:`, error);
+    });
+  }
+
+  private publish(room: PresenceRoom): void {
+    if (this.rooms.get(room.topic) !== room) return;
+    const state: PresenceState = {
+      sessionId: this.sessionId,
+      ...room.identity,
+      mode: resolvePresenceMode(room.holders.values()),
+      since: room.since,
+    };
+    room.connection.track(state).catch((error: unknown) => {
+      console.warn(`[Presence] Failed to track presence on ${room.topic}:`, error);
+    });
+  }
+}
+
+// Singleton export
+export const presenceService = new PresenceService();
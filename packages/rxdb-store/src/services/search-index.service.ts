@@ -0,0 +1,377 @@
+import { getChildField } from '../stores/space-child.helpers';
+import {
+  SearchIndex,
+  type SearchHit,
+  type SearchIndexField,
+} from '../utils/search-index';
+
+/**
+ * SearchIndexService - local full-text search over cached entities.
+ *
+ * One SearchIndex per entity type, built lazily on the first search from
+ * the RxDB collection and kept current from the collection's change
+ * stream (and the child collection for identifiers). What is indexed per
+ * entity type is SEARCH_INDEX_SOURCES:
+ *
+ * - own text fields (name, owner / federation name, …);
+ * - references — the name of a cached entity a FK points at (the pet's
+ *   kennel), looked up when the row is indexed; renaming the kennel does
+ *   not re-index its pets until they change themselves;
+ * - child rows (pet identifiers), indexed under their parent.
+ *
+ * Entity types without a source are not indexed — `search` returns null
+ * and callers keep their plain substring search.
+ */
+
+export interface SearchIndexTextField {
+  field: string;
+  weight: number;
+}
+
+export interface SearchIndexReference extends SearchIndexTextField {
+  /** Collection the FK points into; its `name` is indexed */
+  collection: string;
+}
+
+export interface SearchIndexChildSource extends SearchIndexTextField {
+  /** Child collection (`pet_children`) */
+  collection: string;
+  /** Child table cached in it (`pet_identifier`) */
+  tableType: string;
+}
+
+export interface SearchIndexSource {
+  /** The first field is the display name (leading-match bonus) */
+  fields: SearchIndexTextField[];
+  references?: SearchIndexReference[];
+  children?: SearchIndexChildSource[];
+}
+
+export const SEARCH_INDEX_SOURCES: Record<string, SearchIndexSource> = {
+  pet: {
+    fields: [{ field: 'name', weight: 3 }],
+    references: [
+      { field: 'kennel_id', collection: 'account', weight: 1.5 },
+      { field: 'owner_kennel_id', collection: 'account', weight: 1 },
+    ],
+    children: [
+      { collection: 'pet_children', tableType: 'pet_identifier', field: 'value', weight: 2 },
+    ],
+  },
+  account: {
+    fields: [
+      { field: 'name', weight: 3 },
+      { field: 'owner_name', weight: 1.5 },
+      { field: 'federation_name', weight: 1 },
+    ],
+  },
+  contact: { fields: [{ field: 'name', weight: 3 }] },
+  breed: { fields: [{ field: 'name', weight: 3 }] },
+  litter: {
+    fields: [
+      { field: 'name', weight: 3 },
+      { field: 'father_name', weight: 1.5 },
+      { field: 'mother_name', weight: 1.5 },
+    ],
+    references: [{ field: 'kennel_id', collection: 'account', weight: 1.5 }],
+  },
+  program: { fields: [{ field: 'name', weight: 3 }] },
+};
+
+type SearchRecord = Record<string, unknown>;
+
+export interface SearchIndexChangeEvent {
+  operation?: string;
+  documentId?: string;
+  documentData?: SearchRecord | null;
+}
+
+/** Subset of an RxDB collection the service needs — lets tests pass a fake. */
+export interface SearchableCollection {
+  find(query?: { selector: Record<string, unknown> }): {
+    exec(): Promise<Array<{ toJSON(): SearchRecord }>>;
+  };
+  $: {
+    subscribe(listener: (event: SearchIndexChangeEvent) => void): { unsubscribe(): void };
+  };
+}
+
+export type SearchIndexCollections = Record<string, SearchableCollection | undefined>;
+
+interface IndexEntry {
+  index: SearchIndex;
+  ready: Promise<void>;
+  subscriptions: Array<{ unsubscribe(): void }>;
+  /** entity id → own + reference text, kept to re-index on child changes */
+  ownFields: Map<string, SearchIndexField[]>;
+  /** parent id → child id → child text */
+  childText: Map<string, Map<string, SearchIndexField>>;
+  /** child id → parent id, for deletes that carry only the id */
+  childParents: Map<string, string>;
+}
+
+function isRemoved(record: SearchRecord | null | undefined): boolean {
+  return !record || record._deleted === true || getChildField(record, 'deleted') === true;
+}
+
+function asText(value: unknown): string | null {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+export class SearchIndexService {
+  private entries = new Map<string, IndexEntry>();
+
+  isIndexed(entityType: string): boolean {
+    return entityType in SEARCH_INDEX_SOURCES;
+  }
+
+  /**
+   * Ranked ids of cached `entityType` rows matching `query`, or null when
+   * the entity type has no index (or its collection is not open yet).
+   */
+  async search(
+    collections: SearchIndexCollections,
+    entityType: string,
+    query: string,
+    options: { limit?: number } = {},
+  ): Promise<SearchHit[] | null> {
+    const entry = this.ensureIndex(collections, entityType);
+    if (!entry) return null;
+    await entry.ready;
+    return entry.index.search(query, options);
+  }
+
+  /** Drop every index (database closed / user switched). */
+  reset(): void {
+    for (const entry of this.entries.values()) {
+      entry.subscriptions.forEach((subscription) => subscription.unsubscribe());
+      entry.index.clear();
+    }
+    this.entries.clear();
+  }
+
+  private ensureIndex(
+    collections: SearchIndexCollections,
+    entityType: string,
+  ): IndexEntry | null {
+    const existing = this.entries.get(entityType);
+    if (existing) return existing;
+
+    const source = SEARCH_INDEX_SOURCES[entityType];
+    const collection = collections[entityType];
+    if (!source || !collection) return null;
+
+    const entry: IndexEntry = {
+      index: new SearchIndex(),
+      ready: Promise.resolve(),
+      subscriptions: [],
+      ownFields: new Map(),
+      childText: new Map(),
+      childParents: new Map(),
+    };
+    entry.ready = this.build(entry, collections, entityType, source).catch((error: unknown) => {
+      console.error(`[SearchIndexService] Failed to build index for ${entityType}:`, error);
+      this.entries.delete(entityType);
+      entry.subscriptions.forEach((subscription) => subscription.unsubscribe());
+    });
+    this.entries.set(entityType, entry);
+    return entry;
+  }
+
+  private async build(
+    entry: IndexEntry,
+    collections: SearchIndexCollections,
+    entityType: string,
+    source: SearchIndexSource,
+  ): Promise<void> {
+    const collection = collections[entityType];
+    if (!collection) return;
+
+    // Changes that land while the snapshot loads are replayed after it, so
+    // the older snapshot never overwrites them.
+    let pending: Array<() => Promise<void>> | null = [];
+    const enqueue = (task: () => Promise<void>) => {
+      if (pending) pending.push(task);
+      else void task().catch((error: unknown) => {
+        console.error(`[SearchIndexService] Failed to update ${entityType} index:`, error);
+      });
+    };
+
+    entry.subscriptions.push(
+      collection.$.subscribe((event) => {
+        enqueue(() => this.applyEntityChange(entry, collections, source, event));
+      }),
+    );
+    for (const child of source.children ?? []) {
+      const childCollection = collections[child.collection];
+      if (!childCollection) continue;
+      entry.subscriptions.push(
+        childCollection.$.subscribe((event) => {
+          enqueue(async () => this.applyChildChange(entry, child, event));
+        }),
+      );
+    }
+
+    const records = (await collection.find().exec()).map((doc) => doc.toJSON());
+    for (const child of source.children ?? []) {
+      const childCollection = collections[child.collection];
+      if (!childCollection) continue;
+      const rows = await childCollection.find({ selector: { tableType: child.tableType } }).exec();
+      for (const row of rows) {
+        this.setChild(entry, child, row.toJSON());
+      }
+    }
+    await this.indexRecords(entry, collections, source, records);
+
+    const queued = pending;
+    pending = null;
+    for (const task of queued) {
+      await task();
+    }
+  }
+
+  private async applyEntityChange(
+    entry: IndexEntry,
+    collections: SearchIndexCollections,
+    source: SearchIndexSource,
+    event: SearchIndexChangeEvent,
+  ): Promise<void> {
+    const id = event.documentId ?? asText(event.documentData?.id);
+    if (!id) return;
+    if (event.operation === 'DELETE' || isRemoved(event.documentData)) {
+      entry.ownFields.delete(id);
+      entry.index.remove(id);
+      return;
+    }
+    if (event.documentData) {
+      await this.indexRecords(entry, collections, source, [event.documentData]);
+    }
+  }
+
+  private applyChildChange(
+    entry: IndexEntry,
+    child: SearchIndexChildSource,
+    event: SearchIndexChangeEvent,
+  ): void {
+    const record = event.documentData;
+    const id = event.documentId ?? asText(record?.id);
+    if (!id) return;
+    if (record && record.tableType !== child.tableType) return;
+
+    const previousParent = entry.childParents.get(id);
+    if (event.operation === 'DELETE' || isRemoved(record)) {
+      if (!previousParent) return;
+      entry.childText.get(previousParent)?.delete(id);
+      entry.childParents.delete(id);
+      this.reindex(entry, previousParent);
+      return;
+    }
+
+    const parentId = this.setChild(entry, child, record);
+    if (previousParent && previousParent !== parentId) this.reindex(entry, previousParent);
+    if (parentId) this.reindex(entry, parentId);
+  }
+
+  /** Remember a child's text under its parent; returns the parent id. */
+  private setChild(
+    entry: IndexEntry,
+    child: SearchIndexChildSource,
+    record: SearchRecord | null | undefined,
+  ): string | null {
+    const id = asText(record?.id);
+    const parentId = asText(record?.parentId);
+    const text = record ? asText(getChildField(record, child.field)) : null;
+    if (!id || !parentId || isRemoved(record)) return null;
+
+    const previousParent = entry.childParents.get(id);
+    if (previousParent && previousParent !== parentId) {
+      entry.childText.get(previousParent)?.delete(id);
+    }
+    entry.childParents.set(id, parentId);
+
+    let texts = entry.childText.get(parentId);
+    if (!texts) {
+      texts = new Map();
+      entry.childText.set(parentId, texts);
+    }
+    if (text) texts.set(id, { text, weight: child.weight });
+    else texts.delete(id);
+    return parentId;
+  }
+
+  private async indexRecords(
+    entry: IndexEntry,
+    collections: SearchIndexCollections,
+    source: SearchIndexSource,
+    records: SearchRecord[],
+  ): Promise<void> {
+    const referenceNames = await this.loadReferenceNames(collections, source, records);
+
+    for (const record of records) {
+      const id = asText(record.id);
+      if (!id) continue;
+      if (isRemoved(record)) {
+        entry.ownFields.delete(id);
+        entry.index.remove(id);
+        continue;
+      }
+
+      const fields: SearchIndexField[] = source.fields.map(({ field, weight }) => ({
+        text: asText(record[field]),
+        weight,
+      }));
+      for (const reference of source.references ?? []) {
+        const refId = asText(record[reference.field]);
+        fields.push({
+          text: refId ? referenceNames.get(reference.collection)?.get(refId) : null,
+          weight: reference.weight,
+        });
+      }
+      entry.ownFields.set(id, fields);
+      this.reindex(entry, id);
+    }
+  }
+
+  /** collection → id → name of every cached row the records reference. */
+  private async loadReferenceNames(
+    collections: SearchIndexCollections,
+    source: SearchIndexSource,
+    records: SearchRecord[],
+  ): Promise<Map<string, Map<string, string>>> {
+    const idsByCollection = new Map<string, Set<string>>();
+    for (const reference of source.references ?? []) {
+      const ids = idsByCollection.get(reference.collection) ?? new Set<string>();
+      for (const record of records) {
+        const refId = asText(record[reference.field]);
+        if (refId) ids.add(refId);
+      }
+      idsByCollection.set(reference.collection, ids);
+    }
+
+    const names = new Map<string, Map<string, string>>();
+    for (const [collectionName, ids] of idsByCollection) {
+      const collection = collections[collectionName];
+      const byId = new Map<string, string>();
+      names.set(collectionName, byId);
+      if (!collection || ids.size === 0) continue;
+
+      const docs = await collection.find({ selector: { id: { $in: Array.from(ids) } } }).exec();
+      for (const doc of docs) {
+        const row = doc.toJSON();
+        const id = asText(row.id);
+        const name = asText(row.name);
+        if (id && name) byId.set(id, name);
+      }
+    }
+    return names;
+  }
+
+  private reindex(entry: IndexEntry, id: string): void {
+    const own = entry.ownFields.get(id);
+    if (!own) return;
+    const children = entry.childText.get(id);
+    entry.index.set(id, children ? [...own, ...children.values()] : own);
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
@@ -0,0 +1,259 @@
+import { signal } from '@preact/signals-react';
+import type { RxCollection } from 'rxdb';
+import {
+  STORAGE_ESTIMATE_INTERVAL_MS,
+  STORAGE_QUOTA_CRITICAL_RATIO,
+  STORAGE_QUOTA_WARN_RATIO,
+} from '../cache/cache-policies';
+import { DEFAULT_TTL, cleanupExpiredDocuments, type CacheableDocument } from '../helpers';
+import { toast } from '../stores/toast.store';
+
+/**
+ * StorageManagerService - origin quota monitor and per-collection usage.
+ *
+ * RxDB collections grow with browsing, offline pins and queued edits; the
+ * caps in cache-policies only bound child collections. This service:
+ *
+ * - reads `navigator.storage.estimate()` on start and every
+ *   STORAGE_ESTIMATE_INTERVAL_MS and warns (once per level) when usage
+ *   crosses STORAGE_QUOTA_WARN_RATIO / STORAGE_QUOTA_CRITICAL_RATIO;
+ * - requests persistent storage so the browser does not evict offline data
+ *   under storage pressure;
+ * - measures per-collection document counts and approximate size
+ *   (average serialized size of a sample × count);
+ * - runs TTL cleanup for one collection on demand. Child-collection LRU
+ *   eviction stays in SpaceStore (`runChildLruEviction`).
+ */
+
+export type StorageQuotaLevel = 'unknown' | 'ok' | 'warning' | 'critical';
+export type StorageCollectionKind = 'entity' | 'child' | 'dictionary' | 'route' | 'queue';
+
+export interface StorageEstimateSnapshot {
+  usage: number;
+  quota: number;
+  /** usage / quota, 0 when the quota is unknown */
+  ratio: number;
+}
+
+export interface CollectionUsage {
+  name: string;
+  kind: StorageCollectionKind;
+  docCount: number;
+  /** Average serialized size of a sample × docCount */
+  approxBytes: number;
+  /** Child collections: LRU eviction via SpaceStore.runChildLruEviction */
+  canEvict: boolean;
+  /** Cached collections: TTL cleanup via cleanupCollection */
+  canCleanup: boolean;
+}
+
+/** Subset of `navigator.storage` the service needs — lets tests pass a fake. */
+export interface StorageManagerLike {
+  estimate(): Promise<{ usage?: number; quota?: number }>;
+  persist?(): Promise<boolean>;
+  persisted?(): Promise<boolean>;
+}
+
+interface MeasurableCollection {
+  count(): { exec(): Promise<number> };
+  find(options?: { limit?: number }): {
+    exec(): Promise<Array<{ toJSON(): unknown }>>;
+  };
+}
+
+interface DatabaseLike {
+  collections: Record<string, unknown>;
+}
+
+export interface StorageManagerStartOptions {
+  /** Records to keep during TTL cleanup of a collection (e.g. offline pins) */
+  getCleanupExemption?: (
+    collectionName: string,
+  ) => ((doc: Record<string, unknown>) => boolean) | undefined;
+}
+
+export interface StorageManagerOptions {
+  storage?: StorageManagerLike | null;
+  /** Documents sampled per collection for the size estimate */
+  sampleSize?: number;
+}
+
+const DEFAULT_SAMPLE_SIZE = 50;
+
+function defaultStorage(): StorageManagerLike | null {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  return navigator.storage as StorageManagerLike;
+}
+
+export function getStorageQuotaLevel(ratio: number | null | undefined): StorageQuotaLevel {
+  if (ratio === null || ratio === undefined || !Number.isFinite(ratio)) return 'unknown';
+  if (ratio >= STORAGE_QUOTA_CRITICAL_RATIO) return 'critical';
+  if (ratio >= STORAGE_QUOTA_WARN_RATIO) return 'warning';
+  return 'ok';
+}
+
+export function getStorageCollectionKind(name: string): StorageCollectionKind {
+  if (name.endsWith('_sync_queue')) return 'queue';
+  if (name.endsWith('_children')) return 'child';
+  if (name === 'dictionaries') return 'dictionary';
+  if (name === 'routes') return 'route';
+  return 'entity';
+}
+
+const LEVEL_RANK: Record<StorageQuotaLevel, number> = {
+  unknown: 0,
+  ok: 0,
+  warning: 1,
+  critical: 2,
+};
+
+export class StorageManagerService {
+  /** Latest origin estimate, null until read or when unsupported */
+  readonly estimate = signal<StorageEstimateSnapshot | null>(null);
+  readonly level = signal<StorageQuotaLevel>('unknown');
+  /** Whether the origin has persistent storage; null when unsupported */
+  readonly persisted = signal<boolean | null>(null);
+  /** Last per-collection measurement, biggest first */
+  readonly collections = signal<CollectionUsage[]>([]);
+
+  private readonly storage: StorageManagerLike | null;
+  private readonly sampleSize: number;
+  private db: DatabaseLike | null = null;
+  private startOptions: StorageManagerStartOptions = {};
+  private interval: ReturnType<typeof setInterval> | null = null;
+  /** Highest level already announced; reset when usage drops back */
+  private warnedLevel: StorageQuotaLevel = 'ok';
+
+  constructor(options: StorageManagerOptions = {}) {
+    this.storage = options.storage === undefined ? defaultStorage() : options.storage;
+    this.sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+  }
+
+  /** Start monitoring the database. Idempotent. */
+  async start(db: DatabaseLike, options: StorageManagerStartOptions = {}): Promise<void> {
+    this.db = db;
+    this.startOptions = options;
+    if (this.interval || !this.storage) return;
+
+    await this.requestPersistence();
+    await this.refreshEstimate();
+    this.interval = setInterval(() => {
+      void this.refreshEstimate();
+    }, STORAGE_ESTIMATE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  async refreshEstimate(): Promise<StorageEstimateSnapshot | null> {
+    if (!this.storage) return null;
+    try {
+      const { usage = 0, quota = 0 } = await this.storage.estimate();
+      const snapshot = { usage, quota, ratio: quota > 0 ? usage / quota : 0 };
+      this.estimate.value = snapshot;
+      this.setLevel(quota > 0 ? getStorageQuotaLevel(snapshot.ratio) : 'unknown');
+      return snapshot;
+    } catch (error) {
+      console.warn('[StorageManager] Failed to read storage estimate:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the browser to keep this origin's data under storage pressure.
+   * Browsers decide silently (engagement, installed PWA) or prompt once.
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (!this.storage?.persist) {
+      this.persisted.value = null;
+      return false;
+    }
+    try {
+      const already = (await this.storage.persisted?.()) ?? false;
+      const granted = already || (await this.storage.persist());
+      this.persisted.value = granted;
+      return granted;
+    } catch (error) {
+      console.warn('[StorageManager] Persistent storage request failed:', error);
+      this.persisted.value = false;
+      return false;
+    }
+  }
+
+  /** Count documents and estimate the size of every open collection. */
+  async measureCollections(): Promise<CollectionUsage[]> {
+    if (!this.db) return [];
+
+    const usage: CollectionUsage[] = [];
+    for (const [name, collection] of Object.entries(this.db.collections)) {
+      if (!collection) continue;
+      const kind = getStorageCollectionKind(name);
+      try {
+        const measurable = collection as MeasurableCollection;
+        const docCount = await measurable.count().exec();
+        const sample = docCount > 0
+          ? await measurable.find({ limit: this.sampleSize }).exec()
+          : [];
+        const sampleBytes = sample.reduce(
+          (sum, doc) => sum + (JSON.stringify(doc.toJSON())?.length ?? 0),
+          0,
+        );
+        usage.push({
+          name,
+          kind,
+          docCount,
+          approxBytes: sample.length > 0 ? Math.round((sampleBytes / sample.length) * docCount) : 0,
+          canEvict: kind === 'child',
+          canCleanup: kind !== 'queue',
+        });
+      } catch (error) {
+        console.warn(`[StorageManager] Failed to measure ${name}:`, error);
+      }
+    }
+
+    usage.sort((a, b) => b.approxBytes - a.approxBytes);
+    this.collections.value = usage;
+    return usage;
+  }
+
+  /**
+   * Remove documents of one collection older than the cache TTL. Queues are
+   * never cleaned — their items are unsynced user edits.
+   */
+  async cleanupCollection(name: string): Promise<number> {
+    const collection = this.db?.collections[name];
+    if (!collection || getStorageCollectionKind(name) === 'queue') return 0;
+
+    const removed = await cleanupExpiredDocuments(
+      collection as RxCollection<CacheableDocument & Record<string, unknown>>,
+      DEFAULT_TTL,
+      '[StorageManager]',
+      this.startOptions.getCleanupExemption?.(name),
+    );
+    await this.refreshEstimate();
+    return removed;
+  }
+
+  private setLevel(level: StorageQuotaLevel): void {
+    this.level.value = level;
+    if (LEVEL_RANK[level] === 0) {
+      this.warnedLevel = 'ok';
+      return;
+    }
+    if (LEVEL_RANK[level] <= LEVEL_RANK[this.warnedLevel]) return;
+
+    this.warnedLevel = level;
+    const percent = Math.round((this.estimate.value?.ratio ?? 0) * 100);
+    const message = level === 'critical'
+      ? `Device storage is almost full (${percent}%). New offline data may not be saved.`
+      : `Device storage is ${percent}% full. Free space from cached collections.`;
+    toast.warning(message, { duration: 10000 });
+  }
+}
+
+// Singleton export
+export const storageManagerService = new StorageManagerService();
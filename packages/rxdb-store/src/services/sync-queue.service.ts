@@ -1,34 +1,180 @@
-import type { RxCollection, RxDatabase } from 'rxdb';
+import type { RxCollection, RxDatabase, RxDocument } from 'rxdb';
 import { signal } from '@preact/signals-react';
-import { supabase } from '../supabase/client';
+import { onRetryAfter, supabase } from '../supabase/client';
 import { runPostSaveHooks, runChildPostPushHooks } from '../utils/entity-hooks';
+import { leaderElectionService } from './leader-election.service';
+import { backgroundSyncService } from './background-sync.service';
+import { PARKED_STATUSES } from '../utils/background-sync.helpers';
+import { CHANGE_HISTORY_TABLE } from '../stores/space-history.helpers';
+import { isServerDiverged, mergeWithServer, threeWayMerge } from '../utils/sync-conflict.helpers';
+import {
+  classifyPushError,
+  computeNextAttemptAt,
+  getChildQueueParentId,
+  getChildQueueReferences,
+  isRowLevelPushError,
+  type SyncPushError,
+} from '../utils/sync-queue.helpers';
 import type { AppDatabase } from './database.service';
 import type {
   EntitySyncQueueDocument,
   ChildSyncQueueDocument,
+  SyncQueueStatus,
 } from '../collections/sync-queue.schema';
 
+type SyncQueueDocument = EntitySyncQueueDocument | ChildSyncQueueDocument;
+type QueueItemDoc = RxDocument<EntitySyncQueueDocument> | RxDocument<ChildSyncQueueDocument>;
+
 const BATCH_SIZE = 10;
 const MAX_RETRIES = 10;
 const MAX_PROCESS_PASSES = 10;
 const MAX_CONSECUTIVE_FAILURES = 5;
 const CIRCUIT_BREAKER_RESET_MS = 60_000;
+/** How long a follower's processNow waits for the leader to report back. */
+const REMOTE_PROCESS_TIMEOUT_MS = 30_000;
+/** localStorage key holding unsynced items across a database wipe. */
+const QUEUE_BACKUP_KEY = 'breedhub_sync_queue_backup';
+/** Child queue selector part that leaves out change history entries. */
+const NOT_HISTORY = { tableType: { $ne: CHANGE_HISTORY_TABLE } };
+
+/**
+ * Per-table circuit breaker. Keyed by the table a push targets — the entity
+ * type for entity items, the child table for child items — so a broken
+ * `litter` table pauses only litter pushes.
+ */
+interface CircuitBreakerState {
+  consecutiveFailures: number;
+  /** Epoch ms until which pushes to this table are paused (0 = closed). */
+  openUntil: number;
+  /** Epoch ms the table's last 429 asked to wait until (Retry-After). */
+  retryAfterUntil?: number;
+}
+
+/** Circuit breaker of one table as shown in the diagnostics panel. */
+export interface CircuitBreakerSnapshot {
+  table: string;
+  consecutiveFailures: number;
+  /** Epoch ms until which pushes are paused; 0 while the breaker is closed */
+  openUntil: number;
+  open: boolean;
+}
+
+export type SyncQueueKind = 'entity' | 'child';
+
+/** Flat view of an entity or child queue item (sync inspector). */
+export interface SyncQueueItem {
+  queue: SyncQueueKind;
+  id: string;
+  entityType: string;
+  /** Child table name — only set for child items. */
+  tableType?: string;
+  /** entityId for entity items, recordId for child items. */
+  recordId: string;
+  operation: string;
+  payload: Record<string, unknown>;
+  retries: number;
+  createdAt: number;
+  status?: string;
+  error?: string;
+  errorCode?: string;
+  /** Epoch ms of the next automatic push attempt (backoff after a failure). */
+  nextAttemptAt?: number;
+  /** Parent entity id — child items only. */
+  parentId?: string;
+  /** Queued parent entity item this child item waits for. */
+  waitingFor?: SyncQueueDependency;
+  /** Number of child items waiting for this entity item. */
+  dependentCount?: number;
+}
+
+/** One entity mutation of an `enqueueEntityBatch` call. */
+export interface EntityBatchItem {
+  entityId: string;
+  operation: 'upsert' | 'delete';
+  payload: Record<string, unknown>;
+  baseUpdatedAt?: string;
+  baseSnapshot?: Record<string, unknown>;
+}
+
+/** Queued parent entity push that holds back a child item. */
+export interface SyncQueueDependency {
+  itemId: string;
+  entityType: string;
+  entityId: string;
+  status: string;
+}
+
+function toQueueItem(
+  queue: SyncQueueKind,
+  doc: EntitySyncQueueDocument | ChildSyncQueueDocument,
+): SyncQueueItem {
+  const isChild = queue === 'child';
+  const child = doc as ChildSyncQueueDocument;
+  return {
+    queue,
+    id: doc.id,
+    entityType: doc.entityType,
+    ...(isChild && { tableType: child.tableType }),
+    recordId: isChild ? child.recordId : (doc as EntitySyncQueueDocument).entityId,
+    operation: doc.operation,
+    payload: doc.payload,
+    retries: doc.retries,
+    createdAt: doc.createdAt,
+    ...(doc.status && { status: doc.status }),
+    ...(doc.error && { error: doc.error }),
+    ...(doc.errorCode && { errorCode: doc.errorCode }),
+    ...(doc.nextAttemptAt && { nextAttemptAt: doc.nextAttemptAt }),
+  };
+}
+
+/**
+ * Queued entity items by entityId. A child item whose parent is in this map
+ * must wait — pushing it first fails the FK to a row that doesn't exist yet.
+ */
+async function getQueuedParents(
+  entityQueue: RxCollection<EntitySyncQueueDocument>,
+): Promise<Map<string, SyncQueueDependency>> {
+  const docs = await entityQueue.find({ selector: {} }).exec();
+  const parents = new Map<string, SyncQueueDependency>();
+  for (const doc of docs) {
+    parents.set(doc.entityId, {
+      itemId: doc.id,
+      entityType: doc.entityType,
+      entityId: doc.entityId,
+      status: doc.status ?? 'pending',
+    });
+  }
+  return parents;
+}
+
+/** Cross-tab messages (see LeaderElectionService.broadcast). */
+const SYNC_TOPICS = {
+  counts: 'sync-queue:counts',
+  commit: 'sync-queue:commit',
+  mutation: 'sync-queue:mutation',
+  process: 'sync-queue:process',
+  processed: 'sync-queue:processed',
+} as const;
 
 /**
  * Queue-based push sync service (Replication V3).
  * Replaces replicateRxCollection with explicit enqueue on CRUD.
  * Background processor drains queue to Supabase.
+ *
+ * Every tab can enqueue (the queues live in the shared RxDB database), but
+ * only the leader tab (LeaderElectionService) drains them. Followers mirror
+ * count signals, commit and mutation events from broadcasts and forward
+ * processNow() to the leader.
  */
 class SyncQueueService {
   private entityQueue: RxCollection<EntitySyncQueueDocument> | null = null;
   private childQueue: RxCollection<ChildSyncQueueDocument> | null = null;
   private processingInterval: ReturnType<typeof setInterval> | null = null;
-  private consecutiveFailures = 0;
-  private circuitBreakerOpen = false;
-  private circuitBreakerTimer: ReturnType<typeof setTimeout> | null = null;
+  private electionUnsubscribers: Array<() => void> = [];
+  private unsubscribeRetryAfter: (() => void) | null = null;
+  private circuitBreakers = new Map<string, CircuitBreakerState>();
   private initialized = false;
   private processing = false;
-  private lastErrorMessage = '';
   private onReconnectCallback: (() => void) | null = null;
   private mutationSuccessCallbacks: Array<
     (entityType: string, operation: 'upsert' | 'delete') => void
@@ -37,6 +183,7 @@ class SyncQueueService {
   // UI-observable signals
   pendingCount = signal<number>(0);
   failedCount = signal<number>(0);
+  conflictCount = signal<number>(0);
 
   async initialize(db: RxDatabase | AppDatabase): Promise<void> {
     if (this.initialized) return;
@@ -50,11 +197,18 @@ class SyncQueueService {
     }
 
     this.initialized = true;
-    this.startProcessing();
+    this.unsubscribeRetryAfter = onRetryAfter((table, delayMs) => this.recordRetryAfter(table, delayMs));
+    // A service worker drain may still be running from before this tab opened
+    await backgroundSyncService.waitForIdle();
+    void backgroundSyncService.configure(db);
+    await this.restoreBackup();
     this.updateCounts();
+    this.wireLeaderElection();
 
-    // Process immediately when coming back online + trigger pull refresh
+    // Process immediately when coming back online + trigger pull refresh.
+    // Leader only — followers get the refreshed data through the shared DB.
     window.addEventListener('online', () => {
+      if (!leaderElectionService.isLeader.value) return;
       console.log('[SyncQueue] Back online — processing queue + refreshing data');
       this.processAll();
       this.onReconnectCallback?.();
@@ -63,6 +217,46 @@ class SyncQueueService {
     console.log('[SyncQueue] Initialized');
   }
 
+  private wireLeaderElection(): void {
+    this.electionUnsubscribers = [
+      leaderElectionService.onLeadershipChange((isLeader) => {
+        if (isLeader) {
+          this.startProcessing();
+        } else {
+          this.stopProcessing();
+        }
+      }),
+      leaderElectionService.onMessage(SYNC_TOPICS.counts, (payload) => {
+        const counts = payload as { pending: number; failed: number; conflicts: number };
+        this.pendingCount.value = counts.pending;
+        this.failedCount.value = counts.failed;
+        this.conflictCount.value = counts.conflicts;
+      }),
+      leaderElectionService.onMessage(SYNC_TOPICS.commit, (payload) => {
+        const { recordIds, committed } = payload as { recordIds: string[]; committed: boolean };
+        this.resolveCommitWaiters(recordIds, committed);
+      }),
+      leaderElectionService.onMessage(SYNC_TOPICS.mutation, (payload) => {
+        const { entityType, operation } = payload as {
+          entityType: string;
+          operation: 'upsert' | 'delete';
+        };
+        this.runMutationSuccessCallbacks(entityType, operation);
+      }),
+      leaderElectionService.onMessage(SYNC_TOPICS.process, (payload) => {
+        if (!leaderElectionService.isLeader.value) return;
+        void this.processAll().then(() =>
+          leaderElectionService.broadcast(SYNC_TOPICS.processed, payload),
+        );
+      }),
+    ];
+
+    leaderElectionService.start();
+    if (leaderElectionService.isLeader.value) {
+      this.startProcessing();
+    }
+  }
+
   /** Register callback to run on reconnect (used by SpaceStore for pull refresh) */
   onReconnect(callback: () => void): void {
     this.onReconnectCallback = callback;
@@ -86,6 +280,14 @@ class SyncQueueService {
   private notifyMutationSuccess(
     entityType: string,
     operation: 'upsert' | 'delete',
+  ): void {
+    this.runMutationSuccessCallbacks(entityType, operation);
+    leaderElectionService.broadcast(SYNC_TOPICS.mutation, { entityType, operation });
+  }
+
+  private runMutationSuccessCallbacks(
+    entityType: string,
+    operation: 'upsert' | 'delete',
   ): void {
     for (const cb of this.mutationSuccessCallbacks) {
       try {
@@ -103,15 +305,21 @@ class SyncQueueService {
     entityId: string,
     operation: 'upsert' | 'delete',
     payload: Record<string, any>,
-    onConflict: string
+    onConflict: string,
+    baseUpdatedAt?: string,
+    baseSnapshot?: Record<string, unknown>
   ): Promise<void> {
     if (!this.entityQueue) return;
 
     try {
-      // Dedup: remove existing pending item for same entityId
+      // Dedup: remove existing pending item for same entityId.
+      // Keep its base version — the unsynced edit chain started there, so a
+      // server save in between is still a conflict for the merged payload.
       const existing = await this.entityQueue
         .findOne({ selector: { entityId } })
         .exec();
+      const base = existing ? existing.baseUpdatedAt : baseUpdatedAt;
+      const snapshot = existing ? existing.baseSnapshot : baseSnapshot;
       if (existing) {
         await existing.remove();
       }
@@ -125,13 +333,122 @@ class SyncQueueService {
         onConflict,
         retries: 0,
         createdAt: Date.now(),
+        ...(base && { baseUpdatedAt: base }),
+        ...(base && snapshot && { baseSnapshot: snapshot }),
       });
+      if (operation === 'delete') {
+        await this.holdChildUpserts(entityType, [entityId]);
+      } else {
+        await this.releaseHeldChildUpserts(entityType, [entityId]);
+      }
       this.updateCounts();
     } catch (error) {
       console.error('[SyncQueue] Failed to enqueue entity:', error);
     }
   }
 
+  /**
+   * Enqueue mutations of many entities of one type at once (bulk edit /
+   * delete): a single query drops the pending items they replace and a
+   * single bulk insert adds the new ones. Same dedup rule as enqueueEntity —
+   * an item that replaces a pending one keeps its base version.
+   */
+  async enqueueEntityBatch(
+    entityType: string,
+    items: EntityBatchItem[],
+    onConflict: string,
+  ): Promise<void> {
+    if (!this.entityQueue || items.length === 0) return;
+
+    try {
+      const existing = await this.entityQueue
+        .find({ selector: { entityId: { $in: items.map((item) => item.entityId) } } })
+        .exec();
+      const existingBase = new Map(existing.map((doc) => [doc.entityId, doc]));
+      if (existing.length > 0) {
+        await this.bulkRemoveItems(this.entityQueue, existing.map((doc) => doc.id));
+      }
+
+      const createdAt = Date.now();
+      await this.entityQueue.bulkInsert(items.map((item) => {
+        const replaced = existingBase.get(item.entityId);
+        const base = replaced ? replaced.baseUpdatedAt : item.baseUpdatedAt;
+        const snapshot = replaced ? replaced.baseSnapshot : item.baseSnapshot;
+        return {
+          id: crypto.randomUUID(),
+          entityType,
+          entityId: item.entityId,
+          operation: item.operation,
+          payload: item.payload,
+          onConflict,
+          retries: 0,
+          createdAt,
+          ...(base && { baseUpdatedAt: base }),
+          ...(base && snapshot && { baseSnapshot: snapshot }),
+        };
+      }));
+      const deletedIds = items.filter((item) => item.operation === 'delete').map((item) => item.entityId);
+      const upsertedIds = items.filter((item) => item.operation !== 'delete').map((item) => item.entityId);
+      await this.holdChildUpserts(entityType, deletedIds);
+      await this.releaseHeldChildUpserts(entityType, upsertedIds);
+      this.updateCounts();
+    } catch (error) {
+      console.error('[SyncQueue] Failed to enqueue entity batch:', error);
+    }
+  }
+
+  /**
+   * Park queued child upserts that reference entities being deleted (as
+   * parent or through another FK, see getChildQueueReferences) — pushed now
+   * they would only recreate rows under a deleted entity (or fail the FK if
+   * it never reached Supabase). They stay 'held' until the
+   * entity is restored (releaseHeldChildUpserts) or purged from the trash
+   * (dropHeldChildUpserts). Commit waiters get `false`.
+   */
+  private async holdChildUpserts(entityType: string, entityIds: string[]): Promise<void> {
+    const held = await this.findChildUpsertsOf(entityType, entityIds, { $ne: 'held' });
+    if (held.length === 0) return;
+
+    console.log(`[SyncQueue] ${entityType} deleted — holding ${held.length} pending child upserts`);
+    for (const item of held) {
+      await item.patch({ status: 'held' });
+    }
+    this.notifyCommit(held.map((item) => item.recordId), false);
+  }
+
+  /** Put held child upserts of restored entities back in line behind their parent. */
+  private async releaseHeldChildUpserts(entityType: string, entityIds: string[]): Promise<void> {
+    const held = await this.findChildUpsertsOf(entityType, entityIds, 'held');
+    for (const item of held) {
+      await item.patch({ status: 'pending', nextAttemptAt: 0 });
+    }
+  }
+
+  /** Drop held child upserts of an entity that was deleted for good. */
+  async dropHeldChildUpserts(entityType: string, entityId: string): Promise<void> {
+    if (!this.childQueue) return;
+    const held = await this.findChildUpsertsOf(entityType, [entityId], 'held');
+    if (held.length === 0) return;
+    await this.bulkRemoveItems(this.childQueue, held.map((item) => item.id));
+  }
+
+  private async findChildUpsertsOf(
+    entityType: string,
+    entityIds: string[],
+    status: SyncQueueStatus | { $ne: SyncQueueStatus },
+  ): Promise<RxDocument<ChildSyncQueueDocument>[]> {
+    if (!this.childQueue || entityIds.length === 0) return [];
+    const wanted = new Set(entityIds);
+    const upserts = await this.childQueue
+      .find({ selector: { operation: 'upsert', status, ...NOT_HISTORY } })
+      .exec();
+    return upserts.filter((item) =>
+      getChildQueueReferences(item.entityType, item.tableType, item.payload).some(
+        (ref) => ref.entityType === entityType && wanted.has(ref.entityId),
+      ),
+    );
+  }
+
   async enqueueChild(
     entityType: string,
     tableType: string,
@@ -168,6 +485,357 @@ class SyncQueueService {
     }
   }
 
+  /**
+   * Queue a change history entry. History rides in the child queue table
+   * but on its own path: it is pushed after the data queues, never held
+   * behind a parent, kept out of the circuit breakers, and hidden from the
+   * pending counts and the sync inspector — it is bookkeeping, not a user
+   * edit waiting to sync.
+   */
+  async enqueueHistory(entityType: string, entry: Record<string, unknown> & { id: string }): Promise<void> {
+    if (!this.childQueue) return;
+    await this.childQueue.insert({
+      id: crypto.randomUUID(),
+      entityType,
+      tableType: CHANGE_HISTORY_TABLE,
+      recordId: entry.id,
+      operation: 'upsert',
+      payload: entry,
+      onConflict: 'id',
+      retries: 0,
+      createdAt: Date.now(),
+    });
+  }
+
+  /** Queued history entries of one entity record, oldest first. */
+  async getPendingHistory(entityId: string): Promise<Record<string, unknown>[]> {
+    if (!this.childQueue) return [];
+    const docs = await this.childQueue
+      .find({ selector: { tableType: CHANGE_HISTORY_TABLE }, sort: [{ createdAt: 'asc' }] })
+      .exec();
+    return docs
+      .map((doc) => doc.payload as Record<string, unknown>)
+      .filter((payload) => payload.entity_id === entityId);
+  }
+
+  /**
+   * Put queued mutations from a database snapshot back in the queue as fresh
+   * pending items (retries, status and backoff reset). An item is skipped
+   * when the queue already holds a newer edit of the same record.
+   * Returns the number of items enqueued.
+   */
+  async requeue(
+    kind: SyncQueueKind,
+    items: Array<EntitySyncQueueDocument | ChildSyncQueueDocument>,
+  ): Promise<number> {
+    const queue = kind === 'entity' ? this.entityQueue : this.childQueue;
+    if (!queue) return 0;
+
+    let enqueued = 0;
+    for (const item of [...items].sort((a, b) => a.createdAt - b.createdAt)) {
+      const key = kind === 'entity'
+        ? { entityId: (item as EntitySyncQueueDocument).entityId }
+        : { recordId: (item as ChildSyncQueueDocument).recordId };
+      const existing = await (queue as RxCollection<EntitySyncQueueDocument | ChildSyncQueueDocument>)
+        .findOne({ selector: key })
+        .exec();
+      if (existing && existing.createdAt > item.createdAt) continue;
+
+      const operation = item.operation === 'delete' ? 'delete' : 'upsert';
+      if (kind === 'entity') {
+        const entityItem = item as EntitySyncQueueDocument;
+        await this.enqueueEntity(
+          entityItem.entityType,
+          entityItem.entityId,
+          operation,
+          entityItem.payload,
+          entityItem.onConflict,
+          entityItem.baseUpdatedAt,
+          entityItem.baseSnapshot,
+        );
+      } else {
+        const childItem = item as ChildSyncQueueDocument;
+        await this.enqueueChild(
+          childItem.entityType,
+          childItem.tableType,
+          childItem.recordId,
+          operation,
+          childItem.payload,
+          childItem.onConflict,
+        );
+      }
+      enqueued += 1;
+    }
+    return enqueued;
+  }
+
+  // --- Conflicts ---
+
+  /** Entity queue items parked because the server row changed underneath them. */
+  async getConflicts(): Promise<EntitySyncQueueDocument[]> {
+    if (!this.entityQueue) return [];
+    const docs = await this.entityQueue
+      .find({ selector: { status: 'conflict' }, sort: [{ createdAt: 'asc' }] })
+      .exec();
+    return docs.map((doc) => (doc.toJSON?.() ?? doc) as EntitySyncQueueDocument);
+  }
+
+  /**
+   * Re-queue a conflict with the user's resolved payload. The server version
+   * the user just looked at becomes the new base (and base snapshot), so a
+   * third save arriving while the dialog was open is merged again instead
+   * of overwritten.
+   */
+  async resolveConflict(
+    itemId: string,
+    resolvedPayload: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.entityQueue) return;
+
+    const item = await this.entityQueue.findOne({ selector: { id: itemId } }).exec();
+    if (!item || item.status !== 'conflict') return;
+
+    const serverUpdatedAt = item.serverPayload?.updated_at;
+    await item.remove();
+    await this.entityQueue.insert({
+      id: crypto.randomUUID(),
+      entityType: item.entityType,
+      entityId: item.entityId,
+      operation: item.operation,
+      payload: {
+        ...resolvedPayload,
+        updated_at: new Date().toISOString(),
+      },
+      onConflict: item.onConflict,
+      retries: 0,
+      createdAt: Date.now(),
+      ...(typeof serverUpdatedAt === 'string' && {
+        baseUpdatedAt: serverUpdatedAt,
+        baseSnapshot: item.serverPayload,
+      }),
+    });
+    await this.updateCounts();
+    void this.processAll();
+  }
+
+  /**
+   * Fold newer server rows (from a pull or a realtime event) into the local
+   * edits still queued for them. Each diverged item is merged three-way
+   * against its base snapshot: without same-field conflicts it is rebased
+   * onto the server row (merged payload, server version as the new base);
+   * otherwise it is parked as a conflict right away. Returns the merged
+   * payload per entity id, so the caller writes it locally instead of the
+   * server row. Items without a snapshot are left for the push-time check.
+   */
+  async rebaseOnServerRows(
+    entityType: string,
+    serverRows: Record<string, unknown>[],
+  ): Promise<Map<string, Record<string, unknown>>> {
+    const mergedById = new Map<string, Record<string, unknown>>();
+    if (!this.entityQueue || serverRows.length === 0) return mergedById;
+
+    try {
+      const rowsById = new Map(serverRows.map((row) => [String(row.id), row]));
+      const items = await this.entityQueue
+        .find({
+          selector: {
+            entityType,
+            entityId: { $in: [...rowsById.keys()] },
+            operation: 'upsert',
+            status: { $ne: 'conflict' },
+          },
+        })
+        .exec();
+
+      let parked = 0;
+      for (const item of items) {
+        const serverRow = rowsById.get(item.entityId);
+        if (!serverRow || !item.baseSnapshot) continue;
+        if (!isServerDiverged(item.baseUpdatedAt, serverRow.updated_at)) continue;
+
+        const { merged, conflicts } = threeWayMerge(item.baseSnapshot, item.payload, serverRow);
+        mergedById.set(item.entityId, merged);
+        if (conflicts.length === 0) {
+          await item.patch({
+            payload: merged,
+            baseUpdatedAt: String(serverRow.updated_at),
+            baseSnapshot: { ...item.baseSnapshot, ...serverRow },
+          });
+          continue;
+        }
+        const fieldNames = conflicts.map((f) => f.field).join(', ');
+        console.warn(`[SyncQueue] Conflict on ${entityType} ${item.entityId}: ${fieldNames}`);
+        await item.patch({
+          status: 'conflict',
+          payload: merged,
+          serverPayload: serverRow,
+          error: `Changed on server: ${fieldNames}`.slice(0, 500),
+        });
+        parked += 1;
+      }
+      if (parked > 0) this.updateCounts();
+    } catch (error) {
+      console.error('[SyncQueue] Failed to rebase queued edits:', error);
+    }
+    return mergedById;
+  }
+
+  // --- Inspector actions ---
+
+  /** Every queued item (pending, failed and conflict) from both queues, oldest first. */
+  async getQueueItems(): Promise<SyncQueueItem[]> {
+    if (!this.entityQueue || !this.childQueue) return [];
+    const [entityDocs, childDocs] = await Promise.all([
+      this.entityQueue.find({ selector: {} }).exec(),
+      this.childQueue.find({ selector: { tableType: { $ne: CHANGE_HISTORY_TABLE } } }).exec(),
+    ]);
+    const parents = await getQueuedParents(this.entityQueue);
+    const dependentCounts = new Map<string, number>();
+
+    const childItems = childDocs.map((doc) => {
+      const item = toQueueItem('child', doc.toJSON?.() ?? doc);
+      const parentId = getChildQueueParentId(item.entityType, item.payload);
+      if (!parentId) return item;
+      const parent = getChildQueueReferences(item.entityType, item.tableType ?? '', item.payload)
+        .map((ref) => parents.get(ref.entityId))
+        .find((queued) => queued !== undefined);
+      if (parent) {
+        dependentCounts.set(parent.itemId, (dependentCounts.get(parent.itemId) ?? 0) + 1);
+      }
+      return { ...item, parentId, ...(parent && { waitingFor: parent }) };
+    });
+    const entityItems = entityDocs.map((doc) => {
+      const item = toQueueItem('entity', doc.toJSON?.() ?? doc);
+      const dependentCount = dependentCounts.get(item.id);
+      return dependentCount ? { ...item, dependentCount } : item;
+    });
+
+    return [...entityItems, ...childItems].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  private getQueueCollection(queue: SyncQueueKind): RxCollection<SyncQueueDocument> | null {
+    return (queue === 'entity' ? this.entityQueue : this.childQueue) as RxCollection<SyncQueueDocument> | null;
+  }
+
+  private async findQueueDoc(queue: SyncQueueKind, itemId: string) {
+    const collection = this.getQueueCollection(queue);
+    if (!collection) return null;
+    return collection.findOne({ selector: { id: itemId } }).exec();
+  }
+
+  /**
+   * Reset retries on a failed item and push it now. Conflict items go back
+   * through the conflict check, so a retry can't silently overwrite.
+   */
+  async retryItem(queue: SyncQueueKind, itemId: string): Promise<void> {
+    const doc = await this.findQueueDoc(queue, itemId);
+    if (!doc) return;
+    await doc.patch({ status: 'pending', retries: 0, nextAttemptAt: 0 });
+    await this.updateCounts();
+    await this.processAll();
+  }
+
+  /** Reset every failed item in both queues and push them now. */
+  async retryAll(): Promise<void> {
+    for (const collection of [this.entityQueue, this.childQueue]) {
+      if (!collection) continue;
+      const failed = await collection.find({ selector: { status: 'failed' } }).exec();
+      for (const doc of failed) {
+        await doc.patch({ status: 'pending', retries: 0, nextAttemptAt: 0 });
+      }
+    }
+    await this.updateCounts();
+    await this.processAll();
+  }
+
+  /** Replace a queued payload (user fixed the data that Supabase rejected). */
+  async updateItemPayload(
+    queue: SyncQueueKind,
+    itemId: string,
+    payload: Record<string, unknown>,
+  ): Promise<void> {
+    const doc = await this.findQueueDoc(queue, itemId);
+    if (!doc) return;
+    await doc.patch({ payload, status: 'pending', retries: 0, nextAttemptAt: 0 });
+    await this.updateCounts();
+  }
+
+  /**
+   * Drop a queued item without pushing it. Returns the removed item so the
+   * caller can roll back the optimistic local change (see
+   * SpaceStore.discardQueuedChange). Commit waiters on a child record are
+   * released with `false` — the row will never land.
+   */
+  async discardItem(queue: SyncQueueKind, itemId: string): Promise<SyncQueueItem | null> {
+    const doc = await this.findQueueDoc(queue, itemId);
+    if (!doc) return null;
+    const item = toQueueItem(queue, doc.toJSON?.() ?? doc);
+    await doc.remove();
+    if (queue === 'child') {
+      this.notifyCommit([item.recordId], false);
+    } else if (item.operation === 'delete') {
+      // The delete is rolled back — its held children are edits of a live record again
+      await this.releaseHeldChildUpserts(item.entityType, [item.recordId]);
+    }
+    await this.updateCounts();
+    return item;
+  }
+
+  // --- Database reset ---
+
+  /**
+   * Save unsynced items before the database is wiped (schema migration
+   * fallback). The leader pushes what it can first; whatever is left goes
+   * to localStorage and is put back by `initialize` after the reload.
+   * Returns the number of items saved.
+   */
+  async backupForReset(): Promise<number> {
+    if (!this.entityQueue || !this.childQueue) return 0;
+    if (leaderElectionService.isLeader.value) {
+      try {
+        await this.processNow();
+      } catch (error) {
+        console.warn('[SyncQueue] Push before reset failed:', error);
+      }
+    }
+
+    const [entityDocs, childDocs] = await Promise.all([
+      this.entityQueue.find({ selector: {} }).exec(),
+      this.childQueue.find({ selector: {} }).exec(),
+    ]);
+    const backup = {
+      entity: entityDocs.map((doc) => doc.toJSON?.() ?? doc),
+      child: childDocs.map((doc) => doc.toJSON?.() ?? doc),
+    };
+    const count = backup.entity.length + backup.child.length;
+    if (count > 0 && typeof localStorage !== 'undefined') {
+      localStorage.setItem(QUEUE_BACKUP_KEY, JSON.stringify(backup));
+      console.log(`[SyncQueue] Saved ${count} unsynced items before reset`);
+    }
+    return count;
+  }
+
+  private async restoreBackup(): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+    const raw = localStorage.getItem(QUEUE_BACKUP_KEY);
+    if (!raw || !this.entityQueue || !this.childQueue) return;
+
+    try {
+      const backup = JSON.parse(raw) as {
+        entity?: EntitySyncQueueDocument[];
+        child?: ChildSyncQueueDocument[];
+      };
+      if (backup.entity?.length) await this.entityQueue.bulkUpsert(backup.entity);
+      if (backup.child?.length) await this.childQueue.bulkUpsert(backup.child);
+      console.log(
+        `[SyncQueue] Restored ${(backup.entity?.length ?? 0) + (backup.child?.length ?? 0)} unsynced items after reset`,
+      );
+    } catch (error) {
+      console.error('[SyncQueue] Failed to restore queue backup:', error);
+    }
+    localStorage.removeItem(QUEUE_BACKUP_KEY);
+  }
+
   // --- Background processing ---
 
   startProcessing(intervalMs = 5000): void {
@@ -276,8 +944,14 @@ class SyncQueueService {
     });
   }
 
+  /** Settle commit waiters in this tab and in every other tab. */
   private notifyCommit(recordIds: string[], committed: boolean): void {
     if (recordIds.length === 0) return;
+    this.resolveCommitWaiters(recordIds, committed);
+    leaderElectionService.broadcast(SYNC_TOPICS.commit, { recordIds, committed });
+  }
+
+  private resolveCommitWaiters(recordIds: string[], committed: boolean): void {
     for (const recordId of recordIds) {
       const waiters = this.commitWaiters.get(recordId);
       if (!waiters) continue;
@@ -304,17 +978,21 @@ class SyncQueueService {
       return this.currentProcess;
     }
     if (!this.initialized) return;
+    if (!leaderElectionService.isLeader.value) {
+      return this.requestLeaderProcess();
+    }
     if (typeof navigator !== 'undefined' && !navigator.onLine) return;
-    if (this.circuitBreakerOpen) return;
 
     this.processing = true;
-    this.currentProcess = (async () => {
+    // Same lock as the service worker's background drain
+    this.currentProcess = backgroundSyncService.runExclusive(async () => {
       try {
         for (let pass = 0; pass < MAX_PROCESS_PASSES; pass += 1) {
           const processed =
             (await this.processEntityQueue()) +
-            (await this.processChildQueue());
-          if (processed === 0 || this.circuitBreakerOpen) break;
+            (await this.processChildQueue()) +
+            (await this.processHistoryQueue());
+          if (processed === 0) break;
           const pending = await this.getPendingQueueItemCount();
           if (pending === 0) break;
         }
@@ -323,16 +1001,50 @@ class SyncQueueService {
         this.processing = false;
         this.currentProcess = null;
       }
-    })();
+    });
     return this.currentProcess;
   }
 
+  /**
+   * Follower side of processAll: ask the leader to drain the queues and
+   * resolve when it reports back (or after REMOTE_PROCESS_TIMEOUT_MS if the
+   * leader is gone — the next elected leader picks the items up anyway).
+   * Resolves without draining when the election stops while waiting.
+   */
+  private async requestLeaderProcess(): Promise<void> {
+    try {
+      await leaderElectionService.whenElected();
+    } catch {
+      return;
+    }
+    if (leaderElectionService.isLeader.value) return this.processAll();
+
+    const requestId = crypto.randomUUID();
+    return new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve();
+      };
+      const timer = setTimeout(done, REMOTE_PROCESS_TIMEOUT_MS);
+      const unsubscribe = leaderElectionService.onMessage(SYNC_TOPICS.processed, (payload) => {
+        if ((payload as { requestId?: string } | undefined)?.requestId === requestId) done();
+      });
+      leaderElectionService.broadcast(SYNC_TOPICS.process, { requestId });
+    });
+  }
+
   private async processEntityQueue(): Promise<number> {
     if (!this.entityQueue) return 0;
 
+    const now = Date.now();
     const items = await this.entityQueue
       .find({
-        selector: { status: { $ne: 'failed' } },
+        selector: {
+          status: { $nin: PARKED_STATUSES },
+          entityType: { $nin: this.getOpenCircuitBreakers(now) },
+          $or: [{ nextAttemptAt: { $exists: false } }, { nextAttemptAt: { $lte: now } }],
+        },
         sort: [{ createdAt: 'asc' }],
         limit: BATCH_SIZE,
       })
@@ -349,57 +1061,61 @@ class SyncQueueService {
       groups.get(type)!.push(item);
     }
 
-    for (const [entityType, groupItems] of groups) {
+    for (const [entityType, allGroupItems] of groups) {
+      const groupItems = await this.parkConflicts(entityType, allGroupItems);
+      if (groupItems === null) continue;
+      processed += allGroupItems.length - groupItems.length;
+
       const upsertItems = groupItems.filter(i => i.operation === 'upsert');
       const deleteItems = groupItems.filter(i => i.operation === 'delete');
 
       // Batch upsert
       if (upsertItems.length > 0) {
-        const batch = upsertItems.map(i => i.payload);
         const onConflict = upsertItems[0].onConflict;
-
-        const { error } = await supabase
-          .from(entityType)
-          .upsert(batch, { onConflict });
-
-        if (!error) {
-          await this.bulkRemoveItems(this.entityQueue, upsertItems.map(i => i.id));
-          processed += upsertItems.length;
-          this.onSuccess();
+        const { succeeded, failed } = await this.bisectPush(upsertItems, (batch) =>
+          this.upsertBatch(entityType, batch.map(i => i.payload), onConflict),
+        );
+
+        if (succeeded.length > 0) {
+          await this.bulkRemoveItems(this.entityQueue, succeeded.map(i => i.id));
+          processed += succeeded.length;
+          this.onSuccess(entityType);
           // Post-push hooks (fire-and-forget) — entity now exists in Supabase
-          for (const item of upsertItems) {
+          for (const item of succeeded) {
             runPostSaveHooks(entityType, item.entityId, item.payload);
             this.notifyMutationSuccess(entityType, 'upsert');
           }
-        } else {
-          this.lastErrorMessage = error.message;
-          console.error(`[SyncQueue] Entity upsert error (${entityType}):`, error.message);
-          await this.incrementRetries(this.entityQueue, upsertItems);
-          this.onFailure();
+        }
+        if (failed.length > 0) {
+          console.error(`[SyncQueue] Entity upsert error (${entityType}):`, failed[0].error.message);
+          await this.incrementRetries(failed);
+          this.onFailure(entityType, failed[0].error);
         }
       }
 
       // Deletes: upsert with deleted=true
       if (deleteItems.length > 0) {
-        const batch = deleteItems.map(i => ({ ...i.payload, deleted: true }));
         const onConflict = deleteItems[0].onConflict;
-
-        const { error } = await supabase
-          .from(entityType)
-          .upsert(batch, { onConflict });
-
-        if (!error) {
-          await this.bulkRemoveItems(this.entityQueue, deleteItems.map(i => i.id));
-          processed += deleteItems.length;
-          this.onSuccess();
-          for (const _ of deleteItems) {
+        const { succeeded, failed } = await this.bisectPush(deleteItems, (batch) =>
+          this.upsertBatch(
+            entityType,
+            batch.map(i => ({ ...i.payload, deleted: true })),
+            onConflict,
+          ),
+        );
+
+        if (succeeded.length > 0) {
+          await this.bulkRemoveItems(this.entityQueue, succeeded.map(i => i.id));
+          processed += succeeded.length;
+          this.onSuccess(entityType);
+          for (const _ of succeeded) {
             this.notifyMutationSuccess(entityType, 'delete');
           }
-        } else {
-          this.lastErrorMessage = error.message;
-          console.error(`[SyncQueue] Entity delete error (${entityType}):`, error.message);
-          await this.incrementRetries(this.entityQueue, deleteItems);
-          this.onFailure();
+        }
+        if (failed.length > 0) {
+          console.error(`[SyncQueue] Entity delete error (${entityType}):`, failed[0].error.message);
+          await this.incrementRetries(failed);
+          this.onFailure(entityType, failed[0].error);
         }
       }
     }
@@ -407,16 +1123,32 @@ class SyncQueueService {
   }
 
   private async processChildQueue(): Promise<number> {
-    if (!this.childQueue) return 0;
+    if (!this.childQueue || !this.entityQueue) return 0;
 
-    const items = await this.childQueue
+    const now = Date.now();
+    const parents = await getQueuedParents(this.entityQueue);
+    const due = await this.childQueue
       .find({
-        selector: { status: { $ne: 'failed' } },
+        selector: {
+          status: { $nin: PARKED_STATUSES },
+          tableType: { $nin: [...this.getOpenCircuitBreakers(now), CHANGE_HISTORY_TABLE] },
+          $or: [{ nextAttemptAt: { $exists: false } }, { nextAttemptAt: { $lte: now } }],
+        },
         sort: [{ createdAt: 'asc' }],
-        limit: BATCH_SIZE,
+        // No limit when parents are queued: held items must not fill the batch
+        ...(parents.size === 0 && { limit: BATCH_SIZE }),
       })
       .exec();
 
+    // Hold children until every entity they reference has committed
+    const items = due
+      .filter((item) =>
+        !getChildQueueReferences(item.entityType, item.tableType, item.payload).some(
+          (ref) => parents.has(ref.entityId),
+        ),
+      )
+      .slice(0, BATCH_SIZE);
+
     if (items.length === 0) return 0;
     let processed = 0;
 
@@ -434,47 +1166,54 @@ class SyncQueueService {
 
       // Batch upsert
       if (upsertItems.length > 0) {
-        const batch = upsertItems.map(i => i.payload);
-
-        const { error } = await supabase
-          .from(tableType)
-          .upsert(batch, { onConflict: 'id' });
-
-        if (!error) {
-          await this.bulkRemoveItems(this.childQueue, upsertItems.map(i => i.id));
-          processed += upsertItems.length;
-          this.notifyCommit(upsertItems.map((i) => i.recordId), true);
-          this.onSuccess();
-          this.firePostPushHooks(tableType, upsertItems);
-        } else {
-          // Skip schema-cache errors silently (old VIEW records)
-          if (error.message.includes('schema cache') || error.message.includes('not found')) {
-            await this.bulkRemoveItems(this.childQueue, upsertItems.map(i => i.id));
-            processed += upsertItems.length;
-            // Don't notify committed — caller will see false and skip refresh.
-            this.notifyCommit(upsertItems.map((i) => i.recordId), false);
-          } else {
-            this.lastErrorMessage = error.message;
-            console.error(`[SyncQueue] Child upsert error (${tableType}):`, error.message);
-            await this.incrementRetries(this.childQueue, upsertItems);
-            this.onFailure();
-          }
+        const { succeeded, failed } = await this.bisectPush(upsertItems, (batch) =>
+          this.upsertBatch(tableType, batch.map(i => i.payload), 'id'),
+        );
+
+        if (succeeded.length > 0) {
+          await this.bulkRemoveItems(this.childQueue, succeeded.map(i => i.id));
+          processed += succeeded.length;
+          this.notifyCommit(succeeded.map((i) => i.recordId), true);
+          this.onSuccess(tableType);
+          this.firePostPushHooks(tableType, succeeded);
+        }
+
+        // Skip schema-cache errors silently (old VIEW records)
+        const stale = failed.filter(({ error }) =>
+          error.message.includes('schema cache') || error.message.includes('not found'),
+        );
+        const rejected = failed.filter((f) => !stale.includes(f));
+        if (stale.length > 0) {
+          await this.bulkRemoveItems(this.childQueue, stale.map(f => f.item.id));
+          processed += stale.length;
+          // Don't notify committed — caller will see false and skip refresh.
+          this.notifyCommit(stale.map((f) => f.item.recordId), false);
+        }
+        if (rejected.length > 0) {
+          console.error(`[SyncQueue] Child upsert error (${tableType}):`, rejected[0].error.message);
+          await this.incrementRetries(rejected);
+          this.onFailure(tableType, rejected[0].error);
         }
       }
 
       // Deletes: soft-delete with fallback to hard delete
       for (const item of deleteItems) {
+        if (this.isCircuitBreakerOpen(tableType, Date.now())) break;
         try {
-          const { error } = await supabase
+          const { error, status } = await supabase
             .from(tableType)
-            .update({ deleted: true, updated_at: new Date().toISOString() })
+            .update({
+              deleted: true,
+              updated_at: new Date().toISOString(),
+              ...(item.payload.updated_by && { updated_by: item.payload.updated_by }),
+            })
             .eq('id', item.payload.id);
 
           if (!error) {
             await item.remove();
             processed += 1;
             this.notifyCommit([item.recordId], true);
-            this.onSuccess();
+            this.onSuccess(tableType);
             this.firePostPushHooks(tableType, [item]);
           } else if (error.message.includes('column')) {
             // No 'deleted' column — hard delete
@@ -486,37 +1225,145 @@ class SyncQueueService {
               await item.remove();
               processed += 1;
               this.notifyCommit([item.recordId], true);
-              this.onSuccess();
+              this.onSuccess(tableType);
               this.firePostPushHooks(tableType, [item]);
             } else {
-              this.lastErrorMessage = hardDelete.error.message;
               console.error(`[SyncQueue] Child hard-delete error (${tableType}):`, hardDelete.error.message);
-              await this.incrementRetry(this.childQueue, item);
-              this.onFailure();
+              const pushError = this.toPushError(tableType, hardDelete.error, hardDelete.status);
+              await this.incrementRetry(item, pushError);
+              this.onFailure(tableType, pushError);
             }
           } else {
-            this.lastErrorMessage = error.message;
             console.error(`[SyncQueue] Child delete error (${tableType}):`, error.message);
-            await this.incrementRetry(this.childQueue, item);
-            this.onFailure();
+            const pushError = this.toPushError(tableType, error, status);
+            await this.incrementRetry(item, pushError);
+            this.onFailure(tableType, pushError);
           }
-        } catch {
-          await this.incrementRetry(this.childQueue, item);
-          this.onFailure();
+        } catch (e) {
+          const pushError = { message: e instanceof Error ? e.message : String(e) };
+          await this.incrementRetry(item, pushError);
+          this.onFailure(tableType, pushError);
         }
       }
     }
     return processed;
   }
 
+  /**
+   * Push queued change history entries (see enqueueHistory). A failed
+   * entry backs off like any item; one the server rejects for good — or
+   * that keeps failing past MAX_RETRIES — is dropped with a warning, since
+   * nobody can fix or discard it from the inspector.
+   */
+  private async processHistoryQueue(): Promise<number> {
+    if (!this.childQueue) return 0;
+
+    const items = await this.childQueue
+      .find({
+        selector: {
+          tableType: CHANGE_HISTORY_TABLE,
+          status: { $nin: PARKED_STATUSES },
+          $or: [{ nextAttemptAt: { $exists: false } }, { nextAttemptAt: { $lte: Date.now() } }],
+        },
+        sort: [{ createdAt: 'asc' }],
+        limit: BATCH_SIZE,
+      })
+      .exec();
+    if (items.length === 0) return 0;
+
+    const { succeeded, failed } = await this.bisectPush(items, (batch) =>
+      this.upsertBatch(CHANGE_HISTORY_TABLE, batch.map((i) => i.payload), 'id'),
+    );
+    if (succeeded.length > 0) {
+      await this.bulkRemoveItems(this.childQueue, succeeded.map((i) => i.id));
+    }
+
+    const dropped = failed.filter(
+      ({ item, error }) => classifyPushError(error) === 'permanent' || item.retries + 1 > MAX_RETRIES,
+    );
+    if (dropped.length > 0) {
+      console.warn(
+        `[SyncQueue] Dropping ${dropped.length} change history entries:`,
+        dropped[0].error.message,
+      );
+      await this.bulkRemoveItems(this.childQueue, dropped.map(({ item }) => item.id));
+    }
+    await this.incrementRetries(failed.filter((f) => !dropped.includes(f)));
+    return succeeded.length + dropped.length;
+  }
+
+  /**
+   * Compare items that carry a base version with the current server rows.
+   * Diverged items are merged with the server row (see mergeWithServer):
+   * the ones without same-field conflicts get the merged payload, the rest
+   * are parked as 'conflict'. Returns the items that are safe to push, or
+   * null when the server check itself failed (the whole group is retried on
+   * the next pass, same as a failed upsert).
+   */
+  private async parkConflicts<T extends RxDocument<EntitySyncQueueDocument>>(
+    entityType: string,
+    items: T[],
+  ): Promise<T[] | null> {
+    const checked = items.filter((i) => i.baseUpdatedAt);
+    if (checked.length === 0) return items;
+
+    const { data, error, status } = await supabase
+      .from(entityType)
+      .select('*')
+      .in('id', checked.map((i) => i.entityId));
+
+    if (error) {
+      console.error(`[SyncQueue] Conflict check error (${entityType}):`, error.message);
+      const pushError = this.toPushError(entityType, error, status);
+      await this.incrementRetries(items.map((item) => ({ item, error: pushError })));
+      this.onFailure(entityType, pushError);
+      return null;
+    }
+
+    const serverRows = new Map<string, Record<string, unknown>>();
+    for (const row of (data ?? []) as Record<string, unknown>[]) {
+      serverRows.set(String(row.id), row);
+    }
+
+    const safe: T[] = [];
+    for (const item of items) {
+      const serverRow = serverRows.get(item.entityId);
+      if (!item.baseUpdatedAt) {
+        safe.push(item);
+        continue;
+      }
+      const payload = item.payload;
+      const { merged, conflicts: fields } = mergeWithServer(
+        payload,
+        item.baseUpdatedAt,
+        serverRow,
+        item.baseSnapshot,
+      );
+      if (fields.length === 0) {
+        safe.push(merged === payload ? item : (await item.patch({ payload: merged })) as T);
+        continue;
+      }
+      console.warn(
+        `[SyncQueue] Conflict on ${entityType} ${item.entityId}: ${fields.map((f) => f.field).join(', ')}`,
+      );
+      await item.patch({
+        status: 'conflict',
+        ...(merged !== payload && { payload: merged }),
+        serverPayload: serverRow,
+        error: `Changed on server: ${fields.map((f) => f.field).join(', ')}`.slice(0, 500),
+      });
+    }
+    return safe;
+  }
+
   // --- Helpers ---
 
   private async getPendingQueueItemCount(): Promise<number> {
     if (!this.entityQueue || !this.childQueue) return 0;
     try {
       const [entityPending, childPending] = await Promise.all([
-        this.entityQueue.count({ selector: { status: { $ne: 'failed' } } }).exec(),
-        this.childQueue.count({ selector: { status: { $ne: 'failed' } } }).exec(),
+        this.entityQueue.count({ selector: { status: { $nin: PARKED_STATUSES } } }).exec(),
+        this.childQueue.count({ selector: { status: { $nin: PARKED_STATUSES } } }).exec(),
       ]);
       return entityPending + childPending;
     } catch {
@@ -540,71 +1387,190 @@ class SyncQueueService {
     await collection.bulkRemove(ids);
   }
 
-  private async incrementRetries(collection: RxCollection<any>, items: any[]): Promise<void> {
-    for (const item of items) {
-      await this.incrementRetry(collection, item);
+  /** Single Supabase batch upsert; resolves to the error (if any) instead of throwing. */
+  private async upsertBatch(
+    table: string,
+    rows: Record<string, unknown>[],
+    onConflict: string,
+  ): Promise<SyncPushError | null> {
+    const { error, status } = await supabase.from(table).upsert(rows, { onConflict });
+    return error ? this.toPushError(table, error, status) : null;
+  }
+
+  /**
+   * Push a batch; when Supabase rejects it because of row data, split it in
+   * halves and push each half again until the offending rows are isolated.
+   * One bad row in a batch of 10 costs ~7 extra requests instead of charging
+   * a retry to all 10 items.
+   */
+  private async bisectPush<T>(
+    items: T[],
+    push: (batch: T[]) => Promise<SyncPushError | null>,
+  ): Promise<{ succeeded: T[]; failed: Array<{ item: T; error: SyncPushError }> }> {
+    const error = await push(items);
+    if (!error) return { succeeded: items, failed: [] };
+    if (items.length === 1 || !isRowLevelPushError(error)) {
+      return { succeeded: [], failed: items.map((item) => ({ item, error })) };
+    }
+
+    const mid = Math.ceil(items.length / 2);
+    const left = await this.bisectPush(items.slice(0, mid), push);
+    const right = await this.bisectPush(items.slice(mid), push);
+    return {
+      succeeded: [...left.succeeded, ...right.succeeded],
+      failed: [...left.failed, ...right.failed],
+    };
+  }
+
+  private async incrementRetries(
+    failures: Array<{ item: QueueItemDoc; error: SyncPushError }>,
+  ): Promise<void> {
+    for (const { item, error } of failures) {
+      await this.incrementRetry(item, error);
     }
   }
 
-  private async incrementRetry(collection: RxCollection<any>, item: any): Promise<void> {
+  /**
+   * Record a failed push. Retryable errors schedule the next attempt with
+   * backoff; permanent ones (and retryable ones past MAX_RETRIES) park the
+   * item as 'failed' until the user fixes or discards it.
+   */
+  private async incrementRetry(item: QueueItemDoc, error: SyncPushError): Promise<void> {
     const newRetries = (item.retries || 0) + 1;
-    if (newRetries > MAX_RETRIES) {
+    const details = {
+      error: (error.message || 'Unknown sync error').slice(0, 500),
+      ...(error.code && { errorCode: error.code.slice(0, 20) }),
+    };
+    const permanent = classifyPushError(error) === 'permanent';
+    if (permanent || newRetries > MAX_RETRIES) {
       // Mark as failed — keep in queue for diagnostics, stop retrying
-      console.warn(`[SyncQueue] Max retries exceeded, marking as failed: ${item.id}`);
+      console.warn(
+        permanent
+          ? `[SyncQueue] Permanent push error, marking as failed: ${item.id}`
+          : `[SyncQueue] Max retries exceeded, marking as failed: ${item.id}`,
+      );
       await item.patch({
         retries: newRetries,
         status: 'failed',
-        error: this.lastErrorMessage || 'Max retries exceeded',
+        ...details,
       });
     } else {
-      await item.patch({ retries: newRetries });
+      await item.patch({
+        retries: newRetries,
+        ...details,
+        nextAttemptAt: computeNextAttemptAt(newRetries, Date.now(), error.retryAfterMs),
+      });
     }
   }
 
-  /** Update pending/failed count signals for UI */
+  /** Update pending/failed/conflict count signals for UI */
   private async updateCounts(): Promise<void> {
     if (!this.entityQueue || !this.childQueue) return;
     try {
-      const entityPending = await this.entityQueue.count({ selector: { status: { $ne: 'failed' } } }).exec();
-      const childPending = await this.childQueue.count({ selector: { status: { $ne: 'failed' } } }).exec();
+      const entityPending = await this.entityQueue.count({ selector: { status: { $nin: PARKED_STATUSES } } }).exec();
+      const childPending = await this.childQueue.count({ selector: { status: { $nin: PARKED_STATUSES }, ...NOT_HISTORY } }).exec();
       this.pendingCount.value = entityPending + childPending;
+      // Offline with pending items: let the service worker push them once
+      // connectivity returns, even if every tab is closed by then
+      if (this.pendingCount.value > 0 && typeof navigator !== 'undefined' && !navigator.onLine) {
+        void backgroundSyncService.requestSync();
+      }
 
       const entityFailed = await this.entityQueue.count({ selector: { status: 'failed' } }).exec();
-      const childFailed = await this.childQueue.count({ selector: { status: 'failed' } }).exec();
+      const childFailed = await this.childQueue.count({ selector: { status: 'failed', ...NOT_HISTORY } }).exec();
       this.failedCount.value = entityFailed + childFailed;
+
+      this.conflictCount.value = await this.entityQueue.count({ selector: { status: 'conflict' } }).exec();
+
+      leaderElectionService.broadcast(SYNC_TOPICS.counts, {
+        pending: this.pendingCount.value,
+        failed: this.failedCount.value,
+        conflicts: this.conflictCount.value,
+      });
     } catch {
       // Ignore count errors
     }
   }
 
-  // --- Circuit breaker ---
+  // --- Circuit breaker (per table) ---
 
-  private onSuccess(): void {
-    this.consecutiveFailures = 0;
+  private onSuccess(table: string): void {
+    this.circuitBreakers.delete(table);
   }
 
-  private onFailure(): void {
-    this.consecutiveFailures++;
-    if (this.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
-      this.openCircuitBreaker();
+  /**
+   * Count a failed push against the table's breaker. Permanent errors are
+   * bad rows, not a broken table — they are parked and don't trip it.
+   */
+  private onFailure(table: string, error: SyncPushError): void {
+    if (classifyPushError(error) === 'permanent') return;
+    const state = this.circuitBreakers.get(table) ?? { consecutiveFailures: 0, openUntil: 0 };
+    state.consecutiveFailures++;
+    if (state.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES && state.openUntil === 0) {
+      state.openUntil = Date.now() + CIRCUIT_BREAKER_RESET_MS;
+      console.warn(`[SyncQueue] Circuit breaker open for ${table} after ${state.consecutiveFailures} failures. Pausing for ${CIRCUIT_BREAKER_RESET_MS / 1000}s.`);
     }
+    this.circuitBreakers.set(table, state);
+  }
+
+  /** Keep the wait a 429 on `table` asked for next to the table's breaker. */
+  private recordRetryAfter(table: string, delayMs: number): void {
+    const state = this.circuitBreakers.get(table) ?? { consecutiveFailures: 0, openUntil: 0 };
+    state.retryAfterUntil = Date.now() + delayMs;
+    this.circuitBreakers.set(table, state);
+  }
+
+  private toPushError(
+    table: string,
+    error: { message: string; code?: string },
+    status?: number,
+  ): SyncPushError {
+    const retryAfterUntil =
+      status === 429 ? this.circuitBreakers.get(table)?.retryAfterUntil ?? 0 : 0;
+    const retryAfterMs = Math.max(0, retryAfterUntil - Date.now());
+    return {
+      message: error.message,
+      ...(error.code && { code: error.code }),
+      ...(status !== undefined && { status }),
+      ...(retryAfterMs > 0 && { retryAfterMs }),
+    };
+  }
+
+  private isCircuitBreakerOpen(table: string, now: number): boolean {
+    return this.getOpenCircuitBreakers(now).includes(table);
+  }
+
+  /** Tables with recent push failures, open breakers first. */
+  getCircuitBreakers(now = Date.now()): CircuitBreakerSnapshot[] {
+    const open = new Set(this.getOpenCircuitBreakers(now));
+    return [...this.circuitBreakers]
+      .map(([table, state]) => ({ table, ...state, open: open.has(table) }))
+      .sort((a, b) => Number(b.open) - Number(a.open) || a.table.localeCompare(b.table));
   }
 
-  private openCircuitBreaker(): void {
-    this.circuitBreakerOpen = true;
-    console.warn(`[SyncQueue] Circuit breaker open after ${this.consecutiveFailures} failures. Pausing for ${CIRCUIT_BREAKER_RESET_MS / 1000}s.`);
-    this.circuitBreakerTimer = setTimeout(() => {
-      this.circuitBreakerOpen = false;
-      this.consecutiveFailures = 0;
-      console.log('[SyncQueue] Circuit breaker reset');
-    }, CIRCUIT_BREAKER_RESET_MS);
+  /** Tables whose breaker is open; breakers past their cooldown are reset. */
+  private getOpenCircuitBreakers(now: number): string[] {
+    const open: string[] = [];
+    for (const [table, state] of this.circuitBreakers) {
+      if (state.openUntil === 0) continue;
+      if (state.openUntil > now) {
+        open.push(table);
+      } else {
+        this.circuitBreakers.delete(table);
+        console.log(`[SyncQueue] Circuit breaker reset for ${table}`);
+      }
+    }
+    return open;
   }
 
   destroy(): void {
     this.stopProcessing();
-    if (this.circuitBreakerTimer) {
-      clearTimeout(this.circuitBreakerTimer);
-    }
+    this.circuitBreakers.clear();
+    this.unsubscribeRetryAfter?.();
+    this.unsubscribeRetryAfter = null;
+    for (const unsubscribe of this.electionUnsubscribers) unsubscribe();
+    this.electionUnsubscribers = [];
+    leaderElectionService.stop();
     this.initialized = false;
   }
 }
@@ -119,4 +119,112 @@ describe("ChildLruPolicy", () => {
 
     release();
   });
+
+  it("never evicts groups of parents pinned for offline use", async () => {
+    const policy = new ChildLruPolicy();
+    const collection = createCollection([
+      childRecord("pinned-1", "pet-pinned"),
+      childRecord("pinned-2", "pet-pinned"),
+      childRecord("other-1", "pet-other"),
+      childRecord("other-2", "pet-other"),
+    ]);
+
+    vi.setSystemTime(1_000);
+    policy.touch("pet", "pet-pinned", "pet_measurement");
+    vi.setSystemTime(2_000);
+    policy.touch("pet", "pet-other", "pet_measurement");
+    vi.setSystemTime(10_000);
+
+    await policy.maybeEvict({
+      entityType: "pet",
+      collection: collection.collection,
+      pendingQueue: {
+        getPendingChildRecordIds: async () => new Set(),
+      },
+      pinnedParentIds: new Set(["pet-pinned"]),
+      recordLimit: 3,
+      evictTargetRatio: 0.67,
+      protectMs: 0,
+    });
+
+    expect(collection.records.map((record) => record.id)).toEqual([
+      "pinned-1",
+      "pinned-2",
+    ]);
+  });
+
+  it("notifies listeners of touched and evicted groups", async () => {
+    const policy = new ChildLruPolicy();
+    const events: string[] = [];
+    const unsubscribe = policy.subscribe((event) =>
+      events.push(`${event.type}:${event.parentId}:${event.tableType}`),
+    );
+    const collection = createCollection([
+      childRecord("old-1", "pet-old"),
+      childRecord("new-1", "pet-new"),
+    ]);
+
+    vi.setSystemTime(1_000);
+    policy.touch("pet", "pet-old", "pet_measurement");
+    vi.setSystemTime(2_000);
+    policy.touch("pet", "pet-new", "pet_measurement");
+    vi.setSystemTime(10_000);
+
+    await policy.maybeEvict({
+      entityType: "pet",
+      collection: collection.collection,
+      pendingQueue: {
+        getPendingChildRecordIds: async () => new Set(),
+      },
+      recordLimit: 1,
+      evictTargetRatio: 1,
+      protectMs: 0,
+    });
+    unsubscribe();
+    policy.forget("pet", "pet-new", "pet_measurement");
+
+    expect(events).toEqual([
+      "touch:pet-old:pet_measurement",
+      "touch:pet-new:pet_measurement",
+      "drop:pet-old:pet_measurement",
+    ]);
+  });
+
+  it("evicts a group's delta checkpoint together with its records", async () => {
+    const policy = new ChildLruPolicy();
+    const collection = createCollection([
+      childRecord("old-1", "pet-old"),
+      {
+        id: "checkpoint:pet_measurement:pet-old",
+        parentId: "pet-old",
+        tableType: "__checkpoint",
+        cachedAt: Date.now(),
+        additional: { tableType: "pet_measurement" },
+      },
+      childRecord("new-1", "pet-new"),
+    ]);
+
+    vi.setSystemTime(1_000);
+    policy.touch("pet", "pet-old", "pet_measurement");
+    vi.setSystemTime(2_000);
+    policy.touch("pet", "pet-new", "pet_measurement");
+    vi.setSystemTime(10_000);
+
+    const stats = await policy.maybeEvict({
+      entityType: "pet",
+      collection: collection.collection,
+      pendingQueue: {
+        getPendingChildRecordIds: async () => new Set(),
+      },
+      recordLimit: 2,
+      evictTargetRatio: 0.5,
+      protectMs: 0,
+    });
+
+    expect(collection.bulkRemove).toHaveBeenCalledWith([
+      "old-1",
+      "checkpoint:pet_measurement:pet-old",
+    ]);
+    expect(stats.evictedGroups).toBe(1);
+  });
 });
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+  getDefaultPreset,
+  getSpacePresets,
+  normalizePresetQuery,
+  presetMatchesQuery,
+  withDefaultPreset,
+  type FilterPreset,
+} from "../filter-preset.helpers";
+
+const NOW = "2026-05-02T10:00:00.000Z";
+
+function preset(overrides: Partial<FilterPreset>): FilterPreset {
+  return {
+    id: "p-1",
+    user_id: "user-1",
+    space_id: "space-pets",
+    name: "Available females",
+    filters: { sex_id: "female", status_id: "available" },
+    sort: "name_asc",
+    view: null,
+    search: null,
+    is_default: false,
+    shared_account_id: null,
+    created_at: NOW,
+    updated_at: NOW,
+    ...overrides,
+  };
+}
+
+describe("normalizePresetQuery", () => {
+  it("drops empty filter values, sorts keys and trims search", () => {
+    const query = normalizePresetQuery({
+      filters: { status_id: "available", country_id: "", breed_id: "b-1" },
+      sort: "",
+      search: "  rex ",
+    });
+
+    expect(Object.keys(query.filters)).toEqual(["breed_id", "status_id"]);
+    expect(query).toMatchObject({ sort: null, view: null, search: "rex" });
+  });
+});
+
+describe("presetMatchesQuery", () => {
+  it("matches the same filters regardless of order", () => {
+    const saved = preset({});
+    expect(
+      presetMatchesQuery(saved, {
+        filters: { status_id: "available", sex_id: "female" },
+        sort: "name_asc",
+        view: "grid",
+      }),
+    ).toBe(true);
+  });
+
+  it("ignores sort and view the preset doesn't set", () => {
+    const saved = preset({ sort: null });
+    expect(
+      presetMatchesQuery(saved, {
+        filters: saved.filters,
+        sort: "date_desc",
+      }),
+    ).toBe(true);
+  });
+
+  it("fails on an extra filter, another sort or another search", () => {
+    const saved = preset({});
+    expect(
+      presetMatchesQuery(saved, {
+        filters: { ...saved.filters, country_id: "ua" },
+        sort: "name_asc",
+      }),
+    ).toBe(false);
+    expect(presetMatchesQuery(saved, { filters: saved.filters, sort: "date_desc" })).toBe(false);
+    expect(
+      presetMatchesQuery(saved, { filters: saved.filters, sort: "name_asc", search: "rex" }),
+    ).toBe(false);
+  });
+});
+
+describe("getSpacePresets", () => {
+  it("lists own presets of the space first, then shared ones, by name", () => {
+    const presets = [
+      preset({ id: "shared", user_id: "user-2", name: "A shared", shared_account_id: "acc-1" }),
+      preset({ id: "own-b", name: "B own" }),
+      preset({ id: "own-a", name: "A own" }),
+      preset({ id: "other-space", space_id: "space-litters" }),
+    ];
+
+    expect(getSpacePresets(presets, "space-pets", "user-1").map((p) => p.id)).toEqual([
+      "own-a",
+      "own-b",
+      "shared",
+    ]);
+  });
+});
+
+describe("getDefaultPreset / withDefaultPreset", () => {
+  it("keeps a single default per user and space", () => {
+    const presets = [
+      preset({ id: "p-1", is_default: true }),
+      preset({ id: "p-2" }),
+      preset({ id: "p-3", space_id: "space-litters", is_default: true }),
+    ];
+
+    const next = withDefaultPreset(presets, "space-pets", "user-1", "p-2");
+
+    expect(getDefaultPreset(next, "space-pets", "user-1")?.id).toBe("p-2");
+    expect(next.find((p) => p.id === "p-1")?.is_default).toBe(false);
+    expect(next.find((p) => p.id === "p-3")?.is_default).toBe(true);
+    expect(getDefaultPreset(withDefaultPreset(next, "space-pets", "user-1", null), "space-pets", "user-1")).toBeNull();
+  });
+
+  it("never treats a shared preset as the user's default", () => {
+    const presets = [preset({ user_id: "user-2", is_default: true, shared_account_id: "acc-1" })];
+    expect(getDefaultPreset(presets, "space-pets", "user-1")).toBeNull();
+  });
+});
@@ -220,6 +220,21 @@ describe("navigation-history.store", () => {
     ).toEqual(["/beagle", "/affenpinscher"]);
   });
 
+  it("lists recent entries across types newest first", async () => {
+    const { navigationHistoryStore } = await loadNavigationHistoryStore();
+
+    navigationHistoryStore.addEntry("/affenpinscher", "Affenpinscher", "breed");
+    vi.setSystemTime(new Date("2026-04-21T12:01:00.000Z"));
+    navigationHistoryStore.addEntry("/rex", "Rex", "pet");
+    vi.setSystemTime(new Date("2026-04-21T12:02:00.000Z"));
+    navigationHistoryStore.addEntry("/boxer", "Boxer", "breed");
+
+    expect(
+      navigationHistoryStore.getRecentEntries().map((entry) => entry.path),
+    ).toEqual(["/boxer", "/rex", "/affenpinscher"]);
+    expect(navigationHistoryStore.getRecentEntries(1)).toHaveLength(1);
+  });
+
   it("clears only one entity type when clearHistoryForType is called", async () => {
     const { navigationHistoryStore, localStorageMock } =
       await loadNavigationHistoryStore();
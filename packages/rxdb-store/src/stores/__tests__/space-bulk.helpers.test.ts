@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  aggregateDependencyChecks,
+  buildEntityPatch,
+  captureRevertPatch,
+  mapWithConcurrency,
+} from "../space-bulk.helpers";
+
+describe("buildEntityPatch", () => {
+  it("stamps the edit and leaves the timeline alone without date changes", () => {
+    const patch = buildEntityPatch(
+      { id: "pet-1", status_id: "old", timeline: [] },
+      { status_id: "new" },
+      { userId: "user-1", now: "2026-04-21T12:00:00.000Z" },
+    );
+
+    expect(patch).toEqual({
+      status_id: "new",
+      updated_at: "2026-04-21T12:00:00.000Z",
+      updated_by: "user-1",
+    });
+  });
+
+  it("rebuilds the timeline when a date changes", () => {
+    const patch = buildEntityPatch(
+      { id: "pet-1", date_of_birth: "2020-01-01", timeline: [] },
+      { date_of_birth: "2021-05-05" },
+      { now: "2026-04-21T12:00:00.000Z" },
+    );
+
+    expect(patch.updated_by).toBeUndefined();
+    expect(Array.isArray(patch.timeline)).toBe(true);
+    expect(JSON.stringify(patch.timeline)).toContain("2021-05-05");
+  });
+});
+
+describe("captureRevertPatch", () => {
+  it("keeps the previous value of each edited field and nulls unset ones", () => {
+    expect(
+      captureRevertPatch({ status_id: "old", name: "Rex" }, { status_id: "new", coat_id: "c-1" }),
+    ).toEqual({ status_id: "old", coat_id: null });
+  });
+});
+
+describe("aggregateDependencyChecks", () => {
+  it("sums dependencies per table and splits deletable from blocked ids", () => {
+    const report = aggregateDependencyChecks([
+      { id: "pet-1", dependencies: [{ label: "Titles", count: 2 }] },
+      { id: "pet-2", dependencies: [] },
+      {
+        id: "pet-3",
+        dependencies: [
+          { label: "Titles", count: 1 },
+          { label: "Children", count: 4 },
+        ],
+      },
+    ]);
+
+    expect(report).toEqual({
+      canDelete: false,
+      deletableIds: ["pet-2"],
+      blockedIds: ["pet-1", "pet-3"],
+      dependencies: [
+        { label: "Children", count: 4, records: 1 },
+        { label: "Titles", count: 3, records: 2 },
+      ],
+    });
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps input order and never exceeds the limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay, index) => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      running -= 1;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChildCacheRecord, ChildSourceRow } from "../space-child.helpers";
+import {
+  buildChildCheckpointRecord,
+  buildChildDeltaCursorFilter,
+  canPullChildDelta,
+  getChildCheckpointCursor,
+  getChildGroupTableType,
+  getLatestChildCursor,
+  pullChildDelta,
+  type ChildDeltaCursor,
+} from "../space-child-delta.helpers";
+
+function createCollection() {
+  const records = new Map<string, ChildCacheRecord>();
+  return {
+    records,
+    bulkUpsert: vi.fn(async (docs: ChildCacheRecord[]) => {
+      for (const doc of docs) records.set(doc.id, doc);
+    }),
+    bulkRemove: vi.fn(async (ids: string[]) => {
+      for (const id of ids) records.delete(id);
+    }),
+  };
+}
+
+describe("space-child-delta.helpers", () => {
+  it("builds checkpoint records that belong to their group", () => {
+    const checkpoint = buildChildCheckpointRecord({
+      tableType: "pet_in_program",
+      parentId: "pet-1",
+      checkpoint: { updatedAt: "2026-01-02T00:00:00Z", id: "row-9" },
+      partitionId: "breed-1",
+      cachedAt: 5,
+    });
+
+    expect(checkpoint).toEqual({
+      id: "checkpoint:pet_in_program:pet-1",
+      tableType: "__checkpoint",
+      parentId: "pet-1",
+      partitionId: "breed-1",
+      updated_at: "2026-01-02T00:00:00Z",
+      cachedAt: 5,
+      additional: { tableType: "pet_in_program", lastId: "row-9" },
+    });
+    expect(getChildGroupTableType(checkpoint)).toBe("pet_in_program");
+    expect(getChildCheckpointCursor(checkpoint)).toEqual({
+      updatedAt: "2026-01-02T00:00:00Z",
+      id: "row-9",
+    });
+    // Checkpoints saved before the id was tracked
+    expect(
+      getChildCheckpointCursor({ updated_at: "2026-01-02", additional: { tableType: "pet_in_program" } }),
+    ).toEqual({ updatedAt: "2026-01-02", id: null });
+    expect(getChildGroupTableType({ id: "r", tableType: "title_in_pet" })).toBe("title_in_pet");
+  });
+
+  it("only pulls deltas for base tables without linked filters", () => {
+    expect(canPullChildDelta("pet_in_program")).toBe(true);
+    expect(canPullChildDelta("title_in_pet_with_details")).toBe(false);
+    expect(
+      canPullChildDelta("pet_in_program", [{ fk: "program_id", table: "program", filter: { type: "show" } }]),
+    ).toBe(false);
+  });
+
+  it("orders cursors by updated_at, then id", () => {
+    expect(
+      getLatestChildCursor(
+        [{ id: "z", updated_at: "a" }, { id: "b", updated_at: "b" }, { id: "a", updated_at: "b" }, {}],
+        { updatedAt: "a", id: "x" },
+      ),
+    ).toEqual({ updatedAt: "b", id: "b" });
+    expect(getLatestChildCursor([], null)).toBeNull();
+    expect(buildChildDeltaCursorFilter({ updatedAt: "2026-01-02", id: "row-9" })).toBe(
+      "updated_at.gt.2026-01-02,and(updated_at.eq.2026-01-02,id.gt.row-9)",
+    );
+    expect(buildChildDeltaCursorFilter({ updatedAt: "2026-01-02", id: null })).toBe(
+      "updated_at.gte.2026-01-02",
+    );
+  });
+
+  it("pages through changes, removes soft deletes and advances the checkpoint", async () => {
+    const collection = createCollection();
+    collection.records.set("gone", { id: "gone", parentId: "pet-1", tableType: "pet_in_program" });
+    const pages: ChildSourceRow[][] = [
+      [
+        { id: "a", pet_id: "pet-1", result: 1, updated_at: "2026-01-02" },
+        { id: "gone", pet_id: "pet-1", deleted: true, updated_at: "2026-01-03" },
+      ],
+      [{ id: "b", pet_id: "pet-1", result: 2, updated_at: "2026-01-04" }],
+    ];
+    const fetchPage = vi.fn(async () => ({ data: pages.shift() ?? [], error: null }));
+
+    const result = await pullChildDelta({
+      collection,
+      checkpoint: { updatedAt: "2026-01-01", id: "x" },
+      tableType: "pet_in_program",
+      parentId: "pet-1",
+      parentField: "pet_id",
+      fetchPage,
+      pageSize: 2,
+    });
+
+    expect(fetchPage.mock.calls).toEqual([
+      [{ updatedAt: "2026-01-01", id: "x" }, 2],
+      [{ updatedAt: "2026-01-03", id: "gone" }, 2],
+    ]);
+    expect(result).toEqual({
+      upserted: 2,
+      removed: 1,
+      checkpoint: { updatedAt: "2026-01-04", id: "b" },
+    });
+    expect([...collection.records.keys()].sort()).toEqual(["a", "b"]);
+    expect(collection.records.get("b")).toMatchObject({
+      parentId: "pet-1",
+      tableType: "pet_in_program",
+      additional: { result: 2 },
+    });
+  });
+
+  it("pages through more rows than a page holds that share one timestamp", async () => {
+    const collection = createCollection();
+    const rows: Array<ChildSourceRow & { updated_at: string }> = [
+      ...["r1", "r2", "r3", "r4", "r5"].map((id) => ({ id, pet_id: "pet-1", updated_at: "2026-01-02" })),
+      { id: "r0", pet_id: "pet-1", updated_at: "2026-01-03" },
+    ];
+    // Server side of the keyset: rows after the cursor in (updated_at, id) order
+    const fetchPage = vi.fn(async (after: ChildDeltaCursor, limit: number) => ({
+      data: rows
+        .filter((row) =>
+          row.updated_at > after.updatedAt ||
+          (row.updated_at === after.updatedAt && (after.id === null || row.id > after.id)),
+        )
+        .sort((a, b) => a.updated_at.localeCompare(b.updated_at) || a.id.localeCompare(b.id))
+        .slice(0, limit),
+      error: null,
+    }));
+
+    const result = await pullChildDelta({
+      collection,
+      checkpoint: { updatedAt: "2026-01-01", id: null },
+      tableType: "pet_in_program",
+      parentId: "pet-1",
+      parentField: "pet_id",
+      fetchPage,
+      pageSize: 2,
+    });
+
+    expect([...collection.records.keys()].sort()).toEqual(["r0", "r1", "r2", "r3", "r4", "r5"]);
+    expect(result.checkpoint).toEqual({ updatedAt: "2026-01-03", id: "r0" });
+    expect(fetchPage).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps the old checkpoint when a page fails", async () => {
+    const collection = createCollection();
+    await expect(
+      pullChildDelta({
+        collection,
+        checkpoint: { updatedAt: "2026-01-01", id: null },
+        tableType: "pet_in_program",
+        parentId: "pet-1",
+        parentField: "pet_id",
+        fetchPage: async () => ({ data: null, error: new Error("offline") }),
+      }),
+    ).rejects.toThrow("offline");
+    expect(collection.bulkUpsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { ChildRealtimeChange } from "../../services/child-realtime.service";
+import { planChildRealtimeChange } from "../space-child-realtime.helpers";
+
+function change(overrides: Partial<ChildRealtimeChange> = {}): ChildRealtimeChange {
+  return {
+    entityType: "pet",
+    tableType: "title_in_pet",
+    parentField: "pet_id",
+    eventType: "UPDATE",
+    row: { id: "t-1", pet_id: "pet-1", updated_at: "2026-01-02T00:00:00Z" },
+    oldRow: { id: "t-1" },
+    ...overrides,
+  };
+}
+
+describe("planChildRealtimeChange", () => {
+  it("upserts new rows and skips ones older than the cached copy", () => {
+    expect(planChildRealtimeChange(change(), undefined, new Set())).toMatchObject({
+      action: "upsert",
+      parentId: "pet-1",
+    });
+    expect(
+      planChildRealtimeChange(
+        change(),
+        { id: "t-1", parentId: "pet-1", updated_at: "2026-01-03T00:00:00Z" },
+        new Set(),
+      ),
+    ).toEqual({ action: "skip", reason: "stale" });
+  });
+
+  it("removes soft- and hard-deleted rows that are cached", () => {
+    const local = { id: "t-1", parentId: "pet-1" };
+    const softDeleted = change({
+      row: { id: "t-1", pet_id: "pet-1", deleted: true, updated_at: "2026-01-02T00:00:00Z" },
+    });
+    const hardDeleted = change({ eventType: "DELETE", row: null });
+
+    expect(planChildRealtimeChange(softDeleted, local, new Set())).toEqual({
+      action: "remove",
+      parentId: "pet-1",
+    });
+    // DELETE payloads carry only the primary key; the parent comes from the cache
+    expect(planChildRealtimeChange(hardDeleted, local, new Set())).toEqual({
+      action: "remove",
+      parentId: "pet-1",
+    });
+    expect(planChildRealtimeChange(hardDeleted, undefined, new Set())).toEqual({
+      action: "skip",
+      reason: "no-parent",
+    });
+  });
+
+  it("leaves rows with a queued local edit alone", () => {
+    expect(planChildRealtimeChange(change(), undefined, new Set(["t-1"]))).toEqual({
+      action: "skip",
+      reason: "pending",
+    });
+  });
+});
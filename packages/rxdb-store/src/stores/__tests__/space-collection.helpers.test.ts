@@ -21,6 +21,14 @@ describe("space-collection.helpers", () => {
     expect(passthrough).toEqual({ id: "pet-2" });
   });
 
+  it("adds generated strategies above the base versions", () => {
+    const generated = vi.fn((doc: Record<string, unknown>) => ({ ...doc, migrated: true }));
+    const config = buildEntityCollectionConfig({ version: 3 }, { 3: generated });
+
+    expect(config.migrationStrategies[3]({ id: "pet-1" })).toEqual({ id: "pet-1", migrated: true });
+    expect(config.migrationStrategies[2]({ id: "pet-1" })).toEqual({ id: "pet-1" });
+  });
+
   it("reuses a healthy collection when count check succeeds", async () => {
     await expect(
       getCollectionReuseStatus("pet", {
@@ -164,9 +172,13 @@ describe("space-collection.helpers", () => {
     const deletedDatabases: string[] = [];
     const reload = vi.fn();
     const remove = vi.fn(async () => undefined);
+    const beforeRemove = vi.fn(async () => {
+      expect(remove).not.toHaveBeenCalled();
+    });
 
     const recovered = await recoverCollectionSchemaMismatch({
       db: { remove },
+      beforeRemove,
       indexedDb: {
         deleteDatabase(name: string) {
           deletedDatabases.push(name);
@@ -196,8 +208,9 @@ describe("space-collection.helpers", () => {
     });
 
     expect(recovered).toBe(true);
+    expect(beforeRemove).toHaveBeenCalledTimes(1);
     expect(remove).toHaveBeenCalledTimes(1);
-    expect(removedKeys).toEqual(["breedhub_schema_hash"]);
+    expect(removedKeys).toEqual(["breedhub_schema_versions"]);
     expect(deletedDatabases).toEqual(["rxdb-dexie-breedhub", "breedhub"]);
     expect(reload).toHaveBeenCalledTimes(1);
   });
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildChildLruGroups,
+  filterEntityCircuitBreakers,
+  inspectServerTotalCache,
+} from "../space-diagnostics.helpers";
+
+describe("buildChildLruGroups", () => {
+  it("groups records per parent and table, coldest first", () => {
+    const access: Record<string, number> = { "pet-warm:title_in_pet": 2_000 };
+    const groups = buildChildLruGroups(
+      [
+        { id: "1", parentId: "pet-warm", tableType: "title_in_pet" },
+        { id: "2", parentId: "pet-warm", tableType: "title_in_pet" },
+        { id: "3", parentId: "pet-cold", tableType: "pet_measurement" },
+        { id: "4", parentId: "pet-pinned", tableType: "pet_measurement" },
+        { id: "5", parentId: "pet-pinned", tableType: "pet_measurement" },
+        { id: "orphan" },
+      ],
+      (parentId, tableType) => ({
+        lastAccess: access[`${parentId}:${tableType}`] ?? null,
+        active: false,
+      }),
+      new Set(["pet-pinned"]),
+    );
+
+    expect(groups.map((group) => [group.parentId, group.records, group.pinned])).toEqual([
+      ["pet-pinned", 2, true],
+      ["pet-cold", 1, false],
+      ["pet-warm", 2, false],
+    ]);
+    expect(groups[2].lastAccess).toBe(2_000);
+  });
+});
+
+describe("inspectServerTotalCache", () => {
+  it("reads the unfiltered entry regardless of age", () => {
+    const cache: Record<string, string> = {
+      totalCount_pet: JSON.stringify({ value: 42, timestamp: 0 }),
+    };
+    const read = (key: string) => cache[key] ?? null;
+
+    expect(inspectServerTotalCache("pet", read)).toMatchObject({ status: "hit", value: 42 });
+    expect(inspectServerTotalCache("breed", read)).toEqual({ status: "missing" });
+  });
+});
+
+describe("filterEntityCircuitBreakers", () => {
+  it("keeps breakers of the entity and its child tables", () => {
+    const breaker = (table: string) => ({ table, consecutiveFailures: 5, openUntil: 1, open: true });
+
+    expect(
+      filterEntityCircuitBreakers(
+        [breaker("pet"), breaker("title_in_pet"), breaker("litter")],
+        "pet",
+        ["title_in_pet"],
+      ).map((entry) => entry.table),
+    ).toEqual(["pet", "title_in_pet"]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFacetCountRpcArgs,
+  countFacetValues,
+  getFacetFilters,
+  isFacetCacheComplete,
+  parseFacetCountRows,
+} from "../space-facet.helpers";
+
+describe("space-facet.helpers", () => {
+  it("leaves the faceted field's own value out of the filters", () => {
+    expect(getFacetFilters({ country_id: "ua", sex_id: "m" }, "country_id")).toEqual({
+      sex_id: "m",
+    });
+  });
+
+  it("leaves the faceted field's conditions out of the filter group", () => {
+    const filters = {
+      sex_id: "m",
+      $where: {
+        type: "group",
+        combinator: "and",
+        children: [
+          { type: "condition", field: "country_id", value: "ua" },
+          {
+            type: "group",
+            combinator: "or",
+            children: [
+              { type: "condition", field: "country_id", value: "pl" },
+              { type: "condition", field: "owner_id", value: "me" },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(getFacetFilters(filters, "country_id")).toEqual({
+      sex_id: "m",
+      $where: {
+        type: "group",
+        combinator: "and",
+        children: [
+          {
+            type: "group",
+            combinator: "or",
+            children: [{ type: "condition", field: "owner_id", value: "me" }],
+          },
+        ],
+      },
+    });
+    expect(getFacetFilters(filters, "owner_id").$where).toEqual({
+      type: "group",
+      combinator: "and",
+      children: [
+        { type: "condition", field: "country_id", value: "ua" },
+        {
+          type: "group",
+          combinator: "or",
+          children: [{ type: "condition", field: "country_id", value: "pl" }],
+        },
+      ],
+    });
+  });
+
+  it("drops the filter group when only the faceted field's conditions were in it", () => {
+    const filters = {
+      $where: {
+        type: "group",
+        combinator: "or",
+        children: [{ type: "condition", field: "country_id", value: "ua" }],
+      },
+    };
+
+    expect(getFacetFilters(filters, "country_id")).toEqual({});
+    expect(
+      buildFacetCountRpcArgs({
+        entityType: "pet",
+        field: "country_id",
+        filters,
+        fieldConfigs: {},
+      }).p_where,
+    ).toBeNull();
+  });
+
+  it("counts locally only when the cache holds the whole table", () => {
+    expect(isFacetCacheComplete(120, 120)).toBe(true);
+    expect(isFacetCacheComplete(80, 120)).toBe(false);
+    expect(isFacetCacheComplete(0, 0)).toBe(false);
+  });
+
+  it("counts option values, once per array item and without empty values", () => {
+    const counts = countFacetValues(
+      [
+        { country_id: "ua" },
+        { country_id: "ua" },
+        { country_id: "pl" },
+        { country_id: null },
+        { country_id: ["pl", "de"] },
+      ],
+      "country_id",
+    );
+    expect(counts).toEqual({ ua: 2, pl: 2, de: 1 });
+  });
+
+  it("sends resolved flat filters, OR fields and the filter group to the RPC", () => {
+    const group = {
+      type: "group" as const,
+      combinator: "or" as const,
+      children: [{ type: "condition" as const, field: "owner_id", value: "me" }],
+    };
+    const args = buildFacetCountRpcArgs({
+      entityType: "pet",
+      field: "country_id",
+      filters: {
+        sex_id: "m",
+        date_of_birth: "last_1_year",
+        contact_id: "c1",
+        name: "",
+        $where: group,
+      },
+      fieldConfigs: {
+        sex_id: { fieldType: "uuid" },
+        date_of_birth: { fieldType: "date" },
+        contact_id: { fieldType: "uuid", orFields: ["owner_id", "breeder_id"] },
+      },
+      now: new Date(2026, 5, 15),
+    });
+
+    expect(args).toEqual({
+      p_table: "pet",
+      p_field: "country_id",
+      p_filters: [
+        { fields: ["sex_id"], operator: "eq", value: "m" },
+        { fields: ["date_of_birth"], operator: "date_range", value: { from: "2025-06-15" } },
+        { fields: ["owner_id", "breeder_id"], operator: "eq", value: "c1" },
+      ],
+      p_where: group,
+    });
+  });
+
+  it("reads { value, count } rows and skips malformed ones", () => {
+    expect(
+      parseFacetCountRows([
+        { value: "ua", count: 12 },
+        { value: "pl", count: "3" },
+        { value: null, count: 7 },
+        { count: 1 },
+        "junk",
+      ]),
+    ).toEqual({ ua: 12, pl: 3 });
+    expect(parseFacetCountRows(null)).toEqual({});
+  });
+});
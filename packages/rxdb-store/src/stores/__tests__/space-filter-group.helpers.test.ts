@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFilterGroupPostgrestExpr,
+  buildFilterGroupRxdbSelector,
+  matchFilterGroup,
+  parseFilterGroup,
+  type FilterGroup,
+  type FilterGroupLeafResolver,
+} from "../space-filter-group.helpers";
+
+const resolveLeaf: FilterGroupLeafResolver = (condition) => ({
+  operator: condition.operator ?? "eq",
+});
+
+// (owner is me OR breeder is me) AND NOT status = deceased
+const breederQuery: FilterGroup = {
+  type: "group",
+  combinator: "and",
+  children: [
+    {
+      type: "group",
+      combinator: "or",
+      children: [
+        { type: "condition", field: "owner_id", value: "me" },
+        { type: "condition", field: "breeder_id", value: "me" },
+      ],
+    },
+    { type: "condition", field: "status", value: "deceased", negate: true },
+  ],
+};
+
+describe("space-filter-group.helpers", () => {
+  it("compiles nested groups to RxDB $and / $or / $not", () => {
+    expect(buildFilterGroupRxdbSelector(breederQuery, resolveLeaf)).toEqual({
+      $and: [
+        { $or: [{ owner_id: "me" }, { breeder_id: "me" }] },
+        { status: { $not: { $eq: "deceased" } } },
+      ],
+    });
+  });
+
+  it("compiles nested groups to a PostgREST logic tree", () => {
+    expect(buildFilterGroupPostgrestExpr(breederQuery, resolveLeaf)).toBe(
+      "and(or(owner_id.eq.me,breeder_id.eq.me),or(status.is.null,status.not.eq.deceased))",
+    );
+  });
+
+  it("pushes a negated group down to its conditions (De Morgan)", () => {
+    const group: FilterGroup = {
+      type: "group",
+      combinator: "and",
+      negate: true,
+      children: [
+        { type: "condition", field: "sex", value: "male" },
+        { type: "condition", field: "tags", operator: "not_in", value: ["show"] },
+      ],
+    };
+
+    expect(buildFilterGroupRxdbSelector(group, resolveLeaf)).toEqual({
+      $or: [
+        { sex: { $not: { $eq: "male" } } },
+        { tags: { $not: { $nin: ["show", null] } } },
+      ],
+    });
+    expect(buildFilterGroupPostgrestExpr(group, resolveLeaf)).toBe(
+      "or(or(sex.is.null,sex.not.eq.male),or(tags.is.null,tags.in.(show)))",
+    );
+  });
+
+  it("matches records in memory with the same semantics, nulls included", () => {
+    const match = (record: Record<string, unknown>) =>
+      matchFilterGroup(record, breederQuery, resolveLeaf);
+
+    expect(match({ owner_id: "me", status: "alive" })).toBe(true);
+    expect(match({ breeder_id: "me", status: null })).toBe(true);
+    expect(match({ breeder_id: "me", status: "deceased" })).toBe(false);
+    expect(match({ owner_id: "other", breeder_id: "other" })).toBe(false);
+  });
+
+  it("ignores inactive conditions and keeps null checks without a value", () => {
+    const group: FilterGroup = {
+      type: "group",
+      combinator: "or",
+      children: [
+        { type: "condition", field: "name", value: "" },
+        { type: "condition", field: "death_date", operator: "is_null" },
+      ],
+    };
+
+    expect(buildFilterGroupRxdbSelector(group, resolveLeaf)).toEqual({
+      death_date: { $eq: null },
+    });
+    expect(buildFilterGroupPostgrestExpr(group, resolveLeaf)).toBe("death_date.is.null");
+  });
+
+  it("validates untrusted groups", () => {
+    expect(parseFilterGroup({ type: "group", combinator: "xor", children: [] })).toBeNull();
+    expect(
+      parseFilterGroup({
+        type: "group",
+        combinator: "xor",
+        children: [{ type: "condition", field: "sex", value: "male" }, { type: "other" }, "x"],
+      }),
+    ).toEqual({
+      type: "group",
+      combinator: "and",
+      children: [{ type: "condition", field: "sex", value: "male" }],
+    });
+  });
+});
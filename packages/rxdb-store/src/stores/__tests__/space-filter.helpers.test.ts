@@ -207,6 +207,33 @@ describe("space-filter.helpers", () => {
     });
   });
 
+  it("ANDs the filter group into the count selector", () => {
+    expect(
+      buildRxdbCountSelector(
+        {
+          breed_id: "breed-1",
+          $where: {
+            type: "group",
+            combinator: "or",
+            children: [
+              { type: "condition", field: "owner_id", value: "me" },
+              { type: "condition", field: "breeder_id", value: "me" },
+            ],
+          },
+        },
+        {
+          breed_id: { fieldType: "uuid", operator: "eq" },
+          owner_id: { fieldType: "uuid" },
+          breeder_id: { fieldType: "uuid" },
+        },
+      ),
+    ).toEqual({
+      _deleted: false,
+      breed_id: "breed-1",
+      $and: [{ $or: [{ owner_id: "me" }, { breeder_id: "me" }] }],
+    });
+  });
+
   it("builds count selector with search-style string filters when preferred", () => {
     expect(
       buildRxdbCountSelector(
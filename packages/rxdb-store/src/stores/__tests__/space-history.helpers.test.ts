@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildChangeHistoryEntry,
+  buildRevertUpdates,
+  canRevertChange,
+  diffChangedFields,
+  filterChangeHistory,
+  getChangedFieldNames,
+  mergeChangeHistory,
+  type ChangeHistoryEntry,
+} from "../space-history.helpers";
+
+const NOW = "2026-05-02T10:00:00.000Z";
+
+function entry(overrides: Partial<ChangeHistoryEntry>): ChangeHistoryEntry {
+  return {
+    id: "h-1",
+    entity_type: "pet",
+    entity_id: "pet-1",
+    table_type: null,
+    record_id: "pet-1",
+    operation: "update",
+    changes: [],
+    changed_by: "user-1",
+    changed_at: NOW,
+    ...overrides,
+  };
+}
+
+describe("diffChangedFields", () => {
+  it("lists changed fields with null for missing values, skipping bookkeeping", () => {
+    expect(
+      diffChangedFields(
+        { name: "Rex", date_of_birth: "2020-01-01", updated_at: "a", coat: { id: 1 } },
+        { name: "Rex", date_of_birth: "2021-02-02", updated_at: "b", coat: { id: 1 }, notes: "x" },
+      ),
+    ).toEqual([
+      { field: "date_of_birth", before: "2020-01-01", after: "2021-02-02" },
+      { field: "notes", before: null, after: "x" },
+    ]);
+  });
+
+  it("compares only the given fields", () => {
+    expect(
+      diffChangedFields({ name: "Rex", timeline: [] }, { name: "Max", timeline: [1] }, ["name"]),
+    ).toEqual([{ field: "name", before: "Rex", after: "Max" }]);
+  });
+});
+
+describe("buildChangeHistoryEntry", () => {
+  it("builds an entry for a child record change", () => {
+    expect(
+      buildChangeHistoryEntry(
+        {
+          entityType: "pet",
+          entityId: "pet-1",
+          tableType: "title_in_pet",
+          recordId: "t-1",
+          operation: "create",
+          after: { title_id: "ch" },
+        },
+        { userId: "user-1", now: NOW, id: "h-1" },
+      ),
+    ).toEqual(
+      entry({
+        table_type: "title_in_pet",
+        record_id: "t-1",
+        operation: "create",
+        changes: [{ field: "title_id", before: null, after: "ch" }],
+      }),
+    );
+  });
+
+  it("skips updates without changes and keeps deletes without fields", () => {
+    expect(
+      buildChangeHistoryEntry({
+        entityType: "pet",
+        entityId: "pet-1",
+        operation: "update",
+        before: { name: "Rex" },
+        after: { name: "Rex" },
+      }),
+    ).toBeNull();
+    expect(
+      buildChangeHistoryEntry({ entityType: "pet", entityId: "pet-1", operation: "delete" })?.changes,
+    ).toEqual([]);
+  });
+});
+
+describe("history listing", () => {
+  const dob = { field: "date_of_birth", before: "2020-01-01", after: "2021-02-02" };
+  const name = { field: "name", before: "Rex", after: "Max" };
+
+  it("merges server and queued entries newest first, marking queued ones", () => {
+    const merged = mergeChangeHistory(
+      [entry({ id: "a", changed_at: "2026-05-01T00:00:00.000Z" }), entry({ id: "b" })],
+      [entry({ id: "b" }), entry({ id: "c", changed_at: "2026-05-03T00:00:00.000Z" })],
+    );
+
+    expect(merged.map((e) => [e.id, !!e.pending])).toEqual([
+      ["c", true],
+      ["b", true],
+      ["a", false],
+    ]);
+  });
+
+  it("filters by field and lists the changed fields", () => {
+    const entries = [entry({ id: "a", changes: [dob] }), entry({ id: "b", changes: [name, dob] })];
+
+    expect(getChangedFieldNames(entries)).toEqual(["date_of_birth", "name"]);
+    expect(filterChangeHistory(entries, "name").map((e) => e.id)).toEqual(["b"]);
+    expect(filterChangeHistory(entries, null)).toBe(entries);
+  });
+
+  it("reverts one field or the whole update", () => {
+    const update = entry({ changes: [name, dob] });
+
+    expect(buildRevertUpdates(update, "name")).toEqual({ name: "Rex" });
+    expect(buildRevertUpdates(update)).toEqual({ name: "Rex", date_of_birth: "2020-01-01" });
+    expect(canRevertChange(update)).toBe(true);
+    expect(canRevertChange(entry({ operation: "delete" }))).toBe(true);
+    expect(canRevertChange(entry({ operation: "delete", table_type: "title_in_pet" }))).toBe(false);
+  });
+});
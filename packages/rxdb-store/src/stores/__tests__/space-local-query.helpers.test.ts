@@ -2,12 +2,14 @@ import { describe, expect, it, vi } from "vitest";
 import {
   executeLocalEntityQuery,
   filterLocalEntities,
+  mergeRankedSearchIds,
   type LocalEntityRecord,
   type LocalFindQueryOptions,
   type LocalQueryCollection,
 } from "../space-local-query.helpers";
 
 interface SelectorCondition {
+  $in?: unknown[];
   $regex?: string;
   $options?: string;
   $gt?: string;
@@ -63,6 +65,10 @@ function matchesSelector(
     if (isObjectRecord(condition)) {
       const typedCondition = condition as SelectorCondition;
 
+      if (Array.isArray(typedCondition.$in)) {
+        return typedCondition.$in.includes(record[field]);
+      }
+
       if (typeof typedCondition.$regex === "string") {
         return new RegExp(
           typedCondition.$regex,
@@ -237,4 +243,81 @@ describe("space-local-query.helpers", () => {
     expect(result.hasMore).toBe(false);
     expect(result.nextCursor).toBe(5);
   });
+
+  it("keeps search-index rank order and applies the other filters", async () => {
+    const collection = createMockCollection([
+      { id: "1", name: "Sharik", sex_id: "m", _deleted: false },
+      { id: "2", name: "Шарик", sex_id: "f", _deleted: false },
+      { id: "3", name: "Sharikov", sex_id: "f", _deleted: false },
+    ]);
+    const rankSearch = vi.fn(async () => ["2", "1", "3"]);
+
+    const result = await executeLocalEntityQuery({
+      collection,
+      entityType: "pet",
+      filters: { name: "sharik", sex_id: "f" },
+      fieldConfigs: {
+        name: { fieldType: "string", operator: "contains" },
+        sex_id: { fieldType: "uuid", operator: "eq" },
+      },
+      limit: 10,
+      cursor: null,
+      orderBy: {
+        field: "name",
+        direction: "asc",
+        tieBreaker: { field: "id", direction: "asc" },
+      },
+      rankSearch,
+    });
+
+    expect(rankSearch).toHaveBeenCalledWith("sharik");
+    expect(result.records.map((record) => record.id)).toEqual(["2", "3"]);
+    expect(result.hasMore).toBe(false);
+  });
+
+  it("puts ranked cached rows ahead of server ids without duplicates", () => {
+    const merged = mergeRankedSearchIds(
+      [
+        { id: "b", updated_at: "2026-01-02" },
+        { id: "a" },
+      ],
+      [
+        { id: "a", updated_at: "2026-01-01" },
+        { id: "c", updated_at: "2026-01-03" },
+      ],
+      { limit: 30, firstPage: true },
+    );
+
+    expect(merged).toEqual({
+      ids: [
+        { id: "b", updated_at: "2026-01-02" },
+        { id: "a", updated_at: undefined },
+        { id: "c", updated_at: "2026-01-03" },
+      ],
+      lastServerRecord: { id: "c", updated_at: "2026-01-03" },
+      hasMoreServerIds: false,
+    });
+  });
+
+  it("keeps ranked search pages within the limit and never repeats ranked rows", () => {
+    const ranked = [{ id: "r1" }, { id: "s3" }];
+    const server = (ids: string[]) => ids.map((id) => ({ id }));
+
+    const first = mergeRankedSearchIds(ranked, server(["s1", "s2", "s3", "s4"]), {
+      limit: 4,
+      firstPage: true,
+    });
+    expect(first.ids.map((record) => record.id)).toEqual(["r1", "s3", "s1", "s2"]);
+    // The keyset continues after s2, so s3 and s4 come with the next page
+    expect(first.lastServerRecord).toEqual({ id: "s2" });
+    expect(first.hasMoreServerIds).toBe(true);
+
+    const next = mergeRankedSearchIds(ranked, server(["s3", "s4", "r1", "s5"]), {
+      limit: 4,
+      firstPage: false,
+    });
+    expect(next.ids.map((record) => record.id)).toEqual(["s4", "s5"]);
+    expect(next.lastServerRecord).toEqual({ id: "s5" });
+    expect(next.hasMoreServerIds).toBe(false);
+  });
 });
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  addPinnedIds,
+  collectOfflinePinnedIds,
+  createOfflinePin,
+  estimateRecordBytes,
+  getOfflinePinId,
+  getPedigreeRefsUpToGeneration,
+  markInterruptedOfflinePins,
+  readOfflinePins,
+  writeOfflinePins,
+} from "../space-offline-pin.helpers";
+
+const pedigree = {
+  f: { id: "father", bid: "breed-1" },
+  m: { id: "mother", bid: "breed-1" },
+  ff: { id: "grandfather", bid: "breed-1" },
+  fm: { id: "grandmother", bid: "breed-2" },
+  fff: { id: "great-grandfather", bid: "breed-1" },
+};
+
+describe("offline pin ids", () => {
+  it("is stable for the same pet set in any order", () => {
+    expect(getOfflinePinId({ kind: "pets", ids: ["b", "a", "b"] })).toBe("pets:a,b");
+    expect(getOfflinePinId({ kind: "account", id: "kennel-1" })).toBe("account:kennel-1");
+  });
+
+  it("creates a pin with default generations and child tables", () => {
+    const pin = createOfflinePin({ kind: "breed", id: "breed-1", label: "Akita" });
+
+    expect(pin).toMatchObject({
+      id: "breed:breed-1",
+      label: "Akita",
+      generations: 4,
+      status: "downloading",
+      targetIds: ["breed-1"],
+    });
+    expect(pin.childTables.pet).toContain("title_in_pet");
+  });
+});
+
+describe("getPedigreeRefsUpToGeneration", () => {
+  it("keeps ancestors up to the requested generation", () => {
+    expect(getPedigreeRefsUpToGeneration(pedigree, 2).map((ref) => ref.id)).toEqual([
+      "father",
+      "mother",
+      "grandfather",
+      "grandmother",
+    ]);
+    expect(getPedigreeRefsUpToGeneration(pedigree, 0)).toEqual([]);
+  });
+
+  it("accepts the JSONB as a string and ignores garbage", () => {
+    expect(getPedigreeRefsUpToGeneration(JSON.stringify(pedigree), 1)).toEqual([
+      { id: "father", partitionId: "breed-1" },
+      { id: "mother", partitionId: "breed-1" },
+    ]);
+    expect(getPedigreeRefsUpToGeneration("{not json", 3)).toEqual([]);
+  });
+});
+
+describe("pinned ids", () => {
+  it("merges ids across pins per entity type", () => {
+    const first = createOfflinePin({ kind: "pets", ids: ["pet-1"] });
+    first.entityIds = addPinnedIds(addPinnedIds({}, "pet", ["pet-1"]), "pet", ["pet-1", "father"]);
+    first.parentIds = { pet: ["pet-1"] };
+    const second = createOfflinePin({ kind: "account", id: "kennel-1" });
+    second.entityIds = { account: ["kennel-1"], pet: ["pet-2"] };
+
+    const pinned = collectOfflinePinnedIds([first, second]);
+
+    expect([...pinned.entityIds.get("pet")!]).toEqual(["pet-1", "father", "pet-2"]);
+    expect([...pinned.parentIds.get("pet")!]).toEqual(["pet-1"]);
+    expect(pinned.entityIds.get("account")?.has("kennel-1")).toBe(true);
+  });
+
+  it("estimates the size as serialized JSON", () => {
+    expect(estimateRecordBytes([{ id: "a" }, { id: "bb" }])).toBe(21);
+  });
+});
+
+describe("offline pin storage", () => {
+  it("round-trips pins and marks interrupted downloads on startup", () => {
+    const storage = new Map<string, string>();
+    const storageLike = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        storage.set(key, value);
+      },
+    };
+    const pin = createOfflinePin({ kind: "pets", ids: ["pet-1"] });
+
+    writeOfflinePins(storageLike, [pin]);
+    const pins = readOfflinePins(storageLike);
+
+    expect(pins).toEqual([pin]);
+    expect(markInterruptedOfflinePins(pins)[0]).toMatchObject({
+      status: "error",
+      error: "Download interrupted",
+    });
+
+    storage.set("breedhub_offline_pins", "{not json");
+    expect(readOfflinePins(storageLike)).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildQuickSearchColumns,
+  buildQuickSearchPattern,
+  mergeQuickSearchResults,
+  toQuickSearchResult,
+  type QuickSearchResult,
+} from "../space-quick-search.helpers";
+
+function result(id: string, source: QuickSearchResult["source"]): QuickSearchResult {
+  return {
+    id,
+    entityType: "pet",
+    name: id,
+    slug: null,
+    avatarUrl: null,
+    partitionId: null,
+    source,
+  };
+}
+
+describe("space-quick-search.helpers", () => {
+  it("selects avatar and partition columns only where the entity has them", () => {
+    expect(buildQuickSearchColumns("pet")).toBe("id, name, slug, avatar_url, breed_id");
+    expect(buildQuickSearchColumns("contact")).toBe("id, name, slug");
+  });
+
+  it("escapes LIKE wildcards in the query", () => {
+    expect(buildQuickSearchPattern(" 100%_dog ")).toBe("%100\\%\\_dog%");
+    expect(buildQuickSearchPattern("   ")).toBeNull();
+  });
+
+  it("maps records to results with the partition value", () => {
+    expect(
+      toQuickSearchResult(
+        "pet",
+        { id: "pet-1", name: "Rex", slug: "rex-1", avatar_url: "", breed_id: "breed-1" },
+        "remote",
+      ),
+    ).toEqual({
+      id: "pet-1",
+      entityType: "pet",
+      name: "Rex",
+      slug: "rex-1",
+      avatarUrl: null,
+      partitionId: "breed-1",
+      source: "remote",
+    });
+    expect(toQuickSearchResult("pet", { name: "No id" }, "local")).toBeNull();
+  });
+
+  it("keeps local results first and fills up with new remote ones", () => {
+    const merged = mergeQuickSearchResults(
+      [result("a", "local")],
+      [result("a", "remote"), result("b", "remote"), result("c", "remote")],
+      2,
+    );
+
+    expect(merged.map((item) => `${item.id}:${item.source}`)).toEqual(["a:local", "b:remote"]);
+  });
+});
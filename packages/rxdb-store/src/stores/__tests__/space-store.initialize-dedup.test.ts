@@ -79,10 +79,6 @@ describe("spaceStore.initialize concurrent dedup", () => {
       },
     }));
 
-    vi.doMock("../../utils/schema-version-check", () => ({
-      checkSchemaVersion: vi.fn(async () => false),
-    }));
-
     const { spaceStore } = await import("../space-store.signal-store");
     const store = spaceStore as unknown as {
       initialize: () => Promise<void>;
@@ -154,10 +150,6 @@ describe("spaceStore.initialize concurrent dedup", () => {
       },
     }));
 
-    vi.doMock("../../utils/schema-version-check", () => ({
-      checkSchemaVersion: vi.fn(async () => false),
-    }));
-
     const { spaceStore } = await import("../space-store.signal-store");
     const store = spaceStore as unknown as {
       initialize: () => Promise<void>;
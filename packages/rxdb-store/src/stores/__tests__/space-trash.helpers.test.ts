@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { SyncQueueItem } from "../../services/sync-queue.service";
+import {
+  buildRestoredRow,
+  buildTrashItemFromQueue,
+  buildTrashItemFromRow,
+  getTrashCutoff,
+  mergeTrashItems,
+} from "../space-trash.helpers";
+
+function queueItem(overrides: Partial<SyncQueueItem> = {}): SyncQueueItem {
+  return {
+    queue: "entity",
+    id: "q-1",
+    entityType: "pet",
+    recordId: "pet-1",
+    operation: "delete",
+    payload: { id: "pet-1", name: "Rex", deleted: true, updated_at: "2026-04-20T10:00:00.000Z" },
+    retries: 0,
+    createdAt: Date.parse("2026-04-20T10:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+describe("getTrashCutoff", () => {
+  it("subtracts the retention window from now", () => {
+    const now = Date.parse("2026-04-21T12:00:00.000Z");
+    expect(getTrashCutoff(7, now)).toBe("2026-04-14T12:00:00.000Z");
+  });
+});
+
+describe("trash items", () => {
+  it("builds child items with their parent id from the row", () => {
+    const item = buildTrashItemFromRow(
+      "child",
+      "pet",
+      { id: "t-1", pet_id: "pet-1", updated_at: "2026-04-20T09:00:00.000Z", deleted: true },
+      "title_in_pet",
+    );
+
+    expect(item).toMatchObject({
+      kind: "child",
+      entityType: "pet",
+      tableType: "title_in_pet",
+      recordId: "t-1",
+      parentId: "pet-1",
+      pending: false,
+    });
+  });
+
+  it("only turns queued deletes into items", () => {
+    expect(buildTrashItemFromQueue(queueItem({ operation: "upsert" }))).toBeNull();
+    expect(buildTrashItemFromQueue(queueItem())).toMatchObject({
+      recordId: "pet-1",
+      deletedAt: "2026-04-20T10:00:00.000Z",
+      pending: true,
+    });
+  });
+
+  it("prefers the queued delete, drops expired entries and sorts newest first", () => {
+    const server = [
+      buildTrashItemFromRow("entity", "pet", {
+        id: "pet-1",
+        updated_at: "2026-04-19T10:00:00.000Z",
+      })!,
+      buildTrashItemFromRow("entity", "note", {
+        id: "note-1",
+        updated_at: "2026-04-20T11:00:00.000Z",
+      })!,
+      buildTrashItemFromRow("entity", "note", {
+        id: "note-old",
+        updated_at: "2026-01-01T00:00:00.000Z",
+      })!,
+    ];
+    const queued = [buildTrashItemFromQueue(queueItem())!];
+
+    const merged = mergeTrashItems(server, queued, "2026-04-01T00:00:00.000Z");
+
+    expect(merged.map((item) => [item.recordId, item.pending])).toEqual([
+      ["note-1", false],
+      ["pet-1", true],
+    ]);
+  });
+});
+
+describe("buildRestoredRow", () => {
+  it("clears the delete flag and stamps the restore", () => {
+    const restored = buildRestoredRow(
+      { id: "pet-1", deleted: true, updated_at: "old", updated_by: "someone" },
+      { userId: "user-1", now: "2026-04-21T12:00:00.000Z" },
+    );
+
+    expect(restored).toEqual({
+      id: "pet-1",
+      deleted: false,
+      updated_at: "2026-04-21T12:00:00.000Z",
+      updated_by: "user-1",
+    });
+  });
+
+  it("leaves out the flag for rows without a deleted column", () => {
+    const restored = buildRestoredRow({ id: "t-1", pet_id: "pet-1" });
+    expect(restored).not.toHaveProperty("deleted");
+  });
+
+  it("rebuilds the timeline from the row's dates", () => {
+    const restored = buildRestoredRow({
+      id: "pet-1",
+      deleted: true,
+      date_of_birth: "2020-05-01",
+      timeline: [
+        { d: "2019-01-01", t: "birthday", id: "b-1" },
+        { d: "2022-03-03", t: "litter", id: "l-1" },
+      ],
+    });
+
+    expect(restored.timeline).toEqual([
+      { d: "2020-05-01", t: "birthday", id: "b-1" },
+      { d: "2022-03-03", t: "litter", id: "l-1" },
+    ]);
+  });
+});
@@ -61,10 +61,16 @@ async function loadUserStoreHarness(options?: {
     },
   }));
 
+  const destroyPresence = vi.fn();
+  vi.doMock("../../services/presence.service", () => ({
+    presenceService: { destroy: destroyPresence },
+  }));
+
   const module = await import("../user-store.signal-store");
 
   return {
     userStore: module.userStore,
+    destroyPresence,
     getSession,
     onAuthStateChange,
     unsubscribe,
@@ -163,9 +169,11 @@ describe("user-store.signal-store", () => {
       avatar: "https://cdn.example.com/picture.png",
     });
     expect(harness.userStore.isAuthenticated.value).toBe(true);
+    expect(harness.destroyPresence).not.toHaveBeenCalled();
 
     harness.emitAuthChange("SIGNED_OUT", null);
 
+    expect(harness.destroyPresence).toHaveBeenCalledTimes(1);
     expect(harness.userStore.currentUserId.value).toBeNull();
     expect(harness.userStore.currentUser.value).toBeNull();
     expect(harness.userStore.isAuthenticated.value).toBe(false);
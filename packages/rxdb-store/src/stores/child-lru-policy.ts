@@ -18,10 +18,15 @@
  *     (`CHILD_COLLECTION_EVICT_PROTECT_MS`) are shielded;
  *   - records whose id is still pending in the sync queue are
  *     shielded — evicting them would silently drop user-authored data
- *     that hasn't reached Supabase yet.
+ *     that hasn't reached Supabase yet;
+ *   - groups of parents pinned for offline use are never evicted.
+ *
+ * Listeners (`subscribe`) see every touched and dropped group — child
+ * realtime channels follow the cached parents this way.
  */
 
 import type { ChildCacheRecord } from "./space-child.helpers";
+import { getChildGroupTableType } from "./space-child-delta.helpers";
 import {
   CHILD_COLLECTION_EVICT_PROTECT_MS,
   CHILD_COLLECTION_EVICT_TARGET_RATIO,
@@ -47,12 +52,22 @@ interface MaybeEvictOptions {
   entityType: string;
   collection: CollectionLike<ChildCacheRecord>;
   pendingQueue: PendingQueueLookup;
+  /** Parent ids pinned for offline use — their groups are never evicted. */
+  pinnedParentIds?: ReadonlySet<string>;
   /** Override defaults for tests. */
   recordLimit?: number;
   evictTargetRatio?: number;
   protectMs?: number;
 }
 
+export interface ChildLruEvent {
+  /** `touch` on read, `drop` on eviction or `forget` */
+  type: "touch" | "drop";
+  entityType: string;
+  parentId: string;
+  tableType: string;
+}
+
 interface EvictionStats {
   evictedRecords: number;
   evictedGroups: number;
@@ -70,6 +85,7 @@ export class ChildLruPolicy {
   private inflight = new Map<string, Promise<EvictionStats>>();
   /** active read ref-count by group key; active groups are never evicted */
   private activeReads = new Map<string, number>();
+  private listeners = new Set<(event: ChildLruEvent) => void>();
 
   constructor(options: { protectMs?: number; recordLimit?: number; targetRatio?: number } = {}) {
     this.protectMs = options.protectMs ?? CHILD_COLLECTION_EVICT_PROTECT_MS;
@@ -81,6 +97,7 @@ export class ChildLruPolicy {
   touch(entityType: string, parentId: string | undefined, tableType: string): void {
     if (!parentId) return;
     this.accessTimes.set(this.keyOf(entityType, parentId, tableType), Date.now());
+    this.emit({ type: "touch", entityType, parentId, tableType });
   }
 
   /**
@@ -109,6 +126,28 @@ export class ChildLruPolicy {
   forget(entityType: string, parentId: string | undefined, tableType: string): void {
     if (!parentId) return;
     this.accessTimes.delete(this.keyOf(entityType, parentId, tableType));
+    this.emit({ type: "drop", entityType, parentId, tableType });
+  }
+
+  /** Listen to touched and dropped groups. Returns an unsubscribe function. */
+  subscribe(listener: (event: ChildLruEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Last access and active-read state of one group (diagnostics panel). */
+  getGroupAccess(
+    entityType: string,
+    parentId: string,
+    tableType: string,
+  ): { lastAccess: number | null; active: boolean } {
+    const key = this.keyOf(entityType, parentId, tableType);
+    return {
+      lastAccess: this.accessTimes.get(key) ?? null,
+      active: this.activeReads.has(key),
+    };
   }
 
   /** Reset state — primarily for tests. */
@@ -162,7 +201,8 @@ export class ChildLruPolicy {
         for (const doc of all) {
           const json = doc.toJSON();
           const parentId = json.parentId;
-          const tableType = json.tableType;
+          // Delta checkpoints are evicted with the group they describe
+          const tableType = getChildGroupTableType(json);
           if (!parentId || !tableType) continue;
           const key = this.keyOf(options.entityType, parentId, tableType);
           let group = groups.get(key);
@@ -188,12 +228,19 @@ export class ChildLruPolicy {
           const lastAccess = this.accessTimes.get(group.key) ?? 0;
           if (this.activeReads.has(group.key)) continue;
           if (lastAccess > cutoff) continue;
+          if (options.pinnedParentIds?.has(group.parentId)) continue;
 
           const evictableIds = group.recordIds.filter((id) => !pending.has(id));
           if (evictableIds.length === 0) continue;
 
           await options.collection.bulkRemove(evictableIds);
           this.accessTimes.delete(group.key);
+          this.emit({
+            type: "drop",
+            entityType: options.entityType,
+            parentId: group.parentId,
+            tableType: group.tableType,
+          });
           evictedRecords += evictableIds.length;
           evictedGroups += 1;
           projected -= evictableIds.length;
@@ -214,6 +261,16 @@ export class ChildLruPolicy {
     return promise;
   }
 
+  private emit(event: ChildLruEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("[ChildLruPolicy] Listener failed:", error);
+      }
+    }
+  }
+
   private keyOf(entityType: string, parentId: string, tableType: string): string {
     return `${entityType}:${parentId}:${tableType}`;
   }
@@ -0,0 +1,127 @@
+/**
+ * Saved filter presets: a named space query (filters, sort, view, search)
+ * the user can bring back with one click. Stored per user in the
+ * `filter_preset` table; a preset shared with a kennel (`shared_account_id`)
+ * is also readable by the kennel's other members (RLS on the table).
+ */
+
+/** Supabase table the presets live in. */
+export const FILTER_PRESET_TABLE = "filter_preset";
+
+export const FILTER_PRESET_COLUMNS =
+  "id, user_id, space_id, name, filters, sort, view, search, is_default, shared_account_id, created_at, updated_at";
+
+/** What a preset restores. `filters` maps filter field id → value id. */
+export interface FilterPresetQuery {
+  filters: Record<string, string>;
+  sort: string | null;
+  view: string | null;
+  search: string | null;
+}
+
+export interface FilterPreset extends FilterPresetQuery {
+  id: string;
+  /** Owner — only the owner can change or delete the preset */
+  user_id: string;
+  /** Space config id the preset belongs to */
+  space_id: string;
+  name: string;
+  /** Applied when the owner opens the space without a query */
+  is_default: boolean;
+  /** Kennel (account) the preset is shared with, or null when private */
+  shared_account_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A query as the space UI has it: filter values not yet stringified. */
+export type FilterPresetQueryInput = Partial<Omit<FilterPresetQuery, "filters">> & {
+  filters?: Record<string, unknown>;
+};
+
+/** Drop empty values and whitespace so equal queries compare equal. */
+export function normalizePresetQuery(query: FilterPresetQueryInput): FilterPresetQuery {
+  const filters: Record<string, string> = {};
+  for (const key of Object.keys(query.filters ?? {}).sort()) {
+    const value = query.filters?.[key];
+    if (value !== undefined && value !== null && String(value) !== "") {
+      filters[key] = String(value);
+    }
+  }
+  const search = query.search?.trim();
+  return {
+    filters,
+    sort: query.sort || null,
+    view: query.view || null,
+    search: search || null,
+  };
+}
+
+/**
+ * True when the current query is what the preset restores. Sort and view
+ * only count when the preset sets them — a preset without a sort matches
+ * whatever sort is active.
+ */
+export function presetMatchesQuery(
+  preset: FilterPresetQuery,
+  current: FilterPresetQueryInput,
+): boolean {
+  const saved = normalizePresetQuery(preset);
+  const live = normalizePresetQuery(current);
+
+  if (saved.search !== live.search) return false;
+  if (saved.sort && saved.sort !== live.sort) return false;
+  if (saved.view && saved.view !== live.view) return false;
+
+  const savedKeys = Object.keys(saved.filters);
+  if (savedKeys.length !== Object.keys(live.filters).length) return false;
+  return savedKeys.every((key) => live.filters[key] === saved.filters[key]);
+}
+
+/** Presets visible in a space: the user's own first, then shared ones, each by name. */
+export function getSpacePresets(
+  presets: FilterPreset[],
+  spaceId: string,
+  userId: string | null,
+): FilterPreset[] {
+  return presets
+    .filter((preset) => preset.space_id === spaceId)
+    .sort((a, b) => {
+      const aOwn = a.user_id === userId;
+      const bOwn = b.user_id === userId;
+      if (aOwn !== bOwn) return aOwn ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+}
+
+/** The user's default preset for a space. Shared presets are never a default. */
+export function getDefaultPreset(
+  presets: FilterPreset[],
+  spaceId: string,
+  userId: string | null,
+): FilterPreset | null {
+  if (!userId) return null;
+  return (
+    presets.find(
+      (preset) =>
+        preset.space_id === spaceId && preset.user_id === userId && preset.is_default,
+    ) ?? null
+  );
+}
+
+/**
+ * Mark `presetId` as the user's default in its space (or clear the default
+ * with null); one default per user and space.
+ */
+export function withDefaultPreset(
+  presets: FilterPreset[],
+  spaceId: string,
+  userId: string,
+  presetId: string | null,
+): FilterPreset[] {
+  return presets.map((preset) => {
+    if (preset.space_id !== spaceId || preset.user_id !== userId) return preset;
+    const isDefault = preset.id === presetId;
+    return preset.is_default === isDefault ? preset : { ...preset, is_default: isDefault };
+  });
+}
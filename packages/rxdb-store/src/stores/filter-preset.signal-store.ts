@@ -0,0 +1,247 @@
+import { signal } from '@preact/signals-react';
+import { supabase } from '../supabase/client';
+import { userStore } from './user-store.signal-store';
+import {
+  FILTER_PRESET_COLUMNS,
+  FILTER_PRESET_TABLE,
+  getDefaultPreset,
+  getSpacePresets,
+  normalizePresetQuery,
+  withDefaultPreset,
+  type FilterPreset,
+  type FilterPresetQuery,
+} from './filter-preset.helpers';
+
+/**
+ * FilterPresetStore — saved space queries ("views") of the signed-in user.
+ *
+ * Schema source: `filter_preset` table. Loaded on auth (and reloaded on
+ * user change) like UserSettingsStore: the user's own presets plus the
+ * ones kennel co-members shared with the user's kennel (`contact.account_id`).
+ *
+ * Writes go straight to Supabase and are applied to `presets` optimistically;
+ * a failed write rolls the list back and rethrows so the UI can say so.
+ */
+
+export interface SaveFilterPresetOptions {
+  isDefault?: boolean;
+  /** Share with the user's kennel co-members */
+  shareWithKennel?: boolean;
+}
+
+class FilterPresetStore {
+  presets = signal<FilterPreset[]>([]);
+  /** Kennel of the signed-in user — target of shared presets, null when none */
+  accountId = signal<string | null>(null);
+
+  loading = signal<boolean>(false);
+  /** First load for the current user finished (default presets wait for it) */
+  loaded = signal<boolean>(false);
+  initialized = signal<boolean>(false);
+
+  private currentUserId: string | null = null;
+  private unsubscribeUser: (() => void) | null = null;
+
+  /**
+   * Subscribe to UserStore so presets reload on login/logout.
+   * Safe to call multiple times — subsequent calls are no-ops.
+   */
+  initialize(): void {
+    if (this.initialized.value) return;
+
+    if (userStore.currentUserId.value) {
+      void this.load(userStore.currentUserId.value);
+    }
+
+    this.unsubscribeUser = userStore.currentUserId.subscribe((userId) => {
+      if (userId === this.currentUserId) return;
+      if (userId) {
+        void this.load(userId);
+      } else {
+        this.clear();
+      }
+    });
+
+    this.initialized.value = true;
+  }
+
+  /** Presets to offer in a space: own first, then shared. */
+  getForSpace(spaceId: string): FilterPreset[] {
+    return getSpacePresets(this.presets.value, spaceId, this.currentUserId);
+  }
+
+  getDefault(spaceId: string): FilterPreset | null {
+    return getDefaultPreset(this.presets.value, spaceId, this.currentUserId);
+  }
+
+  isOwn(preset: FilterPreset): boolean {
+    return preset.user_id === this.currentUserId;
+  }
+
+  async save(
+    spaceId: string,
+    name: string,
+    query: FilterPresetQuery,
+    options: SaveFilterPresetOptions = {},
+  ): Promise<FilterPreset> {
+    const userId = this.requireUser();
+    const shared = options.shareWithKennel ? this.accountId.value : null;
+    if (options.shareWithKennel && !shared) {
+      throw new Error('You are not a member of a kennel to share with');
+    }
+
+    const { data, error } = await supabase
+      .from(FILTER_PRESET_TABLE)
+      .insert({
+        user_id: userId,
+        space_id: spaceId,
+        name: name.trim(),
+        ...normalizePresetQuery(query),
+        is_default: false,
+        shared_account_id: shared,
+      })
+      .select(FILTER_PRESET_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    const created = data as FilterPreset;
+    this.presets.value = [...this.presets.value, created];
+    if (options.isDefault) await this.setDefault(spaceId, created.id);
+    return this.presets.value.find((preset) => preset.id === created.id) ?? created;
+  }
+
+  /** Rename, re-point at the current query or change sharing of an own preset. */
+  async update(
+    id: string,
+    patch: { name?: string; query?: FilterPresetQuery; shareWithKennel?: boolean },
+  ): Promise<void> {
+    const changes: Partial<FilterPreset> = {};
+    if (patch.name !== undefined) changes.name = patch.name.trim();
+    if (patch.query) Object.assign(changes, normalizePresetQuery(patch.query));
+    if (patch.shareWithKennel !== undefined) {
+      if (patch.shareWithKennel && !this.accountId.value) {
+        throw new Error('You are not a member of a kennel to share with');
+      }
+      changes.shared_account_id = patch.shareWithKennel ? this.accountId.value : null;
+    }
+
+    await this.write(
+      (presets) => presets.map((preset) => (preset.id === id ? { ...preset, ...changes } : preset)),
+      async () => {
+        const { error } = await supabase
+          .from(FILTER_PRESET_TABLE)
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq('id', id)
+          .eq('user_id', this.requireUser());
+        if (error) throw error;
+      },
+    );
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.write(
+      (presets) => presets.filter((preset) => preset.id !== id),
+      async () => {
+        const { error } = await supabase
+          .from(FILTER_PRESET_TABLE)
+          .delete()
+          .eq('id', id)
+          .eq('user_id', this.requireUser());
+        if (error) throw error;
+      },
+    );
+  }
+
+  /** Make a preset the user's default for the space, or clear it with null. */
+  async setDefault(spaceId: string, presetId: string | null): Promise<void> {
+    const userId = this.requireUser();
+    await this.write(
+      (presets) => withDefaultPreset(presets, spaceId, userId, presetId),
+      async () => {
+        const { error: clearError } = await supabase
+          .from(FILTER_PRESET_TABLE)
+          .update({ is_default: false })
+          .eq('user_id', userId)
+          .eq('space_id', spaceId)
+          .eq('is_default', true);
+        if (clearError) throw clearError;
+        if (!presetId) return;
+
+        const { error } = await supabase
+          .from(FILTER_PRESET_TABLE)
+          .update({ is_default: true })
+          .eq('id', presetId)
+          .eq('user_id', userId);
+        if (error) throw error;
+      },
+    );
+  }
+
+  private async write(
+    apply: (presets: FilterPreset[]) => FilterPreset[],
+    persist: () => Promise<void>,
+  ): Promise<void> {
+    const previous = this.presets.value;
+    this.presets.value = apply(previous);
+    try {
+      await persist();
+    } catch (err) {
+      console.error('[FilterPresetStore] Failed to save preset change:', err);
+      this.presets.value = previous;
+      throw err;
+    }
+  }
+
+  private requireUser(): string {
+    if (!this.currentUserId) {
+      throw new Error('Sign in to save filter presets');
+    }
+    return this.currentUserId;
+  }
+
+  private async load(userId: string): Promise<void> {
+    this.currentUserId = userId;
+    this.loading.value = true;
+    this.loaded.value = false;
+    try {
+      const { data: contact, error: contactError } = await supabase
+        .from('contact')
+        .select('account_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (contactError) throw contactError;
+      const accountId = (contact?.account_id as string | null | undefined) ?? null;
+
+      const query = supabase.from(FILTER_PRESET_TABLE).select(FILTER_PRESET_COLUMNS);
+      const { data, error } = await (accountId
+        ? query.or(`user_id.eq.${userId},shared_account_id.eq.${accountId}`)
+        : query.eq('user_id', userId));
+      if (error) throw error;
+
+      // Drop the result if a different user signed in while we were waiting.
+      if (this.currentUserId !== userId) return;
+      this.accountId.value = accountId;
+      this.presets.value = (data ?? []) as FilterPreset[];
+    } catch (err) {
+      console.error('[FilterPresetStore] Failed to load presets:', err);
+      // leave previous values in place — partial data > broken UI
+    } finally {
+      this.loading.value = false;
+      if (this.currentUserId === userId) this.loaded.value = true;
+    }
+  }
+
+  private clear(): void {
+    this.currentUserId = null;
+    this.accountId.value = null;
+    this.presets.value = [];
+    this.loaded.value = false;
+  }
+
+  destroy(): void {
+    this.unsubscribeUser?.();
+    this.unsubscribeUser = null;
+  }
+}
+
+export const filterPresetStore = new FilterPresetStore();
@@ -102,6 +102,17 @@ class NavigationHistoryStore {
       : typeHistory;
   }
 
+  /**
+   * Most recent pages across all entity types, newest first
+   * (global search shows them before the user types)
+   */
+  getRecentEntries(limit: number = MAX_HISTORY_SIZE): NavigationEntry[] {
+    return Object.values(this._historyByType.value)
+      .flat()
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+
   /**
    * Check if entity type has any history
    */
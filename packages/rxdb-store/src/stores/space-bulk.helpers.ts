@@ -0,0 +1,148 @@
+import { rebuildTimelineOnDateChange } from "../utils/timeline-builder";
+
+type EntityData = Record<string, unknown>;
+
+/** Dependency probes run side by side during a bulk delete check. */
+export const BULK_DEPENDENCY_CONCURRENCY = 4;
+
+export type BulkStage = "prepare" | "write" | "queue" | "done";
+
+/**
+ * Progress of a bulk mutation. `prepare` counts records as they are read and
+ * patched (or probed for dependencies); `write` and `queue` are the single
+ * RxDB write and the single sync queue batch.
+ */
+export interface BulkProgress {
+  stage: BulkStage;
+  done: number;
+  total: number;
+}
+
+export interface BulkMutationOptions {
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+export interface BulkUpdateResult {
+  updated: string[];
+  /** Ids without a local document — nothing was written for them */
+  missing: string[];
+  /** Field values before the edit per id — pass to `revertBulkUpdate` to undo */
+  previous: Record<string, EntityData>;
+}
+
+export interface BulkDeleteResult {
+  deleted: string[];
+  missing: string[];
+}
+
+export interface DependencyCheck {
+  id: string;
+  dependencies: { label: string; count: number }[];
+}
+
+export interface BulkDependencyReport {
+  canDelete: boolean;
+  /** Selected ids without dependent records */
+  deletableIds: string[];
+  blockedIds: string[];
+  /** Dependent records per table, summed over the selection */
+  dependencies: { label: string; count: number; records: number }[];
+}
+
+/**
+ * Local patch for an entity edit: the changed fields stamped with
+ * `updated_at` / `updated_by`, plus a rebuilt `timeline` when a date of
+ * birth or death changes (mirrors trigger_pet_timeline_on_dates).
+ */
+export function buildEntityPatch(
+  current: EntityData,
+  updates: EntityData,
+  options: { userId?: string | null; now?: string } = {},
+): EntityData {
+  const patch: EntityData = {
+    ...updates,
+    updated_at: options.now ?? new Date().toISOString(),
+    ...(options.userId && { updated_by: options.userId }),
+  };
+
+  if ("date_of_birth" in updates || "date_of_death" in updates) {
+    const currentTimeline = Array.isArray(current.timeline)
+      ? (current.timeline as Parameters<typeof rebuildTimelineOnDateChange>[0])
+      : [];
+    const dateOfBirth =
+      typeof patch.date_of_birth === "string" || patch.date_of_birth === null
+        ? patch.date_of_birth
+        : current.date_of_birth;
+    const dateOfDeath =
+      typeof patch.date_of_death === "string" || patch.date_of_death === null
+        ? patch.date_of_death
+        : current.date_of_death;
+    patch.timeline = rebuildTimelineOnDateChange(
+      currentTimeline,
+      typeof dateOfBirth === "string" || dateOfBirth === null ? dateOfBirth : undefined,
+      typeof dateOfDeath === "string" || dateOfDeath === null ? dateOfDeath : undefined,
+    );
+  }
+
+  return patch;
+}
+
+/**
+ * Values the edited fields had before a bulk edit. Fields that were unset
+ * come back as null so the undo clears them instead of leaving the edit.
+ */
+export function captureRevertPatch(current: EntityData, updates: EntityData): EntityData {
+  const previous: EntityData = {};
+  for (const field of Object.keys(updates)) {
+    previous[field] = current[field] ?? null;
+  }
+  return previous;
+}
+
+/** Sum per-record dependency checks into one report for the bulk delete dialog. */
+export function aggregateDependencyChecks(checks: ReadonlyArray<DependencyCheck>): BulkDependencyReport {
+  const deletableIds: string[] = [];
+  const blockedIds: string[] = [];
+  const byLabel = new Map<string, { label: string; count: number; records: number }>();
+
+  for (const check of checks) {
+    if (check.dependencies.length === 0) {
+      deletableIds.push(check.id);
+      continue;
+    }
+    blockedIds.push(check.id);
+    for (const { label, count } of check.dependencies) {
+      const entry = byLabel.get(label) ?? { label, count: 0, records: 0 };
+      entry.count += count;
+      entry.records += 1;
+      byLabel.set(label, entry);
+    }
+  }
+
+  return {
+    canDelete: blockedIds.length === 0,
+    deletableIds,
+    blockedIds,
+    dependencies: [...byLabel.values()].sort((a, b) => b.count - a.count),
+  };
+}
+
+/** Map items with at most `limit` calls in flight; results keep input order. */
+export async function mapWithConcurrency<T, R>(
+  items: ReadonlyArray<T>,
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,200 @@
+import { CHILD_DELTA_PAGE_SIZE } from "../cache/cache-policies";
+import {
+  mapAndCacheChildRows,
+  normalizeChildTableType,
+  type ChildCacheRecord,
+  type ChildCacheTransformOptions,
+  type ChildSourceRow,
+  type LinkedFilterSpec,
+} from "./space-child.helpers";
+import { buildKeysetCursorCondition, escapePostgrestValue } from "./space-keyset.helpers";
+
+/**
+ * Checkpointed delta pulls for child groups.
+ *
+ * A `(parentId, tableType)` group that went stale used to be re-fetched in
+ * full. Once a group has been fetched, a checkpoint document in the same
+ * child collection records the last row seen in `(updated_at, id)` order;
+ * the next refresh asks only for rows after it — soft-deleted rows
+ * included, so server-side deletes (`deleted = true`) are removed from the
+ * cache. The id breaks ties, so rows sharing one timestamp across a page
+ * boundary are neither skipped nor re-read forever.
+ *
+ * The checkpoint is a regular child cache record with its own `tableType`
+ * (CHILD_CHECKPOINT_TABLE_TYPE), so group queries never return it; the LRU
+ * policy folds it into the group it describes and evicts both together.
+ * Its `cachedAt` is the time of the last successful pull and replaces the
+ * per-record staleness check for the group.
+ */
+
+export const CHILD_CHECKPOINT_TABLE_TYPE = "__checkpoint";
+
+export interface ChildDeltaCollection {
+  bulkUpsert(records: ChildCacheRecord[]): Promise<unknown>;
+  bulkRemove(ids: string[]): Promise<unknown>;
+}
+
+/** Position of the last pulled row in `(updated_at, id)` order. */
+export interface ChildDeltaCursor {
+  updatedAt: string;
+  /** Null for checkpoints saved before ids were tracked — that timestamp is re-read once. */
+  id: string | null;
+}
+
+export interface ChildDeltaResult {
+  upserted: number;
+  removed: number;
+  /** Last row after the pull (unchanged when nothing arrived) */
+  checkpoint: ChildDeltaCursor;
+}
+
+export interface PullChildDeltaOptions extends ChildCacheTransformOptions {
+  collection: ChildDeltaCollection;
+  checkpoint: ChildDeltaCursor;
+  /**
+   * Rows after the cursor (buildChildDeltaCursorFilter), ordered by
+   * `updated_at` then `id`, at most `limit`
+   */
+  fetchPage: (
+    after: ChildDeltaCursor,
+    limit: number,
+  ) => Promise<{ data: ChildSourceRow[] | null; error: unknown }>;
+  pageSize?: number;
+}
+
+export function getChildCheckpointId(tableType: string, parentId: string): string {
+  return `checkpoint:${normalizeChildTableType(tableType)}:${parentId}`;
+}
+
+export function isChildCheckpointRecord(record: Pick<ChildCacheRecord, "tableType">): boolean {
+  return record.tableType === CHILD_CHECKPOINT_TABLE_TYPE;
+}
+
+/** Table type of the group a record belongs to — checkpoints count toward their group. */
+export function getChildGroupTableType(record: ChildCacheRecord): string | undefined {
+  if (!isChildCheckpointRecord(record)) return record.tableType;
+  // Top-level `tableType` is the checkpoint marker, so getChildField would miss this
+  const { tableType } = record.additional ?? {};
+  return typeof tableType === "string" ? tableType : undefined;
+}
+
+export function buildChildCheckpointRecord(options: {
+  tableType: string;
+  parentId: string;
+  checkpoint: ChildDeltaCursor;
+  partitionId?: string;
+  cachedAt?: number;
+}): ChildCacheRecord {
+  const tableType = normalizeChildTableType(options.tableType);
+  const { updatedAt, id: lastId } = options.checkpoint;
+  const record: ChildCacheRecord = {
+    id: getChildCheckpointId(tableType, options.parentId),
+    tableType: CHILD_CHECKPOINT_TABLE_TYPE,
+    parentId: options.parentId,
+    updated_at: updatedAt,
+    cachedAt: options.cachedAt ?? Date.now(),
+    additional: lastId ? { tableType, lastId } : { tableType },
+  };
+  if (options.partitionId) record.partitionId = options.partitionId;
+  return record;
+}
+
+/** Cursor stored in a checkpoint record, null when there is none. */
+export function getChildCheckpointCursor(
+  record: Pick<ChildCacheRecord, "updated_at" | "additional"> | null | undefined,
+): ChildDeltaCursor | null {
+  if (!record?.updated_at) return null;
+  const { lastId } = record.additional ?? {};
+  return { updatedAt: record.updated_at, id: typeof lastId === "string" ? lastId : null };
+}
+
+function compareCursors(a: ChildDeltaCursor, b: ChildDeltaCursor): number {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt < b.updatedAt ? -1 : 1;
+  if (a.id === b.id) return 0;
+  if (a.id === null) return -1;
+  if (b.id === null) return 1;
+  return a.id < b.id ? -1 : 1;
+}
+
+/** Last row in `(updated_at, id)` order, or `fallback` when none comes after it. */
+export function getLatestChildCursor(
+  rows: ReadonlyArray<object>,
+  fallback: ChildDeltaCursor | null = null,
+): ChildDeltaCursor | null {
+  let latest = fallback;
+  for (const row of rows) {
+    const { updated_at: updatedAt, id } = row as { updated_at?: unknown; id?: unknown };
+    if (typeof updatedAt !== "string") continue;
+    const cursor = { updatedAt, id: typeof id === "string" ? id : null };
+    if (!latest || compareCursors(cursor, latest) > 0) latest = cursor;
+  }
+  return latest;
+}
+
+/**
+ * PostgREST `or` filter for rows after the cursor:
+ * `updated_at > X OR (updated_at = X AND id > Y)`. A cursor without an id
+ * (legacy checkpoint) re-reads rows at X instead of skipping them.
+ */
+export function buildChildDeltaCursorFilter(cursor: ChildDeltaCursor): string {
+  if (cursor.id === null) {
+    return `updated_at.gte.${escapePostgrestValue(cursor.updatedAt)}`;
+  }
+  return buildKeysetCursorCondition(
+    { field: "updated_at", direction: "asc", tieBreaker: { field: "id", direction: "asc" } },
+    { value: cursor.updatedAt, tieBreaker: cursor.id, tieBreakerField: "id" },
+  );
+}
+
+/**
+ * Delta pulls need a stable row set: VIEWs (`*_with_*`) can change without
+ * their base row's `updated_at`, and linked-filter joins drop rows that stop
+ * matching without a tombstone. Both keep the full re-fetch.
+ */
+export function canPullChildDelta(
+  tableType: string,
+  linkedFilters?: ReadonlyArray<LinkedFilterSpec>,
+): boolean {
+  return !/_with_\w+$/.test(tableType) && !linkedFilters?.length;
+}
+
+/**
+ * Fetch rows changed since the checkpoint page by page, upsert live rows,
+ * remove soft-deleted ones and return the advanced checkpoint. Throws on a
+ * fetch error so the caller keeps the old checkpoint.
+ */
+export async function pullChildDelta(options: PullChildDeltaOptions): Promise<ChildDeltaResult> {
+  const pageSize = options.pageSize ?? CHILD_DELTA_PAGE_SIZE;
+  let checkpoint = options.checkpoint;
+  let upserted = 0;
+  let removed = 0;
+
+  for (;;) {
+    const { data, error } = await options.fetchPage(checkpoint, pageSize);
+    if (error) throw error;
+    const rows = data ?? [];
+
+    const deletedIds = rows
+      .filter((row) => (row as Record<string, unknown>).deleted === true)
+      .map((row) => row.id);
+    const liveRows = rows.filter((row) => (row as Record<string, unknown>).deleted !== true);
+
+    if (deletedIds.length > 0) {
+      await options.collection.bulkRemove(deletedIds);
+      removed += deletedIds.length;
+    }
+    if (liveRows.length > 0) {
+      const { cachedRecordsCount } = await mapAndCacheChildRows(liveRows, options);
+      upserted += cachedRecordsCount;
+    }
+
+    const next = getLatestChildCursor(rows, checkpoint) ?? checkpoint;
+    const advanced = compareCursors(next, checkpoint) !== 0;
+    checkpoint = next;
+    // Keyset pages always advance; the guard only stops a server that
+    // ignores the cursor from being re-read forever.
+    if (rows.length < pageSize || !advanced) break;
+  }
+
+  return { upserted, removed, checkpoint };
+}
@@ -0,0 +1,52 @@
+import type { ChildRealtimeChange } from "../services/child-realtime.service";
+import type { ChildCacheRecord } from "./space-child.helpers";
+
+/** Leader → followers: a realtime change refreshed one parent's children */
+export const CHILD_REALTIME_REFRESH_TOPIC = "child-realtime:refresh";
+/** Followers → leader: a child group was read or evicted in another tab */
+export const CHILD_REALTIME_SCOPE_TOPIC = "child-realtime:scope";
+
+export type ChildRealtimePlan =
+  | { action: "upsert"; parentId: string; row: Record<string, unknown> }
+  | { action: "remove"; parentId: string }
+  | { action: "skip"; reason: "no-id" | "no-parent" | "pending" | "stale" | "missing" };
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Decide how a realtime child change lands in the cache:
+ *
+ * - soft deletes (`deleted = true`) and hard DELETEs remove the cached row;
+ * - INSERT / UPDATE upsert unless the cached copy has a newer `updated_at`;
+ * - rows with a queued local edit are skipped — the queue push is the newer
+ *   version and its own echo arrives after it lands.
+ */
+export function planChildRealtimeChange(
+  change: ChildRealtimeChange,
+  local: ChildCacheRecord | undefined,
+  pendingRecordIds: ReadonlySet<string>,
+): ChildRealtimePlan {
+  const source = change.row ?? change.oldRow;
+  const id = asString(source.id);
+  if (!id) return { action: "skip", reason: "no-id" };
+  if (pendingRecordIds.has(id)) return { action: "skip", reason: "pending" };
+
+  const parentId =
+    asString(change.row?.[change.parentField]) ??
+    asString(change.oldRow[change.parentField]) ??
+    local?.parentId;
+  if (!parentId) return { action: "skip", reason: "no-parent" };
+
+  if (!change.row || change.row.deleted === true) {
+    return local ? { action: "remove", parentId } : { action: "skip", reason: "missing" };
+  }
+
+  const incomingAt = asString(change.row.updated_at) ?? "";
+  if (local?.updated_at && incomingAt < local.updated_at) {
+    return { action: "skip", reason: "stale" };
+  }
+  return { action: "upsert", parentId, row: change.row };
+}
+
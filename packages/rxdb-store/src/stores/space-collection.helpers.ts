@@ -17,18 +17,22 @@ export interface CollectionSpaceConfigLike {
 export type CollectionReuseStatus = 'ready' | 'recreate';
 type CollectionMigrationDoc = Record<string, unknown>;
 
-export function buildEntityCollectionConfig<TSchema>(schema: TSchema): {
+/**
+ * Collection config for an entity schema. `generatedStrategies` are the
+ * config-driven steps above the base schema version (see
+ * utils/schema-migration); the hand-written base steps always win.
+ */
+export function buildEntityCollectionConfig<TSchema>(
+  schema: TSchema,
+  generatedStrategies: Record<number, (oldDoc: CollectionMigrationDoc) => CollectionMigrationDoc> = {},
+): {
   schema: TSchema;
-  migrationStrategies: {
-    1: (
-      oldDoc: CollectionMigrationDoc,
-    ) => CollectionMigrationDoc & { cachedAt: number };
-    2: (oldDoc: CollectionMigrationDoc) => CollectionMigrationDoc;
-  };
+  migrationStrategies: Record<number, (oldDoc: CollectionMigrationDoc) => CollectionMigrationDoc>;
 } {
   return {
     schema,
     migrationStrategies: {
+      ...generatedStrategies,
       // Version 0→1: Add cachedAt field for TTL cleanup
       1: (oldDoc: CollectionMigrationDoc) => ({
         ...oldDoc,
@@ -176,6 +180,12 @@ export interface WindowLikeWithReload {
   __rxdbClearing?: boolean;
 }
 
+/**
+ * Last-resort recovery when a collection cannot be opened with the current
+ * schema (DB6 mismatch or a failed migration): wipe IndexedDB and reload.
+ * `beforeRemove` runs first so callers can save what must survive the wipe
+ * (unsynced sync queue items).
+ */
 export async function recoverCollectionSchemaMismatch(options: {
   db?: {
     remove(): Promise<unknown>;
@@ -185,15 +195,22 @@ export async function recoverCollectionSchemaMismatch(options: {
     removeItem(key: string): void;
   };
   window: WindowLikeWithReload;
-  schemaHashKey?: string;
+  schemaVersionsKey?: string;
   databaseNames?: string[];
+  beforeRemove?: () => Promise<void>;
 }): Promise<boolean> {
   if (options.window.__rxdbClearing) {
     return false;
   }
 
   options.window.__rxdbClearing = true;
-  options.localStorage.removeItem(options.schemaHashKey ?? 'breedhub_schema_hash');
+  options.localStorage.removeItem(options.schemaVersionsKey ?? 'breedhub_schema_versions');
+
+  try {
+    await options.beforeRemove?.();
+  } catch (error) {
+    console.error('[SpaceStore] Failed to preserve data before clearing RxDB:', error);
+  }
 
   try {
     await options.db?.remove();
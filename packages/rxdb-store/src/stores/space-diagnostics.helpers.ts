@@ -0,0 +1,98 @@
+import type { ReplicationDiagnostics } from "../services/entity-replication.service";
+import type { CircuitBreakerSnapshot } from "../services/sync-queue.service";
+import type { ChildCacheRecord } from "./space-child.helpers";
+import { isChildCheckpointRecord } from "./space-child-delta.helpers";
+import {
+  buildTotalCountCacheKey,
+  inspectCachedTotalCount,
+  type CachedTotalCountState,
+} from "./space-total-count.helpers";
+
+/** One `(parentId, tableType)` group of a child collection as the LRU sees it. */
+export interface ChildLruGroupDiagnostics {
+  parentId: string;
+  tableType: string;
+  records: number;
+  /** Last read in this session; null when never read (evicted first) */
+  lastAccess: number | null;
+  /** A read is in progress — never evicted */
+  active: boolean;
+  /** Parent pinned for offline use — never evicted */
+  pinned: boolean;
+}
+
+export interface ChildCollectionDiagnostics {
+  name: string;
+  records: number;
+  /** Coldest first — the order LRU eviction walks them */
+  groups: ChildLruGroupDiagnostics[];
+}
+
+/** Everything the diagnostics panel shows for one entity type. */
+export interface EntityDiagnostics {
+  entityType: string;
+  replication: ReplicationDiagnostics;
+  /** Documents in the local RxDB collection */
+  cachedCount: number;
+  /** Unfiltered totalCount cache entry — raw value and age, TTL not applied */
+  serverTotalCache: CachedTotalCountState;
+  /** Breakers of the entity table and its child tables */
+  circuitBreakers: CircuitBreakerSnapshot[];
+  children: ChildCollectionDiagnostics | null;
+}
+
+type GroupAccessLookup = (
+  parentId: string,
+  tableType: string,
+) => { lastAccess: number | null; active: boolean };
+
+/** Group child records by `(parentId, tableType)`, coldest first. */
+export function buildChildLruGroups(
+  records: ChildCacheRecord[],
+  getAccess: GroupAccessLookup,
+  pinnedParentIds?: ReadonlySet<string>,
+): ChildLruGroupDiagnostics[] {
+  const groups = new Map<string, ChildLruGroupDiagnostics>();
+  for (const record of records) {
+    const { parentId, tableType } = record;
+    if (!parentId || !tableType || isChildCheckpointRecord(record)) continue;
+    const key = `${parentId}:${tableType}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        parentId,
+        tableType,
+        records: 0,
+        ...getAccess(parentId, tableType),
+        pinned: pinnedParentIds?.has(parentId) ?? false,
+      };
+      groups.set(key, group);
+    }
+    group.records += 1;
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => (a.lastAccess ?? 0) - (b.lastAccess ?? 0) || b.records - a.records,
+  );
+}
+
+/** Raw totalCount cache entry of an entity (no space, filters or TTL). */
+export function inspectServerTotalCache(
+  entityType: string,
+  readCache: (key: string) => string | null,
+): CachedTotalCountState {
+  return inspectCachedTotalCount(
+    readCache(buildTotalCountCacheKey(entityType)),
+    Number.POSITIVE_INFINITY,
+  );
+}
+
+/** Breakers that pause pushes of the entity or one of its child tables. */
+export function filterEntityCircuitBreakers(
+  breakers: CircuitBreakerSnapshot[],
+  entityType: string,
+  childTables: Iterable<string>,
+): CircuitBreakerSnapshot[] {
+  const tables = new Set([entityType, ...childTables]);
+  return breakers.filter((breaker) => tables.has(breaker.table));
+}
@@ -0,0 +1,143 @@
+/**
+ * Facet counts: how many rows each option of a filter field would return
+ * under the other active filters ("Ukraine 120, Poland 0"). The field's own
+ * value — flat or inside the filter group — is left out, so picking another
+ * option never counts against the current one.
+ *
+ * Counted from cached rows when the local collection holds the whole
+ * table, otherwise by the grouped count RPC (FACET_COUNT_RPC).
+ */
+
+import * as F from "../utils/filter-builder";
+import type { FilterOperator } from "../utils/filter-builder";
+import {
+  getActiveFilterEntries,
+  resolveFieldFilter,
+  type FilterFieldConfigMap,
+  type FilterMap,
+} from "./space-filter.helpers";
+import {
+  FILTER_GROUP_KEY,
+  getFilterGroup,
+  omitFilterGroupField,
+  type FilterGroup,
+} from "./space-filter-group.helpers";
+
+/**
+ * Grouped count RPC: `SELECT p_field AS value, count(*) FROM p_table
+ * WHERE <p_filters AND p_where> GROUP BY 1`, returning `{ value, count }`
+ * rows. Relative dates and ranges are resolved before the call.
+ */
+export const FACET_COUNT_RPC = "get_facet_counts";
+
+/** Rows per option value; values with no rows are absent. */
+export type FacetCounts = Record<string, number>;
+
+export interface FacetCountResult {
+  field: string;
+  counts: FacetCounts;
+  source: "local" | "remote";
+}
+
+/** One flat filter for the RPC; several fields are ORed (config orFields). */
+export interface FacetCountRpcFilter {
+  fields: string[];
+  operator: FilterOperator;
+  value: unknown;
+}
+
+export interface FacetCountRpcArgs {
+  p_table: string;
+  p_field: string;
+  p_filters: FacetCountRpcFilter[];
+  p_where: FilterGroup | null;
+}
+
+/** The active filters minus the faceted field's own value and group conditions. */
+export function getFacetFilters(filters: FilterMap, field: string): FilterMap {
+  const rest = { ...filters };
+  delete rest[field];
+  const group = getFilterGroup(filters);
+  if (group) {
+    const facetGroup = omitFilterGroupField(group, field);
+    if (facetGroup) {
+      rest[FILTER_GROUP_KEY] = facetGroup;
+    } else {
+      delete rest[FILTER_GROUP_KEY];
+    }
+  }
+  return rest;
+}
+
+/** Whether the local collection holds every row, so counting it is exact. */
+export function isFacetCacheComplete(localCount: number, serverTotal: number): boolean {
+  return serverTotal > 0 && localCount >= serverTotal;
+}
+
+/** Count option values across records; array fields count once per item. */
+export function countFacetValues(
+  records: Iterable<Record<string, unknown>>,
+  field: string,
+): FacetCounts {
+  const counts: FacetCounts = {};
+  for (const record of records) {
+    const raw = record[field];
+    const values = Array.isArray(raw) ? raw : [raw];
+    for (const value of values) {
+      if (value === undefined || value === null || value === "") continue;
+      const key = String(value);
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+export function buildFacetCountRpcArgs({
+  entityType,
+  field,
+  filters,
+  fieldConfigs,
+  now = new Date(),
+}: {
+  entityType: string;
+  field: string;
+  filters: FilterMap;
+  fieldConfigs: FilterFieldConfigMap;
+  now?: Date;
+}): FacetCountRpcArgs {
+  const rpcFilters = getActiveFilterEntries(filters).map(([key, value]) => {
+    const { fieldConfig, operator } = resolveFieldFilter(fieldConfigs, key, { entityType });
+    const resolved =
+      operator === "range" || operator === "date_range"
+        ? F.resolveFilterRange(operator, value, now)
+        : value;
+    const orFields = fieldConfig.orFields;
+    return {
+      fields: orFields && orFields.length > 0 ? orFields : [key],
+      operator,
+      value: resolved,
+    };
+  });
+
+  const group = getFilterGroup(filters);
+  return {
+    p_table: entityType,
+    p_field: field,
+    p_filters: rpcFilters.filter((filter) => filter.value !== null),
+    p_where: group && omitFilterGroupField(group, field),
+  };
+}
+
+/** `{ value, count }` RPC rows to counts; malformed rows are skipped. */
+export function parseFacetCountRows(rows: unknown): FacetCounts {
+  const counts: FacetCounts = {};
+  if (!Array.isArray(rows)) return counts;
+  for (const row of rows) {
+    if (!row || typeof row !== "object") continue;
+    const { value, count } = row as { value?: unknown; count?: unknown };
+    const total = Number(count);
+    if (value === undefined || value === null || !Number.isFinite(total)) continue;
+    counts[String(value)] = total;
+  }
+  return counts;
+}
@@ -0,0 +1,300 @@
+/**
+ * Filter groups — nested AND / OR / NOT conditions on top of the flat
+ * space filters ("(owner is me OR breeder is me) AND NOT status = deceased").
+ *
+ * A group travels in the filter map under FILTER_GROUP_KEY, next to the
+ * flat filters it is ANDed with. It is compiled three ways from one
+ * negation normal form (NOT pushed down to single conditions), so RxDB,
+ * Supabase and in-memory matching agree — including on missing values: a
+ * negated condition matches rows where the field is null.
+ */
+
+import * as F from "../utils/filter-builder";
+import type { FilterOperator } from "../utils/filter-builder";
+
+/** Filter map key the group is stored under. */
+export const FILTER_GROUP_KEY = "$where";
+
+export type FilterGroupCombinator = "and" | "or";
+
+export interface FilterGroupCondition {
+  type: "condition";
+  field: string;
+  /** Defaults to the field's configured / detected operator */
+  operator?: FilterOperator;
+  value?: unknown;
+  negate?: boolean;
+}
+
+export interface FilterGroup {
+  type: "group";
+  combinator: FilterGroupCombinator;
+  negate?: boolean;
+  children: FilterGroupNode[];
+}
+
+export type FilterGroupNode = FilterGroupCondition | FilterGroup;
+
+/** Operator and OR-fields a condition's field filters with. */
+export interface FilterGroupLeafFilter {
+  operator: FilterOperator;
+  orFields?: string[];
+}
+
+export type FilterGroupLeafResolver = (
+  condition: FilterGroupCondition,
+) => FilterGroupLeafFilter;
+
+type NormalNode =
+  | { kind: "and" | "or"; children: NormalNode[] }
+  | {
+      kind: "leaf";
+      fields: string[];
+      operator: FilterOperator;
+      value: unknown;
+      negated: boolean;
+    };
+
+const NULL_CHECK_OPERATORS = new Set<FilterOperator>(["is_null", "is_not_null"]);
+const MAX_GROUP_DEPTH = 8;
+
+function hasConditionValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== "";
+}
+
+export function isFilterGroupConditionActive(condition: FilterGroupCondition): boolean {
+  if (!condition.field) return false;
+  if (condition.operator && NULL_CHECK_OPERATORS.has(condition.operator)) return true;
+  return hasConditionValue(condition.value);
+}
+
+/**
+ * Validate an untrusted group (URL, saved preset). Malformed conditions
+ * and unknown node types are dropped; null when nothing usable is left.
+ */
+export function parseFilterGroup(value: unknown, depth = 0): FilterGroup | null {
+  if (!value || typeof value !== "object" || depth > MAX_GROUP_DEPTH) return null;
+  const node = value as Partial<FilterGroup>;
+  if (node.type !== "group" || !Array.isArray(node.children)) return null;
+
+  const children: FilterGroupNode[] = [];
+  for (const child of node.children as unknown[]) {
+    if (!child || typeof child !== "object") continue;
+    const typed = child as Partial<FilterGroupNode>;
+    if (typed.type === "group") {
+      const group = parseFilterGroup(child, depth + 1);
+      if (group) children.push(group);
+    } else if (typed.type === "condition") {
+      const condition = typed as Partial<FilterGroupCondition>;
+      if (typeof condition.field !== "string" || !condition.field) continue;
+      children.push({
+        type: "condition",
+        field: condition.field,
+        ...(typeof condition.operator === "string" ? { operator: condition.operator } : {}),
+        ...(condition.value !== undefined ? { value: condition.value } : {}),
+        ...(condition.negate ? { negate: true } : {}),
+      });
+    }
+  }
+
+  if (children.length === 0) return null;
+  return {
+    type: "group",
+    combinator: node.combinator === "or" ? "or" : "and",
+    ...(node.negate ? { negate: true } : {}),
+    children,
+  };
+}
+
+/** The group in a filter map, if any (validated). */
+export function getFilterGroup(filters: Record<string, unknown>): FilterGroup | null {
+  return parseFilterGroup(filters[FILTER_GROUP_KEY]);
+}
+
+/** Whether any condition in the group would filter anything. */
+export function hasActiveFilterGroupConditions(group: FilterGroup): boolean {
+  return group.children.some((child) =>
+    child.type === "group"
+      ? hasActiveFilterGroupConditions(child)
+      : isFilterGroupConditionActive(child),
+  );
+}
+
+/** Every field a group's conditions refer to. */
+export function collectFilterGroupFields(group: FilterGroup): string[] {
+  const fields = new Set<string>();
+  const visit = (node: FilterGroupNode) => {
+    if (node.type === "group") node.children.forEach(visit);
+    else fields.add(node.field);
+  };
+  visit(group);
+  return Array.from(fields);
+}
+
+/** The group without the conditions on `field`; null when nothing is left. */
+export function omitFilterGroupField(group: FilterGroup, field: string): FilterGroup | null {
+  const children = group.children
+    .map((child) => {
+      if (child.type === "group") return omitFilterGroupField(child, field);
+      return child.field === field ? null : child;
+    })
+    .filter((child): child is FilterGroupNode => child !== null);
+  return children.length > 0 ? { ...group, children } : null;
+}
+
+// ============= Negation normal form =============
+
+function normalize(
+  node: FilterGroupNode,
+  resolveLeaf: FilterGroupLeafResolver,
+  negated: boolean,
+): NormalNode | null {
+  if (node.type === "condition") {
+    if (!isFilterGroupConditionActive(node)) return null;
+    const { operator, orFields } = resolveLeaf(node);
+    const value = NULL_CHECK_OPERATORS.has(operator) ? true : node.value;
+    // Values that resolve to no condition (empty list, bad range) are ignored
+    if (F.buildRxDBCondition(operator, value) === undefined) return null;
+    return {
+      kind: "leaf",
+      fields: orFields && orFields.length > 0 ? orFields : [node.field],
+      operator,
+      value,
+      negated: negated !== Boolean(node.negate),
+    };
+  }
+
+  const groupNegated = negated !== Boolean(node.negate);
+  const children = node.children
+    .map((child) => normalize(child, resolveLeaf, groupNegated))
+    .filter((child): child is NormalNode => child !== null);
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+
+  // De Morgan: NOT (a AND b) = NOT a OR NOT b
+  const combinator = groupNegated
+    ? node.combinator === "and" ? "or" : "and"
+    : node.combinator;
+  return { kind: combinator, children };
+}
+
+// ============= RxDB =============
+
+function asOperatorObject(condition: unknown): Record<string, unknown> {
+  if (
+    condition &&
+    typeof condition === "object" &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).every((key) => key.startsWith("$"))
+  ) {
+    return condition as Record<string, unknown>;
+  }
+  return { $eq: condition };
+}
+
+function compileRxdb(node: NormalNode): Record<string, unknown> | null {
+  if (node.kind !== "leaf") {
+    const children = node.children
+      .map(compileRxdb)
+      .filter((child): child is Record<string, unknown> => child !== null);
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { [`$${node.kind}`]: children };
+  }
+
+  const condition = F.buildRxDBCondition(node.operator, node.value);
+  const parts = node.fields.map((field) =>
+    node.negated
+      ? { [field]: { $not: asOperatorObject(condition) } }
+      : { [field]: condition },
+  );
+  if (parts.length === 1) return parts[0];
+  return node.negated ? { $and: parts } : { $or: parts };
+}
+
+/** RxDB selector for the group, or null when no condition is active. */
+export function buildFilterGroupRxdbSelector(
+  group: FilterGroup,
+  resolveLeaf: FilterGroupLeafResolver,
+): Record<string, unknown> | null {
+  const normal = normalize(group, resolveLeaf, false);
+  return normal ? compileRxdb(normal) : null;
+}
+
+// ============= PostgREST =============
+
+/**
+ * NOT of a single-field expression that, like RxDB `$not`, also matches
+ * rows where the field is null.
+ */
+function negatePostgrestExpr(field: string, operator: FilterOperator, expr: string): string {
+  if (operator === "is_null") return `${field}.not.is.null`;
+  if (operator === "is_not_null") return `${field}.is.null`;
+
+  let negated: string;
+  if (expr.startsWith("and(") || expr.startsWith("or(")) {
+    negated = `not.${expr}`;
+  } else if (expr.startsWith(`${field}.not.`)) {
+    negated = `${field}.${expr.slice(field.length + ".not.".length)}`;
+  } else {
+    negated = `${field}.not.${expr.slice(field.length + 1)}`;
+  }
+  return `or(${field}.is.null,${negated})`;
+}
+
+function compilePostgrest(node: NormalNode): string | null {
+  if (node.kind !== "leaf") {
+    const children = node.children
+      .map(compilePostgrest)
+      .filter((child): child is string => child !== null);
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : `${node.kind}(${children.join(",")})`;
+  }
+
+  const parts = node.fields
+    .map((field) => {
+      const expr = F.buildPostgrestFilterExpr(field, node.operator, node.value);
+      if (!expr) return null;
+      return node.negated ? negatePostgrestExpr(field, node.operator, expr) : expr;
+    })
+    .filter((part): part is string => part !== null);
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return parts[0];
+  return `${node.negated ? "and" : "or"}(${parts.join(",")})`;
+}
+
+/**
+ * PostgREST logic-tree expression for the group (`and(a,or(b,c))`), or
+ * null when no condition is active. Apply with `query.or(expr)` — a
+ * one-element `or` is the expression itself.
+ */
+export function buildFilterGroupPostgrestExpr(
+  group: FilterGroup,
+  resolveLeaf: FilterGroupLeafResolver,
+): string | null {
+  const normal = normalize(group, resolveLeaf, false);
+  return normal ? compilePostgrest(normal) : null;
+}
+
+// ============= In-memory =============
+
+function matchNormal(record: Record<string, unknown>, node: NormalNode): boolean {
+  if (node.kind !== "leaf") {
+    const matchChild = (child: NormalNode) => matchNormal(record, child);
+    return node.kind === "and" ? node.children.every(matchChild) : node.children.some(matchChild);
+  }
+
+  const { fields, operator, value, negated } = node;
+  const matched = fields.some((field) => F.matchRecordValue(record[field], operator, value));
+  return negated ? !matched : matched;
+}
+
+/** Match a record against the group with the builders' operator semantics. */
+export function matchFilterGroup(
+  record: Record<string, unknown>,
+  group: FilterGroup,
+  resolveLeaf: FilterGroupLeafResolver,
+): boolean {
+  const normal = normalize(group, resolveLeaf, false);
+  return normal ? matchNormal(record, normal) : true;
+}
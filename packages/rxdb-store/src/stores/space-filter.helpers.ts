@@ -6,6 +6,13 @@ import type {
   RxDBSelectorLike,
 } from "../utils/filter-builder";
 import { isNetworkError } from "../helpers";
+import {
+  FILTER_GROUP_KEY,
+  buildFilterGroupPostgrestExpr,
+  buildFilterGroupRxdbSelector,
+  getFilterGroup,
+  type FilterGroupLeafResolver,
+} from "./space-filter-group.helpers";
 import {
   analyzeCachedIdsByUpdatedAt,
   cacheAndMergeOrderedRecordsByIds,
@@ -270,10 +277,13 @@ export function prepareFiltersWithDefaults(
   };
 }
 
+/** Flat filters with a value; the filter group (FILTER_GROUP_KEY) is applied separately. */
 export function getActiveFilterEntries(
   filters: FilterMap,
 ): Array<[string, unknown]> {
-  return Object.entries(filters).filter(([, value]) => hasFilterValue(value));
+  return Object.entries(filters).filter(
+    ([key, value]) => key !== FILTER_GROUP_KEY && hasFilterValue(value),
+  );
 }
 
 export function resolveFieldConfig(
@@ -321,6 +331,24 @@ export function resolveFieldFilter(
   };
 }
 
+/** Operator (explicit or the field's own) and OR-fields of a group condition. */
+export function createFilterGroupLeafResolver(
+  fieldConfigs: FilterFieldConfigMap,
+  options: FilterResolutionOptions = {},
+): FilterGroupLeafResolver {
+  return (condition) => {
+    const { fieldConfig, operator } = resolveFieldFilter(
+      fieldConfigs,
+      condition.field,
+      options,
+    );
+    return {
+      operator: condition.operator ?? operator,
+      orFields: fieldConfig.orFields,
+    };
+  };
+}
+
 export function getStringSearchFilters(
   filters: FilterMap,
   fieldConfigs: FilterFieldConfigMap,
@@ -367,11 +395,14 @@ export function buildHybridSearchPlan(
     searchValue: firstSearchValue,
     orSearchFields,
     isOrSearch: orSearchFields.length > 1,
-    otherFilters: Object.fromEntries(
-      getActiveFilterEntries(filters).filter(
+    otherFilters: Object.fromEntries([
+      ...getActiveFilterEntries(filters).filter(
         ([key]) => !orSearchFields.includes(key),
       ),
-    ),
+      ...(FILTER_GROUP_KEY in filters
+        ? [[FILTER_GROUP_KEY, filters[FILTER_GROUP_KEY]]]
+        : []),
+    ]),
     startsWithLimit: Math.ceil(limit * 0.7),
   };
 }
@@ -622,6 +653,18 @@ export function applyFiltersToRxdbSelector(
 
     F.applyFilterToRxDBSelector(selector, fieldKey, operator, value, fieldConfig);
   }
+
+  const group = getFilterGroup(filters);
+  const groupSelector = group
+    ? buildFilterGroupRxdbSelector(
+        group,
+        createFilterGroupLeafResolver(fieldConfigs, options),
+      )
+    : null;
+  if (groupSelector) {
+    if (!selector.$and) selector.$and = [];
+    selector.$and.push(groupSelector);
+  }
 }
 
 export function buildRxdbCountSelector(
@@ -779,5 +822,16 @@ export function applyFiltersToSupabaseQuery<TQuery>(
     );
   }
 
+  const group = getFilterGroup(filters);
+  const groupExpr = group
+    ? buildFilterGroupPostgrestExpr(
+        group,
+        createFilterGroupLeafResolver(fieldConfigs, options),
+      )
+    : null;
+  if (groupExpr) {
+    nextQuery = (nextQuery as F.SupabaseFilterQuery<TQuery>).or(groupExpr);
+  }
+
   return nextQuery;
 }
@@ -0,0 +1,165 @@
+/**
+ * Change history: every local mutation of an entity or one of its child
+ * records is written as a `change_history` row (who, when, which fields,
+ * before/after) and pushed on the sync queue's history path (see
+ * syncQueueService.enqueueHistory). The History tab lists server rows
+ * merged with entries still waiting in the queue.
+ */
+
+type RecordData = Record<string, unknown>;
+
+/** Supabase table the entries are pushed to. */
+export const CHANGE_HISTORY_TABLE = "change_history";
+
+/** Entries loaded per entity by the History tab. */
+export const CHANGE_HISTORY_LIMIT = 200;
+
+export type ChangeOperation = "create" | "update" | "delete";
+
+export interface ChangeHistoryField {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangeHistoryEntry {
+  id: string;
+  entity_type: string;
+  /** Entity the change belongs to — the parent for child record changes */
+  entity_id: string;
+  /** Child table, or null when the entity row itself changed */
+  table_type: string | null;
+  record_id: string;
+  operation: ChangeOperation;
+  changes: ChangeHistoryField[];
+  changed_by: string | null;
+  changed_at: string;
+  /** Set on entries that haven't reached Supabase yet (never pushed) */
+  pending?: boolean;
+}
+
+export interface ChangeInput {
+  entityType: string;
+  entityId: string;
+  tableType?: string | null;
+  /** Defaults to entityId (entity row changes) */
+  recordId?: string;
+  operation: ChangeOperation;
+  before?: RecordData | null;
+  after?: RecordData | null;
+  /** Fields to compare — the keys of the submitted update. All keys when omitted. */
+  fields?: string[];
+}
+
+/** Audit and sync bookkeeping — always changes, never interesting. */
+const HISTORY_IGNORED_FIELDS = new Set([
+  "id",
+  "created_at",
+  "created_by",
+  "updated_at",
+  "updated_by",
+  "cachedAt",
+  "deleted",
+]);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null && b == null) return true;
+  if (typeof a === "object" && typeof b === "object" && a && b) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/** Fields whose value differs between `before` and `after`, null for missing values. */
+export function diffChangedFields(
+  before: RecordData | null | undefined,
+  after: RecordData | null | undefined,
+  fields?: string[],
+): ChangeHistoryField[] {
+  const keys = fields ?? [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+  const changes: ChangeHistoryField[] = [];
+  for (const field of keys) {
+    if (HISTORY_IGNORED_FIELDS.has(field) || field.startsWith("_")) continue;
+    const previous = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (!sameValue(previous, next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+/**
+ * History entry for one mutation; null for an update that didn't change
+ * anything (e.g. a form saved without edits).
+ */
+export function buildChangeHistoryEntry(
+  input: ChangeInput,
+  options: { userId?: string | null; now?: string; id?: string } = {},
+): ChangeHistoryEntry | null {
+  const changes =
+    input.operation === "delete" ? [] : diffChangedFields(input.before, input.after, input.fields);
+  if (input.operation === "update" && changes.length === 0) return null;
+
+  return {
+    id: options.id ?? crypto.randomUUID(),
+    entity_type: input.entityType,
+    entity_id: input.entityId,
+    table_type: input.tableType ?? null,
+    record_id: input.recordId ?? input.entityId,
+    operation: input.operation,
+    changes,
+    changed_by: options.userId ?? null,
+    changed_at: options.now ?? new Date().toISOString(),
+  };
+}
+
+/** Server rows and queued entries, newest first; a queued copy wins over a pushed one. */
+export function mergeChangeHistory(
+  serverEntries: ChangeHistoryEntry[],
+  pendingEntries: ChangeHistoryEntry[],
+): ChangeHistoryEntry[] {
+  const byId = new Map<string, ChangeHistoryEntry>();
+  for (const entry of serverEntries) byId.set(entry.id, entry);
+  for (const entry of pendingEntries) byId.set(entry.id, { ...entry, pending: true });
+  return [...byId.values()].sort((a, b) => b.changed_at.localeCompare(a.changed_at));
+}
+
+/** Distinct changed field names, for the History tab's field filter. */
+export function getChangedFieldNames(entries: ChangeHistoryEntry[]): string[] {
+  const names = new Set<string>();
+  for (const entry of entries) {
+    for (const change of entry.changes) names.add(change.field);
+  }
+  return [...names].sort();
+}
+
+/** Entries touching `field`; all entries when no field is picked. */
+export function filterChangeHistory(
+  entries: ChangeHistoryEntry[],
+  field: string | null,
+): ChangeHistoryEntry[] {
+  if (!field) return entries;
+  return entries.filter((entry) => entry.changes.some((change) => change.field === field));
+}
+
+/**
+ * Whether `revertChange` can undo the entry: updates write back the old
+ * values, creates delete the record, entity deletes restore it. Child
+ * deletes go through the trash instead.
+ */
+export function canRevertChange(entry: ChangeHistoryEntry): boolean {
+  if (entry.operation === "update") return entry.changes.length > 0;
+  if (entry.operation === "delete") return entry.table_type === null;
+  return true;
+}
+
+/** Old values of an update — one field, or every field of the entry. */
+export function buildRevertUpdates(entry: ChangeHistoryEntry, field?: string): RecordData {
+  const updates: RecordData = {};
+  for (const change of entry.changes) {
+    if (!field || change.field === field) updates[change.field] = change.before;
+  }
+  return updates;
+}
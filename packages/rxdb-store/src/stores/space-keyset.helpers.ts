@@ -57,7 +57,7 @@ function getAdditionalFieldValue(
   return getParameterizedValue(record.additional?.[fieldName], parameter);
 }
 
-function escapePostgrestValue(value: unknown): string {
+export function escapePostgrestValue(value: unknown): string {
   if (value === null || value === undefined) {
     return "null";
   }
@@ -1,6 +1,7 @@
 import {
   applyFiltersToRxdbSelector,
   getStringSearchFilters,
+  type HydratableEntityRecord,
 } from "./space-filter.helpers";
 import type { KeysetOrderBy } from "./space-keyset.helpers";
 import {
@@ -49,8 +50,15 @@ interface LocalEntityQueryOptions<
   limit: number;
   cursor: string | null;
   orderBy: KeysetOrderBy;
+  rankSearch?: LocalRankSearch;
 }
 
+/**
+ * Ranked ids of cached rows matching a search term (local search index),
+ * or null when the entity type has no index.
+ */
+export type LocalRankSearch = (query: string) => Promise<string[] | null>;
+
 interface LocalSelectorQueryOptions {
   limit: number;
   cursor?: string | null;
@@ -65,9 +73,22 @@ export interface FilterLocalEntitiesOptions {
   limit: number;
   cursor: string | null;
   orderBy: KeysetOrderBy;
+  rankSearch?: LocalRankSearch;
   logMissingCollection?: boolean;
 }
 
+interface RankedLocalEntitiesOptions {
+  collection: LocalQueryCollection;
+  entityType: string;
+  /** Ids in rank order, best first */
+  rankedIds: string[];
+  filters: Record<string, unknown>;
+  fieldConfigs: Record<string, unknown>;
+  /** Filters the ranking already answers (the search fields) */
+  skipKeys: string[];
+  limit: number;
+}
+
 function getParameterizedValue(
   value: unknown,
   parameter?: string,
@@ -215,6 +236,105 @@ async function executeLocalSelectorQuery(
   return records;
 }
 
+/**
+ * Cached rows for ranked search-index ids that also pass the other active
+ * filters, kept in rank order.
+ */
+export async function findRankedLocalEntities(
+  options: RankedLocalEntitiesOptions,
+): Promise<LocalEntityRecord[]> {
+  if (options.rankedIds.length === 0) {
+    return [];
+  }
+
+  const selector: Record<string, unknown> = {
+    _deleted: false,
+    id: { $in: options.rankedIds },
+  };
+  applyFiltersToRxdbSelector(selector, options.filters, options.fieldConfigs, {
+    entityType: options.entityType,
+    skipKeys: options.skipKeys,
+  });
+
+  const docs = await options.collection.find({ selector }).exec();
+  const byId = new Map<string, LocalEntityRecord>();
+  for (const doc of docs) {
+    const record = doc.toJSON();
+    if (record.id) {
+      byId.set(record.id, record);
+    }
+  }
+
+  const records: LocalEntityRecord[] = [];
+  for (const id of options.rankedIds) {
+    const record = byId.get(id);
+    if (record) {
+      records.push(record);
+    }
+    if (records.length >= options.limit) {
+      break;
+    }
+  }
+  return records;
+}
+
+/** Share of the first online search page ranked cached rows may lead with. */
+export const RANKED_SEARCH_PAGE_SHARE = 0.5;
+
+export interface RankedSearchPage {
+  ids: HydratableEntityRecord[];
+  /** Last server id the page used up (shown or already ranked) — the keyset continues after it. */
+  lastServerRecord: HydratableEntityRecord | undefined;
+  /** Server ids left over because the page was full. */
+  hasMoreServerIds: boolean;
+}
+
+/**
+ * One page of an online search. On the first page ranked cached rows lead
+ * and the server's ids fill up to `limit`; every page skips server ids that
+ * were ranked, so later keyset pages never repeat them. Cached rows carry
+ * their own `updated_at`, so hydration treats them as fresh.
+ */
+export function mergeRankedSearchIds(
+  ranked: LocalEntityRecord[],
+  serverIds: HydratableEntityRecord[],
+  options: { limit: number; firstPage: boolean },
+): RankedSearchPage {
+  const merged: HydratableEntityRecord[] = [];
+  const rankedIds = new Set<string>();
+
+  for (const record of ranked) {
+    if (!record.id || rankedIds.has(record.id)) {
+      continue;
+    }
+    rankedIds.add(record.id);
+    if (options.firstPage) {
+      merged.push({
+        id: record.id,
+        updated_at:
+          typeof record.updated_at === "string" ? record.updated_at : undefined,
+      });
+    }
+  }
+
+  let used = 0;
+  for (const record of serverIds) {
+    if (merged.length >= options.limit) {
+      break;
+    }
+    used += 1;
+    if (!rankedIds.has(record.id)) {
+      merged.push(record);
+    }
+  }
+
+  return {
+    ids: merged,
+    lastServerRecord: used > 0 ? serverIds[used - 1] : undefined,
+    hasMoreServerIds: used < serverIds.length,
+  };
+}
+
 export async function executeLocalEntityQuery(
   options: LocalEntityQueryOptions,
 ): Promise<LocalEntityQueryResult> {
@@ -232,6 +352,34 @@ export async function executeLocalEntityQuery(
     );
 
     const skipKeys = stringFilters.map(([key]) => key);
+    const rankedIds = options.rankSearch
+      ? await options.rankSearch(String(stringFilters[0][1]))
+      : null;
+
+    if (rankedIds) {
+      console.log(
+        `[SpaceStore] 🔍 Search index ranked ${rankedIds.length} cached matches`,
+      );
+      const rankedResults = await findRankedLocalEntities({
+        collection,
+        entityType,
+        rankedIds,
+        filters,
+        fieldConfigs,
+        skipKeys,
+        limit,
+      });
+      return {
+        records: rankedResults,
+        hasMore: rankedResults.length >= limit,
+        nextCursor:
+          (getLocalOrderValue(
+            rankedResults[rankedResults.length - 1],
+            orderBy,
+          ) as string | null) ?? null,
+      };
+    }
+
     const startsWithLimit = Math.ceil(limit * 0.7);
     const startsWithSelector: Record<string, unknown> = { _deleted: false };
 
@@ -378,6 +526,7 @@ export async function filterLocalEntities(
       limit: options.limit,
       cursor: options.cursor,
       orderBy: options.orderBy,
+      rankSearch: options.rankSearch,
     });
 
     console.log(
@@ -0,0 +1,220 @@
+import {
+  normalizePartitionedEntityRefs,
+  type PartitionedEntityRef,
+} from './space-partition.helpers';
+import type { PedigreeJsonb } from './space-pedigree.helpers';
+
+/**
+ * Offline pins - "Make available offline" for a kennel, breed or a
+ * hand-picked set of pets.
+ *
+ * A pin lists everything its download wrote to RxDB (entity ids per entity
+ * type, parent ids whose child tables were fetched) so LRU eviction and TTL
+ * cleanup can skip those records. Pins are persisted in localStorage; the
+ * records themselves live in the regular entity/child collections.
+ */
+
+export const OFFLINE_PINS_KEY = 'breedhub_offline_pins';
+export const DEFAULT_OFFLINE_PEDIGREE_GENERATIONS = 4;
+/** Upper bound on pets a kennel/breed pin downloads */
+export const OFFLINE_PIN_PET_LIMIT = 500;
+/** Ids per Supabase `IN` request while downloading */
+export const OFFLINE_PIN_FETCH_CHUNK = 100;
+
+/** Child tables downloaded per entity type unless the caller overrides them */
+export const DEFAULT_OFFLINE_CHILD_TABLES: Record<string, string[]> = {
+  pet: ['title_in_pet', 'pet_identifier', 'pet_measurement', 'pet_health_exam_result'],
+};
+
+export type OfflinePinKind = 'account' | 'breed' | 'pets';
+export type OfflinePinStatus = 'downloading' | 'ready' | 'error';
+
+export type OfflinePinTarget =
+  | { kind: 'account' | 'breed'; id: string; label?: string }
+  | { kind: 'pets'; ids: string[]; label?: string };
+
+export interface OfflinePinOptions {
+  /** Pedigree generations to download for every pinned pet */
+  generations?: number;
+  /** Child tables per entity type, e.g. { pet: ["title_in_pet"] } */
+  childTables?: Record<string, string[]>;
+}
+
+export interface OfflinePinProgress {
+  done: number;
+  total: number;
+  /** Human-readable current step, e.g. "title_in_pet" */
+  step: string;
+}
+
+export interface OfflinePin {
+  id: string;
+  kind: OfflinePinKind;
+  /** Account/breed id, or the hand-picked pet ids */
+  targetIds: string[];
+  label: string;
+  generations: number;
+  childTables: Record<string, string[]>;
+  status: OfflinePinStatus;
+  progress: OfflinePinProgress;
+  /** Approximate size of the downloaded records (serialized JSON) */
+  bytes: number;
+  recordCount: number;
+  /** Pet list was cut at OFFLINE_PIN_PET_LIMIT */
+  truncated: boolean;
+  /** Downloaded entity ids per entity type */
+  entityIds: Record<string, string[]>;
+  /** Parent ids per entity type whose child tables were downloaded */
+  parentIds: Record<string, string[]>;
+  createdAt: string;
+  downloadedAt?: string;
+  error?: string;
+}
+
+/** Pinned ids across all pins, used to exempt records from eviction */
+export interface OfflinePinnedIds {
+  entityIds: Map<string, Set<string>>;
+  parentIds: Map<string, Set<string>>;
+}
+
+interface StorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export function getOfflinePinTargetIds(target: OfflinePinTarget): string[] {
+  return target.kind === 'pets'
+    ? [...new Set(target.ids.filter(Boolean))].sort()
+    : [target.id];
+}
+
+/** Deterministic id, so pinning the same target twice refreshes one pin. */
+export function getOfflinePinId(target: OfflinePinTarget): string {
+  return `${target.kind}:${getOfflinePinTargetIds(target).join(',')}`;
+}
+
+export function createOfflinePin(
+  target: OfflinePinTarget,
+  options: OfflinePinOptions & { now?: string } = {},
+): OfflinePin {
+  const targetIds = getOfflinePinTargetIds(target);
+  return {
+    id: getOfflinePinId(target),
+    kind: target.kind,
+    targetIds,
+    label: target.label || `${targetIds.length} ${target.kind === 'pets' ? 'pets' : target.kind}`,
+    generations: Math.max(0, options.generations ?? DEFAULT_OFFLINE_PEDIGREE_GENERATIONS),
+    childTables: options.childTables ?? DEFAULT_OFFLINE_CHILD_TABLES,
+    status: 'downloading',
+    progress: { done: 0, total: 0, step: '' },
+    bytes: 0,
+    recordCount: 0,
+    truncated: false,
+    entityIds: {},
+    parentIds: {},
+    createdAt: options.now ?? new Date().toISOString(),
+  };
+}
+
+function parsePedigree(pedigree: unknown): PedigreeJsonb | null {
+  if (!pedigree) return null;
+  if (typeof pedigree === 'string') {
+    try {
+      return JSON.parse(pedigree) as PedigreeJsonb;
+    } catch {
+      return null;
+    }
+  }
+  return typeof pedigree === 'object' ? (pedigree as PedigreeJsonb) : null;
+}
+
+/**
+ * Ancestor refs of a pet's pedigree JSONB limited to `generations`.
+ * Keys are paths from the pet ("f" = father, "fm" = father's mother, …),
+ * so the key length is the generation.
+ */
+export function getPedigreeRefsUpToGeneration(
+  pedigree: unknown,
+  generations: number,
+): PartitionedEntityRef[] {
+  const parsed = parsePedigree(pedigree);
+  if (!parsed || generations <= 0) return [];
+
+  return normalizePartitionedEntityRefs(
+    Object.entries(parsed)
+      .filter(([key, entry]) => /^[fm]+$/.test(key) && key.length <= generations && !!entry?.id)
+      .map(([, entry]) => ({ id: entry.id, partitionId: entry.bid ?? null })),
+  );
+}
+
+/** Approximate storage size of records, measured as serialized JSON. */
+export function estimateRecordBytes(records: readonly unknown[]): number {
+  let bytes = 0;
+  for (const record of records) {
+    try {
+      bytes += JSON.stringify(record)?.length ?? 0;
+    } catch {
+      // Unserializable record: not counted
+    }
+  }
+  return bytes;
+}
+
+/** Add ids to a pin's per-entity-type id list, keeping it unique. */
+export function addPinnedIds(
+  target: Record<string, string[]>,
+  entityType: string,
+  ids: readonly string[],
+): Record<string, string[]> {
+  const merged = new Set(target[entityType] ?? []);
+  for (const id of ids) {
+    if (id) merged.add(id);
+  }
+  return { ...target, [entityType]: [...merged] };
+}
+
+export function collectOfflinePinnedIds(pins: readonly OfflinePin[]): OfflinePinnedIds {
+  const pinned: OfflinePinnedIds = { entityIds: new Map(), parentIds: new Map() };
+  const add = (map: Map<string, Set<string>>, source: Record<string, string[]>) => {
+    for (const [entityType, ids] of Object.entries(source)) {
+      let set = map.get(entityType);
+      if (!set) {
+        set = new Set();
+        map.set(entityType, set);
+      }
+      for (const id of ids) set.add(id);
+    }
+  };
+  for (const pin of pins) {
+    add(pinned.entityIds, pin.entityIds);
+    add(pinned.parentIds, pin.parentIds);
+  }
+  return pinned;
+}
+
+export function readOfflinePins(storage: StorageLike): OfflinePin[] {
+  try {
+    const raw = storage.getItem(OFFLINE_PINS_KEY);
+    const pins = raw ? (JSON.parse(raw) as OfflinePin[]) : [];
+    return Array.isArray(pins) ? pins : [];
+  } catch {
+    return [];
+  }
+}
+
+/** On startup a pin still "downloading" was cut off by a reload. */
+export function markInterruptedOfflinePins(pins: readonly OfflinePin[]): OfflinePin[] {
+  return pins.map((pin) =>
+    pin.status === 'downloading'
+      ? { ...pin, status: 'error', error: 'Download interrupted' }
+      : pin,
+  );
+}
+
+export function writeOfflinePins(storage: StorageLike, pins: readonly OfflinePin[]): void {
+  try {
+    storage.setItem(OFFLINE_PINS_KEY, JSON.stringify(pins));
+  } catch (error) {
+    console.warn('[SpaceStore] Failed to persist offline pins:', error);
+  }
+}
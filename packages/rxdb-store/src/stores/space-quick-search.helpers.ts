@@ -0,0 +1,86 @@
+/**
+ * Quick search: a handful of matches per entity type for global search
+ * (the command palette) — cached rows ranked by the local search index
+ * first, then Supabase `ilike` matches for rows not cached on the device.
+ */
+
+import { getPartitionFieldForEntity } from "../utils/partition-fields";
+
+/** Matches returned per entity type unless the caller asks otherwise. */
+export const QUICK_SEARCH_DEFAULT_LIMIT = 5;
+
+/** Avatar column of entity types that have one. */
+export const QUICK_SEARCH_AVATAR_FIELDS: Record<string, string> = {
+  breed: "avatar_url",
+  pet: "avatar_url",
+  account: "avatar_url",
+};
+
+export interface QuickSearchResult {
+  id: string;
+  entityType: string;
+  name: string;
+  slug: string | null;
+  avatarUrl: string | null;
+  /** Partition key value (pet → breed_id), so the route resolves with pruning */
+  partitionId: string | null;
+  source: "local" | "remote";
+}
+
+export function buildQuickSearchColumns(entityType: string): string {
+  const columns = ["id", "name", "slug"];
+  const avatarField = QUICK_SEARCH_AVATAR_FIELDS[entityType];
+  if (avatarField) columns.push(avatarField);
+  const partitionField = getPartitionFieldForEntity(entityType);
+  if (partitionField) columns.push(partitionField);
+  return columns.join(", ");
+}
+
+/** `%query%` for ilike with the LIKE wildcards in the query escaped; null when empty. */
+export function buildQuickSearchPattern(query: string): string | null {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+  return `%${trimmed.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value !== "" ? value : null;
+}
+
+export function toQuickSearchResult(
+  entityType: string,
+  record: Record<string, unknown>,
+  source: QuickSearchResult["source"],
+): QuickSearchResult | null {
+  const id = asString(record.id);
+  if (!id) return null;
+
+  const avatarField = QUICK_SEARCH_AVATAR_FIELDS[entityType];
+  const partitionField = getPartitionFieldForEntity(entityType);
+  return {
+    id,
+    entityType,
+    name: asString(record.name) ?? "",
+    slug: asString(record.slug),
+    avatarUrl: avatarField ? asString(record[avatarField]) : null,
+    partitionId: partitionField ? asString(record[partitionField]) : null,
+    source,
+  };
+}
+
+/** Local matches keep their rank; remote ones fill up to `limit`, skipping duplicates. */
+export function mergeQuickSearchResults(
+  local: QuickSearchResult[],
+  remote: QuickSearchResult[],
+  limit: number,
+): QuickSearchResult[] {
+  const seen = new Set(local.map((result) => result.id));
+  const merged = [...local];
+  for (const result of remote) {
+    if (merged.length >= limit) break;
+    if (seen.has(result.id)) continue;
+    seen.add(result.id);
+    merged.push(result);
+  }
+  return merged.slice(0, limit);
+}
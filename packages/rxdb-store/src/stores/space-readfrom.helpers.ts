@@ -7,6 +7,12 @@ import type {
 } from "./space-filter.helpers";
 import type { KeysetOrderBy } from "./space-keyset.helpers";
 import { detectOperator, matchRecordValue } from "../utils/filter-builder";
+import {
+  FILTER_GROUP_KEY,
+  getFilterGroup,
+  matchFilterGroup,
+  type FilterGroupLeafResolver,
+} from "./space-filter-group.helpers";
 
 type OrderBy = KeysetOrderBy;
 
@@ -19,21 +25,33 @@ function buildMemoryMatcher(
   filters: FilterMap,
   fieldConfigs: FilterFieldConfigMap,
 ): (record: BusinessEntity) => boolean {
-  const entries = Object.entries(filters).filter(([, value]) => {
-    return value !== undefined && value !== null && value !== "";
+  const entries = Object.entries(filters).filter(([key, value]) => {
+    return key !== FILTER_GROUP_KEY && value !== undefined && value !== null && value !== "";
   });
-  if (entries.length === 0) return () => true;
+  const group = getFilterGroup(filters);
+  if (entries.length === 0 && !group) return () => true;
+
+  const resolveOperator = (key: string) => {
+    const cfg = fieldConfigs?.[key] as
+      | { fieldType?: string; operator?: string; orFields?: string[] }
+      | undefined;
+    return {
+      operator: detectOperator(cfg?.fieldType ?? "string", cfg?.operator),
+      orFields: cfg?.orFields,
+    };
+  };
+  const resolveLeaf: FilterGroupLeafResolver = (condition) => {
+    const resolved = resolveOperator(condition.field);
+    return { ...resolved, operator: condition.operator ?? resolved.operator };
+  };
 
   return (record) => {
     for (const [key, value] of entries) {
-      const cfg = fieldConfigs?.[key] as
-        | { fieldType?: string; operator?: string }
-        | undefined;
-      const operator = detectOperator(cfg?.fieldType ?? "string", cfg?.operator);
+      const { operator } = resolveOperator(key);
       const recordValue = (record as Record<string, unknown>)[key];
       if (!matchRecordValue(recordValue, operator, value)) return false;
     }
-    return true;
+    return !group || matchFilterGroup(record as Record<string, unknown>, group, resolveLeaf);
   };
 }
 
@@ -3,11 +3,12 @@ import type { ReadonlySignal, Signal } from '@preact/signals-react';
 import {
   CHILD_RECORDS_STALE_MS,
   MAPPING_CACHE_STALE_MS,
+  RPC_CACHE_DEFAULT_TTL_MS,
 } from '../cache/cache-policies';
-import { ChildLruPolicy } from './child-lru-policy';
+import { ChildLruPolicy, type ChildLruEvent } from './child-lru-policy';
 import { getDatabase, type AppDatabase } from '../services/database.service';
 import { Subscription } from 'rxjs';
-import { RxCollection, RxDocument } from 'rxdb';
+import { RxCollection, RxDatabase, RxDocument } from 'rxdb';
 import { EntityStore } from './base/entity-store';
 import { appStore } from './app-store.signal-store';
 import { entityReplicationService } from '../services/entity-replication.service';
@@ -73,6 +74,11 @@ import {
 } from './space-keyset.helpers';
 import {
   filterLocalEntities,
+  findRankedLocalEntities,
+  mergeRankedSearchIds,
+  RANKED_SEARCH_PAGE_SHARE,
+  type LocalEntityRecord,
+  type LocalRankSearch,
 } from './space-local-query.helpers';
 import {
   applyChildListQueryOptions,
@@ -121,8 +127,59 @@ import {
   type PartitionedEntityRef,
 } from './space-partition.helpers';
 import {
+  applyPartitionGuardedPatch,
   rebuildPetTitlesDisplayFlow,
 } from './space-denorm.helpers';
+import {
+  CHILD_REALTIME_REFRESH_TOPIC,
+  CHILD_REALTIME_SCOPE_TOPIC,
+  planChildRealtimeChange,
+} from './space-child-realtime.helpers';
+import {
+  buildChildCheckpointRecord,
+  buildChildDeltaCursorFilter,
+  canPullChildDelta,
+  getChildCheckpointCursor,
+  getChildCheckpointId,
+  getLatestChildCursor,
+  pullChildDelta,
+  type ChildDeltaCursor,
+} from './space-child-delta.helpers';
+import {
+  buildRestoredRow,
+  buildTrashItemFromQueue,
+  buildTrashItemFromRow,
+  getTrashCutoff,
+  getTrashItemKey,
+  mergeTrashItems,
+  TRASH_FETCH_LIMIT,
+  type TrashItem,
+} from './space-trash.helpers';
+import {
+  addPinnedIds,
+  collectOfflinePinnedIds,
+  createOfflinePin,
+  estimateRecordBytes,
+  getOfflinePinId,
+  getPedigreeRefsUpToGeneration,
+  markInterruptedOfflinePins,
+  OFFLINE_PIN_FETCH_CHUNK,
+  OFFLINE_PIN_PET_LIMIT,
+  OFFLINE_PINS_KEY,
+  readOfflinePins,
+  writeOfflinePins,
+  type OfflinePin,
+  type OfflinePinnedIds,
+  type OfflinePinOptions,
+  type OfflinePinTarget,
+} from './space-offline-pin.helpers';
+import {
+  buildChildLruGroups,
+  filterEntityCircuitBreakers,
+  inspectServerTotalCache,
+  type ChildCollectionDiagnostics,
+  type EntityDiagnostics,
+} from './space-diagnostics.helpers';
 import {
   fetchEntityBySlugFlow,
   wireReconnectRefresh,
@@ -135,6 +192,27 @@ import {
   type PedigreePet as HelperPedigreePet,
   type PedigreeResult as HelperPedigreeResult,
 } from './space-pedigree.helpers';
+import {
+  aggregateDependencyChecks,
+  buildEntityPatch,
+  captureRevertPatch,
+  mapWithConcurrency,
+  BULK_DEPENDENCY_CONCURRENCY,
+  type BulkDeleteResult,
+  type BulkDependencyReport,
+  type BulkMutationOptions,
+  type BulkUpdateResult,
+} from './space-bulk.helpers';
+import {
+  buildChangeHistoryEntry,
+  buildRevertUpdates,
+  canRevertChange,
+  mergeChangeHistory,
+  CHANGE_HISTORY_LIMIT,
+  CHANGE_HISTORY_TABLE,
+  type ChangeHistoryEntry,
+  type ChangeInput,
+} from './space-history.helpers';
 
 // Helpers
 import {
@@ -155,11 +233,58 @@ import {
 import type { RxDBSelectorLike } from '../utils/filter-builder';
 import * as CC from '../utils/child-collection-registry';
 import { generateSchemaForEntity as buildSchema } from '../utils/schema-builder';
-import { rebuildTimelineOnDateChange } from '../utils/timeline-builder';
 import { generateSlug } from '../utils/slug-generator';
 import { buildEntityPayload, buildChildPayload, getOnConflict } from '../utils/sync-queue.helpers';
-import { syncQueueService } from '../services/sync-queue.service';
-import { checkSchemaVersion } from '../utils/schema-version-check';
+import {
+  syncQueueService,
+  type EntityBatchItem,
+  type SyncQueueItem,
+} from '../services/sync-queue.service';
+import { leaderElectionService } from '../services/leader-election.service';
+import {
+  childRealtimeService,
+  DEFAULT_CHILD_REALTIME_TABLES,
+  type ChildRealtimeChange,
+  type ChildRealtimeTable,
+} from '../services/child-realtime.service';
+import {
+  databaseSnapshotService,
+  type SnapshotExport,
+  type SnapshotExportOptions,
+  type SnapshotImportMode,
+  type SnapshotImportReport,
+} from '../services/database-snapshot.service';
+import {
+  getStorageCollectionKind,
+  storageManagerService,
+} from '../services/storage-manager.service';
+import { presenceService } from '../services/presence.service';
+import {
+  searchIndexService,
+  type SearchIndexCollections,
+} from '../services/search-index.service';
+import {
+  QUICK_SEARCH_DEFAULT_LIMIT,
+  buildQuickSearchColumns,
+  buildQuickSearchPattern,
+  mergeQuickSearchResults,
+  toQuickSearchResult,
+  type QuickSearchResult,
+} from './space-quick-search.helpers';
+import {
+  FACET_COUNT_RPC,
+  buildFacetCountRpcArgs,
+  countFacetValues,
+  getFacetFilters,
+  isFacetCacheComplete,
+  parseFacetCountRows,
+  type FacetCountResult,
+} from './space-facet.helpers';
+import {
+  planCollectionSchema,
+  readSchemaVersions,
+  writeSchemaVersion,
+} from '../utils/schema-migration';
 import type { BusinessEntity } from '../types/business-entity.types';
 
 type StoreCollection<TRecord extends Record<string, unknown> = BusinessEntity> =
@@ -188,6 +313,9 @@ function getSupabaseSelectClient<
 // OrderBy configuration with tie-breaker support
 export type OrderBy = KeysetOrderBy;
 
+/** Most search-index hits handed to the RxDB filter query per search. */
+const SEARCH_INDEX_CANDIDATE_LIMIT = 500;
+
 /**
  * VIEW source mapping for entities that should fetch from a VIEW instead of base table.
  * VIEWs are used to enrich entities with JOINed data (e.g., parent names).
@@ -363,16 +491,17 @@ class SpaceStore {
       this.configReady.value = true;
       console.log('[SpaceStore] ✅ CONFIG READY at', new Date().toISOString());
 
-      // Auto-clear RxDB if config version changed (schema migration)
-      const reloading = await checkSchemaVersion();
-      if (reloading) return;
-
       // Get database instance from AppStore
       this.db = await getDatabase() as unknown as SpaceDatabase;
 
       // Initialize sync queue service (V3 push)
       await syncQueueService.initialize(this.db);
 
+      // Storage quota monitor; TTL cleanup per collection keeps offline pins
+      void storageManagerService.start(this.db, {
+        getCleanupExemption: (name) => this.getCleanupExemption(name),
+      });
+
       // Reconnect pull: refresh active entity stores when coming back online
       wireReconnectRefresh({
         syncQueueService,
@@ -383,6 +512,19 @@ class SpaceStore {
         },
       });
 
+      // Offline pins: the leader tab re-downloads them after reconnect;
+      // other tabs follow the persisted progress via the storage event
+      this.loadOfflinePins({ startup: true });
+      syncQueueService.onReconnect(() => {
+        if (!leaderElectionService.isLeader.value) return;
+        void this.refreshOfflinePins();
+      });
+      if (typeof window !== 'undefined') {
+        window.addEventListener('storage', (event) => {
+          if (event.key === OFFLINE_PINS_KEY) this.loadOfflinePins();
+        });
+      }
+
       // Create collections for all found entity types
       for (const entityType of this.availableEntityTypes.value) {
         await this.ensureCollection(entityType);
@@ -620,28 +762,46 @@ class SpaceStore {
       return;
     }
 
-    const schema = buildSchema(entityType, spaceConfig);
-    if (!schema) {
+    const generatedSchema = buildSchema(entityType, spaceConfig);
+    if (!generatedSchema) {
       console.warn(`[SpaceStore] Could not generate schema for ${entityType}`);
       return;
     }
-    
+
+    // Per-collection version: bumped with a generated migration when the
+    // config field set changed since this collection was last opened
+    const plan = planCollectionSchema(
+      generatedSchema as typeof generatedSchema & { properties: Record<string, Record<string, unknown>> },
+      readSchemaVersions(localStorage)[entityType],
+    );
+    if (plan.diff) {
+      console.log(
+        `[SpaceStore] Migrating ${entityType} to schema v${plan.entry.version}:`,
+        plan.diff,
+      );
+    }
+
     // Create collection
     try {
       await this.db.addCollections({
-        [entityType]: buildEntityCollectionConfig(schema),
+        [entityType]: buildEntityCollectionConfig(plan.schema, plan.migrationStrategies),
       });
+      writeSchemaVersion(localStorage, entityType, plan.entry);
       console.log(`[SpaceStore] Created collection ${entityType}`);
     } catch (error: unknown) {
-      // DB6 = schema mismatch — cached IndexedDB has old schema, config has new one.
-      // Auto-clear and reload (same as checkSchemaVersion flow).
-      if (isCollectionSchemaMismatchError(error)) {
-        console.warn(`[SpaceStore] Schema mismatch for ${entityType}. Clearing RxDB and reloading...`);
+      // DB6 = schema mismatch — cached IndexedDB has a schema we have no
+      // version for. A throwing migration ends up here too. Both fall back
+      // to clearing RxDB (unsynced queue items are kept) and reloading.
+      if (isCollectionSchemaMismatchError(error) || plan.diff) {
+        console.warn(`[SpaceStore] Could not open ${entityType} with its new schema. Clearing RxDB and reloading...`, error);
         const recovered = await recoverCollectionSchemaMismatch({
           db: this.db,
           indexedDb: indexedDB,
           localStorage,
           window,
+          beforeRemove: async () => {
+            await syncQueueService.backupForReset();
+          },
         });
         if (recovered) {
           return;
@@ -727,20 +887,9 @@ class SpaceStore {
     const { entityStore, collection } = context;
     
     try {
-      const id = crypto.randomUUID();
-      const userId = userStore.currentUserId.value;
-      const hasSlug = !!collection.schema.jsonSchema.properties?.slug;
+      const newEntity = this.buildNewEntity(collection, data);
+      const id = newEntity.id;
 
-      const newEntity = {
-        ...data,
-        id,
-        ...(hasSlug && { slug: generateSlug(data.name || '', id) }),
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        ...(userId && { created_by: userId, updated_by: userId }),
-        _deleted: false
-      } as unknown as T;
-      
       await collection.insert(newEntity);
       entityStore.addOne(newEntity);
 
@@ -752,6 +901,9 @@ class SpaceStore {
         buildEntityPayload(newEntity),
         getOnConflict(entityType, partitionKey)
       );
+      await this.recordChanges([
+        { entityType, entityId: id, operation: 'create', after: data as Record<string, unknown> },
+      ]);
 
       console.log(`[SpaceStore] Created ${entityType}:`, id);
       return newEntity;
@@ -762,6 +914,27 @@ class SpaceStore {
     }
   }
   
+  /** New entity record with id, slug and audit fields, ready for insert. */
+  private buildNewEntity<T extends BusinessEntity>(
+    collection: StoreCollection<T>,
+    data: Partial<T>,
+  ): T {
+    const id = crypto.randomUUID();
+    const userId = userStore.currentUserId.value;
+    const hasSlug = !!collection.schema.jsonSchema.properties?.slug;
+    const now = new Date().toISOString();
+
+    return {
+      ...data,
+      id,
+      ...(hasSlug && { slug: generateSlug(data.name || '', id) }),
+      created_at: now,
+      updated_at: now,
+      ...(userId && { created_by: userId, updated_by: userId }),
+      _deleted: false
+    } as unknown as T;
+  }
+
   /**
    * Update an entity
    */
@@ -784,32 +957,16 @@ class SpaceStore {
         throw new Error(`${entityType} ${id} not found`);
       }
 
-      const patchData: Record<string, unknown> = {
-        ...updates,
-        updated_at: new Date().toISOString(),
-        ...(userStore.currentUserId.value && { updated_by: userStore.currentUserId.value }),
-      };
+      // Version this edit is based on — lets the sync queue merge a
+      // co-owner's save that lands before ours (see sync-conflict.helpers).
+      const before = doc.toJSON() as Record<string, unknown>;
+      const baseUpdatedAt = before.updated_at;
 
-      // If date_of_birth or date_of_death changed, rebuild timeline locally
-      if ('date_of_birth' in updates || 'date_of_death' in updates) {
-        const currentData = doc.toJSON() as Record<string, unknown>;
-        const currentTimeline = Array.isArray(currentData.timeline)
-          ? currentData.timeline as Parameters<typeof rebuildTimelineOnDateChange>[0]
-          : [];
-        const dateOfBirth =
-          typeof patchData.date_of_birth === 'string' || patchData.date_of_birth === null
-            ? patchData.date_of_birth
-            : currentData.date_of_birth;
-        const dateOfDeath =
-          typeof patchData.date_of_death === 'string' || patchData.date_of_death === null
-            ? patchData.date_of_death
-            : currentData.date_of_death;
-        patchData['timeline'] = rebuildTimelineOnDateChange(
-          currentTimeline,
-          typeof dateOfBirth === 'string' || dateOfBirth === null ? dateOfBirth : undefined,
-          typeof dateOfDeath === 'string' || dateOfDeath === null ? dateOfDeath : undefined,
-        );
-      }
+      const patchData = buildEntityPatch(
+        doc.toJSON() as Record<string, unknown>,
+        updates as Record<string, unknown>,
+        { userId: userStore.currentUserId.value },
+      );
 
       // Update RxDB locally
       const patchedDoc = await doc.patch(patchData as Partial<T>);
@@ -823,8 +980,21 @@ class SpaceStore {
       await syncQueueService.enqueueEntity(
         entityType, id, 'upsert',
         buildEntityPayload(fullDoc),
-        getOnConflict(entityType, partitionKey)
+        getOnConflict(entityType, partitionKey),
+        typeof baseUpdatedAt === 'string' ? baseUpdatedAt : undefined,
+        buildEntityPayload(before)
       );
+      if (typeof fullDoc.updated_at === 'string') {
+        presenceService.announceSave(entityType, id, fullDoc.updated_at);
+      }
+      await this.recordChanges([{
+        entityType,
+        entityId: id,
+        operation: 'update',
+        before,
+        after: patchData,
+        fields: Object.keys(updates),
+      }]);
 
     } catch (error) {
       console.error(`[SpaceStore] Failed to update ${entityType}:`, error);
@@ -942,6 +1112,7 @@ class SpaceStore {
       const fullDoc = doc.toJSON();
       const entitySchema = this.entitySchemas.get(entityType);
       const partitionKey = entitySchema?.partition?.keyField;
+      const baseUpdatedAt = (fullDoc as Record<string, unknown>).updated_at;
       const payload = buildEntityPayload(fullDoc);
       // Add deleted flag for Supabase (can't store in RxDB — reserved field name)
       payload.deleted = true;
@@ -959,8 +1130,10 @@ class SpaceStore {
       await syncQueueService.enqueueEntity(
         entityType, id, 'delete',
         payload,
-        getOnConflict(entityType, partitionKey)
+        getOnConflict(entityType, partitionKey),
+        typeof baseUpdatedAt === 'string' ? baseUpdatedAt : undefined
       );
+      await this.recordChanges([{ entityType, entityId: id, operation: 'delete' }]);
 
     } catch (error) {
       console.error(`[SpaceStore] Failed to delete ${entityType}:`, error);
@@ -969,189 +1142,1206 @@ class SpaceStore {
   }
   
   /**
-   * Get all entities of a type
+   * Apply a resolved sync conflict: patch the local document with the
+   * chosen field values and re-queue the merged payload for push.
+   * `resolvedPayload` is the full Supabase payload built by
+   * `applyConflictResolution`.
    */
-  async getAll<T extends BusinessEntity>(entityType: string): Promise<T[]> {
-    const entityStore = await this.getEntityStore<T>(entityType);
-    
-    if (!entityStore) {
-      return [];
+  async resolveSyncConflict(
+    itemId: string,
+    entityType: string,
+    entityId: string,
+    resolvedPayload: Record<string, unknown>,
+  ): Promise<void> {
+    const context = await this.getEntityCollectionContext<BusinessEntity>(entityType);
+    if (context) {
+      const doc = await findDocumentById(context.collection, entityId);
+      if (doc) {
+        const fields = { ...resolvedPayload };
+        delete fields.id;
+        delete fields.deleted;
+        await doc.patch(fields as Partial<BusinessEntity>);
+        context.entityStore.updateOne(entityId, fields as Partial<BusinessEntity>);
+      }
     }
-    
-    return entityStore.entityList.value;
+    await syncQueueService.resolveConflict(itemId, resolvedPayload);
   }
-  
+
   /**
-   * Get entity by ID
+   * Current local state of the record a queue item targets, in the same
+   * Supabase payload shape as the item, so the sync inspector can diff them.
+   * Null when the record is no longer cached (e.g. a queued delete).
    */
-  async getById<T extends BusinessEntity>(entityType: string, id: string): Promise<T | undefined> {
-    const entityStore = await this.getEntityStore<T>(entityType);
-    
-    if (!entityStore) {
-      return undefined;
+  async getQueueItemLocalPayload(item: SyncQueueItem): Promise<Record<string, unknown> | null> {
+    if (item.queue === 'entity') {
+      const data = await this.findCachedEntityById<Record<string, unknown>>(
+        item.entityType,
+        item.recordId,
+      );
+      return data ? buildEntityPayload(data) : null;
     }
-    
-    return entityStore.selectById(id);
+
+    const collection = await this.ensureChildCollection(item.entityType);
+    if (!collection) return null;
+    const record = await findDocumentDataById<ChildCacheRecord>(
+      collection as unknown as RxCollection<ChildCacheRecord>,
+      item.recordId,
+    );
+    if (!record) return null;
+    const { partitionConfig } = getChildMutationMetadata(
+      this.entitySchemas,
+      item.entityType,
+      item.tableType ?? '',
+    );
+    return buildChildPayload(record, item.entityType, partitionConfig);
   }
-  
+
   /**
-   * Find entities by predicate
+   * Drop a queued mutation and roll back its optimistic local change:
+   * the local record is replaced with the current server row, or removed
+   * when the server never had it (the discarded change was a local create).
    */
-  async find<T extends BusinessEntity>(
-    entityType: string, 
-    predicate: (entity: T) => boolean
-  ): Promise<T[]> {
-    const entityStore = await this.getEntityStore<T>(entityType);
-    
-    if (!entityStore) {
-      return [];
+  async discardQueuedChange(item: SyncQueueItem): Promise<void> {
+    const removed = await syncQueueService.discardItem(item.queue, item.id);
+    if (!removed) return;
+
+    try {
+      if (removed.queue === 'entity') {
+        await this.restoreEntityFromServer(removed.entityType, removed.recordId);
+      } else {
+        await this.restoreChildFromServer(removed);
+      }
+    } catch (error) {
+      console.error('[SpaceStore] Failed to roll back discarded change:', error);
     }
-    
-    return entityStore.selectWhere(predicate);
   }
 
-  private async getEntityCollectionContext<T extends BusinessEntity>(
-    entityType: string,
-  ): Promise<{
-    entityStore: EntityStore<T>;
-    collection: StoreCollection<T>;
-  } | null> {
-    const entityStore = await this.getEntityStore<T>(entityType);
+  private async restoreEntityFromServer(entityType: string, id: string): Promise<void> {
+    const collection = this.db?.collections[entityType];
+    if (!collection) return;
+    const entityStore = this.entityStores.get(entityType);
 
-    if (!entityStore) {
-      console.error(`[SpaceStore] Entity store for ${entityType} not available`);
-      return null;
+    const { data, error } = await supabase
+      .from(entityType)
+      .select(buildSupabaseSelectFromRxDBSchema(collection.schema.jsonSchema))
+      .eq('id', id)
+      .or('deleted.is.null,deleted.eq.false')
+      .maybeSingle();
+    if (error) throw error;
+
+    if (data) {
+      const mapped = this.mapToRxDBFormat(
+        data as unknown as Record<string, unknown>,
+        entityType,
+      );
+      await collection.upsert(mapped);
+      entityStore?.upsertOne(mapped as unknown as BusinessEntity);
+    } else {
+      const doc = await findDocumentById(collection, id);
+      await doc?.remove();
+      entityStore?.removeOne(id);
     }
+  }
 
-    const collection = (entityStore as EntityStoreWithCollection<T>).collection;
-
-    if (!collection) {
-      console.error(`[SpaceStore] Collection for ${entityType} not available`);
-      return null;
+  private async restoreChildFromServer(item: SyncQueueItem): Promise<void> {
+    const tableType = item.tableType ?? '';
+    // Re-caches the server row when it exists
+    const row = await this.loadFullChildRecord(item.entityType, tableType, item.recordId);
+    if (!row || (row as Record<string, unknown>).deleted === true) {
+      const collection = await this.ensureChildCollection(item.entityType);
+      const doc = collection ? await findDocumentById(collection, item.recordId) : null;
+      await doc?.remove();
     }
 
-    return { entityStore, collection };
+    const source = (row ?? item.payload) as Record<string, unknown>;
+    const parentId = source[`${item.entityType}_id`];
+    if (typeof parentId !== 'string') return;
+    const { normalizedType, partitionConfig } = getChildMutationMetadata(
+      this.entitySchemas,
+      item.entityType,
+      tableType,
+    );
+    const partitionId = partitionConfig
+      ? source[partitionConfig.childFilterField]
+      : undefined;
+    await this.rebuildParentDenormFields(
+      item.entityType,
+      normalizedType,
+      parentId,
+      typeof partitionId === 'string' ? partitionId : undefined,
+    );
   }
-  
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Recently deleted (trash)
+  // ─────────────────────────────────────────────────────────────────────────────
+
   /**
-   * Apply filters to entity data
-   * Universal filtering method used by both SpaceView and LookupInput
-   *
-   * @param entityType - Entity type (e.g., 'breed', 'pet', 'account')
-   * @param filters - Filter values as key-value pairs (e.g., { name: 'golden', pet_type_id: 'uuid' })
-   * @param options - Optional configuration (limit, offset, fieldConfigs)
-   * @returns Promise with { records, total, hasMore }
+   * Soft-deleted records of the current user inside the retention window:
+   * server rows flagged `deleted = true` plus deletes still in the sync queue.
    *
-   * Strategy:
-   * 1. Try RxDB local search first (fast)
-   * 2. If not enough results, fetch from Supabase (with filters)
-   * 3. Cache results in RxDB
-   * 4. Return standardized format
+   * @param options.entityTypes  entity tables to list (e.g. the workspace spaces)
+   * @param options.childTables  child tables per entity type, e.g. `{ pet: ['title_in_pet'] }`
    */
-  async applyFilters(
-    entityType: string,
-    filters: FilterMap,
-    options?: {
-      /**
-       * Active space id (e.g. "space_1778747003891"). Required so the right
-       * config (defaultFilters, filter_fields, totalFilterKey, isPublic) is
-       * picked when multiple spaces share an entitySchemaName — public /pets
-       * vs private /my/pets vs marketplace /pets all target `pet`. Falls back
-       * to the first matching space for the entityType when omitted, with a
-       * warning, to keep old call sites alive during the migration.
-       */
-      spaceId?: string;
-      /**
-       * Active quick-filter scope (e.g. "owned"). Folds into the totalCount
-       * cache key so each chip (Owned/Bred/All) tracks its own count.
-       */
-      activeScope?: string | null;
-      limit?: number;
-      cursor?: string | null;  // ✅ Cursor for IDs query (keyset pagination)
-      orderBy?: OrderBy;  // ✅ Use OrderBy interface with tieBreaker support
-      fieldConfigs?: FilterFieldConfigMap;
-      /**
-       * Mapping-table source override. When provided, IDs come from
-       * `readFrom.table WHERE readFrom.parentField = readFrom.parentId`
-       * instead of the entity table — used by user-scoped spaces (My Pets)
-       * to keep pet partition pruning intact. Heavy filters still apply on
-       * top through `applyFiltersViaReadFrom`.
-       */
-      readFrom?: ResolvedReadFromConfig;
+  async getRecentlyDeleted(options: {
+    entityTypes: string[];
+    childTables?: Record<string, string[]>;
+    retentionDays?: number;
+  }): Promise<TrashItem[]> {
+    const cutoff = getTrashCutoff(options.retentionDays);
+    const userId = userStore.currentUserId.value;
+    const entityTypes = new Set(options.entityTypes);
+
+    const queuedItems = (await syncQueueService.getQueueItems())
+      .filter((item) => entityTypes.has(item.entityType))
+      .map(buildTrashItemFromQueue)
+      .filter((item): item is TrashItem => item !== null);
+
+    if (!userId) {
+      return mergeTrashItems([], queuedItems, cutoff);
     }
-  ): Promise<HydrateFilteredEntitiesResult<BusinessEntity>> {
-    const limit = options?.limit || 30;
-    const cursor = options?.cursor ?? null;
-    const orderBy: OrderBy = options?.orderBy || {
-      field: 'name',
-      direction: 'asc' as const,
-      tieBreaker: {
-        field: 'id',
-        direction: 'asc' as const
+
+    const sources: Array<{ kind: TrashItem['kind']; entityType: string; table: string }> = [];
+    for (const entityType of entityTypes) {
+      sources.push({ kind: 'entity', entityType, table: entityType });
+      for (const tableType of options.childTables?.[entityType] ?? []) {
+        sources.push({ kind: 'child', entityType, table: normalizeChildTableType(tableType) });
       }
-    };
+    }
 
-    // Resolve config strictly by spaceId when caller passes it (one space's
-    // settings can differ wildly from another's on the same entity — public
-    // /pets vs private /my/pets). Without spaceId fall back to first match +
-    // warn — bridge for un-migrated call sites.
-    const spaceConfig = options?.spaceId
-      ? this.resolveSpaceConfig(options.spaceId)
-      : (() => {
-          const first = this.getSpacesForEntityType(entityType)[0];
-          if (first) {
-            console.warn(
-              `[SpaceStore] applyFilters called without spaceId for "${entityType}". ` +
-                `Falling back to first matching space "${first.id}". Caller should pass options.spaceId.`,
-            );
+    const serverItems = (
+      await Promise.all(
+        sources.map(async ({ kind, entityType, table }) => {
+          const { data, error } = await supabase
+            .from(table)
+            .select('*')
+            .eq('deleted', true)
+            .eq('updated_by', userId)
+            .gte('updated_at', cutoff)
+            .order('updated_at', { ascending: false })
+            .limit(TRASH_FETCH_LIMIT);
+          if (error) {
+            console.warn(`[SpaceStore] Failed to load deleted ${table}:`, error.message);
+            return [];
           }
-          return first;
-        })();
-    const defaultFilters = spaceConfig?.defaultFilters || {};
-    const baseFieldConfigs = options?.fieldConfigs || spaceConfig?.filter_fields || {};
+          return ((data ?? []) as unknown as Record<string, unknown>[])
+            .map((row) => buildTrashItemFromRow(kind, entityType, row, kind === 'child' ? table : undefined))
+            .filter((item): item is TrashItem => item !== null);
+        }),
+      )
+    ).flat();
 
-    // Remember the last user-facing filter map so a CRUD-triggered refresh
-    // can refetch the count under the same scope (Stage 4 reactivity).
-    this.lastAppliedFilters.set(entityType, filters);
-    const preparedFilters = prepareFiltersWithDefaults(
-      filters,
-      defaultFilters,
-      baseFieldConfigs,
-    );
-    filters = preparedFilters.filters;
-    const fieldConfigs = preparedFilters.fieldConfigs;
+    return mergeTrashItems(serverItems, queuedItems, cutoff);
+  }
 
-    // readFrom branch — user-scoped space (e.g. My Pets) sources IDs from a
-    // mapping table instead of the entity table. Required-filter gate is
-    // skipped (scope IS the required filter), and the heavy `filters` apply
-    // in-memory on the small per-user scope.
-    if (options?.readFrom) {
-      return applyFiltersViaReadFrom({
-        entityType,
-        readFrom: options.readFrom,
-        filters,
-        fieldConfigs,
-        orderBy,
-        limit,
-        cursor,
-        loadAllForScope: (et, rf) =>
-          this.loadEntitiesViaMapping(
-            et,
-            rf.table,
-            rf.parentField,
-            rf.parentId,
-            rf.entityIdField,
-            rf.entityPartitionField,
-          ),
-      });
+  /**
+   * Bring a soft-deleted record back: re-cache it locally, rebuild the
+   * denormalized parent fields and queue an upsert with `deleted: false`
+   * (it replaces the queued delete when that never reached the server).
+   */
+  async restoreDeleted(item: TrashItem): Promise<void> {
+    const restored = buildRestoredRow(item.row, { userId: userStore.currentUserId.value });
+
+    if (item.kind === 'entity') {
+      const context = await this.getEntityCollectionContext<BusinessEntity>(item.entityType);
+      if (!context) {
+        throw new Error(`${item.entityType} collection is not available`);
+      }
+      const mapped = this.mapToRxDBFormat(restored, item.entityType);
+      await context.collection.upsert(mapped as unknown as BusinessEntity);
+      context.entityStore.upsertOne(mapped as unknown as BusinessEntity);
+
+      const partitionKey = this.entitySchemas.get(item.entityType)?.partition?.keyField;
+      const baseUpdatedAt = item.row.updated_at;
+      await syncQueueService.enqueueEntity(
+        item.entityType, item.recordId, 'upsert',
+        { ...buildEntityPayload(mapped), deleted: false },
+        getOnConflict(item.entityType, partitionKey),
+        typeof baseUpdatedAt === 'string' ? baseUpdatedAt : undefined
+      );
+      console.log(`[SpaceStore] Restored ${item.entityType}:`, item.recordId);
+      return;
     }
 
-    // Required-filter gate: skip Supabase + offline fallback when any required
-    // filter slot is empty. The space UI renders an empty/picker state from
-    // entityStore.requiredFiltersMissing.
-    const missingRequired = findMissingRequiredFilters(filters, fieldConfigs);
-    const gatedEntityStore = this.entityStores.get(entityType);
-    if (missingRequired.length > 0) {
+    const { normalizedType, partitionConfig } = getChildMutationMetadata(
+      this.entitySchemas,
+      item.entityType,
+      item.tableType ?? '',
+    );
+    const parentIdField = `${item.entityType}_id`;
+    const parentId = restored[parentIdField];
+    if (typeof parentId !== 'string') {
+      throw new Error(`${normalizedType} ${item.recordId} has no ${parentIdField}`);
+    }
+    const partitionValue = partitionConfig
+      ? restored[partitionConfig.childFilterField]
+      : undefined;
+
+    const collection = await this.ensureChildCollection(item.entityType);
+    if (collection) {
+      const cacheRow = { ...restored };
+      delete cacheRow.deleted;
+      await mapAndCacheChildRows([cacheRow as ChildSourceRow], {
+        tableType: normalizedType,
+        parentId,
+        parentField: parentIdField,
+        partitionField: partitionConfig?.childFilterField,
+        partitionValue: typeof partitionValue === 'string' ? partitionValue : undefined,
+        collection,
+      });
+    }
+
+    await syncQueueService.enqueueChild(
+      item.entityType, normalizedType, item.recordId, 'upsert',
+      restored,
+      'id'
+    );
+    await this.rebuildParentDenormFields(
+      item.entityType,
+      normalizedType,
+      parentId,
+      typeof partitionValue === 'string' ? partitionValue : undefined,
+    );
+    this.scheduleChildMutationRefreshFenced(item.recordId, item.entityType, normalizedType, parentId);
+  }
+
+  /**
+   * Undo a just-made `delete()`: restores from the queued delete, or from
+   * the server row when the delete has already been pushed.
+   */
+  async restoreEntity(entityType: string, id: string): Promise<void> {
+    const queued = (await syncQueueService.getQueueItems()).find(
+      (item) => item.queue === 'entity' && item.recordId === id,
+    );
+    let trashItem = queued ? buildTrashItemFromQueue(queued) : null;
+
+    if (!trashItem) {
+      const { data, error } = await supabase
+        .from(entityType)
+        .select('*')
+        .eq('id', id)
+        .eq('deleted', true)
+        .maybeSingle();
+      if (error) throw error;
+      trashItem = data
+        ? buildTrashItemFromRow('entity', entityType, data as unknown as Record<string, unknown>)
+        : null;
+    }
+
+    if (!trashItem) {
+      throw new Error(`Deleted ${entityType} ${id} not found`);
+    }
+    await this.restoreDeleted(trashItem);
+  }
+
+  /**
+   * Permanently delete a trashed record: drops its queued delete (and the
+   * child edits held behind it) and hard-deletes the server row.
+   */
+  async purgeDeleted(item: TrashItem): Promise<void> {
+    const key = getTrashItemKey(item);
+    const queued = (await syncQueueService.getQueueItems()).find((queueItem) => {
+      const trashItem = buildTrashItemFromQueue(queueItem);
+      return trashItem !== null && getTrashItemKey(trashItem) === key;
+    });
+    if (item.kind === 'entity') {
+      await syncQueueService.dropHeldChildUpserts(item.entityType, item.recordId);
+    }
+    if (queued) {
+      await syncQueueService.discardItem(queued.queue, queued.id);
+    }
+
+    const table = item.kind === 'entity' ? item.entityType : item.tableType ?? '';
+    const { error } = await supabase.from(table).delete().eq('id', item.recordId);
+    if (error) throw error;
+    console.log(`[SpaceStore] Purged ${table}:`, item.recordId);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Bulk edit / delete
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Create many entities of one type (e.g. a note on each selected record):
+   * one `bulkInsert`, one sync queue batch.
+   */
+  async bulkCreate<T extends BusinessEntity>(
+    entityType: string,
+    records: Partial<T>[],
+  ): Promise<T[]> {
+    const context = await this.getEntityCollectionContext<T>(entityType);
+    if (!context) {
+      throw new Error(`${entityType} collection is not available`);
+    }
+    if (records.length === 0) return [];
+
+    const { entityStore, collection } = context;
+    const created = records.map((data) => this.buildNewEntity(collection, data));
+    await collection.bulkInsert(created);
+    entityStore.addMany(created);
+
+    const partitionKey = this.entitySchemas.get(entityType)?.partition?.keyField;
+    await syncQueueService.enqueueEntityBatch(
+      entityType,
+      created.map((entity) => ({
+        entityId: entity.id,
+        operation: 'upsert' as const,
+        payload: buildEntityPayload(entity),
+      })),
+      getOnConflict(entityType, partitionKey),
+    );
+    await this.recordChanges(
+      created.map((entity, index) => ({
+        entityType,
+        entityId: entity.id,
+        operation: 'create' as const,
+        after: records[index] as Record<string, unknown>,
+      })),
+    );
+    console.log(`[SpaceStore] Created ${created.length} ${entityType} records`);
+    return created;
+  }
+
+  /**
+   * Apply the same changes to many entities of one type. Patched documents
+   * are written with one `bulkUpsert` and pushed as one sync queue batch;
+   * `previous` in the result undoes the edit via `revertBulkUpdate`.
+   */
+  async bulkUpdate<T extends BusinessEntity>(
+    entityType: string,
+    ids: string[],
+    updates: Partial<T>,
+    options: BulkMutationOptions = {},
+  ): Promise<BulkUpdateResult> {
+    const patches = new Map(ids.map((id) => [id, updates as Record<string, unknown>]));
+    return this.applyBulkPatches(entityType, patches, options);
+  }
+
+  /** Undo a `bulkUpdate`: write back the values it replaced, again as one batch. */
+  async revertBulkUpdate(
+    entityType: string,
+    previous: Record<string, Record<string, unknown>>,
+    options: BulkMutationOptions = {},
+  ): Promise<BulkUpdateResult> {
+    return this.applyBulkPatches(entityType, new Map(Object.entries(previous)), options);
+  }
+
+  private async applyBulkPatches(
+    entityType: string,
+    patches: Map<string, Record<string, unknown>>,
+    { onProgress }: BulkMutationOptions,
+  ): Promise<BulkUpdateResult> {
+    const context = await this.getEntityCollectionContext<BusinessEntity>(entityType);
+    if (!context) {
+      throw new Error(`${entityType} collection is not available`);
+    }
+
+    const { entityStore, collection } = context;
+    const ids = [...patches.keys()];
+    const total = ids.length;
+    const docs = await collection.findByIds(ids).exec();
+    const userId = userStore.currentUserId.value;
+    const now = new Date().toISOString();
+
+    const written: BusinessEntity[] = [];
+    const changes: Array<{ id: string; changes: Partial<BusinessEntity> }> = [];
+    const queueItems: EntityBatchItem[] = [];
+    const history: ChangeInput[] = [];
+    const result: BulkUpdateResult = { updated: [], missing: [], previous: {} };
+
+    ids.forEach((id, index) => {
+      const doc = docs.get(id);
+      const updates = patches.get(id) ?? {};
+      if (!doc) {
+        result.missing.push(id);
+      } else {
+        const current = doc.toJSON() as Record<string, unknown>;
+        const patch = buildEntityPatch(current, updates, { userId, now });
+        const next = { ...current, ...patch } as unknown as BusinessEntity;
+        written.push(next);
+        changes.push({ id, changes: patch as Partial<BusinessEntity> });
+        queueItems.push({
+          entityId: id,
+          operation: 'upsert',
+          payload: buildEntityPayload(next),
+          ...(typeof current.updated_at === 'string' && {
+            baseUpdatedAt: current.updated_at,
+            baseSnapshot: buildEntityPayload(current),
+          }),
+        });
+        result.updated.push(id);
+        result.previous[id] = captureRevertPatch(current, updates);
+        history.push({
+          entityType,
+          entityId: id,
+          operation: 'update',
+          before: current,
+          after: patch,
+          fields: Object.keys(updates),
+        });
+      }
+      onProgress?.({ stage: 'prepare', done: index + 1, total });
+    });
+
+    onProgress?.({ stage: 'write', done: 0, total });
+    if (written.length > 0) {
+      await collection.bulkUpsert(written);
+      entityStore.updateMany(changes);
+    }
+
+    onProgress?.({ stage: 'queue', done: written.length, total });
+    const partitionKey = this.entitySchemas.get(entityType)?.partition?.keyField;
+    await syncQueueService.enqueueEntityBatch(
+      entityType,
+      queueItems,
+      getOnConflict(entityType, partitionKey),
+    );
+    await this.recordChanges(history);
+
+    onProgress?.({ stage: 'done', done: written.length, total });
+    console.log(`[SpaceStore] Updated ${written.length} ${entityType} records`);
+    return result;
+  }
+
+  /**
+   * `checkDependencies` for a selection, summed per dependent table. The
+   * probes run a few at a time; `onProgress` counts checked records.
+   */
+  async checkDependenciesBulk(
+    entityType: string,
+    ids: string[],
+    { onProgress }: BulkMutationOptions = {},
+  ): Promise<BulkDependencyReport> {
+    let done = 0;
+    const checks = await mapWithConcurrency(ids, BULK_DEPENDENCY_CONCURRENCY, async (id) => {
+      const { dependencies } = await this.checkDependencies(entityType, id);
+      onProgress?.({ stage: 'prepare', done: ++done, total: ids.length });
+      return { id, dependencies };
+    });
+    return aggregateDependencyChecks(checks);
+  }
+
+  /**
+   * Soft-delete many entities of one type: one `bulkRemove`, one sync queue
+   * batch of deletes. Undo with `restoreEntities`.
+   */
+  async bulkDelete(
+    entityType: string,
+    ids: string[],
+    { onProgress }: BulkMutationOptions = {},
+  ): Promise<BulkDeleteResult> {
+    const context = await this.getEntityCollectionContext<BusinessEntity>(entityType);
+    if (!context) {
+      throw new Error(`${entityType} collection is not available`);
+    }
+
+    const { entityStore, collection } = context;
+    const total = ids.length;
+    const docs = await collection.findByIds(ids).exec();
+    const userId = userStore.currentUserId.value;
+    const now = new Date().toISOString();
+
+    const queueItems: EntityBatchItem[] = [];
+    const result: BulkDeleteResult = { deleted: [], missing: [] };
+
+    ids.forEach((id, index) => {
+      const doc = docs.get(id);
+      if (!doc) {
+        result.missing.push(id);
+      } else {
+        // Payload is built BEFORE removing from RxDB — see delete()
+        const fullDoc = doc.toJSON() as Record<string, unknown>;
+        const payload = buildEntityPayload(fullDoc);
+        payload.deleted = true;
+        payload.updated_at = now;
+        if (userId) payload.updated_by = userId;
+        queueItems.push({
+          entityId: id,
+          operation: 'delete',
+          payload,
+          ...(typeof fullDoc.updated_at === 'string' && { baseUpdatedAt: fullDoc.updated_at }),
+        });
+        result.deleted.push(id);
+      }
+      onProgress?.({ stage: 'prepare', done: index + 1, total });
+    });
+
+    onProgress?.({ stage: 'write', done: 0, total });
+    if (result.deleted.length > 0) {
+      await collection.bulkRemove(result.deleted);
+      entityStore.removeMany(result.deleted);
+      for (const id of result.deleted) this.removeFromMappingCache(id);
+    }
+
+    onProgress?.({ stage: 'queue', done: result.deleted.length, total });
+    const partitionKey = this.entitySchemas.get(entityType)?.partition?.keyField;
+    await syncQueueService.enqueueEntityBatch(
+      entityType,
+      queueItems,
+      getOnConflict(entityType, partitionKey),
+    );
+    await this.recordChanges(
+      result.deleted.map((id) => ({ entityType, entityId: id, operation: 'delete' as const })),
+    );
+
+    onProgress?.({ stage: 'done', done: result.deleted.length, total });
+    console.log(`[SpaceStore] Deleted ${result.deleted.length} ${entityType} records`);
+    return result;
+  }
+
+  /**
+   * Undo a `bulkDelete`: like `restoreEntity` for each id, but re-cached
+   * with one `bulkUpsert` and queued as one batch. Returns the restored ids.
+   */
+  async restoreEntities(entityType: string, ids: string[]): Promise<string[]> {
+    const wanted = new Set(ids);
+    const items = new Map<string, TrashItem>();
+    for (const queued of await syncQueueService.getQueueItems()) {
+      if (queued.queue !== 'entity' || !wanted.has(queued.recordId)) continue;
+      const item = buildTrashItemFromQueue(queued);
+      if (item) items.set(item.recordId, item);
+    }
+
+    const pushed = ids.filter((id) => !items.has(id));
+    if (pushed.length > 0) {
+      const { data, error } = await supabase
+        .from(entityType)
+        .select('*')
+        .in('id', pushed)
+        .eq('deleted', true);
+      if (error) throw error;
+      for (const row of (data ?? []) as unknown as Record<string, unknown>[]) {
+        const item = buildTrashItemFromRow('entity', entityType, row);
+        if (item) items.set(item.recordId, item);
+      }
+    }
+    if (items.size === 0) return [];
+
+    const context = await this.getEntityCollectionContext<BusinessEntity>(entityType);
+    if (!context) {
+      throw new Error(`${entityType} collection is not available`);
+    }
+
+    const userId = userStore.currentUserId.value;
+    const restored = [...items.values()].map((item) => ({
+      item,
+      mapped: this.mapToRxDBFormat(buildRestoredRow(item.row, { userId }), entityType),
+    }));
+    const entities = restored.map(({ mapped }) => mapped as unknown as BusinessEntity);
+    await context.collection.bulkUpsert(entities);
+    context.entityStore.upsertMany(entities);
+
+    const partitionKey = this.entitySchemas.get(entityType)?.partition?.keyField;
+    await syncQueueService.enqueueEntityBatch(
+      entityType,
+      restored.map(({ item, mapped }) => ({
+        entityId: item.recordId,
+        operation: 'upsert' as const,
+        payload: { ...buildEntityPayload(mapped), deleted: false },
+        ...(typeof item.row.updated_at === 'string' && { baseUpdatedAt: item.row.updated_at }),
+      })),
+      getOnConflict(entityType, partitionKey),
+    );
+    console.log(`[SpaceStore] Restored ${items.size} ${entityType} records`);
+    return [...items.keys()];
+  }
+
+  /**
+   * Re-read one entity from Supabase into the local cache and its entity
+   * store — "Reload" after someone else saved a record this tab is editing.
+   * Edits of the record still waiting in the sync queue are folded in
+   * (three-way merge) instead of overwritten. Null when the record is gone.
+   */
+  async reloadEntity(entityType: string, id: string): Promise<BusinessEntity | null> {
+    const [record] = await this.fetchRecordsByPartitionRefs(entityType, [{ id }]);
+    if (!record) return null;
+
+    const row = record as unknown as Record<string, unknown>;
+    const merged = (await syncQueueService.rebaseOnServerRows(entityType, [row])).get(id);
+    const fresh = (merged ? { ...merged, updated_at: row.updated_at } : row) as unknown as BusinessEntity;
+    await this.cacheOfflineEntities(entityType, [fresh]);
+    const entityStore = await this.getEntityStore(entityType);
+    entityStore?.upsertOne(
+      this.mapToRxDBFormat(fresh as unknown as Record<string, unknown>, entityType) as unknown as BusinessEntity,
+    );
+    return fresh;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Change history
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Queue history entries for local mutations. Never fails the mutation —
+   * a lost history entry is logged, the edit itself is already saved.
+   */
+  private async recordChanges(inputs: ChangeInput[]): Promise<void> {
+    const userId = userStore.currentUserId.value;
+    const now = new Date().toISOString();
+    for (const input of inputs) {
+      const entry = buildChangeHistoryEntry(input, { userId, now });
+      if (!entry) continue;
+      try {
+        await syncQueueService.enqueueHistory(
+          input.entityType,
+          entry as unknown as Record<string, unknown> & { id: string },
+        );
+      } catch (error) {
+        console.warn(`[SpaceStore] Failed to record change history for ${input.entityType}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Change history of an entity and its child records, newest first:
+   * Supabase rows merged with entries still in the sync queue. Offline it
+   * falls back to the queued entries.
+   */
+  async getChangeHistory(entityType: string, entityId: string): Promise<ChangeHistoryEntry[]> {
+    const pending = (await syncQueueService.getPendingHistory(entityId)) as unknown as ChangeHistoryEntry[];
+
+    const { data, error } = await supabase
+      .from(CHANGE_HISTORY_TABLE)
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('changed_at', { ascending: false })
+      .limit(CHANGE_HISTORY_LIMIT);
+    if (error) {
+      console.warn(`[SpaceStore] Failed to load change history for ${entityType} ${entityId}:`, error.message);
+    }
+
+    return mergeChangeHistory((data ?? []) as unknown as ChangeHistoryEntry[], pending);
+  }
+
+  /**
+   * Undo one history entry — or one field of an update. The revert is a
+   * regular mutation, so it shows up in the history itself.
+   */
+  async revertChange(entry: ChangeHistoryEntry, field?: string): Promise<void> {
+    if (!canRevertChange(entry)) {
+      throw new Error('This change can not be reverted');
+    }
+    const { entity_type: entityType, table_type: tableType, record_id: recordId } = entry;
+
+    if (entry.operation === 'update') {
+      const updates = buildRevertUpdates(entry, field);
+      if (tableType) {
+        await this.updateChildRecord(entityType, tableType, recordId, updates);
+      } else {
+        await this.update(entityType, recordId, updates);
+      }
+    } else if (entry.operation === 'create') {
+      if (tableType) {
+        await this.deleteChildRecord(entityType, tableType, recordId);
+      } else {
+        await this.delete(entityType, recordId);
+      }
+    } else {
+      await this.restoreEntity(entityType, recordId);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Offline pins ("Make available offline")
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /** Pinned kennels, breeds and pet sets with download progress and size */
+  offlinePins = signal<OfflinePin[]>([]);
+  private offlinePinRuns = new Map<string, Promise<OfflinePin>>();
+
+  private loadOfflinePins(options: { startup?: boolean } = {}): void {
+    if (typeof localStorage === 'undefined') return;
+    const pins = readOfflinePins(localStorage);
+    this.offlinePins.value = options.startup ? markInterruptedOfflinePins(pins) : pins;
+  }
+
+  private saveOfflinePins(pins: OfflinePin[]): void {
+    this.offlinePins.value = pins;
+    if (typeof localStorage !== 'undefined') {
+      writeOfflinePins(localStorage, pins);
+    }
+  }
+
+  private setOfflinePin(pin: OfflinePin): void {
+    const pins = this.offlinePins.value;
+    const index = pins.findIndex((existing) => existing.id === pin.id);
+    this.saveOfflinePins(
+      index === -1 ? [...pins, pin] : pins.map((existing, i) => (i === index ? pin : existing)),
+    );
+  }
+
+  /** Pinned ids across all pins — exempt from child LRU eviction and TTL cleanup. */
+  getOfflinePinnedIds(): OfflinePinnedIds {
+    return collectOfflinePinnedIds(this.offlinePins.value);
+  }
+
+  /**
+   * Pin a kennel (account), breed or hand-picked pets for offline use and
+   * download them: the entities, their child tables and pedigree ancestors
+   * up to `generations`. Pinning the same target again re-downloads it.
+   */
+  async pinForOffline(
+    target: OfflinePinTarget,
+    options: OfflinePinOptions = {},
+  ): Promise<OfflinePin> {
+    const existing = this.offlinePins.value.find((pin) => pin.id === getOfflinePinId(target));
+    const pin = createOfflinePin(target, {
+      generations: options.generations ?? existing?.generations,
+      childTables: options.childTables ?? existing?.childTables,
+      now: existing?.createdAt,
+    });
+    return this.downloadOfflinePin(pin, existing);
+  }
+
+  /** Remove a pin; its records fall back to regular LRU/TTL eviction. */
+  unpinOffline(pinId: string): void {
+    this.saveOfflinePins(this.offlinePins.value.filter((pin) => pin.id !== pinId));
+  }
+
+  /** Re-download one pin with its stored target and options. */
+  async refreshOfflinePin(pinId: string): Promise<OfflinePin | null> {
+    const pin = this.offlinePins.value.find((existing) => existing.id === pinId);
+    return pin ? this.downloadOfflinePin(pin, pin) : null;
+  }
+
+  /**
+   * Re-download every pin. Runs on reconnect in the leader tab; pins are
+   * refreshed one after another to keep the request fan-out small.
+   */
+  async refreshOfflinePins(): Promise<void> {
+    for (const pin of this.offlinePins.value) {
+      if (isOffline()) return;
+      await this.downloadOfflinePin(pin, pin);
+    }
+  }
+
+  private downloadOfflinePin(pin: OfflinePin, previous?: OfflinePin): Promise<OfflinePin> {
+    const inflight = this.offlinePinRuns.get(pin.id);
+    if (inflight) return inflight;
+
+    const run = this.runOfflinePinDownload(pin, previous).finally(() => {
+      this.offlinePinRuns.delete(pin.id);
+    });
+    this.offlinePinRuns.set(pin.id, run);
+    return run;
+  }
+
+  private async runOfflinePinDownload(
+    pin: OfflinePin,
+    previous?: OfflinePin,
+  ): Promise<OfflinePin> {
+    const rootType = pin.kind === 'pets' ? null : pin.kind;
+    const rootTables = rootType ? pin.childTables[rootType] ?? [] : [];
+    const petTables = pin.childTables.pet ?? [];
+    const total = (rootType ? 1 + rootTables.length : 0) + 2 + petTables.length;
+
+    // Ids of this run; the pin keeps the previous ids until it completes so
+    // the records stay protected while they are re-downloaded.
+    const collected: Pick<OfflinePin, 'entityIds' | 'parentIds'> = { entityIds: {}, parentIds: {} };
+    let current: OfflinePin = {
+      ...pin,
+      status: 'downloading',
+      error: undefined,
+      bytes: 0,
+      recordCount: 0,
+      entityIds: previous?.entityIds ?? {},
+      parentIds: previous?.parentIds ?? {},
+    };
+    let done = 0;
+
+    const update = (step: string, patch: Partial<OfflinePin> = {}) => {
+      current = { ...current, ...patch, progress: { done, total, step } };
+      this.setOfflinePin(current);
+    };
+    const track = (
+      kind: 'entityIds' | 'parentIds',
+      entityType: string,
+      ids: string[],
+      records: readonly unknown[],
+    ) => {
+      collected[kind] = addPinnedIds(collected[kind], entityType, ids);
+      current = {
+        ...current,
+        [kind]: addPinnedIds(current[kind], entityType, ids),
+        bytes: current.bytes + estimateRecordBytes(records),
+        recordCount: current.recordCount + records.length,
+      };
+      done += 1;
+    };
+
+    try {
+      if (rootType) {
+        update(rootType);
+        const roots = await this.fetchOfflineEntities(
+          rootType,
+          pin.targetIds.map((id) => ({ id })),
+        );
+        track('entityIds', rootType, roots.map((root) => root.id), roots);
+
+        for (const tableType of rootTables) {
+          update(tableType);
+          const rows = await this.downloadOfflineChildTable(rootType, tableType, roots);
+          track('parentIds', rootType, roots.map((root) => root.id), rows);
+        }
+      }
+
+      update('pet');
+      const { pets, truncated } = await this.fetchOfflinePinPets(pin);
+      track('entityIds', 'pet', pets.map((pet) => pet.id), pets);
+
+      update('pedigree', { truncated });
+      const petIds = new Set(pets.map((pet) => pet.id));
+      const ancestorRefs = pets
+        .flatMap((pet) => getPedigreeRefsUpToGeneration(pet.pedigree, pin.generations))
+        .filter((ref) => !petIds.has(ref.id));
+      const ancestors = await this.fetchOfflineEntities('pet', ancestorRefs, 'breed_id');
+      track('entityIds', 'pet', ancestors.map((ancestor) => ancestor.id), ancestors);
+
+      for (const tableType of petTables) {
+        update(tableType);
+        const rows = await this.downloadOfflineChildTable('pet', tableType, pets);
+        track('parentIds', 'pet', [...petIds], rows);
+      }
+
+      update('', {
+        ...collected,
+        status: 'ready',
+        downloadedAt: new Date().toISOString(),
+      });
+      console.log(
+        `[SpaceStore] Offline pin ${pin.id}: ${current.recordCount} records, ~${current.bytes} bytes`,
+      );
+      void storageManagerService.refreshEstimate();
+    } catch (error) {
+      console.error(`[SpaceStore] Offline pin ${pin.id} download failed:`, error);
+      update(current.progress.step, {
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return current;
+  }
+
+  /** Fetch entities by id from Supabase (never from cache) and cache them. */
+  private async fetchOfflineEntities(
+    entityType: string,
+    refs: PartitionedEntityRef[],
+    partitionField?: string,
+  ): Promise<BusinessEntity[]> {
+    const normalizedRefs = normalizePartitionedEntityRefs(refs);
+    if (normalizedRefs.length === 0) return [];
+    if (this.db && !this.db.collections[entityType]) {
+      await this.ensureCollection(entityType);
+    }
+
+    const records: BusinessEntity[] = [];
+    for (let i = 0; i < normalizedRefs.length; i += OFFLINE_PIN_FETCH_CHUNK) {
+      records.push(
+        ...(await this.fetchRecordsByPartitionRefs(
+          entityType,
+          normalizedRefs.slice(i, i + OFFLINE_PIN_FETCH_CHUNK),
+          partitionField,
+        )),
+      );
+    }
+    return this.cacheOfflineEntities(entityType, records);
+  }
+
+  private async cacheOfflineEntities(
+    entityType: string,
+    records: BusinessEntity[],
+  ): Promise<BusinessEntity[]> {
+    const collection = this.db?.collections[entityType];
+    if (collection && records.length > 0) {
+      await collection.bulkUpsert(
+        records.map((record) =>
+          this.mapToRxDBFormat(record as unknown as Record<string, unknown>, entityType),
+        ) as unknown as BusinessEntity[],
+      );
+    }
+    return records;
+  }
+
+  /** Pets of a pin: the hand-picked ids, or the kennel's/breed's pets up to the limit. */
+  private async fetchOfflinePinPets(
+    pin: OfflinePin,
+  ): Promise<{ pets: BusinessEntity[]; truncated: boolean }> {
+    if (pin.kind === 'pets') {
+      const pets = await this.fetchOfflineEntities(
+        'pet',
+        pin.targetIds.map((id) => ({ id })),
+      );
+      return { pets, truncated: false };
+    }
+
+    if (this.db && !this.db.collections.pet) {
+      await this.ensureCollection('pet');
+    }
+    const { data, error } = await supabase
+      .from(getSupabaseSource('pet'))
+      .select(buildSupabaseSelectFromRxDBSchema(this.db?.collections.pet?.schema?.jsonSchema))
+      .in(pin.kind === 'account' ? 'kennel_id' : 'breed_id', pin.targetIds)
+      .or('deleted.is.null,deleted.eq.false')
+      .limit(OFFLINE_PIN_PET_LIMIT + 1);
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as BusinessEntity[];
+    const pets = await this.cacheOfflineEntities('pet', rows.slice(0, OFFLINE_PIN_PET_LIMIT));
+    return { pets, truncated: rows.length > OFFLINE_PIN_PET_LIMIT };
+  }
+
+  /**
+   * Download one child table for many parents (one `IN` query per
+   * partition and chunk) and cache the rows per parent.
+   */
+  private async downloadOfflineChildTable(
+    entityType: string,
+    tableType: string,
+    parents: BusinessEntity[],
+  ): Promise<ChildCacheRecord[]> {
+    const collection = await this.ensureChildCollection(entityType);
+    if (!collection || parents.length === 0) return [];
+
+    const normalizedType = normalizeChildTableType(tableType);
+    const parentIdField = `${entityType}_id`;
+    const partitionConfig = this.entitySchemas.get(entityType)?.partition;
+    const partitionField = partitionConfig?.childFilterField;
+    const partitionByParent = new Map<string, string | undefined>(
+      parents.map((parent) => [
+        parent.id,
+        partitionConfig
+          ? ((parent as unknown as Record<string, unknown>)[partitionConfig.keyField] as
+              | string
+              | undefined)
+          : undefined,
+      ]),
+    );
+
+    const records: ChildCacheRecord[] = [];
+    const groups = groupParentsByPartition(
+      parents.map((parent) => parent.id),
+      partitionByParent,
+    );
+    for (const [partitionValue, ids] of groups) {
+      for (let i = 0; i < ids.length; i += OFFLINE_PIN_FETCH_CHUNK) {
+        const chunk = ids.slice(i, i + OFFLINE_PIN_FETCH_CHUNK);
+        let query = supabase
+          .from(normalizedType)
+          .select('*')
+          .in(parentIdField, chunk)
+          .or('deleted.is.null,deleted.eq.false');
+        if (partitionField && partitionValue) {
+          query = query.eq(partitionField, partitionValue);
+        }
+        const { data, error } = await query;
+        if (error) throw error;
+        const rows = (data ?? []) as unknown as ChildSourceRow[];
+
+        for (const parentId of chunk) {
+          const parentRows = rows.filter(
+            (row) => (row as Record<string, unknown>)[parentIdField] === parentId,
+          );
+          if (parentRows.length === 0) continue;
+          const { transformedRecords } = await mapAndCacheChildRows(parentRows, {
+            tableType: normalizedType,
+            parentId,
+            parentField: parentIdField,
+            partitionField,
+            partitionValue,
+            collection,
+          });
+          records.push(...(transformedRecords as ChildCacheRecord[]));
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Get all entities of a type
+   */
+  async getAll<T extends BusinessEntity>(entityType: string): Promise<T[]> {
+    const entityStore = await this.getEntityStore<T>(entityType);
+    
+    if (!entityStore) {
+      return [];
+    }
+    
+    return entityStore.entityList.value;
+  }
+  
+  /**
+   * Get entity by ID
+   */
+  async getById<T extends BusinessEntity>(entityType: string, id: string): Promise<T | undefined> {
+    const entityStore = await this.getEntityStore<T>(entityType);
+    
+    if (!entityStore) {
+      return undefined;
+    }
+    
+    return entityStore.selectById(id);
+  }
+  
+  /**
+   * Find entities by predicate
+   */
+  async find<T extends BusinessEntity>(
+    entityType: string, 
+    predicate: (entity: T) => boolean
+  ): Promise<T[]> {
+    const entityStore = await this.getEntityStore<T>(entityType);
+    
+    if (!entityStore) {
+      return [];
+    }
+    
+    return entityStore.selectWhere(predicate);
+  }
+
+  private async getEntityCollectionContext<T extends BusinessEntity>(
+    entityType: string,
+  ): Promise<{
+    entityStore: EntityStore<T>;
+    collection: StoreCollection<T>;
+  } | null> {
+    const entityStore = await this.getEntityStore<T>(entityType);
+
+    if (!entityStore) {
+      console.error(`[SpaceStore] Entity store for ${entityType} not available`);
+      return null;
+    }
+
+    const collection = (entityStore as EntityStoreWithCollection<T>).collection;
+
+    if (!collection) {
+      console.error(`[SpaceStore] Collection for ${entityType} not available`);
+      return null;
+    }
+
+    return { entityStore, collection };
+  }
+  
+  /**
+   * Apply filters to entity data
+   * Universal filtering method used by both SpaceView and LookupInput
+   *
+   * @param entityType - Entity type (e.g., 'breed', 'pet', 'account')
+   * @param filters - Filter values as key-value pairs (e.g., { name: 'golden', pet_type_id: 'uuid' })
+   * @param options - Optional configuration (limit, offset, fieldConfigs)
+   * @returns Promise with { records, total, hasMore }
+   *
+   * Strategy:
+   * 1. Try RxDB local search first (fast)
+   * 2. If not enough results, fetch from Supabase (with filters)
+   * 3. Cache results in RxDB
+   * 4. Return standardized format
+   */
+  async applyFilters(
+    entityType: string,
+    filters: FilterMap,
+    options?: {
+      /**
+       * Active space id (e.g. "space_1778747003891"). Required so the right
+       * config (defaultFilters, filter_fields, totalFilterKey, isPublic) is
+       * picked when multiple spaces share an entitySchemaName — public /pets
+       * vs private /my/pets vs marketplace /pets all target `pet`. Falls back
+       * to the first matching space for the entityType when omitted, with a
+       * warning, to keep old call sites alive during the migration.
+       */
+      spaceId?: string;
+      /**
+       * Active quick-filter scope (e.g. "owned"). Folds into the totalCount
+       * cache key so each chip (Owned/Bred/All) tracks its own count.
+       */
+      activeScope?: string | null;
+      limit?: number;
+      cursor?: string | null;  // ✅ Cursor for IDs query (keyset pagination)
+      orderBy?: OrderBy;  // ✅ Use OrderBy interface with tieBreaker support
+      fieldConfigs?: FilterFieldConfigMap;
+      /**
+       * Mapping-table source override. When provided, IDs come from
+       * `readFrom.table WHERE readFrom.parentField = readFrom.parentId`
+       * instead of the entity table — used by user-scoped spaces (My Pets)
+       * to keep pet partition pruning intact. Heavy filters still apply on
+       * top through `applyFiltersViaReadFrom`.
+       */
+      readFrom?: ResolvedReadFromConfig;
+    }
+  ): Promise<HydrateFilteredEntitiesResult<BusinessEntity>> {
+    const limit = options?.limit || 30;
+    const cursor = options?.cursor ?? null;
+    const orderBy: OrderBy = options?.orderBy || {
+      field: 'name',
+      direction: 'asc' as const,
+      tieBreaker: {
+        field: 'id',
+        direction: 'asc' as const
+      }
+    };
+
+    // Resolve config strictly by spaceId when caller passes it (one space's
+    // settings can differ wildly from another's on the same entity — public
+    // /pets vs private /my/pets). Without spaceId fall back to first match +
+    // warn — bridge for un-migrated call sites.
+    const spaceConfig = options?.spaceId
+      ? this.resolveSpaceConfig(options.spaceId)
+      : (() => {
+          const first = this.getSpacesForEntityType(entityType)[0];
+          if (first) {
+            console.warn(
+              `[SpaceStore] applyFilters called without spaceId for "${entityType}". ` +
+                `Falling back to first matching space "${first.id}". Caller should pass options.spaceId.`,
+            );
+          }
+          return first;
+        })();
+    const defaultFilters = spaceConfig?.defaultFilters || {};
+    const baseFieldConfigs = options?.fieldConfigs || spaceConfig?.filter_fields || {};
+
+    // Remember the last user-facing filter map so a CRUD-triggered refresh
+    // can refetch the count under the same scope (Stage 4 reactivity).
+    this.lastAppliedFilters.set(entityType, filters);
+    const preparedFilters = prepareFiltersWithDefaults(
+      filters,
+      defaultFilters,
+      baseFieldConfigs,
+    );
+    filters = preparedFilters.filters;
+    const fieldConfigs = preparedFilters.fieldConfigs;
+
+    // readFrom branch — user-scoped space (e.g. My Pets) sources IDs from a
+    // mapping table instead of the entity table. Required-filter gate is
+    // skipped (scope IS the required filter), and the heavy `filters` apply
+    // in-memory on the small per-user scope.
+    if (options?.readFrom) {
+      return applyFiltersViaReadFrom({
+        entityType,
+        readFrom: options.readFrom,
+        filters,
+        fieldConfigs,
+        orderBy,
+        limit,
+        cursor,
+        loadAllForScope: (et, rf) =>
+          this.loadEntitiesViaMapping(
+            et,
+            rf.table,
+            rf.parentField,
+            rf.parentId,
+            rf.entityIdField,
+            rf.entityPartitionField,
+          ),
+      });
+    }
+
+    // Required-filter gate: skip Supabase + offline fallback when any required
+    // filter slot is empty. The space UI renders an empty/picker state from
+    // entityStore.requiredFiltersMissing.
+    const missingRequired = findMissingRequiredFilters(filters, fieldConfigs);
+    const gatedEntityStore = this.entityStores.get(entityType);
+    if (missingRequired.length > 0) {
       if (gatedEntityStore) {
         gatedEntityStore.requiredFiltersMissing.value = missingRequired;
         gatedEntityStore.loading.value = false;
@@ -1186,6 +2376,7 @@ class SpaceStore {
           limit,
           cursor,
           orderBy,
+          rankSearch: this.getLocalRankSearch(entityType),
           logMissingCollection: !!this.db,
         }),
       buildCountSelector: buildRxdbCountSelector,
@@ -1264,7 +2455,22 @@ class SpaceStore {
         });
       }
 
-      if (!idsData || idsData.length === 0) {
+      // Search: cached rows the local index ranks highest (transliterated,
+      // misspelt, kennel / identifier matches) lead the first page; the
+      // server's ilike pages fill in and skip them on every page.
+      const rankedLocal = await this.findRankedSearchMatches(
+        entityType,
+        filters,
+        fieldConfigs,
+        Math.floor(limit * RANKED_SEARCH_PAGE_SHARE),
+      );
+      const serverIdsData = idsData ?? [];
+      const rankedPage = rankedLocal.length > 0
+        ? mergeRankedSearchIds(rankedLocal, serverIdsData, { limit, firstPage: cursor === null })
+        : null;
+      const pageIdsData = rankedPage?.ids ?? serverIdsData;
+
+      if (pageIdsData.length === 0) {
         console.log('[SpaceStore] ⚠️ No IDs returned from Supabase');
         const entityStore = this.entityStores.get(entityType);
         return {
@@ -1275,11 +2481,13 @@ class SpaceStore {
         };
       }
 
-      console.log(`[SpaceStore] ✅ Got ${idsData.length} IDs from Supabase`);
+      console.log(`[SpaceStore] ✅ Got ${serverIdsData.length} IDs from Supabase`);
 
-      // Extract IDs and calculate nextCursor
-      const ids = idsData.map(d => d.id);
-      const lastRecord = idsData[idsData.length - 1];
+      // Extract IDs and calculate nextCursor (keyset continues the server page)
+      const ids = pageIdsData.map(d => d.id);
+      const lastRecord = rankedPage
+        ? rankedPage.lastServerRecord
+        : serverIdsData[serverIdsData.length - 1];
       const nextCursor = buildCompositeNextCursor({ lastRecord, orderBy });
 
       // 💾 PHASE 2: Check RxDB cache for these IDs
@@ -1303,15 +2511,18 @@ class SpaceStore {
           nextCursor: null
         };
       }
-      const hydrated = await hydrateFilteredEntities({
+      const hydratedPage = await hydrateFilteredEntities({
         ids,
-        idsData: idsData as Array<{ id: string; updated_at?: string }>,
+        idsData: pageIdsData as Array<{ id: string; updated_at?: string }>,
         limit,
         nextCursor,
         collection,
         fetchRecords: (idsToFetch) => this.fetchRecordsByIDs(entityType, idsToFetch),
         mapRecordForCache: (record) => this.mapToRxDBFormat(record, entityType),
       });
+      const hydrated = rankedPage
+        ? { ...hydratedPage, hasMore: serverIdsData.length >= limit || rankedPage.hasMoreServerIds }
+        : hydratedPage;
 
       // hydrateFilteredEntities sets total to the rendered page length
       // (orderedRecords.length). For the counter we want the *server* total
@@ -1333,17 +2544,213 @@ class SpaceStore {
       }
       return hydrated;
 
-    } catch (error) {
-      // 📴 OFFLINE FALLBACK: Use RxDB cache with proper filtering
-      if (!isNetworkError(error)) {
-        console.error('[SpaceStore] applyFilters error:', error);
+    } catch (error) {
+      // 📴 OFFLINE FALLBACK: Use RxDB cache with proper filtering
+      if (!isNetworkError(error)) {
+        console.error('[SpaceStore] applyFilters error:', error);
+      }
+      return await executeOfflineFilterFlow({
+        ...offlineFlowBase,
+        logPrefix: 'Offline mode',
+        catchLogPrefix: 'Offline fallback also failed:',
+        countSelectorExtraOptions: { preferStringSearchOperator: true },
+      }) as unknown as HydrateFilteredEntitiesResult<BusinessEntity>;
+    }
+  }
+
+  /**
+   * A few matches of one entity type by name, for global search (command
+   * palette). Cached rows ranked by the local search index come first;
+   * Supabase `ilike` fills up with rows not cached here unless `remote` is
+   * false or the device is offline. Never throws — a failed lookup just
+   * contributes nothing.
+   */
+  async quickSearch(
+    entityType: string,
+    query: string,
+    options: { limit?: number; remote?: boolean } = {},
+  ): Promise<QuickSearchResult[]> {
+    const limit = options.limit ?? QUICK_SEARCH_DEFAULT_LIMIT;
+    const pattern = buildQuickSearchPattern(query);
+    if (!pattern) {
+      return [];
+    }
+
+    let local: QuickSearchResult[] = [];
+    const rankSearch = this.getLocalRankSearch(entityType);
+    const collection = this.db?.collections[entityType];
+    if (rankSearch && collection) {
+      try {
+        const rankedIds = await rankSearch(query);
+        const records = rankedIds
+          ? await findRankedLocalEntities({
+              collection,
+              entityType,
+              rankedIds,
+              filters: {},
+              fieldConfigs: {},
+              skipKeys: [],
+              limit,
+            })
+          : [];
+        local = records
+          .map((record) => toQuickSearchResult(entityType, record, 'local'))
+          .filter((result): result is QuickSearchResult => result !== null);
+      } catch (error) {
+        console.warn(`[SpaceStore] Quick search index lookup failed for ${entityType}:`, error);
+      }
+    }
+
+    if (local.length >= limit || options.remote === false || isOffline()) {
+      return local;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from(getSupabaseSource(entityType))
+        .select(buildQuickSearchColumns(entityType))
+        .ilike('name', pattern)
+        .or('deleted.is.null,deleted.eq.false')
+        .order('name', { ascending: true })
+        .limit(limit);
+      if (error) {
+        throw error;
+      }
+
+      const remote = ((data || []) as unknown as Record<string, unknown>[])
+        .map((record) => toQuickSearchResult(entityType, record, 'remote'))
+        .filter((result): result is QuickSearchResult => result !== null);
+      return mergeQuickSearchResults(local, remote, limit);
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        console.error(`[SpaceStore] Quick search failed for ${entityType}:`, error);
+      }
+      return local;
+    }
+  }
+
+  /**
+   * Facet counts of one filter field: rows per option value under the
+   * other active filters and the space's default filters. Counted from
+   * cached rows when the collection holds the whole table, otherwise by
+   * the grouped count RPC. Null when neither works (offline with a partial
+   * cache, RPC error) — callers just show no counts.
+   */
+  async getFacetCounts(
+    entityType: string,
+    field: string,
+    filters: FilterMap,
+    options: { spaceId?: string; fieldConfigs?: FilterFieldConfigMap } = {},
+  ): Promise<FacetCountResult | null> {
+    const spaceConfig = options.spaceId
+      ? this.resolveSpaceConfig(options.spaceId)
+      : this.getSpacesForEntityType(entityType)[0];
+    const prepared = prepareFiltersWithDefaults(
+      getFacetFilters(filters, field),
+      spaceConfig?.defaultFilters || {},
+      options.fieldConfigs || spaceConfig?.filter_fields || {},
+    );
+
+    try {
+      const collection = this.db?.collections[entityType];
+      if (collection) {
+        const localCount = await collection.count({ selector: { _deleted: false } }).exec();
+        const serverTotal = entityReplicationService.getTotalCount(entityType);
+        if (isFacetCacheComplete(localCount, serverTotal)) {
+          const selector = buildRxdbCountSelector(prepared.filters, prepared.fieldConfigs, {
+            entityType,
+          });
+          const docs = await collection.find({ selector }).exec();
+          return {
+            field,
+            counts: countFacetValues(
+              docs.map((doc) => doc.toJSON() as Record<string, unknown>),
+              field,
+            ),
+            source: 'local',
+          };
+        }
+      }
+
+      if (isOffline()) {
+        return null;
+      }
+
+      const { data, error } = await this.callRpc(
+        FACET_COUNT_RPC,
+        buildFacetCountRpcArgs({
+          entityType,
+          field,
+          filters: prepared.filters,
+          fieldConfigs: prepared.fieldConfigs,
+        }) as unknown as Record<string, unknown>,
+        // Short-lived: the dialog asks again on every value change
+        { cacheTtlMs: RPC_CACHE_DEFAULT_TTL_MS },
+      );
+      if (error) {
+        throw error;
+      }
+      return { field, counts: parseFacetCountRows(data), source: 'remote' };
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        console.error(`[SpaceStore] Facet counts failed for ${entityType}.${field}:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Local search-index lookup for `entityType`; undefined when the entity
+   * type has no index. Candidates are capped — other filters narrow them.
+   */
+  private getLocalRankSearch(entityType: string): LocalRankSearch | undefined {
+    if (!this.db || !searchIndexService.isIndexed(entityType)) {
+      return undefined;
+    }
+    const collections = this.db.collections as unknown as SearchIndexCollections;
+    return async (query) => {
+      const hits = await searchIndexService.search(collections, entityType, query, {
+        limit: SEARCH_INDEX_CANDIDATE_LIMIT,
+      });
+      return hits ? hits.map((hit) => hit.id) : null;
+    };
+  }
+
+  /**
+   * Cached rows matching the active search through the local index, best
+   * first, restricted by the other active filters. Empty when there is no
+   * search, no index, or the index fails — the server search still runs.
+   */
+  private async findRankedSearchMatches(
+    entityType: string,
+    filters: FilterMap,
+    fieldConfigs: FilterFieldConfigMap,
+    limit: number,
+  ): Promise<LocalEntityRecord[]> {
+    const plan = buildHybridSearchPlan(filters, fieldConfigs, limit);
+    const rankSearch = this.getLocalRankSearch(entityType);
+    const collection = this.db?.collections[entityType];
+    if (!plan || !rankSearch || !collection) {
+      return [];
+    }
+
+    try {
+      const rankedIds = await rankSearch(String(plan.searchValue));
+      if (!rankedIds) {
+        return [];
       }
-      return await executeOfflineFilterFlow({
-        ...offlineFlowBase,
-        logPrefix: 'Offline mode',
-        catchLogPrefix: 'Offline fallback also failed:',
-        countSelectorExtraOptions: { preferStringSearchOperator: true },
-      }) as unknown as HydrateFilteredEntitiesResult<BusinessEntity>;
+      return await findRankedLocalEntities({
+        collection,
+        entityType,
+        rankedIds,
+        filters: plan.otherFilters,
+        fieldConfigs,
+        skipKeys: [],
+        limit,
+      });
+    } catch (error) {
+      console.warn('[SpaceStore] Local search index lookup failed:', error);
+      return [];
     }
   }
 
@@ -1516,6 +2923,122 @@ class SpaceStore {
     ) as Record<string, unknown>;
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Diagnostics (sync & cache devtools panel)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /** Replication, totals, circuit breakers and child LRU groups of one entity. */
+  async getEntityDiagnostics(entityType: string): Promise<EntityDiagnostics> {
+    const collection = this.db?.collections[entityType];
+    const cachedCount = collection ? await collection.count().exec() : 0;
+    const children = await this.getChildCollectionDiagnostics(entityType);
+
+    return {
+      entityType,
+      replication: entityReplicationService.getDiagnostics(entityType),
+      cachedCount,
+      serverTotalCache: inspectServerTotalCache(entityType, (key) => {
+        try {
+          return localStorage.getItem(key);
+        } catch {
+          return null;
+        }
+      }),
+      circuitBreakers: filterEntityCircuitBreakers(
+        syncQueueService.getCircuitBreakers(),
+        entityType,
+        children?.groups.map((group) => group.tableType) ?? [],
+      ),
+      children,
+    };
+  }
+
+  private async getChildCollectionDiagnostics(
+    entityType: string,
+  ): Promise<ChildCollectionDiagnostics | null> {
+    const collection = getExistingChildCollection(entityType, {
+      childCollections: this.childCollections,
+      dbCollections: this.db?.collections,
+    });
+    if (!collection) return null;
+
+    const records = (await collection.find().exec()).map(
+      (doc) => doc.toJSON() as ChildCacheRecord,
+    );
+    return {
+      name: `${entityType}_children`,
+      records: records.length,
+      groups: buildChildLruGroups(
+        records,
+        (parentId, tableType) => this.childLru.getGroupAccess(entityType, parentId, tableType),
+        this.getOfflinePinnedIds().parentIds.get(entityType),
+      ),
+    };
+  }
+
+  /** Pull every row of an entity from Supabase into its collection. */
+  async forceFullSync(entityType: string): Promise<boolean> {
+    if (!this.db) return false;
+    return entityReplicationService.forceFullSync(this.db as unknown as RxDatabase, entityType);
+  }
+
+  /**
+   * Remove every cached record of one collection; records pinned for offline
+   * use are kept. Sync queues hold unsynced edits and are never cleared, and
+   * a replicated collection would push the removals as deletes.
+   */
+  async clearCollection(name: string): Promise<number> {
+    if (getStorageCollectionKind(name) === 'queue') {
+      throw new Error('Sync queues hold unsynced edits and cannot be cleared');
+    }
+    if (entityReplicationService.isReplicationActive(name)) {
+      throw new Error(`Stop replication of ${name} before clearing it`);
+    }
+    const collection = this.childCollections.get(name) ?? this.db?.collections[name];
+    if (!collection) return 0;
+
+    const isExempt = this.getCleanupExemption(name);
+    const docs = await collection.find().exec();
+    const ids = docs
+      .filter((doc) => !isExempt?.(doc.toJSON() as Record<string, unknown>))
+      .map((doc) => doc.primary);
+    if (ids.length > 0) {
+      await collection.bulkRemove(ids);
+    }
+    void storageManagerService.refreshEstimate();
+    return ids.length;
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Database snapshot (export / import)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /** Serialize local collections (incl. sync queues) into a snapshot file. */
+  async exportSnapshot(options: SnapshotExportOptions = {}): Promise<SnapshotExport> {
+    if (!this.db) throw new Error('Database is not ready');
+    return databaseSnapshotService.exportSnapshot(this.db, options);
+  }
+
+  /**
+   * Import a snapshot file. Child collections are opened on demand; queued
+   * mutations in the file are re-enqueued.
+   */
+  async importSnapshot(
+    data: Blob,
+    options: { mode?: SnapshotImportMode; collections?: string[] } = {},
+  ): Promise<SnapshotImportReport> {
+    if (!this.db) throw new Error('Database is not ready');
+    const report = await databaseSnapshotService.importSnapshot(this.db, data, {
+      ...options,
+      resolveCollection: async (name) =>
+        getStorageCollectionKind(name) === 'child'
+          ? this.ensureChildCollection(name.replace(/_children$/, ''))
+          : undefined,
+    });
+    void storageManagerService.refreshEstimate();
+    return report;
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Entity Selection (proxy to EntityStore)
   // ─────────────────────────────────────────────────────────────────────────────
@@ -1978,7 +3501,12 @@ class SpaceStore {
       this.childLru.touch(entityType, parentId, tableType);
       this.scheduleChildLruEviction(entityType);
       // Staleness check: if oldest record cached > CHILD_RECORDS_STALE_MS, refetch in background.
-      if (hasStaleChildRecords(existingRecords, CHILD_RECORDS_STALE_MS)) {
+      // Groups with a delta checkpoint are as fresh as their last pull
+      const checkpoint = await findDocumentDataById(
+        collection,
+        getChildCheckpointId(tableType, parentId),
+      );
+      if (hasStaleChildRecords(checkpoint ? [checkpoint] : existingRecords, CHILD_RECORDS_STALE_MS)) {
         // Return stale data immediately, refresh in background
         this.cacheStats.childRecords.staleRevalidate += 1;
         this.refreshChildRecordsInBackground(entityType, tableType, parentId, parentIdField, options, partitionConfig, partitionValue);
@@ -1989,7 +3517,7 @@ class SpaceStore {
     this.childLru.touch(entityType, parentId, tableType);
     this.scheduleChildLruEviction(entityType);
 
-    return fetchAndCacheChildRecords({
+    const records = await fetchAndCacheChildRecords({
       tableType,
       parentId,
       parentIdField,
@@ -2021,6 +3549,10 @@ class SpaceStore {
         };
       },
     });
+    if (canPullChildDelta(tableType, options.linkedFilters)) {
+      await this.saveChildCheckpoint(collection, tableType, parentId, records, partitionValue);
+    }
+    return records;
     } finally {
       releaseLruRead();
     }
@@ -2425,6 +3957,7 @@ class SpaceStore {
           getPendingChildRecordIds: () =>
             syncQueueService.getPendingChildRecordIds(),
         },
+        pinnedParentIds: this.getOfflinePinnedIds().parentIds.get(entityType),
       });
       if (stats.evictedRecords > 0) {
         this.childLruStats.evictedRecords += stats.evictedRecords;
@@ -2674,7 +4207,12 @@ class SpaceStore {
     });
   }
 
-  /** Background refresh for stale child records — fetches fresh data without blocking UI */
+  /**
+   * Background refresh for stale child records — fetches fresh data without
+   * blocking UI. Groups with a delta checkpoint download only the rows
+   * changed since (see space-child-delta.helpers); others are re-fetched in
+   * full and get their first checkpoint.
+   */
   private async refreshChildRecordsInBackground(
     entityType: string,
     tableType: string,
@@ -2691,44 +4229,68 @@ class SpaceStore {
     partitionValue: string | undefined
   ): Promise<void> {
     try {
-      const { limit = 50, orderBy, orderDirection = 'asc' } = options;
-      const selectFields = buildChildSelectClause({
-        select: options.select,
-        parentField: parentIdField,
-        partitionField: partitionConfig?.childFilterField,
-        orderingFields: orderBy ? [orderBy] : undefined,
-        linkedFilters: options.linkedFilters,
-      });
-      const query = applyChildListQueryOptions(
-        getSupabaseSelectClient<ChildSourceRow>()
-          .from(tableType)
-          .select(selectFields),
-        {
-          parentField: parentIdField,
+      const collection = await this.ensureChildCollection(entityType);
+      if (!collection) return;
+
+      const canDelta = canPullChildDelta(tableType, options.linkedFilters);
+      const checkpoint = canDelta
+        ? getChildCheckpointCursor(
+            await findDocumentDataById(collection, getChildCheckpointId(tableType, parentId)),
+          )
+        : null;
+
+      if (checkpoint) {
+        const changed = await this.pullChildRecordsDelta(
+          collection,
+          tableType,
           parentId,
-          limit,
-          orderBy,
-          orderDirection,
-          partitionField: partitionConfig?.childFilterField,
+          parentIdField,
+          checkpoint,
+          options.select,
+          partitionConfig,
           partitionValue,
+        );
+        if (!changed) return;
+      } else {
+        const { limit = 50, orderBy, orderDirection = 'asc' } = options;
+        const selectFields = buildChildSelectClause({
+          select: options.select,
+          parentField: parentIdField,
+          partitionField: partitionConfig?.childFilterField,
+          orderingFields: orderBy ? [orderBy] : undefined,
           linkedFilters: options.linkedFilters,
-        },
-      );
-
-      const { data, error } = await query;
-      if (error || !data || data.length === 0) return;
+        });
+        const query = applyChildListQueryOptions(
+          getSupabaseSelectClient<ChildSourceRow>()
+            .from(tableType)
+            .select(selectFields),
+          {
+            parentField: parentIdField,
+            parentId,
+            limit,
+            orderBy,
+            orderDirection,
+            partitionField: partitionConfig?.childFilterField,
+            partitionValue,
+            linkedFilters: options.linkedFilters,
+          },
+        );
 
-      const collection = await this.ensureChildCollection(entityType);
-      if (!collection) return;
+        const { data, error } = await query;
+        if (error || !data || data.length === 0) return;
 
-      await mapAndCacheChildRows(data, {
-        tableType,
-        parentId,
-        parentField: parentIdField,
-        partitionField: partitionConfig?.childFilterField,
-        partitionValue,
-        collection,
-      });
+        await mapAndCacheChildRows(data, {
+          tableType,
+          parentId,
+          parentField: parentIdField,
+          partitionField: partitionConfig?.childFilterField,
+          partitionValue,
+          collection,
+        });
+        if (canDelta) {
+          await this.saveChildCheckpoint(collection, tableType, parentId, data, partitionValue);
+        }
+      }
 
       // Notify UI to refetch (useTabData subscribes to this signal)
       this.childRefreshSignal.value = {
@@ -2740,6 +4302,83 @@ class SpaceStore {
     }
   }
 
+  /**
+   * Pull rows of one child group after the `since` cursor (soft deletes
+   * included) and advance its checkpoint. Returns whether anything changed.
+   */
+  private async pullChildRecordsDelta(
+    collection: StoreCollection<ChildCacheRecord>,
+    tableType: string,
+    parentId: string,
+    parentIdField: string,
+    since: ChildDeltaCursor,
+    select: string[] | undefined,
+    partitionConfig: PartitionConfig | undefined,
+    partitionValue: string | undefined,
+  ): Promise<boolean> {
+    const partitionField = partitionConfig?.childFilterField;
+    const selectFields = buildChildSelectClause({
+      select: select?.length ? [...select, 'deleted'] : undefined,
+      parentField: parentIdField,
+      partitionField,
+    });
+
+    const result = await pullChildDelta({
+      collection,
+      checkpoint: since,
+      tableType,
+      parentId,
+      parentField: parentIdField,
+      partitionField,
+      partitionValue,
+      fetchPage: async (after, limit) => {
+        let query = supabase
+          .from(tableType)
+          .select(selectFields)
+          .eq(parentIdField, parentId)
+          .or(buildChildDeltaCursorFilter(after))
+          .order('updated_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(limit);
+        if (partitionField && partitionValue) {
+          query = query.eq(partitionField, partitionValue);
+        }
+        const { data, error } = await query;
+        return { data: data as unknown as ChildSourceRow[] | null, error };
+      },
+    });
+
+    // Saved even when nothing changed — its cachedAt marks the group fresh
+    await this.saveChildCheckpoint(
+      collection,
+      tableType,
+      parentId,
+      [],
+      partitionValue,
+      result.checkpoint,
+    );
+    return result.upserted + result.removed > 0;
+  }
+
+  private async saveChildCheckpoint(
+    collection: StoreCollection<ChildCacheRecord>,
+    tableType: string,
+    parentId: string,
+    rows: ReadonlyArray<object>,
+    partitionId: string | undefined,
+    previous: ChildDeltaCursor | null = null,
+  ): Promise<void> {
+    const checkpoint = getLatestChildCursor(rows, previous);
+    if (!checkpoint) return;
+    try {
+      await collection.upsert(
+        buildChildCheckpointRecord({ tableType, parentId, checkpoint, partitionId }),
+      );
+    } catch (error) {
+      console.warn('[SpaceStore] Failed to save child checkpoint:', error);
+    }
+  }
+
   /** Get child records from RxDB local cache. */
   async getChildRecords(
     parentId: string,
@@ -2773,6 +4412,165 @@ class SpaceStore {
     });
   }
 
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Child Tables: Realtime (opt-in)
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Parent fields maintained by server triggers that have no local builder
+   * (see `denormRebuilders`). Re-read from Supabase after a realtime change
+   * of the child table.
+   */
+  private readonly serverMirroredFields: Record<string, string[]> = {
+    'pet:pet_child': ['timeline'],
+  };
+
+  private childRealtimeWired = false;
+
+  /**
+   * Keep cached child collections live. Opens realtime channels for `tables`
+   * scoped to the parents cached in `*_children` (leader tab only; channels
+   * follow LRU reads and evictions). A remote change is upserted into RxDB,
+   * mirrored parent fields are rebuilt and `childRefreshSignal` fires in
+   * every tab.
+   */
+  async enableChildRealtime(
+    tables: ChildRealtimeTable[] = DEFAULT_CHILD_REALTIME_TABLES,
+  ): Promise<void> {
+    if (!this.db) throw new Error('Database is not ready');
+
+    childRealtimeService.enable(tables, (change) => this.applyChildRealtimeChange(change));
+    if (!this.childRealtimeWired) {
+      this.childRealtimeWired = true;
+      this.childLru.subscribe((event) => {
+        this.applyChildRealtimeScope(event);
+        if (!leaderElectionService.isLeader.value) {
+          leaderElectionService.broadcast(CHILD_REALTIME_SCOPE_TOPIC, event);
+        }
+      });
+      leaderElectionService.onMessage(CHILD_REALTIME_SCOPE_TOPIC, (payload) => {
+        this.applyChildRealtimeScope(payload as ChildLruEvent);
+      });
+      leaderElectionService.onMessage(CHILD_REALTIME_REFRESH_TOPIC, (payload) => {
+        this.childRefreshSignal.value = payload as { tableType: string; parentId: string };
+      });
+      leaderElectionService.onLeadershipChange((isLeader) => {
+        childRealtimeService.setActive(isLeader);
+      });
+      childRealtimeService.setActive(leaderElectionService.isLeader.value);
+    }
+
+    // Parents cached in earlier sessions have no LRU touch yet
+    for (const table of tables) {
+      const collection = await this.ensureChildCollection(table.entityType);
+      if (!collection) continue;
+      const docs = await collection.find({ selector: { tableType: table.tableType } }).exec();
+      for (const doc of docs) {
+        const { parentId } = doc.toJSON() as ChildCacheRecord;
+        if (parentId) childRealtimeService.watch(table.entityType, table.tableType, parentId);
+      }
+    }
+  }
+
+  private applyChildRealtimeScope(event: ChildLruEvent): void {
+    const tableType = normalizeChildTableType(event.tableType);
+    if (event.type === 'touch') {
+      childRealtimeService.watch(event.entityType, tableType, event.parentId);
+    } else {
+      childRealtimeService.unwatch(event.entityType, tableType, event.parentId);
+    }
+  }
+
+  private async applyChildRealtimeChange(change: ChildRealtimeChange): Promise<void> {
+    const collection = await this.ensureChildCollection(change.entityType);
+    if (!collection) return;
+
+    const id = (change.row ?? change.oldRow).id;
+    const existing = typeof id === 'string' ? await findDocumentById(collection, id) : null;
+    const local = existing?.toJSON() as ChildCacheRecord | undefined;
+    const plan = planChildRealtimeChange(
+      change,
+      local,
+      await syncQueueService.getPendingChildRecordIds(),
+    );
+    if (plan.action === 'skip') return;
+
+    const { partitionConfig } = getChildMutationMetadata(
+      this.entitySchemas,
+      change.entityType,
+      change.tableType,
+    );
+    const partitionField = partitionConfig?.childFilterField;
+    let partitionId = local?.partitionId;
+
+    if (plan.action === 'remove') {
+      await existing?.remove();
+    } else {
+      const rowPartition = partitionField ? plan.row[partitionField] : undefined;
+      if (typeof rowPartition === 'string') partitionId = rowPartition;
+      await mapAndCacheChildRows([plan.row as ChildSourceRow], {
+        tableType: change.tableType,
+        parentId: plan.parentId,
+        parentField: change.parentField,
+        partitionField,
+        partitionValue: partitionId,
+        collection,
+      });
+    }
+
+    await this.rebuildParentDenormFields(
+      change.entityType,
+      change.tableType,
+      plan.parentId,
+      partitionId,
+    );
+    await this.refreshServerMirroredFields(
+      change.entityType,
+      change.tableType,
+      plan.parentId,
+      partitionId,
+    );
+
+    const refresh = { tableType: change.tableType, parentId: plan.parentId };
+    this.childRefreshSignal.value = refresh;
+    leaderElectionService.broadcast(CHILD_REALTIME_REFRESH_TOPIC, refresh);
+  }
+
+  private async refreshServerMirroredFields(
+    parentEntityType: string,
+    childTableType: string,
+    parentId: string,
+    partitionId?: string,
+  ): Promise<void> {
+    const fields = this.serverMirroredFields[`${parentEntityType}:${childTableType}`];
+    if (!fields) return;
+    try {
+      const { data, error } = await supabase
+        .from(parentEntityType)
+        .select(fields.join(','))
+        .eq('id', parentId)
+        .maybeSingle();
+      if (error || !data) return;
+
+      const partitionKey = this.entitySchemas.get(parentEntityType)?.partition?.keyField;
+      await applyPartitionGuardedPatch<Record<string, unknown>>({
+        id: parentId,
+        patch: data as unknown as Record<string, unknown>,
+        fieldName: fields.join(', '),
+        partitionField: partitionKey ?? 'id',
+        expectedPartitionId: partitionKey ? partitionId : undefined,
+        recordIdField: `${parentEntityType}Id`,
+        expectedPartitionField: 'expectedPartitionId',
+        cachedPartitionField: 'cachedPartitionId',
+        partitionEntityLabel: parentEntityType,
+        collection: this.db?.collections[parentEntityType],
+        entityStore: this.entityStores.get(parentEntityType),
+      });
+    } catch (e) {
+      console.error('[SpaceStore] refreshServerMirroredFields failed:', e);
+    }
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Child Tables: CRUD Operations
   // ─────────────────────────────────────────────────────────────────────────────
@@ -2882,6 +4680,14 @@ class SpaceStore {
         buildChildPayload(rxdbRecord, entityType, partitionConfig),
         'id'
       );
+      await this.recordChanges([{
+        entityType,
+        entityId: parentId,
+        tableType: normalizedType,
+        recordId: id,
+        operation: 'create',
+        after: plainData,
+      }]);
 
       // Local rebuild of denormalized parent fields (mirrors server triggers)
       await this.rebuildParentDenormFields(entityType, normalizedType, parentId, partitionValue);
@@ -2936,6 +4742,16 @@ class SpaceStore {
           buildChildPayload(updatedDoc, entityType, partitionConfig),
           'id'
         );
+        await this.recordChanges([{
+          entityType,
+          entityId: updatedDoc.parentId!,
+          tableType: normalizedType,
+          recordId,
+          operation: 'update',
+          before: currentAdditional,
+          after: plainData,
+          fields: Object.keys(plainData),
+        }]);
 
         // Local rebuild of denormalized parent fields (mirrors server triggers)
         await this.rebuildParentDenormFields(
@@ -2970,11 +4786,24 @@ class SpaceStore {
       const doc = await findDocumentById(collection, recordId);
       if (doc) {
         const docData = doc.toJSON() as ChildCacheRecord;
+        const payload = buildChildPayload(docData, entityType, partitionConfig);
+        // Stamp the delete so the trash can list it for this user
+        payload.updated_at = new Date().toISOString();
+        if (userStore.currentUserId.value) {
+          payload.updated_by = userStore.currentUserId.value;
+        }
         await syncQueueService.enqueueChild(
           entityType, normalizedType, recordId, 'delete',
-          buildChildPayload(docData, entityType, partitionConfig),
+          payload,
           'id'
         );
+        await this.recordChanges([{
+          entityType,
+          entityId: docData.parentId!,
+          tableType: normalizedType,
+          recordId,
+          operation: 'delete',
+        }]);
         await doc.remove();
 
         // Local rebuild of denormalized parent fields (mirrors server triggers).
@@ -3462,26 +5291,50 @@ class SpaceStore {
     }
   }
 
+  /**
+   * TTL cleanup exemption for an entity or child collection: records pinned
+   * for offline use. Shared with the storage manager's per-collection cleanup.
+   */
+  getCleanupExemption(
+    collectionName: string,
+  ): ((doc: Record<string, unknown>) => boolean) | undefined {
+    const pinned = this.getOfflinePinnedIds();
+    if (collectionName.endsWith('_children')) {
+      const parentIds = pinned.parentIds.get(collectionName.replace(/_children$/, ''));
+      return parentIds && ((doc) => parentIds.has(doc.parentId as string));
+    }
+    const entityIds = pinned.entityIds.get(collectionName);
+    return entityIds && ((doc) => entityIds.has(doc.id as string));
+  }
+
   /**
    * Cleanup expired records using helpers
    */
   private async runCleanup(): Promise<void> {
     if (!this.db) return;
 
-    // Build collections list for cleanup
-    const collections: Array<{ collection: StoreCollection; name: string }> = [];
+    // Build collections list for cleanup; records pinned for offline use are kept
+    const collections: Array<{
+      collection: StoreCollection;
+      name: string;
+      isExempt?: (doc: Record<string, unknown>) => boolean;
+    }> = [];
 
     // 1. Add entity collections (breed, pet, kennel, etc.)
     for (const entityType of this.availableEntityTypes.value) {
       const collection = this.db.collections[entityType];
       if (collection) {
-        collections.push({ collection, name: entityType });
+        collections.push({
+          collection,
+          name: entityType,
+          isExempt: this.getCleanupExemption(entityType),
+        });
       }
     }
 
     // 2. Add child collections (breed_children, etc.)
     for (const [name, collection] of this.childCollections.entries()) {
-      collections.push({ collection, name });
+      collections.push({ collection, name, isExempt: this.getCleanupExemption(name) });
     }
 
     // Use helper to cleanup all collections
@@ -0,0 +1,129 @@
+import type { SyncQueueItem } from "../services/sync-queue.service";
+import { rebuildTimelineOnDateChange } from "../utils/timeline-builder";
+
+type TrashRow = Record<string, unknown>;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+/** Server rows fetched per table — the trash lists recent deletes, not an archive. */
+export const TRASH_FETCH_LIMIT = 100;
+
+export type TrashItemKind = "entity" | "child";
+
+/** A soft-deleted entity or child row the current user can restore or purge. */
+export interface TrashItem {
+  kind: TrashItemKind;
+  /** Entity type — the parent entity type for child rows. */
+  entityType: string;
+  /** Child table — only set for child rows. */
+  tableType?: string;
+  recordId: string;
+  /** Parent entity id — child rows only. */
+  parentId?: string;
+  /** `updated_at` written by the delete. */
+  deletedAt: string;
+  /** Supabase-shaped row as it was when deleted. */
+  row: TrashRow;
+  /** Delete still sits in the sync queue — the server row is not flagged yet. */
+  pending: boolean;
+}
+
+/** ISO timestamp of the oldest delete still inside the retention window. */
+export function getTrashCutoff(
+  retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS,
+  now: number = Date.now(),
+): string {
+  return new Date(now - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function getTrashItemKey(item: Pick<TrashItem, "kind" | "entityType" | "tableType" | "recordId">): string {
+  return `${item.kind}:${item.tableType ?? item.entityType}:${item.recordId}`;
+}
+
+/** Trash entry for a Supabase row flagged `deleted = true`. */
+export function buildTrashItemFromRow(
+  kind: TrashItemKind,
+  entityType: string,
+  row: TrashRow,
+  tableType?: string,
+): TrashItem | null {
+  if (typeof row.id !== "string") return null;
+  const parentId = kind === "child" ? row[`${entityType}_id`] : undefined;
+  return {
+    kind,
+    entityType,
+    ...(tableType && { tableType }),
+    recordId: row.id,
+    ...(typeof parentId === "string" && { parentId }),
+    deletedAt: typeof row.updated_at === "string" ? row.updated_at : "",
+    row,
+    pending: false,
+  };
+}
+
+/** Trash entry for a delete that has not been pushed yet. Null for non-deletes. */
+export function buildTrashItemFromQueue(item: SyncQueueItem): TrashItem | null {
+  if (item.operation !== "delete") return null;
+  const updatedAt = item.payload.updated_at;
+  return {
+    kind: item.queue,
+    entityType: item.entityType,
+    ...(item.tableType && { tableType: item.tableType }),
+    recordId: item.recordId,
+    ...(item.parentId && { parentId: item.parentId }),
+    deletedAt:
+      typeof updatedAt === "string" ? updatedAt : new Date(item.createdAt).toISOString(),
+    row: item.payload,
+    pending: true,
+  };
+}
+
+/**
+ * Combine server-side and queued deletes: a queued delete wins over the
+ * server row of the same record (it is the newer local state), entries
+ * older than `cutoff` drop out, newest first.
+ */
+export function mergeTrashItems(
+  serverItems: TrashItem[],
+  queuedItems: TrashItem[],
+  cutoff: string,
+): TrashItem[] {
+  const byKey = new Map<string, TrashItem>();
+  for (const item of serverItems) byKey.set(getTrashItemKey(item), item);
+  for (const item of queuedItems) byKey.set(getTrashItemKey(item), item);
+
+  return [...byKey.values()]
+    .filter((item) => !item.deletedAt || item.deletedAt >= cutoff)
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Row to re-upsert on restore: clears the delete flag, stamps the restore as
+ * a new edit and rebuilds `timeline` from the row's own dates (mirrors
+ * trigger_pet_timeline_on_dates, which does not fire for a flag flip).
+ *
+ * `deleted: false` is only written when the row carries the column — child
+ * rows from a queued delete never reached the server, and tables without
+ * the column reject it.
+ */
+export function buildRestoredRow(
+  row: TrashRow,
+  options: { userId?: string | null; now?: string } = {},
+): TrashRow {
+  const restored: TrashRow = {
+    ...row,
+    updated_at: options.now ?? new Date().toISOString(),
+    ...(options.userId && { updated_by: options.userId }),
+  };
+  if ("deleted" in row) restored.deleted = false;
+
+  if ("timeline" in row) {
+    const timeline = Array.isArray(row.timeline)
+      ? (row.timeline as Parameters<typeof rebuildTimelineOnDateChange>[0])
+      : [];
+    const dateOfBirth = typeof row.date_of_birth === "string" ? row.date_of_birth : null;
+    const dateOfDeath = typeof row.date_of_death === "string" ? row.date_of_death : null;
+    restored.timeline = rebuildTimelineOnDateChange(timeline, dateOfBirth, dateOfDeath);
+  }
+
+  return restored;
+}
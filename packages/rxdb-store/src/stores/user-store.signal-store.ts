@@ -1,5 +1,7 @@
 import { signal, computed } from '@preact/signals-react';
 import { supabase } from '../supabase/client';
+import { backgroundSyncService } from '../services/background-sync.service';
+import { presenceService } from '../services/presence.service';
 import type { User, AuthChangeEvent, Session } from '@supabase/supabase-js';
 
 /**
@@ -71,6 +73,7 @@ class UserStore {
       if (session?.user) {
         this.setUser(session.user);
       }
+      void backgroundSyncService.saveSession(session);
 
       // Listen for auth state changes (login, logout, token refresh)
       const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -80,6 +83,8 @@ class UserStore {
           } else {
             this.clearUser();
           }
+          // Keep the service worker's token current for background pushes
+          void backgroundSyncService.saveSession(session);
         }
       );
       this.authSubscription = subscription;
@@ -112,6 +117,8 @@ class UserStore {
   }
 
   private clearUser(): void {
+    // Signed out: stop showing up on the records that are still open
+    presenceService.destroy();
     this.currentUserId.value = null;
     this.currentContactId.value = null;
     this.currentUser.value = null;
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { parseRestTable, parseRetryAfter } from '../utils/sync-queue.helpers';
 
 // Supabase configuration - must be set in .env
 const SUPABASE_URL = import.meta.env?.VITE_SUPABASE_URL;
@@ -10,8 +11,36 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
   );
 }
 
+// PostgREST responses don't expose headers, so 429 Retry-After is captured
+// here and handed to the listeners per table (see onRetryAfter).
+type RetryAfterListener = (table: string, delayMs: number) => void;
+const retryAfterListeners = new Set<RetryAfterListener>();
+
+const fetchWithRetryAfter: typeof fetch = async (input, init) => {
+  const response = await fetch(input, init);
+  if (response.status === 429) {
+    const delayMs = parseRetryAfter(response.headers.get('Retry-After'), Date.now());
+    const table = parseRestTable(response.url || String(input instanceof Request ? input.url : input));
+    if (delayMs !== null && table) {
+      for (const listener of retryAfterListeners) listener(table, delayMs);
+    }
+  }
+  return response;
+};
+
+/** Listen for the wait a 429 response asked for on a table; returns the unsubscribe. */
+export function onRetryAfter(listener: RetryAfterListener): () => void {
+  retryAfterListeners.add(listener);
+  return () => {
+    retryAfterListeners.delete(listener);
+  };
+}
+
 // Create Supabase client
 export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+  global: {
+    fetch: fetchWithRetryAfter,
+  },
   auth: {
     persistSession: true,
     autoRefreshToken: true,
@@ -0,0 +1,104 @@
+/**
+ * background-sync helpers unit tests (worker config + session handoff)
+ *
+ * Run: pnpm --filter @breedhub/rxdb-store test
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  getDexieDbName,
+  isChildItemHeld,
+  isQueueItemDue,
+  isSessionUsable,
+  toBackgroundSyncSession,
+} from "../background-sync.helpers";
+import { getChildTableReferenceMap } from "../child-collection-registry";
+
+describe("getDexieDbName", () => {
+  it("matches the database name RxDB's Dexie storage opens", () => {
+    expect(getDexieDbName("breedhub", "entity_sync_queue", 3)).toBe(
+      "rxdb-dexie-breedhub--3--entity_sync_queue",
+    );
+  });
+});
+
+describe("toBackgroundSyncSession", () => {
+  it("keeps the access token, expiry in ms and user id", () => {
+    const session = toBackgroundSyncSession({
+      access_token: "token",
+      refresh_token: "refresh",
+      expires_at: 1_700_000_000,
+      user: { id: "user-1" },
+    } as Parameters<typeof toBackgroundSyncSession>[0]);
+
+    expect(session).toEqual({ accessToken: "token", expiresAt: 1_700_000_000_000, userId: "user-1" });
+    expect(JSON.stringify(session)).not.toContain("refresh");
+  });
+
+  it("returns null when signed out or the session has no expiry", () => {
+    expect(toBackgroundSyncSession(null)).toBeNull();
+    expect(toBackgroundSyncSession({ access_token: "token", user: { id: "user-1" } })).toBeNull();
+  });
+});
+
+describe("isSessionUsable", () => {
+  const session = { accessToken: "token", expiresAt: 1_000_000, userId: "user-1" };
+
+  it("accepts a token well before expiry", () => {
+    expect(isSessionUsable(session, 500_000)).toBe(true);
+  });
+
+  it("rejects missing, expired and nearly expired tokens", () => {
+    expect(isSessionUsable(null, 0)).toBe(false);
+    expect(isSessionUsable(session, 1_000_001)).toBe(false);
+    expect(isSessionUsable(session, 990_000)).toBe(false);
+  });
+});
+
+describe("isQueueItemDue", () => {
+  const now = 1_000_000;
+
+  it("drains pending items past their backoff", () => {
+    expect(isQueueItemDue({}, now)).toBe(true);
+    expect(isQueueItemDue({ status: "pending", nextAttemptAt: now }, now)).toBe(true);
+  });
+
+  it("leaves held, failed and conflict items to the tab", () => {
+    expect(isQueueItemDue({ status: "held" }, now)).toBe(false);
+    expect(isQueueItemDue({ status: "failed" }, now)).toBe(false);
+    expect(isQueueItemDue({ status: "conflict" }, now)).toBe(false);
+  });
+
+  it("skips deleted docs and backoffs not yet due", () => {
+    expect(isQueueItemDue({ _deleted: "1" }, now)).toBe(false);
+    expect(isQueueItemDue({ nextAttemptAt: now + 1 }, now)).toBe(false);
+  });
+});
+
+describe("isChildItemHeld", () => {
+  const references = getChildTableReferenceMap();
+  const contactInPet = {
+    entityType: "pet",
+    tableType: "contact_in_pet",
+    payload: { id: "row-1", pet_id: "pet-1", contact_id: "contact-1" },
+  };
+
+  it("holds a child behind its queued parent", () => {
+    expect(isChildItemHeld(contactInPet, new Set(["pet-1"]), references)).toBe(true);
+  });
+
+  it("holds a child behind a queued entity its other FK columns reference", () => {
+    expect(isChildItemHeld(contactInPet, new Set(["contact-1"]), references)).toBe(true);
+    expect(
+      isChildItemHeld(
+        { ...contactInPet, tableType: "contact_in_pet_with_contact" },
+        new Set(["contact-1"]),
+        references,
+      ),
+    ).toBe(true);
+  });
+
+  it("lets a child through once nothing it references is queued", () => {
+    expect(isChildItemHeld(contactInPet, new Set(["pet-2", "contact-2"]), references)).toBe(false);
+  });
+});
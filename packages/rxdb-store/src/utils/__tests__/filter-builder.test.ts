@@ -14,6 +14,10 @@ import {
   buildPostgrestFilterExpr,
   applySupabaseFilterWithOrFields,
   matchRecordValue,
+  parseFilterRange,
+  formatFilterRange,
+  resolveFilterRange,
+  resolveRelativeDateRange,
   type RxDBSelectorLike,
   type SupabaseFilterQuery,
 } from '../filter-builder';
@@ -65,6 +69,36 @@ describe('matchRecordValue', () => {
     expect(matchRecordValue('abc', 'unknown', 'abc')).toBe(true);
     expect(matchRecordValue(123, 'unknown', '123')).toBe(false);
   });
+  it('matches not_in, excluding missing values like SQL', () => {
+    expect(matchRecordValue('a', 'not_in', ['b', 'c'])).toBe(true);
+    expect(matchRecordValue('b', 'not_in', 'b,c')).toBe(false);
+    expect(matchRecordValue(null, 'not_in', ['b'])).toBe(false);
+  });
+
+  it('matches is_null / is_not_null regardless of the filter value', () => {
+    expect(matchRecordValue(null, 'is_null', true)).toBe(true);
+    expect(matchRecordValue(undefined, 'is_null', true)).toBe(true);
+    expect(matchRecordValue('x', 'is_null', true)).toBe(false);
+    expect(matchRecordValue('x', 'is_not_null', true)).toBe(true);
+  });
+
+  it('matches starts_with case-insensitively', () => {
+    expect(matchRecordValue('Golden Retriever', 'starts_with', 'gold')).toBe(true);
+    expect(matchRecordValue('Golden Retriever', 'starts_with', 'retr')).toBe(false);
+  });
+
+  it('matches numeric ranges with inclusive and exclusive bounds', () => {
+    expect(matchRecordValue(5, 'range', '[5,10)')).toBe(true);
+    expect(matchRecordValue(10, 'range', '[5,10)')).toBe(false);
+    expect(matchRecordValue(5, 'range', '(5,]')).toBe(false);
+    expect(matchRecordValue(null, 'range', '[5,10]')).toBe(false);
+    expect(matchRecordValue(7, 'range', '[,]')).toBe(true);
+  });
+
+  it('keeps a single date on date_range as on-or-after', () => {
+    expect(matchRecordValue('2020-05-01', 'date_range', '2020-01-01')).toBe(true);
+    expect(matchRecordValue('2019-05-01', 'date_range', '2020-01-01')).toBe(false);
+  });
 });
 
 // ============= buildRxDBCondition =============
@@ -101,6 +135,23 @@ describe('buildRxDBCondition', () => {
   it('returns value for unknown operator', () => {
     expect(buildRxDBCondition('unknown', 'val')).toBe('val');
   });
+  it('builds not_in with null so missing values are excluded', () => {
+    expect(buildRxDBCondition('not_in', ['a', 'b'])).toEqual({ $nin: ['a', 'b', null] });
+    expect(buildRxDBCondition('not_in', [])).toBeUndefined();
+  });
+
+  it('builds null checks and anchored starts_with', () => {
+    expect(buildRxDBCondition('is_null', true)).toEqual({ $eq: null });
+    expect(buildRxDBCondition('is_not_null', true)).toEqual({ $ne: null });
+    expect(buildRxDBCondition('starts_with', 'a.b')).toEqual({ $regex: '^a\\.b', $options: 'i' });
+  });
+
+  it('builds ranges from interval notation', () => {
+    expect(buildRxDBCondition('range', '(1,5]')).toEqual({ $gt: 1, $lte: 5 });
+    expect(buildRxDBCondition('range', '[,5)')).toEqual({ $lt: 5 });
+    expect(buildRxDBCondition('range', 'nope')).toEqual({ $gte: 'nope' });
+    expect(buildRxDBCondition('range', '')).toBeUndefined();
+  });
 });
 
 // ============= applyFilterToRxDBSelector =============
@@ -130,6 +181,11 @@ describe('applyFilterToRxDBSelector', () => {
     applyFilterToRxDBSelector(selector, 'f2', 'eq', 'b', { orFields: ['z'] });
     expect(selector.$and).toHaveLength(2);
   });
+  it('skips values that resolve to no condition', () => {
+    const selector: RxDBSelectorLike = {};
+    applyFilterToRxDBSelector(selector, 'status', 'not_in', [], {});
+    expect(selector).toEqual({});
+  });
 });
 
 // ============= buildPostgrestFilterExpr =============
@@ -156,6 +212,17 @@ describe('buildPostgrestFilterExpr', () => {
   it('defaults to eq for unknown operator', () => {
     expect(buildPostgrestFilterExpr('field', 'unknown', 'val')).toBe('field.eq.val');
   });
+  it('builds not_in, null and starts_with expressions', () => {
+    expect(buildPostgrestFilterExpr('status', 'not_in', ['a', 'b'])).toBe('status.not.in.(a,b)');
+    expect(buildPostgrestFilterExpr('notes', 'is_null', true)).toBe('notes.is.null');
+    expect(buildPostgrestFilterExpr('notes', 'is_not_null', true)).toBe('notes.not.is.null');
+    expect(buildPostgrestFilterExpr('name', 'starts_with', '50%')).toBe('name.ilike.50\\%%');
+  });
+
+  it('builds range expressions, grouping two bounds with and()', () => {
+    expect(buildPostgrestFilterExpr('age', 'range', '[1,5)')).toBe('and(age.gte.1,age.lt.5)');
+    expect(buildPostgrestFilterExpr('age', 'range', '(1,]')).toBe('age.gt.1');
+  });
 });
 
 // ============= applySupabaseFilterWithOrFields =============
@@ -171,6 +238,8 @@ describe('applySupabaseFilterWithOrFields', () => {
       lt: () => ({ type: 'lt', field: '', value: '' }),
       lte: () => ({ type: 'lte', field: '', value: '' }),
       in: () => ({ type: 'in', field: '', value: '' }),
+      is: () => ({ type: 'is', field: '', value: '' }),
+      not: () => ({ type: 'not', field: '', value: '' }),
       or: () => ({ type: 'or', field: '', value: '' }),
     };
     const result = applySupabaseFilterWithOrFields(query, 'breed_id', 'eq', '123', {});
@@ -189,6 +258,8 @@ describe('applySupabaseFilterWithOrFields', () => {
       lt: () => query,
       lte: () => query,
       in: () => query,
+      is: () => query,
+      not: () => query,
       or: (condition: string) => { orArg = condition; return query; },
     };
     applySupabaseFilterWithOrFields(query, 'breed_id', 'eq', '123', {
@@ -238,6 +309,14 @@ describe('applySupabaseFilter', () => {
         calls.push({ method: 'in', args: [fieldName, values] });
         return proxy;
       },
+      is: (fieldName: string, value: null) => {
+        calls.push({ method: 'is', args: [fieldName, value] });
+        return proxy;
+      },
+      not: (fieldName: string, operator: string, value: unknown) => {
+        calls.push({ method: 'not', args: [fieldName, operator, value] });
+        return proxy;
+      },
       or: (condition: string) => {
         calls.push({ method: 'or', args: [condition] });
         return proxy;
@@ -272,4 +351,82 @@ describe('applySupabaseFilter', () => {
     applySupabaseFilter(proxy, 'status', 'in', 'single');
     expect(calls[0].args[1]).toEqual(['single']);
   });
+  it('calls not / is for not_in and null checks', () => {
+    const { proxy, calls } = mockQuery();
+    applySupabaseFilter(proxy, 'status', 'not_in', ['a', 'b']);
+    applySupabaseFilter(proxy, 'notes', 'is_null', true);
+    applySupabaseFilter(proxy, 'notes', 'is_not_null', true);
+    expect(calls).toEqual([
+      { method: 'not', args: ['status', 'in', '(a,b)'] },
+      { method: 'is', args: ['notes', null] },
+      { method: 'not', args: ['notes', 'is', null] },
+    ]);
+  });
+
+  it('chains one comparison per range bound', () => {
+    const { proxy, calls } = mockQuery();
+    applySupabaseFilter(proxy, 'weight', 'range', '(10,20]');
+    expect(calls).toEqual([
+      { method: 'gt', args: ['weight', 10] },
+      { method: 'lte', args: ['weight', 20] },
+    ]);
+  });
+});
+
+// ============= Range resolution =============
+
+describe('parseFilterRange / formatFilterRange', () => {
+  it('round-trips interval notation', () => {
+    const range = parseFilterRange('(1,5]');
+    expect(range).toEqual({ from: '1', fromExclusive: true, to: '5', toExclusive: false });
+    expect(formatFilterRange(range!)).toBe('(1,5]');
+    expect(formatFilterRange({ to: 3, toExclusive: true })).toBe('[,3)');
+  });
+
+  it('reads the between form as inclusive bounds', () => {
+    expect(parseFilterRange('2020-01-01_2020-12-31')).toEqual({
+      from: '2020-01-01',
+      to: '2020-12-31',
+    });
+    expect(parseFilterRange('_')).toBeNull();
+  });
+});
+
+describe('resolveFilterRange', () => {
+  const now = new Date(2026, 9, 19);
+
+  it('resolves last N units from today', () => {
+    expect(resolveRelativeDateRange('last_90_days', now)).toEqual({ from: '2026-07-21' });
+    expect(resolveRelativeDateRange('last_1_year', now)).toEqual({ from: '2025-10-19' });
+  });
+
+  it('resolves this_year and this_month as half-open ranges', () => {
+    expect(resolveRelativeDateRange('this_year', now)).toEqual({
+      from: '2026-01-01',
+      to: '2027-01-01',
+      toExclusive: true,
+    });
+    expect(resolveRelativeDateRange('this_month', now)).toEqual({
+      from: '2026-10-01',
+      to: '2026-11-01',
+      toExclusive: true,
+    });
+  });
+
+  it('resolves older_than through the whole cutoff day', () => {
+    expect(resolveFilterRange('date_range', 'older_than_8_years', now)).toEqual({
+      to: '2018-10-20',
+      toExclusive: true,
+    });
+  });
+
+  it('coerces numeric bounds only for range', () => {
+    expect(resolveFilterRange('range', '[1.5,10]')).toEqual({
+      from: 1.5,
+      fromExclusive: false,
+      to: 10,
+      toExclusive: false,
+    });
+    expect(resolveFilterRange('date_range', '2020-01-01', now)).toEqual({ from: '2020-01-01' });
+  });
 });
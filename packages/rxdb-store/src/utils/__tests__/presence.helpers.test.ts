@@ -0,0 +1,74 @@
+/**
+ * presence helpers unit tests
+ *
+ * Run: pnpm --filter @breedhub/rxdb-store test
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  collectPresenceMembers,
+  getPresenceTopic,
+  resolvePresenceMode,
+  type PresenceState,
+} from "../presence.helpers";
+
+function state(overrides: Partial<PresenceState>): PresenceState {
+  return {
+    sessionId: "s-1",
+    userId: "user-1",
+    name: "Anna",
+    avatar: null,
+    mode: "viewing",
+    since: "2026-05-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("getPresenceTopic", () => {
+  it("scopes the topic to one entity", () => {
+    expect(getPresenceTopic("pet", "pet-1")).toBe("presence:pet:pet-1");
+  });
+});
+
+describe("collectPresenceMembers", () => {
+  it("skips the own session and collapses sessions per user", () => {
+    const members = collectPresenceMembers(
+      [
+        state({ sessionId: "self", userId: "me" }),
+        state({ sessionId: "a-1", since: "2026-05-01T10:05:00.000Z" }),
+        state({ sessionId: "a-2", mode: "editing", since: "2026-05-01T10:01:00.000Z" }),
+        state({ sessionId: "me-2", userId: "me", name: "Me" }),
+      ],
+      "self",
+    );
+
+    expect(members).toEqual([
+      expect.objectContaining({
+        userId: "user-1",
+        mode: "editing",
+        sessions: 2,
+        since: "2026-05-01T10:01:00.000Z",
+      }),
+      expect.objectContaining({ userId: "me", sessionId: "me-2", sessions: 1 }),
+    ]);
+  });
+
+  it("keeps anonymous sessions apart and lists editors first", () => {
+    const members = collectPresenceMembers(
+      [
+        state({ sessionId: "x", userId: null, since: "2026-05-01T09:00:00.000Z" }),
+        state({ sessionId: "y", userId: null, mode: "editing" }),
+      ],
+      "self",
+    );
+
+    expect(members.map((m) => m.sessionId)).toEqual(["y", "x"]);
+  });
+});
+
+describe("resolvePresenceMode", () => {
+  it("is editing when any holder edits", () => {
+    expect(resolvePresenceMode(["viewing", "editing"])).toBe("editing");
+    expect(resolvePresenceMode([])).toBe("viewing");
+  });
+});
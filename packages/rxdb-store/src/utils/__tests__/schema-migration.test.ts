@@ -0,0 +1,130 @@
+/**
+ * schema-migration unit tests (per-collection versions + generated migrations)
+ *
+ * Run: pnpm --filter @breedhub/rxdb-store test
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  coerceFieldValue,
+  diffSchemaFields,
+  getSchemaFieldSignature,
+  planCollectionSchema,
+  readSchemaVersions,
+  writeSchemaVersion,
+  type VersionedSchemaLike,
+} from "../schema-migration";
+
+const baseSchema: VersionedSchemaLike = {
+  version: 2,
+  properties: {
+    id: { type: "string", maxLength: 36 },
+    name: { type: ["string", "null"], maxLength: 250 },
+    rating: { type: ["string", "null"] },
+    legacy_code: { type: ["string", "null"] },
+  },
+  required: ["id"],
+};
+
+const nextSchema: VersionedSchemaLike = {
+  version: 2,
+  properties: {
+    id: { type: "string", maxLength: 36 },
+    name: { type: ["string", "null"], maxLength: 250 },
+    rating: { type: ["number", "null"] },
+    is_public: { type: "boolean" },
+  },
+  required: ["id", "is_public"],
+};
+
+describe("diffSchemaFields", () => {
+  it("reports added, removed and changed fields", () => {
+    expect(
+      diffSchemaFields(getSchemaFieldSignature(baseSchema), getSchemaFieldSignature(nextSchema)),
+    ).toEqual({
+      added: ["is_public"],
+      removed: ["legacy_code"],
+      changed: ["rating"],
+    });
+  });
+
+  it("ignores property key order", () => {
+    const reordered: VersionedSchemaLike = {
+      ...baseSchema,
+      properties: { ...baseSchema.properties, name: { maxLength: 250, type: ["string", "null"] } },
+    };
+    const diff = diffSchemaFields(
+      getSchemaFieldSignature(baseSchema),
+      getSchemaFieldSignature(reordered),
+    );
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+  });
+});
+
+describe("planCollectionSchema", () => {
+  it("starts a collection without history at the base version", () => {
+    const plan = planCollectionSchema(baseSchema);
+
+    expect(plan.schema.version).toBe(2);
+    expect(plan.diff).toBeNull();
+    expect(plan.migrationStrategies).toEqual({});
+  });
+
+  it("keeps the stored version when the field set is unchanged", () => {
+    const previous = { version: 4, fields: getSchemaFieldSignature(baseSchema) };
+    const plan = planCollectionSchema(baseSchema, previous);
+
+    expect(plan.schema.version).toBe(4);
+    expect(plan.diff).toBeNull();
+    expect(Object.keys(plan.migrationStrategies)).toEqual(["3", "4"]);
+    expect(plan.migrationStrategies[4]({ id: "a", name: "Rex" })).toEqual({ id: "a", name: "Rex" });
+  });
+
+  it("bumps the version and migrates documents from the diff", () => {
+    const previous = { version: 2, fields: getSchemaFieldSignature(baseSchema) };
+    const plan = planCollectionSchema(nextSchema, previous);
+
+    expect(plan.schema.version).toBe(3);
+    expect(plan.entry.version).toBe(3);
+    expect(
+      plan.migrationStrategies[3]({ id: "a", name: "Rex", rating: "4.5", legacy_code: "X1" }),
+    ).toEqual({ id: "a", name: "Rex", rating: 4.5, is_public: false });
+  });
+});
+
+describe("coerceFieldValue", () => {
+  it("converts between scalar and JSON types", () => {
+    expect(coerceFieldValue("f", 12, { type: "string" })).toBe("12");
+    expect(coerceFieldValue("f", "abcdef", { type: "string", maxLength: 3 })).toBe("abc");
+    expect(coerceFieldValue("f", "true", { type: "boolean" })).toBe(true);
+    expect(coerceFieldValue("f", '["a"]', { type: ["array", "null"] })).toEqual(["a"]);
+  });
+
+  it("nulls unconvertible values of nullable fields and throws for required ones", () => {
+    expect(coerceFieldValue("f", "n/a", { type: ["number", "null"] })).toBeNull();
+    expect(() => coerceFieldValue("f", "n/a", { type: "number" })).toThrow(/Cannot migrate field "f"/);
+  });
+});
+
+describe("schema version registry", () => {
+  it("round-trips entries and survives garbage", () => {
+    const storage = new Map<string, string>();
+    const storageLike = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        storage.set(key, value);
+      },
+      removeItem: (key: string) => {
+        storage.delete(key);
+      },
+    };
+    storage.set("breedhub_schema_hash", "legacy-hash");
+
+    writeSchemaVersion(storageLike, "pet", { version: 3, fields: { id: "x" } });
+    expect(readSchemaVersions(storageLike)).toEqual({ pet: { version: 3, fields: { id: "x" } } });
+    expect(storage.has("breedhub_schema_hash")).toBe(false);
+
+    storage.set("breedhub_schema_versions", "{not json");
+    expect(readSchemaVersions(storageLike)).toEqual({});
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * search index unit tests
+ *
+ * Run: pnpm --filter @breedhub/rxdb-store test
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  boundedEditDistance,
+  getTypoBudget,
+  SearchIndex,
+  tokenizeSearchText,
+} from "../search-index";
+import { generateSlug, transliterate } from "../slug-generator";
+
+function ids(index: SearchIndex, query: string): string[] {
+  return index.search(query).map((hit) => hit.id);
+}
+
+describe("transliterate", () => {
+  it("keeps slugs unchanged", () => {
+    expect(transliterate("Щастя Ёжик")).toBe("shchastya yozhik");
+    expect(generateSlug("Щастя Ёжик", "12345678-aaaa")).toBe("shchastya-yozhik-12345678");
+  });
+});
+
+describe("tokenizeSearchText", () => {
+  it("transliterates, lowercases and splits on punctuation", () => {
+    expect(tokenizeSearchText("Šárka of Шарик-Хаус")).toEqual(["sarka", "of", "sharik", "khaus"]);
+  });
+
+  it("returns no tokens for empty text", () => {
+    expect(tokenizeSearchText("  -- ")).toEqual([]);
+    expect(tokenizeSearchText(null)).toEqual([]);
+  });
+});
+
+describe("boundedEditDistance", () => {
+  it("counts substitutions, insertions and swapped neighbours", () => {
+    expect(boundedEditDistance("bella", "bela", 2)).toBe(1);
+    expect(boundedEditDistance("bella", "blela", 2)).toBe(1);
+    expect(boundedEditDistance("bella", "bulla", 2)).toBe(1);
+  });
+
+  it("stops past the bound", () => {
+    expect(boundedEditDistance("bella", "zorro", 1)).toBe(2);
+  });
+
+  it("allows more typos for longer words", () => {
+    expect(getTypoBudget(3)).toBe(0);
+    expect(getTypoBudget(5)).toBe(1);
+    expect(getTypoBudget(9)).toBe(2);
+  });
+});
+
+describe("SearchIndex", () => {
+  function buildIndex(): SearchIndex {
+    const index = new SearchIndex();
+    index.set("pet-1", [
+      { text: "Шарик", weight: 3 },
+      { text: "Golden Dreams", weight: 1.5 },
+    ]);
+    index.set("pet-2", [
+      { text: "Bella Golden", weight: 3 },
+      { text: "Sunny Valley", weight: 1.5 },
+    ]);
+    index.set("pet-3", [
+      { text: "Max", weight: 3 },
+      { text: "Sunny Valley", weight: 1.5 },
+      { text: "CHIP-985112", weight: 2 },
+    ]);
+    return index;
+  }
+
+  it("finds Cyrillic names by their Latin spelling", () => {
+    expect(ids(buildIndex(), "sharik")).toEqual(["pet-1"]);
+  });
+
+  it("matches prefixes of the word being typed", () => {
+    expect(ids(buildIndex(), "bel")).toEqual(["pet-2"]);
+    expect(ids(buildIndex(), "chip 9851")).toEqual(["pet-3"]);
+  });
+
+  it("tolerates typos", () => {
+    expect(ids(buildIndex(), "blela")).toEqual(["pet-2"]);
+    expect(ids(buildIndex(), "sunyy")).toEqual(["pet-2", "pet-3"]);
+  });
+
+  it("requires every query word", () => {
+    expect(ids(buildIndex(), "max sunny")).toEqual(["pet-3"]);
+    expect(ids(buildIndex(), "max golden")).toEqual([]);
+  });
+
+  it("ranks name matches above kennel matches", () => {
+    expect(ids(buildIndex(), "golden")).toEqual(["pet-2", "pet-1"]);
+  });
+
+  it("ranks exact words above prefixes and typos", () => {
+    const index = new SearchIndex();
+    index.set("typo", [{ text: "Lunna", weight: 3 }]);
+    index.set("prefix", [{ text: "Lunatic", weight: 3 }]);
+    index.set("exact", [{ text: "Luna", weight: 3 }]);
+
+    expect(ids(index, "luna")).toEqual(["exact", "prefix", "typo"]);
+  });
+
+  it("re-indexes and removes documents", () => {
+    const index = buildIndex();
+    index.set("pet-3", [{ text: "Rex", weight: 3 }]);
+    expect(ids(index, "max")).toEqual([]);
+    expect(ids(index, "rex")).toEqual(["pet-3"]);
+
+    index.remove("pet-3");
+    expect(ids(index, "rex")).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it("caps results at the limit", () => {
+    expect(buildIndex().search("sunny", { limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * sync-conflict helpers unit tests
+ *
+ * Run: pnpm --filter @breedhub/rxdb-store test
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  applyConflictResolution,
+  detectConflict,
+  diffConflictFields,
+  getConflictFields,
+  isServerDiverged,
+  mergeWithServer,
+  threeWayMerge,
+} from "../sync-conflict.helpers";
+
+describe("isServerDiverged", () => {
+  it("is true only when the server row is newer than the base version", () => {
+    expect(
+      isServerDiverged("2026-04-21T10:00:00.000Z", "2026-04-21T11:00:00.000Z"),
+    ).toBe(true);
+    expect(
+      isServerDiverged("2026-04-21T10:00:00.000Z", "2026-04-21T10:00:00.000Z"),
+    ).toBe(false);
+    expect(
+      isServerDiverged("2026-04-21T10:00:00.000Z", "2026-04-21T09:00:00.000Z"),
+    ).toBe(false);
+  });
+
+  it("treats missing or unparsable timestamps as not diverged", () => {
+    expect(isServerDiverged(undefined, "2026-04-21T11:00:00.000Z")).toBe(false);
+    expect(isServerDiverged("2026-04-21T10:00:00.000Z", null)).toBe(false);
+    expect(isServerDiverged("garbage", "2026-04-21T11:00:00.000Z")).toBe(false);
+  });
+});
+
+describe("diffConflictFields", () => {
+  it("lists payload fields whose server value differs, ignoring bookkeeping columns", () => {
+    const fields = diffConflictFields(
+      {
+        id: "pet-1",
+        name: "Mine",
+        color: "black",
+        tags: ["a"],
+        updated_at: "2026-04-21T12:00:00.000Z",
+      },
+      {
+        id: "pet-1",
+        name: "Theirs",
+        color: "black",
+        tags: ["a"],
+        updated_at: "2026-04-21T11:00:00.000Z",
+      },
+    );
+
+    expect(fields).toEqual([{ field: "name", mine: "Mine", theirs: "Theirs" }]);
+  });
+
+  it("treats null and undefined as equal and skips columns the server doesn't return", () => {
+    expect(
+      diffConflictFields(
+        { id: "pet-1", notes: null, local_only: 1 },
+        { id: "pet-1", notes: undefined },
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("detectConflict", () => {
+  const base = "2026-04-21T10:00:00.000Z";
+
+  it("reports diverged fields when someone else saved after the base version", () => {
+    const fields = detectConflict(
+      { id: "pet-1", name: "Mine", updated_by: "user-a" },
+      base,
+      {
+        id: "pet-1",
+        name: "Theirs",
+        updated_by: "user-b",
+        updated_at: "2026-04-21T11:00:00.000Z",
+      },
+    );
+
+    expect(fields.map((f) => f.field)).toEqual(["name"]);
+  });
+
+  it("ignores newer server rows written by the same user", () => {
+    expect(
+      detectConflict(
+        { id: "pet-1", name: "Mine", updated_by: "user-a" },
+        base,
+        {
+          id: "pet-1",
+          name: "Earlier mine",
+          updated_by: "user-a",
+          updated_at: "2026-04-21T11:00:00.000Z",
+        },
+      ),
+    ).toEqual([]);
+  });
+
+  it("returns no conflict when the server row is missing or not newer", () => {
+    expect(detectConflict({ id: "pet-1", name: "Mine" }, base, null)).toEqual([]);
+    expect(
+      detectConflict({ id: "pet-1", name: "Mine" }, base, {
+        id: "pet-1",
+        name: "Theirs",
+        updated_at: base,
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("threeWayMerge", () => {
+  const base = { id: "litter-1", name: "A", status: "planned", notes: "x", tags: ["a"] };
+
+  it("takes the server value for fields only the server changed and keeps mine otherwise", () => {
+    const result = threeWayMerge(
+      base,
+      { ...base, name: "Mine", updated_at: "2026-04-21T12:00:00.000Z" },
+      { ...base, status: "born", tags: ["a", "b"], updated_at: "2026-04-21T11:00:00.000Z" },
+    );
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toEqual({
+      ...base,
+      name: "Mine",
+      status: "born",
+      tags: ["a", "b"],
+      updated_at: "2026-04-21T12:00:00.000Z",
+    });
+  });
+
+  it("reports only fields both sides changed to different values", () => {
+    const result = threeWayMerge(
+      base,
+      { ...base, name: "Mine", notes: "same" },
+      { ...base, name: "Theirs", notes: "same" },
+    );
+
+    expect(result.conflicts).toEqual([{ field: "name", mine: "Mine", theirs: "Theirs" }]);
+    expect(result.merged.name).toBe("Mine");
+  });
+
+  it("treats fields missing from the base as changed on both sides", () => {
+    expect(
+      threeWayMerge({ id: "litter-1" }, { id: "litter-1", name: "Mine" }, { name: "Theirs" })
+        .conflicts,
+    ).toEqual([{ field: "name", mine: "Mine", theirs: "Theirs" }]);
+  });
+});
+
+describe("mergeWithServer", () => {
+  const baseUpdatedAt = "2026-04-21T10:00:00.000Z";
+  const snapshot = { id: "pet-1", name: "Rex", color: "black" };
+  const server = {
+    id: "pet-1",
+    name: "Rex",
+    color: "white",
+    updated_by: "user-b",
+    updated_at: "2026-04-21T11:00:00.000Z",
+  };
+
+  it("auto-merges non-overlapping edits when the item has a base snapshot", () => {
+    const mine = { id: "pet-1", name: "Max", color: "black", updated_by: "user-a" };
+
+    expect(mergeWithServer(mine, baseUpdatedAt, server, snapshot)).toEqual({
+      merged: { ...mine, color: "white" },
+      conflicts: [],
+    });
+    expect(detectConflict(mine, baseUpdatedAt, server, snapshot)).toEqual([]);
+  });
+
+  it("keeps the payload as-is when the server row isn't newer", () => {
+    const mine = { id: "pet-1", name: "Max", color: "black" };
+
+    expect(mergeWithServer(mine, baseUpdatedAt, { ...server, updated_at: baseUpdatedAt }, snapshot))
+      .toEqual({ merged: mine, conflicts: [] });
+  });
+});
+
+describe("getConflictFields", () => {
+  it("lists only same-field conflicts for items with a base snapshot", () => {
+    const item = {
+      payload: { id: "pet-1", name: "Max", color: "white", notes: "mine" },
+      serverPayload: { id: "pet-1", name: "Bob", color: "white", notes: "" },
+      baseSnapshot: { id: "pet-1", name: "Rex", color: "black", notes: "" },
+    };
+
+    expect(getConflictFields(item).map((f) => f.field)).toEqual(["name"]);
+    expect(
+      getConflictFields({ payload: item.payload, serverPayload: item.serverPayload }).map(
+        (f) => f.field,
+      ),
+    ).toEqual(["name", "notes"]);
+  });
+});
+
+describe("applyConflictResolution", () => {
+  it("applies keep-mine, take-theirs and merged values per field", () => {
+    const resolved = applyConflictResolution(
+      { id: "pet-1", name: "Mine", color: "black", notes: "a" },
+      { id: "pet-1", name: "Theirs", color: "white", notes: "b" },
+      {
+        name: { kind: "mine" },
+        color: { kind: "theirs" },
+        notes: { kind: "merge", value: "a + b" },
+      },
+    );
+
+    expect(resolved).toEqual({
+      id: "pet-1",
+      name: "Mine",
+      color: "white",
+      notes: "a + b",
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * sync-queue helpers unit tests (backoff + error classification)
+ *
+ * Run: pnpm --filter @breedhub/rxdb-store test
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  classifyPushError,
+  computeNextAttemptAt,
+  getChildQueueReferences,
+  parseRestTable,
+  parseRetryAfter,
+} from "../sync-queue.helpers";
+
+describe("classifyPushError", () => {
+  it("retries network, rate-limit, server and auth-refresh errors", () => {
+    expect(classifyPushError({ message: "TypeError: Failed to fetch" })).toBe("retryable");
+    expect(classifyPushError({ message: "fetch failed", status: 0 })).toBe("retryable");
+    expect(classifyPushError({ message: "Too Many Requests", status: 429 })).toBe("retryable");
+    expect(classifyPushError({ message: "Bad Gateway", status: 502 })).toBe("retryable");
+    expect(classifyPushError({ message: "JWT expired", code: "PGRST301", status: 401 })).toBe(
+      "retryable",
+    );
+    expect(
+      classifyPushError({ message: "canceling statement due to statement timeout", code: "57014" }),
+    ).toBe("retryable");
+  });
+
+  it("gives up on constraint violations and other 4xx responses", () => {
+    expect(
+      classifyPushError({ message: "violates foreign key constraint", code: "23503", status: 409 }),
+    ).toBe("permanent");
+    expect(classifyPushError({ message: "invalid input syntax", code: "22P02" })).toBe("permanent");
+    expect(
+      classifyPushError({ message: "Could not find the 'foo' column", code: "PGRST204", status: 400 }),
+    ).toBe("permanent");
+    expect(
+      classifyPushError({ message: "new row violates row-level security policy", code: "42501", status: 403 }),
+    ).toBe("permanent");
+  });
+});
+
+describe("computeNextAttemptAt", () => {
+  const now = 1_000_000;
+
+  it("doubles the delay per retry with half of it jittered", () => {
+    expect(computeNextAttemptAt(1, now, undefined, () => 0)).toBe(now + 2_500);
+    expect(computeNextAttemptAt(1, now, undefined, () => 1)).toBe(now + 5_000);
+    expect(computeNextAttemptAt(3, now, undefined, () => 1)).toBe(now + 20_000);
+  });
+
+  it("caps the delay at 15 minutes", () => {
+    expect(computeNextAttemptAt(30, now, undefined, () => 1)).toBe(now + 15 * 60_000);
+  });
+
+  it("honours a longer Retry-After", () => {
+    expect(computeNextAttemptAt(1, now, 30_000, () => 1)).toBe(now + 30_000);
+    expect(computeNextAttemptAt(5, now, 1_000, () => 1)).toBe(now + 80_000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-04-21T12:00:00.000Z");
+
+  it("parses delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Tue, 21 Apr 2026 12:00:30 GMT", now)).toBe(30_000);
+  });
+
+  it("returns null for missing or garbage headers", () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+  });
+});
+
+describe("parseRestTable", () => {
+  it("reads the table from PostgREST URLs", () => {
+    expect(parseRestTable("https://x.supabase.co/rest/v1/pet?on_conflict=id")).toBe("pet");
+    expect(parseRestTable("https://x.supabase.co/rest/v1/contact_in_pet")).toBe("contact_in_pet");
+  });
+
+  it("returns null for RPC calls and other endpoints", () => {
+    expect(parseRestTable("https://x.supabase.co/rest/v1/rpc/get_breeds")).toBeNull();
+    expect(parseRestTable("https://x.supabase.co/auth/v1/token")).toBeNull();
+  });
+});
+
+describe("getChildQueueReferences", () => {
+  it("returns the parent plus the table's other FK references", () => {
+    expect(
+      getChildQueueReferences("pet", "contact_in_pet", {
+        id: "row-1",
+        pet_id: "pet-1",
+        contact_id: "contact-1",
+      }),
+    ).toEqual([
+      { entityType: "pet", entityId: "pet-1" },
+      { entityType: "contact", entityId: "contact-1" },
+    ]);
+    expect(
+      getChildQueueReferences("pet", "title_in_pet", { id: "row-2", pet_id: "pet-1", title_id: "t" }),
+    ).toEqual([{ entityType: "pet", entityId: "pet-1" }]);
+    expect(getChildQueueReferences("pet", "contact_in_pet", { id: "row-3", pet_id: "pet-1" })).toEqual([
+      { entityType: "pet", entityId: "pet-1" },
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Helpers shared by BackgroundSyncService and the service worker sync
+ * script (apps/app/public/background-sync-sw.js). The worker is a classic
+ * script and can't import this module — the constants and checks below
+ * are repeated there and must stay in step.
+ */
+
+import type { SyncQueueStatus } from '../collections/sync-queue.schema';
+
+/** IndexedDB database holding the worker's config and session. */
+export const BACKGROUND_SYNC_DB_NAME = 'breedhub-background-sync';
+export const BACKGROUND_SYNC_STORE = 'state';
+/** Background Sync / Periodic Background Sync tag. */
+export const BACKGROUND_SYNC_TAG = 'breedhub-sync-queue';
+/** Web Lock held by whoever pushes queue items — a tab or the worker. */
+export const SYNC_QUEUE_LOCK = 'breedhub-sync-queue';
+/**
+ * Queue statuses neither SyncQueueService nor the worker pushes — the items
+ * wait for the user (failed, conflict) or a restored parent (held).
+ */
+export const PARKED_STATUSES: SyncQueueStatus[] = ['failed', 'conflict', 'held'];
+
+/** Where the worker finds one RxDB queue collection. */
+export interface BackgroundSyncQueueLocation {
+  /** IndexedDB name of the collection (see getDexieDbName). */
+  dbName: string;
+  collectionName: string;
+}
+
+/** Stored under the 'config' key — what the worker needs to push. */
+export interface BackgroundSyncConfig {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  entityQueue: BackgroundSyncQueueLocation;
+  childQueue: BackgroundSyncQueueLocation;
+  /** Non-parent FK columns per child table (see getChildTableReferenceMap). */
+  childTableReferences: Record<string, Record<string, string>>;
+}
+
+/** Stored under the 'session' key. Only the access token, never the refresh token. */
+export interface BackgroundSyncSession {
+  accessToken: string;
+  /** Epoch ms */
+  expiresAt: number;
+  userId: string;
+}
+
+/** Tokens closer than this to expiry are not handed to the worker. */
+const SESSION_EXPIRY_MARGIN_MS = 60_000;
+
+/**
+ * IndexedDB name RxDB's Dexie storage uses for a collection. A schema
+ * version bump moves the collection to a new database, so the worker
+ * config is rewritten on every start.
+ */
+export function getDexieDbName(
+  databaseName: string,
+  collectionName: string,
+  schemaVersion: number,
+): string {
+  return `rxdb-dexie-${databaseName}--${schemaVersion}--${collectionName}`;
+}
+
+/** Map a Supabase session to what the worker stores; null when signed out. */
+export function toBackgroundSyncSession(
+  session: {
+    access_token: string;
+    expires_at?: number;
+    user?: { id: string } | null;
+  } | null,
+): BackgroundSyncSession | null {
+  if (!session?.access_token || !session.user || !session.expires_at) return null;
+  return {
+    accessToken: session.access_token,
+    expiresAt: session.expires_at * 1000,
+    userId: session.user.id,
+  };
+}
+
+/**
+ * True while the stored access token can still authorize a push. The
+ * worker never refreshes it — rotating the refresh token there would
+ * invalidate the one the app keeps — so expired sessions wait for a tab.
+ */
+export function isSessionUsable(
+  session: BackgroundSyncSession | null | undefined,
+  now: number,
+): boolean {
+  return !!session && session.expiresAt - SESSION_EXPIRY_MARGIN_MS > now;
+}
+
+/** Queue item fields the worker's due check reads (IndexedDB row of a queue doc). */
+export interface BackgroundSyncQueueRow {
+  status?: string;
+  nextAttemptAt?: number;
+  _deleted?: boolean | string;
+}
+
+/** Live, not parked and past its backoff — the worker's `readDueItems` filter. */
+export function isQueueItemDue(row: BackgroundSyncQueueRow, now: number): boolean {
+  if (row._deleted === '1' || row._deleted === true) return false;
+  if ((PARKED_STATUSES as string[]).includes(row.status ?? '')) return false;
+  return !row.nextAttemptAt || row.nextAttemptAt <= now;
+}
+
+/** Child queue item fields the worker's hold check reads. */
+export interface BackgroundSyncChildRow {
+  entityType: string;
+  tableType: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * True when a child row references an entity — its parent or another FK
+ * column from `tableReferences` — that still has an entity queue item, of
+ * any status. The same hold SyncQueueService applies: pushing the row first
+ * would fail the FK or recreate it under an entity deleted after all.
+ */
+export function isChildItemHeld(
+  row: BackgroundSyncChildRow,
+  queuedEntityIds: ReadonlySet<string>,
+  tableReferences: BackgroundSyncConfig['childTableReferences'],
+): boolean {
+  const columns = [
+    `${row.entityType}_id`,
+    ...Object.keys(tableReferences[row.tableType.replace(/_with_\w+$/, '')] ?? {}),
+  ];
+  return columns.some((column) => {
+    const entityId = row.payload[column];
+    return typeof entityId === 'string' && queuedEntityIds.has(entityId);
+  });
+}
@@ -103,3 +103,29 @@ export function getEntityTypeFromTableType(tableType: string): string | null {
 
   return null;
 }
+
+// ============= Table → Referenced Entities =============
+
+/**
+ * FK columns of a child table that point at an entity other than its parent
+ * (the parent is always `${entityType}_id`), e.g. the contact of a
+ * `contact_in_pet` row. The sync queue holds such rows behind queued edits
+ * of every entity they reference.
+ */
+const tableReferenceMap: Record<string, Record<string, string>> = {
+  contact_in_pet: { contact_id: 'contact' },
+  pet_in_litter: { pet_id: 'pet' },
+  pet_in_contact: { pet_id: 'pet' },
+  pet_in_account: { pet_id: 'pet' },
+  pet_in_program: { program_id: 'program' },
+};
+
+/** FK column → entity type of the non-parent references of a child table. */
+export function getChildTableReferences(tableType: string): Record<string, string> {
+  return tableReferenceMap[tableType.replace(/_with_\w+$/, '')] ?? {};
+}
+
+/** The whole map, keyed by base table name — handed to the background sync worker. */
+export function getChildTableReferenceMap(): Record<string, Record<string, string>> {
+  return tableReferenceMap;
+}
@@ -16,14 +16,31 @@ export type FilterOperator =
   | "lte"
   | "in"
   | "between"
+  | "not_in"
+  | "is_null"
+  | "is_not_null"
+  | "starts_with"
+  | "range"
+  | "date_range"
   | (string & {});
 
+/**
+ * Bounds of a `range` / `date_range` filter. A missing bound is open;
+ * bounds are inclusive unless marked exclusive.
+ */
+export interface FilterRange {
+  from?: string | number;
+  to?: string | number;
+  fromExclusive?: boolean;
+  toExclusive?: boolean;
+}
+
 export interface FilterBuilderFieldConfig {
   orFields?: string[];
 }
 
 export interface RxDBSelectorLike extends Record<string, unknown> {
-  $and?: Array<{ $or: Array<Record<string, unknown>> }>;
+  $and?: Array<Record<string, unknown>>;
 }
 
 export interface RxDBWhereQuery<TQuery> {
@@ -35,6 +52,7 @@ export interface RxDBWhereQuery<TQuery> {
   lt(value: unknown): TQuery;
   lte(value: unknown): TQuery;
   in(values: unknown[]): TQuery;
+  nin(values: unknown[]): TQuery;
 }
 
 export interface RxDBFilterQuery<TQuery> {
@@ -50,6 +68,8 @@ export interface SupabaseFilterQuery<TQuery> {
   lt(fieldName: string, value: unknown): TQuery;
   lte(fieldName: string, value: unknown): TQuery;
   in(fieldName: string, values: unknown[]): TQuery;
+  is(fieldName: string, value: null): TQuery;
+  not(fieldName: string, operator: string, value: unknown): TQuery;
   or(condition: string): TQuery;
 }
 
@@ -75,12 +95,191 @@ export function detectOperator(
       return 'eq';
     case 'date':
     case 'timestamp':
-      return 'gte';
+      return 'date_range';
     default:
       return 'eq';
   }
 }
 
+// ============= Value Resolution =============
+
+const RELATIVE_DATE_PATTERN = /^(last|older_than)_(\d+)_(day|week|month|year)s?$/;
+const INTERVAL_PATTERN = /^([[(])\s*([^,]*?)\s*,\s*([^,]*?)\s*([\])])$/;
+
+/** Values a list operator (`in` / `not_in`) compares against. */
+function toValueList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [value];
+}
+
+function escapeRegex(value: unknown): string {
+  return String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeLikePattern(value: unknown): string {
+  return String(value).replace(/[\\%_]/g, '\\$&');
+}
+
+function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function shiftDate(date: Date, amount: number, unit: string): Date {
+  const shifted = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  switch (unit) {
+    case 'day': shifted.setDate(shifted.getDate() + amount); break;
+    case 'week': shifted.setDate(shifted.getDate() + amount * 7); break;
+    case 'month': shifted.setMonth(shifted.getMonth() + amount); break;
+    case 'year': shifted.setFullYear(shifted.getFullYear() + amount); break;
+  }
+  return shifted;
+}
+
+/**
+ * Parse a range value: a FilterRange, interval notation (`[1,5)`, `(,10]`)
+ * or the `from_to` form `between` uses (both bounds inclusive).
+ */
+export function parseFilterRange(value: unknown): FilterRange | null {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const range = value as FilterRange;
+    return range.from !== undefined || range.to !== undefined ? range : null;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const text = String(value).trim();
+  const interval = INTERVAL_PATTERN.exec(text);
+  const range: FilterRange = {};
+  if (interval) {
+    const [, open, from, to, close] = interval;
+    if (from) {
+      range.from = from;
+      range.fromExclusive = open === '(';
+    }
+    if (to) {
+      range.to = to;
+      range.toExclusive = close === ')';
+    }
+  } else {
+    const [from, to] = text.split('_');
+    if (from) range.from = from;
+    if (to) range.to = to;
+  }
+  return range.from !== undefined || range.to !== undefined ? range : null;
+}
+
+/** Interval notation for a range — the form it takes in URLs. */
+export function formatFilterRange(range: FilterRange): string {
+  const open = range.fromExclusive ? '(' : '[';
+  const close = range.toExclusive ? ')' : ']';
+  return `${open}${range.from ?? ''},${range.to ?? ''}${close}`;
+}
+
+/**
+ * Resolve a relative date token against `now` (local calendar days):
+ *
+ * - `last_<n>_<unit>` — from n days/weeks/months/years ago until now;
+ * - `older_than_<n>_<unit>` — up to and including the day n units ago
+ *   ("older than 8 years" for a birth date);
+ * - `this_month` / `this_year` — the current calendar month / year.
+ *
+ * Bounds are `YYYY-MM-DD` strings, which compare correctly against both
+ * date and timestamp columns. Returns null for anything else.
+ */
+export function resolveRelativeDateRange(
+  token: string,
+  now: Date = new Date(),
+): FilterRange | null {
+  if (token === 'this_year') {
+    return {
+      from: `${now.getFullYear()}-01-01`,
+      to: `${now.getFullYear() + 1}-01-01`,
+      toExclusive: true,
+    };
+  }
+  if (token === 'this_month') {
+    const start = new Date(now.getFullYear(), now.getMonth(), 1);
+    return {
+      from: formatLocalDate(start),
+      to: formatLocalDate(shiftDate(start, 1, 'month')),
+      toExclusive: true,
+    };
+  }
+
+  const match = RELATIVE_DATE_PATTERN.exec(token);
+  if (!match) return null;
+  const [, kind, amount, unit] = match;
+  const cutoff = shiftDate(now, -Number(amount), unit);
+  if (kind === 'last') {
+    return { from: formatLocalDate(cutoff) };
+  }
+  return { to: formatLocalDate(shiftDate(cutoff, 1, 'day')), toExclusive: true };
+}
+
+/**
+ * Bounds a `range` / `date_range` filter value stands for, or null when it
+ * does not parse (the filter is then ignored everywhere).
+ *
+ * - `range` bounds that look numeric become numbers;
+ * - `date_range` takes a relative token, a range, or a single date which
+ *   keeps the old date-field behaviour (on or after that date).
+ */
+export function resolveFilterRange(
+  operator: FilterOperator,
+  value: unknown,
+  now: Date = new Date(),
+): FilterRange | null {
+  if (operator === 'date_range' && typeof value === 'string') {
+    const relative = resolveRelativeDateRange(value.trim(), now);
+    if (relative) return relative;
+    if (!INTERVAL_PATTERN.test(value.trim()) && !value.includes('_')) {
+      return { from: value.trim() };
+    }
+  }
+
+  const range = parseFilterRange(value);
+  if (!range || operator !== 'range') return range;
+
+  const toNumber = (bound: string | number | undefined) => {
+    if (typeof bound !== 'string' || bound.trim() === '') return bound;
+    const numeric = Number(bound);
+    return Number.isFinite(numeric) ? numeric : bound;
+  };
+  return { ...range, from: toNumber(range.from), to: toNumber(range.to) };
+}
+
+/** Order of two comparable values, or null when either is missing or types differ. */
+function compareValues(a: unknown, b: unknown): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) return null;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+}
+
+function matchRange(recordValue: unknown, range: FilterRange): boolean {
+  if (range.from !== undefined) {
+    const order = compareValues(recordValue, range.from);
+    if (order === null || order < 0 || (order === 0 && range.fromExclusive)) return false;
+  }
+  if (range.to !== undefined) {
+    const order = compareValues(recordValue, range.to);
+    if (order === null || order > 0 || (order === 0 && range.toExclusive)) return false;
+  }
+  return true;
+}
+
+/** Comparison operators a range turns into, in from → to order. */
+function rangeComparisons(range: FilterRange): Array<['gt' | 'gte' | 'lt' | 'lte', unknown]> {
+  const comparisons: Array<['gt' | 'gte' | 'lt' | 'lte', unknown]> = [];
+  if (range.from !== undefined) comparisons.push([range.fromExclusive ? 'gt' : 'gte', range.from]);
+  if (range.to !== undefined) comparisons.push([range.toExclusive ? 'lt' : 'lte', range.to]);
+  return comparisons;
+}
+
 /**
  * Match a record field value against the same operator set used to build
  * backend/RxDB filters.
@@ -113,6 +312,24 @@ export function matchRecordValue(
       return (recordValue as any) <= (value as any);
     case 'in':
       return Array.isArray(value) && value.includes(recordValue);
+    case 'not_in': {
+      const values = toValueList(value);
+      return values.length === 0 || (recordValue != null && !values.includes(recordValue));
+    }
+    case 'is_null':
+      return recordValue === null || recordValue === undefined;
+    case 'is_not_null':
+      return recordValue !== null && recordValue !== undefined;
+    case 'starts_with':
+      return (
+        typeof recordValue === 'string' &&
+        recordValue.toLowerCase().startsWith(String(value).toLowerCase())
+      );
+    case 'range':
+    case 'date_range': {
+      const range = resolveFilterRange(operator, value);
+      return !range || matchRange(recordValue, range);
+    }
     default:
       return recordValue === value;
   }
@@ -121,7 +338,9 @@ export function matchRecordValue(
 // ============= RxDB Filters =============
 
 /**
- * Build RxDB condition object from operator + value
+ * Build RxDB condition object from operator + value.
+ * Returns undefined when the value resolves to no condition (empty
+ * `not_in` list, unparseable range).
  */
 export function buildRxDBCondition(
   operator: FilterOperator,
@@ -140,6 +359,22 @@ export function buildRxDBCondition(
     case 'lt': return { $lt: value };
     case 'lte': return { $lte: value };
     case 'in': return { $in: Array.isArray(value) ? value : [value] };
+    // null joins the list so missing values are excluded, as in SQL NOT IN
+    case 'not_in': {
+      const values = toValueList(value);
+      return values.length > 0 ? { $nin: [...values, null] } : undefined;
+    }
+    case 'is_null': return { $eq: null };
+    case 'is_not_null': return { $ne: null };
+    case 'starts_with': return { $regex: `^${escapeRegex(value)}`, $options: 'i' };
+    case 'range':
+    case 'date_range': {
+      const range = resolveFilterRange(operator, value);
+      if (!range) return undefined;
+      return Object.fromEntries(
+        rangeComparisons(range).map(([comparison, bound]) => [`$${comparison}`, bound]),
+      );
+    }
     default: return value;
   }
 }
@@ -157,6 +392,7 @@ export function applyFilterToRxDBSelector(
 ): void {
   const orFields: string[] | undefined = fieldConfig?.orFields;
   const condition = buildRxDBCondition(operator, value);
+  if (condition === undefined) return;
 
   if (orFields && orFields.length > 0) {
     const orConditions = orFields.map(field => ({ [field]: condition }));
@@ -207,6 +443,25 @@ export function applyRxDBFilter<TQuery>(
       if (to) nextQuery = (nextQuery as RxDBFilterQuery<TQuery>).where(fieldName).lte(to);
       return nextQuery;
     }
+    case 'not_in': {
+      const values = toValueList(value);
+      return values.length > 0 ? rxdbQuery.where(fieldName).nin([...values, null]) : query;
+    }
+    case 'is_null':
+      return rxdbQuery.where(fieldName).eq(null);
+    case 'is_not_null':
+      return rxdbQuery.where(fieldName).ne(null);
+    case 'starts_with':
+      return rxdbQuery.where(fieldName).regex(`^${escapeRegex(value)}`);
+    case 'range':
+    case 'date_range': {
+      const range = resolveFilterRange(operator, value);
+      let nextQuery = query;
+      for (const [comparison, bound] of range ? rangeComparisons(range) : []) {
+        nextQuery = (nextQuery as RxDBFilterQuery<TQuery>).where(fieldName)[comparison](bound);
+      }
+      return nextQuery;
+    }
     default:
       console.warn(`[FilterBuilder] Unknown RxDB operator: ${operator}`);
       return query;
@@ -253,6 +508,27 @@ export function applySupabaseFilter<TQuery>(
       if (to) nextQuery = (nextQuery as SupabaseFilterQuery<TQuery>).lte(fieldName, to);
       return nextQuery;
     }
+    case 'not_in': {
+      const values = toValueList(value);
+      return values.length > 0
+        ? supabaseQuery.not(fieldName, 'in', `(${values.join(',')})`)
+        : query;
+    }
+    case 'is_null':
+      return supabaseQuery.is(fieldName, null);
+    case 'is_not_null':
+      return supabaseQuery.not(fieldName, 'is', null);
+    case 'starts_with':
+      return supabaseQuery.ilike(fieldName, `${escapeLikePattern(value)}%`);
+    case 'range':
+    case 'date_range': {
+      const range = resolveFilterRange(operator, value);
+      let nextQuery = query;
+      for (const [comparison, bound] of range ? rangeComparisons(range) : []) {
+        nextQuery = (nextQuery as SupabaseFilterQuery<TQuery>)[comparison](fieldName, bound);
+      }
+      return nextQuery;
+    }
     default:
       console.warn(`[FilterBuilder] Unknown Supabase operator: ${operator}`);
       return query;
@@ -262,7 +538,8 @@ export function applySupabaseFilter<TQuery>(
 // ============= PostgREST Filters =============
 
 /**
- * Build PostgREST filter expression string (e.g., "breed_id.eq.123")
+ * Build PostgREST filter expression string (e.g., "breed_id.eq.123").
+ * Empty when the value resolves to no condition.
  */
 export function buildPostgrestFilterExpr(
   fieldName: string,
@@ -289,6 +566,23 @@ export function buildPostgrestFilterExpr(
       const arr = Array.isArray(value) ? value : [value];
       return `${fieldName}.in.(${arr.join(',')})`;
     }
+    case 'not_in': {
+      const values = toValueList(value);
+      return values.length > 0 ? `${fieldName}.not.in.(${values.join(',')})` : '';
+    }
+    case 'is_null':
+      return `${fieldName}.is.null`;
+    case 'is_not_null':
+      return `${fieldName}.not.is.null`;
+    case 'starts_with':
+      return `${fieldName}.ilike.${escapeLikePattern(value)}%`;
+    case 'range':
+    case 'date_range': {
+      const range = resolveFilterRange(operator, value);
+      const parts = (range ? rangeComparisons(range) : [])
+        .map(([comparison, bound]) => `${fieldName}.${comparison}.${bound}`);
+      return parts.length > 1 ? `and(${parts.join(',')})` : parts[0] ?? '';
+    }
     default:
       return `${fieldName}.eq.${value}`;
   }
@@ -312,8 +606,9 @@ export function applySupabaseFilterWithOrFields<TQuery>(
   if (orFields && orFields.length > 0) {
     const orCondition = orFields
       .map(field => buildPostgrestFilterExpr(field, operator, value))
+      .filter(Boolean)
       .join(',');
-    return supabaseQuery.or(orCondition);
+    return orCondition ? supabaseQuery.or(orCondition) : query;
   }
 
   return applySupabaseFilter(query, fieldKey, operator, value);
@@ -0,0 +1,76 @@
+/**
+ * Presence helpers: who else has an entity page open, and what they do there.
+ *
+ * Every open entity page (TabPageTemplate / EditPageTemplate) tracks one
+ * presence state on the entity's topic. A tab is one session; the same user
+ * may appear with several sessions (two tabs, phone + laptop), so members
+ * are collapsed per user for display.
+ */
+
+export type PresenceMode = 'viewing' | 'editing';
+
+export interface PresenceState {
+  /** One per browser tab — lets a tab recognise (and skip) itself */
+  sessionId: string;
+  userId: string | null;
+  name: string | null;
+  avatar: string | null;
+  mode: PresenceMode;
+  /** ISO timestamp the session opened the page */
+  since: string;
+}
+
+/** Another user (or another tab of the current user) on the same entity. */
+export interface PresenceMember extends PresenceState {
+  /** Sessions this user has open on the entity */
+  sessions: number;
+}
+
+/** Broadcast by a session right after it saved the entity. */
+export interface PresenceSaveEvent {
+  sessionId: string;
+  userId: string | null;
+  name: string | null;
+  /** `updated_at` written by the save */
+  updatedAt: string;
+}
+
+export function getPresenceTopic(entityType: string, entityId: string): string {
+  return `presence:${entityType}:${entityId}`;
+}
+
+/**
+ * Members to show for a topic: every session except our own, collapsed per
+ * user (anonymous sessions stay separate). A user editing in any session
+ * counts as editing. Editors first, then by arrival.
+ */
+export function collectPresenceMembers(
+  states: PresenceState[],
+  selfSessionId: string,
+): PresenceMember[] {
+  const byUser = new Map<string, PresenceMember>();
+  for (const state of states) {
+    if (state.sessionId === selfSessionId) continue;
+    const key = state.userId ?? `session:${state.sessionId}`;
+    const existing = byUser.get(key);
+    if (!existing) {
+      byUser.set(key, { ...state, sessions: 1 });
+      continue;
+    }
+    existing.sessions += 1;
+    if (state.mode === 'editing') existing.mode = 'editing';
+    if (state.since < existing.since) existing.since = state.since;
+  }
+  return [...byUser.values()].sort((a, b) => {
+    if (a.mode !== b.mode) return a.mode === 'editing' ? -1 : 1;
+    return a.since.localeCompare(b.since);
+  });
+}
+
+/** Mode to publish when several holders in this tab share one topic. */
+export function resolvePresenceMode(modes: Iterable<PresenceMode>): PresenceMode {
+  for (const mode of modes) {
+    if (mode === 'editing') return 'editing';
+  }
+  return 'viewing';
+}
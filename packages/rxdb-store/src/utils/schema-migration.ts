@@ -0,0 +1,292 @@
+/**
+ * Schema Migration - per-collection RxDB schema versions driven by config.
+ *
+ * Entity schemas are generated from app_config fields, so a config deploy
+ * can change a collection's schema. Instead of wiping IndexedDB, every
+ * collection keeps its own version in localStorage together with the field
+ * set it was built from. When the generated field set differs, the version
+ * is bumped and a migration strategy is generated from the diff:
+ * added fields get defaults, removed fields are dropped, changed types are
+ * coerced. The full wipe stays as the fallback when a migration throws
+ * (see recoverCollectionSchemaMismatch).
+ */
+
+export const SCHEMA_VERSIONS_KEY = 'breedhub_schema_versions';
+/** Global config hash of the old wipe-and-reload check; superseded by the registry */
+const LEGACY_SCHEMA_HASH_KEY = 'breedhub_schema_hash';
+
+interface PropertySchemaLike {
+  type?: string | string[];
+  maxLength?: number;
+  [key: string]: unknown;
+}
+
+export interface VersionedSchemaLike {
+  version: number;
+  properties: Record<string, PropertySchemaLike>;
+  required?: readonly string[];
+}
+
+/** field → serialized property schema (incl. required flag) */
+export type SchemaFieldSignature = Record<string, string>;
+
+export interface CollectionSchemaVersion {
+  version: number;
+  fields: SchemaFieldSignature;
+}
+
+export type SchemaVersionRegistry = Record<string, CollectionSchemaVersion>;
+
+export interface SchemaFieldDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+type MigrationDoc = Record<string, unknown>;
+export type SchemaMigrationStrategy = (oldDoc: MigrationDoc) => MigrationDoc;
+
+export interface CollectionSchemaPlan<TSchema extends VersionedSchemaLike> {
+  /** Schema with the resolved collection version */
+  schema: TSchema;
+  /** Generated strategies for the versions above the schema's base version */
+  migrationStrategies: Record<number, SchemaMigrationStrategy>;
+  /** Field changes since the stored version; null when nothing changed */
+  diff: SchemaFieldDiff | null;
+  /** Registry entry to persist once the collection opened */
+  entry: CollectionSchemaVersion;
+}
+
+interface StorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Everything about a field that changes RxDB's schema hash. */
+export function getSchemaFieldSignature(schema: VersionedSchemaLike): SchemaFieldSignature {
+  const required = new Set(schema.required ?? []);
+  const signature: SchemaFieldSignature = {};
+  for (const [field, property] of Object.entries(schema.properties)) {
+    signature[field] = stableStringify({ ...property, required: required.has(field) });
+  }
+  return signature;
+}
+
+export function diffSchemaFields(
+  previous: SchemaFieldSignature,
+  next: SchemaFieldSignature,
+): SchemaFieldDiff {
+  const diff: SchemaFieldDiff = { added: [], removed: [], changed: [] };
+  for (const field of Object.keys(next)) {
+    if (!(field in previous)) diff.added.push(field);
+    else if (previous[field] !== next[field]) diff.changed.push(field);
+  }
+  for (const field of Object.keys(previous)) {
+    if (!(field in next)) diff.removed.push(field);
+  }
+  return diff;
+}
+
+function hasFieldChanges(diff: SchemaFieldDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+function getTypes(property: PropertySchemaLike): string[] {
+  if (!property.type) return [];
+  return Array.isArray(property.type) ? property.type : [property.type];
+}
+
+function getBaseType(property: PropertySchemaLike): string | undefined {
+  return getTypes(property).find((type) => type !== 'null');
+}
+
+function allowsNull(property: PropertySchemaLike): boolean {
+  return getTypes(property).includes('null');
+}
+
+/** Value for a field added to existing documents. */
+export function getFieldDefault(property: PropertySchemaLike): unknown {
+  if (allowsNull(property)) return null;
+  switch (getBaseType(property)) {
+    case 'string':
+      return '';
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return {};
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a stored value to the field's new type. Throws when a value of a
+ * required field cannot be converted — the caller falls back to the wipe.
+ */
+export function coerceFieldValue(
+  field: string,
+  value: unknown,
+  property: PropertySchemaLike,
+): unknown {
+  const baseType = getBaseType(property);
+  if (value === null || value === undefined || !baseType) {
+    return value === undefined ? getFieldDefault(property) : value;
+  }
+
+  let coerced: unknown;
+  switch (baseType) {
+    case 'string': {
+      const text = typeof value === 'string'
+        ? value
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      coerced = property.maxLength ? text.slice(0, property.maxLength) : text;
+      break;
+    }
+    case 'number':
+    case 'integer': {
+      const num = typeof value === 'number' ? value : Number(value);
+      coerced = Number.isFinite(num) ? num : undefined;
+      break;
+    }
+    case 'boolean':
+      coerced = typeof value === 'boolean'
+        ? value
+        : value === 'true' || value === 1 || value === '1'
+          ? true
+          : value === 'false' || value === 0 || value === '0'
+            ? false
+            : undefined;
+      break;
+    case 'array':
+    case 'object': {
+      let parsed: unknown = value;
+      if (typeof value === 'string') {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          parsed = undefined;
+        }
+      }
+      const isArray = Array.isArray(parsed);
+      const matches = baseType === 'array'
+        ? isArray
+        : !!parsed && typeof parsed === 'object' && !isArray;
+      coerced = matches ? parsed : undefined;
+      break;
+    }
+    default:
+      coerced = value;
+  }
+
+  if (coerced !== undefined) return coerced;
+  if (allowsNull(property)) return null;
+  throw new Error(`Cannot migrate field "${field}" value ${JSON.stringify(value)} to ${baseType}`);
+}
+
+/** Migration strategy for one version step, generated from the field diff. */
+export function buildFieldMigration(
+  diff: SchemaFieldDiff,
+  properties: Record<string, PropertySchemaLike>,
+): SchemaMigrationStrategy {
+  return (oldDoc) => {
+    const doc: MigrationDoc = { ...oldDoc };
+    for (const field of diff.removed) {
+      delete doc[field];
+    }
+    for (const field of diff.added) {
+      if (field in doc) continue;
+      const value = getFieldDefault(properties[field]);
+      if (value !== undefined) doc[field] = value;
+    }
+    for (const field of diff.changed) {
+      const value = coerceFieldValue(field, doc[field], properties[field]);
+      if (value === undefined) delete doc[field];
+      else doc[field] = value;
+    }
+    return doc;
+  };
+}
+
+/**
+ * Resolve the collection version for a freshly generated schema against
+ * the stored entry: same field set keeps the stored version, a different
+ * one bumps it by one and generates the migration for the bump.
+ */
+export function planCollectionSchema<TSchema extends VersionedSchemaLike>(
+  schema: TSchema,
+  previous?: CollectionSchemaVersion,
+): CollectionSchemaPlan<TSchema> {
+  const fields = getSchemaFieldSignature(schema);
+  const diff = previous ? diffSchemaFields(previous.fields, fields) : null;
+  const changed = !!diff && hasFieldChanges(diff);
+  const version = Math.max(
+    schema.version,
+    previous ? previous.version + (changed ? 1 : 0) : schema.version,
+  );
+
+  // Every version above the base needs a strategy. Docs sit at the stored
+  // version, so only the last step does real work; earlier ones are
+  // idempotent re-runs of the same diff for docs that skipped a deploy.
+  const migration = buildFieldMigration(
+    changed ? diff! : { added: [], removed: [], changed: [] },
+    schema.properties,
+  );
+  const migrationStrategies: Record<number, SchemaMigrationStrategy> = {};
+  for (let step = schema.version + 1; step <= version; step++) {
+    migrationStrategies[step] = migration;
+  }
+
+  return {
+    schema: { ...schema, version },
+    migrationStrategies,
+    diff: changed ? diff : null,
+    entry: { version, fields },
+  };
+}
+
+export function readSchemaVersions(storage: StorageLike): SchemaVersionRegistry {
+  try {
+    const raw = storage.getItem(SCHEMA_VERSIONS_KEY);
+    return raw ? (JSON.parse(raw) as SchemaVersionRegistry) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Persist a collection's version once it opened with its (migrated) schema.
+ * Also drops the legacy global hash, which nothing reads any more.
+ */
+export function writeSchemaVersion(
+  storage: StorageLike,
+  collectionName: string,
+  entry: CollectionSchemaVersion,
+): void {
+  const registry = readSchemaVersions(storage);
+  registry[collectionName] = entry;
+  try {
+    storage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify(registry));
+    storage.removeItem(LEGACY_SCHEMA_HASH_KEY);
+  } catch (error) {
+    console.warn('[SchemaMigration] Failed to persist schema versions:', error);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Local full-text search index over cached entities.
+ *
+ * An inverted index (token → documents) built from a few weighted text
+ * fields per entity — name, kennel, identifiers. Text is transliterated
+ * with the slug tables, so "Шарик", "sharik" and "Šárik" meet on the same
+ * tokens. Each query token matches an indexed token exactly, as a prefix
+ * (the last token is usually still being typed) or within a small edit
+ * distance; every query token has to match (AND).
+ *
+ * Pure data structure — which fields feed it and when it is updated is
+ * SearchIndexService's business.
+ */
+
+import { transliterate } from './slug-generator';
+
+export interface SearchIndexField {
+  text: string | null | undefined;
+  /** Relative importance — a hit in `name` outranks one in the kennel name */
+  weight: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const FUZZY_SCORE = 0.6;
+const FUZZY_PREFIX_SCORE = 0.5;
+/** Bonus for a document whose first field starts with the whole query */
+const LEADING_MATCH_BONUS = 1;
+
+/** Transliterated, lowercased text with everything but letters/digits as single spaces. */
+export function normalizeSearchText(text: string | null | undefined): string {
+  return transliterate(text ?? '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function tokenizeSearchText(text: string | null | undefined): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? Array.from(new Set(normalized.split(' '))) : [];
+}
+
+/** Typos tolerated in a query token: none below 4 chars, 1 up to 7, then 2. */
+export function getTypoBudget(tokenLength: number): number {
+  if (tokenLength < 4) return 0;
+  if (tokenLength < 8) return 1;
+  return 2;
+}
+
+/**
+ * Optimal-string-alignment distance (insert / delete / substitute / swap
+ * neighbours), cut off at `max` — returns `max + 1` as soon as it is clear
+ * the distance is larger.
+ */
+export function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (a === b) return 0;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return Math.min(prev[b.length], max + 1);
+}
+
+/** How well an indexed token answers a query token (0 = not at all). */
+function matchToken(queryToken: string, token: string): number {
+  if (token === queryToken) return EXACT_SCORE;
+  if (token.startsWith(queryToken)) return PREFIX_SCORE;
+
+  const budget = getTypoBudget(queryToken.length);
+  if (budget === 0) return 0;
+  if (boundedEditDistance(queryToken, token, budget) <= budget) return FUZZY_SCORE;
+  if (
+    token.length > queryToken.length &&
+    boundedEditDistance(queryToken, token.slice(0, queryToken.length), budget) <= budget
+  ) {
+    return FUZZY_PREFIX_SCORE;
+  }
+  return 0;
+}
+
+export class SearchIndex {
+  /** token → document id → best field weight the token appears in */
+  private postings = new Map<string, Map<string, number>>();
+  /** document id → its tokens, so a document can be removed */
+  private documents = new Map<string, Set<string>>();
+  /** document id → normalized text of its first field */
+  private leadingText = new Map<string, string>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /** Index (or re-index) a document. The first field is its display name. */
+  set(id: string, fields: SearchIndexField[]): void {
+    this.remove(id);
+
+    const tokens = new Set<string>();
+    for (const field of fields) {
+      for (const token of tokenizeSearchText(field.text)) {
+        tokens.add(token);
+        let postings = this.postings.get(token);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(token, postings);
+        }
+        postings.set(id, Math.max(postings.get(id) ?? 0, field.weight));
+      }
+    }
+    if (tokens.size === 0) return;
+
+    this.documents.set(id, tokens);
+    this.leadingText.set(id, normalizeSearchText(fields[0]?.text));
+  }
+
+  remove(id: string): void {
+    const tokens = this.documents.get(id);
+    if (!tokens) return;
+    for (const token of tokens) {
+      const postings = this.postings.get(token);
+      postings?.delete(id);
+      if (postings?.size === 0) this.postings.delete(token);
+    }
+    this.documents.delete(id);
+    this.leadingText.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.leadingText.clear();
+  }
+
+  /** Documents matching every query token, best first (ties by id). */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const queryTokens = tokenizeSearchText(query);
+    if (queryTokens.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const queryToken of queryTokens) {
+      const tokenScores = new Map<string, number>();
+      for (const [token, postings] of this.postings) {
+        const match = matchToken(queryToken, token);
+        if (match === 0) continue;
+        for (const [id, weight] of postings) {
+          if (scores && !scores.has(id)) continue;
+          const score = match * weight;
+          if (score > (tokenScores.get(id) ?? 0)) tokenScores.set(id, score);
+        }
+      }
+
+      if (scores) {
+        for (const [id, score] of tokenScores) {
+          tokenScores.set(id, score + (scores.get(id) ?? 0));
+        }
+      }
+      scores = tokenScores;
+      if (scores.size === 0) return [];
+    }
+
+    const normalizedQuery = queryTokens.join(' ');
+    const hits: SearchHit[] = [];
+    for (const [id, score] of scores ?? []) {
+      const leading = this.leadingText.get(id) ?? '';
+      hits.push({
+        id,
+        score: leading.startsWith(normalizedQuery) ? score + LEADING_MATCH_BONUS : score,
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    return options.limit !== undefined ? hits.slice(0, options.limit) : hits;
+  }
+}
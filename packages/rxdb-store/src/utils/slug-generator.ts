@@ -26,19 +26,28 @@ const CHAR_MAP: Record<string, string> = {
   'ы':'y','э':'e','і':'i','ґ':'g',
 };
 
-export function generateSlug(name: string, id: string): string {
-  let slug = (name || '').toLowerCase().trim();
+/**
+ * Lowercase and transliterate Cyrillic / accented Latin to plain ASCII
+ * letters. Characters outside the tables pass through unchanged.
+ * Shared by slugs and the local search index.
+ */
+export function transliterate(text: string): string {
+  let result = (text || '').toLowerCase().trim();
 
   // Multi-char replacements (order matters: щ before ш)
   for (const [from, to] of MULTI_CHAR) {
-    slug = slug.split(from).join(to);
+    result = result.split(from).join(to);
   }
 
   // Remove soft/hard signs
-  slug = slug.split('ъ').join('').split('ь').join('');
+  result = result.split('ъ').join('').split('ь').join('');
 
   // Single-char transliteration
-  slug = Array.from(slug).map(ch => CHAR_MAP[ch] ?? ch).join('');
+  return Array.from(result).map(ch => CHAR_MAP[ch] ?? ch).join('');
+}
+
+export function generateSlug(name: string, id: string): string {
+  let slug = transliterate(name);
 
   // Replace non-alphanumeric with hyphens, collapse, trim
   slug = slug
@@ -0,0 +1,196 @@
+/**
+ * Helpers for sync-queue conflict detection and per-field resolution.
+ *
+ * A queued entity mutation carries `baseUpdatedAt` — the `updated_at` the
+ * local document had when the user started editing — and `baseSnapshot`,
+ * the field values at that point. Before pushing (and whenever a pull
+ * brings a newer server row), the queue compares it with the server row;
+ * if someone else saved in between, the two edits are merged per field
+ * against the snapshot. Only fields both sides changed to different values
+ * park the item as a conflict.
+ */
+
+/** Bookkeeping columns that always differ and never count as a conflict. */
+const CONFLICT_IGNORED_FIELDS = new Set([
+  'updated_at',
+  'updated_by',
+  'created_at',
+  'created_by',
+  'cachedAt',
+]);
+
+export type ConflictFieldChoice =
+  | { kind: 'mine' }
+  | { kind: 'theirs' }
+  | { kind: 'merge'; value: unknown };
+
+export interface ConflictField {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface ThreeWayMergeResult {
+  /** Payload to push: mine, plus the server's changes to fields I left alone. */
+  merged: Record<string, unknown>;
+  /** Fields both sides changed to different values — `merged` keeps mine. */
+  conflicts: ConflictField[];
+}
+
+function toTime(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // null and undefined both mean "empty" for a Supabase column
+  if (a == null && b == null) return true;
+  if (typeof a === 'object' && typeof b === 'object' && a && b) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/**
+ * True when the server row was saved after the edit's base version.
+ * Missing timestamps are treated as "no divergence" so legacy queue items
+ * (enqueued before `baseUpdatedAt` existed) keep the old push behaviour.
+ */
+export function isServerDiverged(
+  baseUpdatedAt: string | undefined,
+  serverUpdatedAt: unknown,
+): boolean {
+  const base = toTime(baseUpdatedAt);
+  const server = toTime(serverUpdatedAt);
+  if (base === null || server === null) return false;
+  return server > base;
+}
+
+/**
+ * Fields where the local payload and the server row disagree.
+ * Only fields present in the local payload are compared — the push never
+ * touches columns it doesn't send.
+ */
+export function diffConflictFields(
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+): ConflictField[] {
+  const fields: ConflictField[] = [];
+  for (const field of Object.keys(mine)) {
+    if (CONFLICT_IGNORED_FIELDS.has(field) || field === 'id') continue;
+    if (!(field in theirs)) continue;
+    if (!valuesEqual(mine[field], theirs[field])) {
+      fields.push({ field, mine: mine[field], theirs: theirs[field] });
+    }
+  }
+  return fields;
+}
+
+/**
+ * Three-way merge of a local payload (`mine`) and the server row (`theirs`)
+ * against the version the local edit started from (`base`). Per field:
+ * changed on one side only → that side wins; changed on both sides to the
+ * same value → fine; changed on both sides differently → conflict. A field
+ * missing from the base counts as changed, so it can only conflict, never
+ * be silently overwritten. Like diffConflictFields, only payload fields
+ * the server returns are considered.
+ */
+export function threeWayMerge(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+): ThreeWayMergeResult {
+  const merged: Record<string, unknown> = { ...mine };
+  const conflicts: ConflictField[] = [];
+  for (const field of Object.keys(mine)) {
+    if (CONFLICT_IGNORED_FIELDS.has(field) || field === 'id') continue;
+    if (!(field in theirs) || valuesEqual(mine[field], theirs[field])) continue;
+    const mineChanged = !(field in base) || !valuesEqual(base[field], mine[field]);
+    const theirsChanged = !(field in base) || !valuesEqual(base[field], theirs[field]);
+    if (!mineChanged) {
+      merged[field] = theirs[field];
+    } else if (theirsChanged) {
+      conflicts.push({ field, mine: mine[field], theirs: theirs[field] });
+    }
+  }
+  return { merged, conflicts };
+}
+
+/**
+ * Merge a queued payload with the current server row before pushing.
+ * The payload goes out unchanged when the server wasn't saved after our
+ * base or the last save was our own. Otherwise items with a base snapshot
+ * are merged three-way; legacy items (no snapshot) conflict on every field
+ * that differs from the server.
+ */
+export function mergeWithServer(
+  payload: Record<string, unknown>,
+  baseUpdatedAt: string | undefined,
+  serverRow: Record<string, unknown> | null | undefined,
+  baseSnapshot?: Record<string, unknown>,
+): ThreeWayMergeResult {
+  if (!serverRow || !isServerDiverged(baseUpdatedAt, serverRow.updated_at)) {
+    return { merged: payload, conflicts: [] };
+  }
+  if (
+    payload.updated_by &&
+    serverRow.updated_by &&
+    payload.updated_by === serverRow.updated_by
+  ) {
+    return { merged: payload, conflicts: [] };
+  }
+  if (baseSnapshot) return threeWayMerge(baseSnapshot, payload, serverRow);
+  return { merged: payload, conflicts: diffConflictFields(payload, serverRow) };
+}
+
+/**
+ * Detect a real conflict between a queued payload and the current server row.
+ * Returns the conflicting fields, or an empty array when the push is safe
+ * (see mergeWithServer).
+ */
+export function detectConflict(
+  payload: Record<string, unknown>,
+  baseUpdatedAt: string | undefined,
+  serverRow: Record<string, unknown> | null | undefined,
+  baseSnapshot?: Record<string, unknown>,
+): ConflictField[] {
+  return mergeWithServer(payload, baseUpdatedAt, serverRow, baseSnapshot).conflicts;
+}
+
+/**
+ * Fields of a parked conflict the user has to decide on: the true
+ * same-field conflicts when the item has a base snapshot, every differing
+ * field otherwise.
+ */
+export function getConflictFields(item: {
+  payload: Record<string, unknown>;
+  serverPayload?: Record<string, unknown>;
+  baseSnapshot?: Record<string, unknown>;
+}): ConflictField[] {
+  const theirs = item.serverPayload ?? {};
+  return item.baseSnapshot
+    ? threeWayMerge(item.baseSnapshot, item.payload, theirs).conflicts
+    : diffConflictFields(item.payload, theirs);
+}
+
+/**
+ * Build the payload to push after the user resolved a conflict.
+ * Unlisted conflicting fields default to "keep mine".
+ */
+export function applyConflictResolution(
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  choices: Record<string, ConflictFieldChoice>,
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = { ...mine };
+  for (const [field, choice] of Object.entries(choices)) {
+    if (choice.kind === 'theirs') {
+      resolved[field] = theirs[field];
+    } else if (choice.kind === 'merge') {
+      resolved[field] = choice.value;
+    }
+  }
+  return resolved;
+}
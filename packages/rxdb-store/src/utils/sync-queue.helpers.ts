@@ -3,6 +3,8 @@
  * Extracted from EntityReplicationService push handlers.
  */
 
+import { getChildTableReferences } from './child-collection-registry';
+
 /**
  * Transform RxDB entity document to Supabase-ready payload.
  * Same logic as EntityReplicationService.mapRxDBToSupabase().
@@ -61,6 +63,46 @@ export function buildChildPayload(
   return supabaseRow;
 }
 
+/**
+ * Parent entity id of a queued child payload — the `${entityType}_id`
+ * column written by buildChildPayload.
+ */
+export function getChildQueueParentId(
+  entityType: string,
+  payload: Record<string, unknown>,
+): string | null {
+  const parentId = payload[`${entityType}_id`];
+  return typeof parentId === 'string' ? parentId : null;
+}
+
+/** An entity a queued child row points at. */
+export interface ChildQueueReference {
+  entityType: string;
+  entityId: string;
+}
+
+/**
+ * Every entity a queued child payload references: its parent plus the
+ * table's other FK columns from the child collection registry
+ * (e.g. `contact_in_pet.contact_id`).
+ */
+export function getChildQueueReferences(
+  entityType: string,
+  tableType: string,
+  payload: Record<string, unknown>,
+): ChildQueueReference[] {
+  const columns: Record<string, string> = {
+    [`${entityType}_id`]: entityType,
+    ...getChildTableReferences(tableType),
+  };
+  const references: ChildQueueReference[] = [];
+  for (const [column, referencedType] of Object.entries(columns)) {
+    const entityId = payload[column];
+    if (typeof entityId === 'string') references.push({ entityType: referencedType, entityId });
+  }
+  return references;
+}
+
 /**
  * Get onConflict string for Supabase upsert.
  * Partitioned tables need composite key: 'id,breed_id'.
@@ -68,3 +110,129 @@ export function buildChildPayload(
 export function getOnConflict(entityType: string, partitionKey?: string): string {
   return partitionKey ? `id,${partitionKey}` : 'id';
 }
+
+/** Error details persisted on a queue item after a failed push. */
+export interface SyncPushError {
+  message: string;
+  /** PostgREST / Postgres SQLSTATE code, e.g. '23503' for an FK violation. */
+  code?: string;
+  /** HTTP status of the response; 0 or absent when the request never got one. */
+  status?: number;
+  /** Server-requested wait from a 429 Retry-After header. */
+  retryAfterMs?: number;
+}
+
+/**
+ * True when a failed batch push was rejected because of the data in some row
+ * (SQLSTATE class 22 "data exception" or 23 "integrity constraint violation").
+ * Only these are worth bisecting — the other rows in the batch are likely fine.
+ * Network, auth and schema errors fail every row the same way, so splitting
+ * the batch would just multiply requests.
+ */
+export function isRowLevelPushError(error: SyncPushError): boolean {
+  return !!error.code && (error.code.startsWith('22') || error.code.startsWith('23'));
+}
+
+export type PushErrorKind = 'retryable' | 'permanent';
+
+/**
+ * SQLSTATE classes that describe the server's state, not the row:
+ * 08 connection, 40 transaction rollback (deadlock / serialization),
+ * 53 insufficient resources, 57 operator intervention (statement timeout).
+ */
+const RETRYABLE_SQLSTATE_CLASSES = ['08', '40', '53', '57'];
+
+/**
+ * Decide whether pushing the same payload again can succeed.
+ * Retryable: network errors (no status), 408, 429, 5xx, expired JWT (401 —
+ * the session refreshes in the background) and transient SQLSTATE classes.
+ * Permanent: row-level data/constraint errors and any other 4xx — retrying
+ * them only burns requests until the user edits or discards the change.
+ */
+export function classifyPushError(error: SyncPushError): PushErrorKind {
+  const { status, code } = error;
+  if (status === 408 || status === 429 || status === 401) return 'retryable';
+  if (status !== undefined && status >= 500) return 'retryable';
+  if (code && RETRYABLE_SQLSTATE_CLASSES.some((cls) => code.startsWith(cls))) {
+    return 'retryable';
+  }
+  if (isRowLevelPushError(error)) return 'permanent';
+  if (status !== undefined && status >= 400) return 'permanent';
+  return 'retryable';
+}
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 15 * 60_000;
+
+/**
+ * Next time a failed queue item may be pushed: exponential backoff
+ * (5 s, 10 s, 20 s … capped at 15 min) with "equal jitter" — half the delay
+ * is fixed, half random — so items that failed together (e.g. during an
+ * outage) don't all come back in the same pass. A server Retry-After wins
+ * when it asks for a longer wait.
+ */
+export function computeNextAttemptAt(
+  retries: number,
+  now: number,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(
+    BACKOFF_MAX_MS,
+    BACKOFF_BASE_MS * 2 ** Math.max(0, retries - 1),
+  );
+  const delay = exponential / 2 + random() * (exponential / 2);
+  return now + Math.round(Math.max(delay, retryAfterMs ?? 0));
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ * Returns null when the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now: number): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = new Date(header).getTime();
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Table a PostgREST request URL targets, e.g. 'pet' for
+ * `/rest/v1/pet?on_conflict=id`. Null for RPC calls and other endpoints.
+ */
+export function parseRestTable(url: string): string | null {
+  const match = /\/rest\/v1\/([^/?#]+)/.exec(url);
+  if (!match || match[1] === 'rpc') return null;
+  return decodeURIComponent(match[1]);
+}
+
+export interface QueuedPayloadDiffRow {
+  field: string;
+  queued: unknown;
+  local: unknown;
+  changed: boolean;
+}
+
+/**
+ * Field-by-field comparison of a queued payload with the current local
+ * record (sync inspector). `local` is null when the record is no longer
+ * cached — every queued field then counts as changed.
+ */
+export function diffQueuedPayload(
+  queued: Record<string, unknown>,
+  local: Record<string, unknown> | null,
+): QueuedPayloadDiffRow[] {
+  const fields = new Set([...Object.keys(queued), ...Object.keys(local ?? {})]);
+  return [...fields].map((field) => {
+    const queuedValue = queued[field];
+    const localValue = local ? local[field] : undefined;
+    return {
+      field,
+      queued: queuedValue,
+      local: localValue,
+      changed: !local || JSON.stringify(queuedValue) !== JSON.stringify(localValue),
+    };
+  });
+}
@@ -46,6 +46,8 @@ interface DropdownInputProps
   defaultFilters?: Record<string, any>;
   // Style variant for disabled state
   disabledOnGray?: boolean; // Use white background when disabled (for gray backgrounds)
+  // Facet counts per option value (filters): shown next to the label, 0 dimmed
+  optionCounts?: Record<string, number> | null;
 }
 
 export const DropdownInput = forwardRef<HTMLInputElement, DropdownInputProps>(
@@ -71,6 +73,7 @@ export const DropdownInput = forwardRef<HTMLInputElement, DropdownInputProps>(
       filterByIds,
       defaultFilters,
       disabledOnGray,
+      optionCounts,
       ...props
     },
     ref
@@ -455,26 +458,37 @@ export const DropdownInput = forwardRef<HTMLInputElement, DropdownInputProps>(
               </div>
             ) : (
               <>
-                {displayOptions.map((option) => (
-                  <div
-                    key={option.value}
-                    onClick={() => handleSelect(option)}
-                    className={cn(
-                      "px-3 py-2 cursor-pointer transition-colors flex items-center justify-between",
-                      "hover:bg-slate-100",
-                      option.disabled && "opacity-50 cursor-not-allowed",
-                      option.value === value && "bg-primary-50 text-primary-700"
-                    )}
-                    role="option"
-                    aria-selected={option.value === value}
-                    aria-disabled={option.disabled}
-                  >
-                    <span>{option.label}</span>
-                    {option.value === value && (
-                      <Check className="h-4 w-4 text-primary-600" />
-                    )}
-                  </div>
-                ))}
+                {displayOptions.map((option) => {
+                  const count = optionCounts ? optionCounts[option.value] ?? 0 : undefined;
+                  return (
+                    <div
+                      key={option.value}
+                      onClick={() => handleSelect(option)}
+                      className={cn(
+                        "px-3 py-2 cursor-pointer transition-colors flex items-center justify-between",
+                        "hover:bg-slate-100",
+                        option.disabled && "opacity-50 cursor-not-allowed",
+                        count === 0 && option.value !== value && "text-slate-400",
+                        option.value === value && "bg-primary-50 text-primary-700"
+                      )}
+                      role="option"
+                      aria-selected={option.value === value}
+                      aria-disabled={option.disabled}
+                    >
+                      <span>{option.label}</span>
+                      <span className="flex items-center gap-2">
+                        {count !== undefined && (
+                          <span className="text-xs tabular-nums text-slate-400">
+                            {count}
+                          </span>
+                        )}
+                        {option.value === value && (
+                          <Check className="h-4 w-4 text-primary-600" />
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
                 {loading && (
                   <div className="px-3 py-2 text-center text-sm text-slate-500">
                     <span className="inline-block animate-spin mr-2">⏳</span>
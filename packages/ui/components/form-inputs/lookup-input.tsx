@@ -48,6 +48,8 @@ interface LookupInputProps
   defaultFilters?: Record<string, any>;
   // Style variant for disabled state
   disabledOnGray?: boolean; // Use white background when disabled (for gray backgrounds)
+  // Facet counts per option value (filters): shown next to the label, 0 dimmed
+  optionCounts?: Record<string, number> | null;
 }
 
 export const LookupInput = forwardRef<HTMLInputElement, LookupInputProps>(
@@ -77,6 +79,7 @@ export const LookupInput = forwardRef<HTMLInputElement, LookupInputProps>(
       defaultFilters: staticDefaultFilters,
       disabled,
       disabledOnGray,
+      optionCounts,
       ...props
     },
     ref
@@ -786,25 +789,34 @@ export const LookupInput = forwardRef<HTMLInputElement, LookupInputProps>(
             <div className="px-3 py-1 text-xs text-slate-400 border-b border-slate-100 bg-slate-50 sticky top-0">
               Showing {filteredOptions.length} {label ? label.toLowerCase() : 'results'}
             </div>
-            {filteredOptions.map((option, index) => (
-              <div
-                key={option.value}
-                onClick={() => handleSelect(option)}
-                className={cn(
-                  "px-3 py-2 cursor-pointer transition-colors",
-                  "hover:bg-slate-100",
-                  highlightedIndex === index && "bg-slate-100",
-                  option.value === value && "bg-primary-50 text-primary-700"
-                )}
-              >
-                <div className="">{option.label}</div>
-                {option.description && (
-                  <div className="text-sm text-slate-500">
-                    {option.description}
+            {filteredOptions.map((option, index) => {
+              const count = optionCounts ? optionCounts[option.value] ?? 0 : undefined;
+              return (
+                <div
+                  key={option.value}
+                  onClick={() => handleSelect(option)}
+                  className={cn(
+                    "px-3 py-2 cursor-pointer transition-colors",
+                    "hover:bg-slate-100",
+                    highlightedIndex === index && "bg-slate-100",
+                    count === 0 && option.value !== value && "text-slate-400",
+                    option.value === value && "bg-primary-50 text-primary-700"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span>{option.label}</span>
+                    {count !== undefined && (
+                      <span className="text-xs tabular-nums text-slate-400">{count}</span>
+                    )}
                   </div>
-                )}
-              </div>
-            ))}
+                  {option.description && (
+                    <div className="text-sm text-slate-500">
+                      {option.description}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
             {loading && (
               <div className="px-3 py-2 text-center text-sm text-slate-500">
                 <Loader2 className="h-4 w-4 animate-spin inline-block mr-2" />
@@ -30,7 +30,7 @@ const NON_DOM_PROPS = new Set([
   'referencedTable', 'referencedFieldID', 'referencedFieldName',
   'disabledOnGray', 'onValueChange', 'onCheckedChange',
   'junctionFilter', 'filterBy', 'filterByValue', 'filterByIds',
-  'dataSource', 'error', 'touched',
+  'dataSource', 'error', 'touched', 'optionCounts',
 ]);
 
 export interface InputProps
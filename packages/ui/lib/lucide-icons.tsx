@@ -14,14 +14,17 @@ import {
   Circle,
   CircleCheckBig,
   CircleUserRound,
+  CloudDownload,
   Copy,
   CreditCard,
   Expand,
+  FileClock,
   FileText,
   Gift,
   Globe,
   Grid,
   Grid2x2,
+  HardDrive,
   Heart,
   HeartPulse,
   History,
@@ -74,14 +77,17 @@ const lucideIconRegistry: Record<string, LucideIcon> = {
   circle: Circle,
   circlecheckbig: CircleCheckBig,
   circleuserround: CircleUserRound,
+  clouddownload: CloudDownload,
   copy: Copy,
   creditcard: CreditCard,
   expand: Expand,
+  fileclock: FileClock,
   filetext: FileText,
   gift: Gift,
   globe: Globe,
   grid: Grid,
   grid2x2: Grid2x2,
+  harddrive: HardDrive,
   heart: Heart,
   heartpulse: HeartPulse,
   history: History,